@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `tasks_title_description_idx` ON `tasks`(`title`, `description`);
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `task_comments_message_idx` ON `task_comments`(`message`);
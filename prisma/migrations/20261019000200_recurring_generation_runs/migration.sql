@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE `recurring_generation_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `started_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finished_at` DATETIME(3) NULL,
+    `horizon_days` INTEGER NOT NULL,
+    `min_occurrences` INTEGER NOT NULL,
+    `templates_checked` INTEGER NOT NULL DEFAULT 0,
+    `templates_extended` INTEGER NOT NULL DEFAULT 0,
+    `templates_failed` INTEGER NOT NULL DEFAULT 0,
+    `instances_created` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `recurring_generation_runs_started_at_idx`(`started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `recurring_generation_results` (
+    `id` VARCHAR(191) NOT NULL,
+    `run_id` VARCHAR(191) NOT NULL,
+    `template_id` VARCHAR(191) NOT NULL,
+    `status` ENUM('EXTENDED', 'FAILED') NOT NULL,
+    `instances_created` INTEGER NOT NULL DEFAULT 0,
+    `error` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `recurring_generation_results_run_id_idx`(`run_id`),
+    INDEX `recurring_generation_results_template_id_idx`(`template_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `recurring_generation_results` ADD CONSTRAINT `recurring_generation_results_run_id_fkey` FOREIGN KEY (`run_id`) REFERENCES `recurring_generation_runs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `recurring_generation_results` ADD CONSTRAINT `recurring_generation_results_template_id_fkey` FOREIGN KEY (`template_id`) REFERENCES `recurring_task_templates`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
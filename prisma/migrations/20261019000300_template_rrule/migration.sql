@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `recurring_task_templates` ADD COLUMN `rrule` TEXT NULL;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE `task_events` MODIFY `type` ENUM('TASK_CREATED', 'TASK_TITLE_CHANGED', 'TASK_DESCRIPTION_CHANGED', 'TASK_DUE_DATE_CHANGED', 'TASK_START_DATE_CHANGED', 'TASK_PRIORITY_CHANGED', 'TASK_PROJECT_CHANGED', 'TASK_STATUS_CHANGED', 'TASK_GOAL_SET', 'TASK_GOAL_REMOVED', 'TASK_DELETED', 'ASSIGNMENT_CREATED', 'ASSIGNMENT_DELETED', 'COMMENT_CREATED', 'COMMENT_UPDATED', 'COMMENT_DELETED', 'PROGRESS_LOGGED', 'SUBTASK_ADDED', 'SUBTASK_REMOVED', 'RECURRING_TEMPLATE_CREATED', 'RECURRING_TEMPLATE_UPDATED', 'RECURRING_TEMPLATE_DEACTIVATED', 'RECURRING_INSTANCE_GENERATED', 'RECURRING_OCCURRENCE_SKIPPED', 'RECURRING_OCCURRENCE_MOVED') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `recurring_template_exceptions` (
+    `id` VARCHAR(191) NOT NULL,
+    `template_id` VARCHAR(191) NOT NULL,
+    `occurrence_date` DATE NOT NULL,
+    `type` ENUM('SKIP', 'MOVE') NOT NULL,
+    `moved_to` DATE NULL,
+    `created_by` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `recurring_template_exceptions_created_by_idx`(`created_by`),
+    UNIQUE INDEX `recurring_template_exceptions_template_id_occurrence_date_key`(`template_id`, `occurrence_date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `recurring_template_exceptions` ADD CONSTRAINT `recurring_template_exceptions_template_id_fkey` FOREIGN KEY (`template_id`) REFERENCES `recurring_task_templates`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `recurring_template_exceptions` ADD CONSTRAINT `recurring_template_exceptions_created_by_fkey` FOREIGN KEY (`created_by`) REFERENCES `users`(`user_id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `working_days` JSON NULL,
+    ADD COLUMN `holidays_seeded_through` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `recurring_task_templates` ADD COLUMN `closed_day_policy` ENUM('IGNORE', 'SKIP', 'NEXT_WORKING_DAY', 'PREVIOUS_WORKING_DAY') NOT NULL DEFAULT 'IGNORE';
+
+-- CreateTable
+CREATE TABLE `organization_closed_days` (
+    `id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `date` DATE NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `is_holiday` BOOLEAN NOT NULL DEFAULT false,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `organization_closed_days_organization_id_date_key`(`organization_id`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `organization_closed_days` ADD CONSTRAINT `organization_closed_days_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
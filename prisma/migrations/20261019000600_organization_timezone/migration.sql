@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `timezone` VARCHAR(191) NULL,
+    ADD COLUMN `morning_briefing_time` VARCHAR(5) NOT NULL DEFAULT '06:25',
+    ADD COLUMN `evening_reminder_time` VARCHAR(5) NOT NULL DEFAULT '20:00';
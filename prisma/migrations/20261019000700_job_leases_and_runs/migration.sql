@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `job_leases` (
+    `job_name` VARCHAR(100) NOT NULL,
+    `holder` VARCHAR(191) NOT NULL,
+    `tick` DATETIME(3) NOT NULL,
+    `locked_until` DATETIME(3) NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`job_name`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `job_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `job_name` VARCHAR(100) NOT NULL,
+    `holder` VARCHAR(191) NOT NULL,
+    `status` ENUM('RUNNING', 'SUCCEEDED', 'FAILED') NOT NULL DEFAULT 'RUNNING',
+    `error` TEXT NULL,
+    `started_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finished_at` DATETIME(3) NULL,
+
+    INDEX `job_runs_job_name_started_at_idx`(`job_name`, `started_at`),
+    INDEX `job_runs_started_at_idx`(`started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
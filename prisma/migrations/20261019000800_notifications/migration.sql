@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `notifications` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED') NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `data` JSON NULL,
+    `task_id` VARCHAR(191) NULL,
+    `read_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `notifications_user_id_created_at_idx`(`user_id`, `created_at`),
+    INDEX `notifications_user_id_read_at_idx`(`user_id`, `read_at`),
+    INDEX `notifications_task_id_idx`(`task_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `notifications` ADD CONSTRAINT `notifications_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `notifications` ADD CONSTRAINT `notifications_task_id_fkey` FOREIGN KEY (`task_id`) REFERENCES `tasks`(`task_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE `notifications` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `quiet_hours_start` VARCHAR(5) NULL,
+    ADD COLUMN `quiet_hours_end` VARCHAR(5) NULL;
+
+-- CreateTable
+CREATE TABLE `notification_preferences` (
+    `user_id` VARCHAR(191) NOT NULL,
+    `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER') NOT NULL,
+    `push` BOOLEAN NOT NULL,
+    `in_app` BOOLEAN NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`user_id`, `type`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `deferred_pushes` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER') NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `data` JSON NULL,
+    `send_after` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `deferred_pushes_send_after_idx`(`send_after`),
+    INDEX `deferred_pushes_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `deferred_pushes` ADD CONSTRAINT `deferred_pushes_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
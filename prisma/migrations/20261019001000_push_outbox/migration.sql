@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE `push_outbox` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER') NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `data` JSON NULL,
+    `status` ENUM('PENDING', 'SENT', 'DELIVERED', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `send_after` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `push_token` VARCHAR(191) NULL,
+    `ticket_id` VARCHAR(191) NULL,
+    `last_error` TEXT NULL,
+    `sent_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `push_outbox_status_send_after_idx`(`status`, `send_after`),
+    INDEX `push_outbox_status_sent_at_idx`(`status`, `sent_at`),
+    INDEX `push_outbox_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `push_outbox` ADD CONSTRAINT `push_outbox_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Pushes still held back by quiet hours move to the outbox
+INSERT INTO `push_outbox` (`id`, `user_id`, `type`, `title`, `body`, `data`, `send_after`, `created_at`, `updated_at`)
+SELECT `id`, `user_id`, `type`, `title`, `body`, `data`, `send_after`, `created_at`, CURRENT_TIMESTAMP(3)
+FROM `deferred_pushes`;
+
+-- DropForeignKey
+ALTER TABLE `deferred_pushes` DROP FOREIGN KEY `deferred_pushes_user_id_fkey`;
+
+-- DropTable
+DROP TABLE `deferred_pushes`;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `default_locale` VARCHAR(10) NOT NULL DEFAULT 'da';
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `locale` VARCHAR(10) NULL;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE `notification_preferences` ADD COLUMN `email` BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing overrides keep the default email channel for their type
+UPDATE `notification_preferences` SET `email` = true WHERE `type` IN ('TASK_ASSIGNED', 'COMMENT_MENTION');
+
+ALTER TABLE `notification_preferences` ALTER COLUMN `email` DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE `email_outbox` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NULL,
+    `to_address` VARCHAR(191) NOT NULL,
+    `subject` VARCHAR(191) NOT NULL,
+    `text` TEXT NOT NULL,
+    `html` TEXT NULL,
+    `status` ENUM('PENDING', 'SENT', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `send_after` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `last_error` TEXT NULL,
+    `sent_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `email_outbox_status_send_after_idx`(`status`, `send_after`),
+    INDEX `email_outbox_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `email_outbox` ADD CONSTRAINT `email_outbox_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `digest_time` VARCHAR(5) NOT NULL DEFAULT '16:00',
+    ADD COLUMN `weekly_digest_day` INTEGER NOT NULL DEFAULT 5;
+
+-- AlterTable
+ALTER TABLE `notifications` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `notification_preferences` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `push_outbox` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'TASK_DONE', 'PROGRESS_LOGGED', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
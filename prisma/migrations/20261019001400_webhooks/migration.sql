@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE `webhook_endpoints` (
+    `id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `description` VARCHAR(191) NULL,
+    `secret` VARCHAR(191) NOT NULL,
+    `event_types` JSON NOT NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `consecutive_failures` INTEGER NOT NULL DEFAULT 0,
+    `disabled_at` DATETIME(3) NULL,
+    `created_by` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `webhook_endpoints_organization_id_idx`(`organization_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_deliveries` (
+    `id` VARCHAR(191) NOT NULL,
+    `endpoint_id` VARCHAR(191) NOT NULL,
+    `event_id` VARCHAR(191) NOT NULL,
+    `event_type` ENUM('TASK_CREATED', 'TASK_TITLE_CHANGED', 'TASK_DESCRIPTION_CHANGED', 'TASK_DUE_DATE_CHANGED', 'TASK_START_DATE_CHANGED', 'TASK_PRIORITY_CHANGED', 'TASK_PROJECT_CHANGED', 'TASK_STATUS_CHANGED', 'TASK_GOAL_SET', 'TASK_GOAL_REMOVED', 'TASK_DELETED', 'ASSIGNMENT_CREATED', 'ASSIGNMENT_DELETED', 'COMMENT_CREATED', 'COMMENT_UPDATED', 'COMMENT_DELETED', 'PROGRESS_LOGGED', 'SUBTASK_ADDED', 'SUBTASK_REMOVED', 'RECURRING_TEMPLATE_CREATED', 'RECURRING_TEMPLATE_UPDATED', 'RECURRING_TEMPLATE_DEACTIVATED', 'RECURRING_INSTANCE_GENERATED', 'RECURRING_OCCURRENCE_SKIPPED', 'RECURRING_OCCURRENCE_MOVED') NOT NULL,
+    `payload` JSON NOT NULL,
+    `status` ENUM('PENDING', 'SUCCEEDED', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `send_after` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `response_status` INTEGER NULL,
+    `response_body` TEXT NULL,
+    `last_error` TEXT NULL,
+    `delivered_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `webhook_deliveries_status_send_after_idx`(`status`, `send_after`),
+    INDEX `webhook_deliveries_endpoint_id_created_at_idx`(`endpoint_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `webhook_endpoints` ADD CONSTRAINT `webhook_endpoints_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_endpoint_id_fkey` FOREIGN KEY (`endpoint_id`) REFERENCES `webhook_endpoints`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
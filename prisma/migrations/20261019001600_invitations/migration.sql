@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE `invitations` (
+    `invitation_id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NULL,
+    `role` ENUM('USER', 'ADMIN', 'SYSTEM', 'SUPER_ADMIN') NOT NULL DEFAULT 'USER',
+    `position_id` VARCHAR(191) NULL,
+    `locale` VARCHAR(10) NULL,
+    `token_hash` VARCHAR(191) NOT NULL,
+    `status` ENUM('PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED') NOT NULL DEFAULT 'PENDING',
+    `expires_at` DATETIME(3) NOT NULL,
+    `invited_by` VARCHAR(191) NULL,
+    `sent_count` INTEGER NOT NULL DEFAULT 1,
+    `last_sent_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `accepted_at` DATETIME(3) NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `invitations_token_hash_key`(`token_hash`),
+    INDEX `invitations_organization_id_status_idx`(`organization_id`, `status`),
+    INDEX `invitations_email_idx`(`email`),
+    INDEX `invitations_status_expires_at_idx`(`status`, `expires_at`),
+    INDEX `invitations_position_id_idx`(`position_id`),
+    INDEX `invitations_invited_by_idx`(`invited_by`),
+    PRIMARY KEY (`invitation_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `invitations` ADD CONSTRAINT `invitations_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `invitations` ADD CONSTRAINT `invitations_position_id_fkey` FOREIGN KEY (`position_id`) REFERENCES `positions`(`position_id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `invitations` ADD CONSTRAINT `invitations_invited_by_fkey` FOREIGN KEY (`invited_by`) REFERENCES `users`(`user_id`) ON DELETE SET NULL ON UPDATE CASCADE;
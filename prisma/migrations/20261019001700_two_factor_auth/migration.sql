@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `require_admin_2fa` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `totp_secret` VARCHAR(64) NULL,
+    ADD COLUMN `totp_enabled_at` DATETIME(3) NULL,
+    ADD COLUMN `totp_last_used_step` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `recovery_codes` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `code_hash` VARCHAR(191) NOT NULL,
+    `used_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `recovery_codes_user_id_code_hash_idx`(`user_id`, `code_hash`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `login_challenges` (
+    `challenge_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `token_hash` VARCHAR(191) NOT NULL,
+    `platform` ENUM('browser', 'mobile') NOT NULL,
+    `device_name` VARCHAR(191) NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `expires_at` DATETIME(3) NOT NULL,
+    `consumed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `login_challenges_token_hash_key`(`token_hash`),
+    INDEX `login_challenges_user_id_idx`(`user_id`),
+    INDEX `login_challenges_expires_at_idx`(`expires_at`),
+    PRIMARY KEY (`challenge_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `recovery_codes` ADD CONSTRAINT `recovery_codes_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `login_challenges` ADD CONSTRAINT `login_challenges_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
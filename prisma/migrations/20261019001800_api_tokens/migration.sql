@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE `api_tokens` (
+    `token_id` VARCHAR(191) NOT NULL,
+    `kind` ENUM('PERSONAL', 'SERVICE') NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `token_prefix` VARCHAR(16) NOT NULL,
+    `token_hash` VARCHAR(191) NOT NULL,
+    `scopes` JSON NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NULL,
+    `role` ENUM('USER', 'ADMIN', 'SYSTEM', 'SUPER_ADMIN') NULL,
+    `created_by` VARCHAR(191) NULL,
+    `expires_at` DATETIME(3) NULL,
+    `last_used_at` DATETIME(3) NULL,
+    `last_used_ip` VARCHAR(45) NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `api_tokens_token_hash_key`(`token_hash`),
+    INDEX `api_tokens_user_id_idx`(`user_id`),
+    INDEX `api_tokens_organization_id_idx`(`organization_id`),
+    INDEX `api_tokens_created_by_idx`(`created_by`),
+    PRIMARY KEY (`token_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `api_tokens` ADD CONSTRAINT `api_tokens_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `api_tokens` ADD CONSTRAINT `api_tokens_created_by_fkey` FOREIGN KEY (`created_by`) REFERENCES `users`(`user_id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `api_tokens` ADD CONSTRAINT `api_tokens_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `org_roles` (
+    `role_id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `description` VARCHAR(191) NULL,
+    `permissions` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `org_roles_organization_id_name_key`(`organization_id`, `name`),
+    PRIMARY KEY (`role_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `org_role_id` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `users_org_role_id_fkey` ON `users`(`org_role_id`);
+
+-- AddForeignKey
+ALTER TABLE `org_roles` ADD CONSTRAINT `org_roles_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `users` ADD CONSTRAINT `users_org_role_id_fkey` FOREIGN KEY (`org_role_id`) REFERENCES `org_roles`(`role_id`) ON DELETE SET NULL ON UPDATE CASCADE;
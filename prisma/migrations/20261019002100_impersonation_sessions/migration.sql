@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE `task_events` ADD COLUMN `impersonator_id` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `impersonation_sessions` (
+    `impersonation_id` VARCHAR(191) NOT NULL,
+    `impersonator_id` VARCHAR(191) NOT NULL,
+    `target_user_id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `reason` VARCHAR(500) NOT NULL,
+    `started_ip` VARCHAR(45) NULL,
+    `started_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expires_at` DATETIME(3) NOT NULL,
+    `ended_at` DATETIME(3) NULL,
+
+    INDEX `impersonation_sessions_impersonator_id_started_at_idx`(`impersonator_id`, `started_at`),
+    INDEX `impersonation_sessions_target_user_id_started_at_idx`(`target_user_id`, `started_at`),
+    PRIMARY KEY (`impersonation_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `task_events_impersonator_id_idx` ON `task_events`(`impersonator_id`);
+
+-- AddForeignKey
+ALTER TABLE `task_events` ADD CONSTRAINT `task_events_impersonator_id_fkey` FOREIGN KEY (`impersonator_id`) REFERENCES `users`(`user_id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `impersonation_sessions` ADD CONSTRAINT `impersonation_sessions_impersonator_id_fkey` FOREIGN KEY (`impersonator_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `impersonation_sessions` ADD CONSTRAINT `impersonation_sessions_target_user_id_fkey` FOREIGN KEY (`target_user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `failed_login_count` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `locked_until` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `login_events` (
+    `login_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `success` BOOLEAN NOT NULL,
+    `platform` ENUM('browser', 'mobile') NULL,
+    `ip` VARCHAR(45) NULL,
+    `location` VARCHAR(191) NULL,
+    `country` VARCHAR(2) NULL,
+    `device_name` VARCHAR(191) NULL,
+    `session_id` VARCHAR(191) NULL,
+    `suspicious` BOOLEAN NOT NULL DEFAULT false,
+    `report_token_hash` VARCHAR(191) NULL,
+    `reported_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `login_events_report_token_hash_key`(`report_token_hash`),
+    INDEX `login_events_user_id_created_at_idx`(`user_id`, `created_at`),
+    INDEX `login_events_created_at_idx`(`created_at`),
+    PRIMARY KEY (`login_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `login_events` ADD CONSTRAINT `login_events_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`user_id`) ON DELETE CASCADE ON UPDATE CASCADE;
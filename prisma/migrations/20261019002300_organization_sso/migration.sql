@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `sso_subject` VARCHAR(255) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `users_organization_id_sso_subject_key` ON `users`(`organization_id`, `sso_subject`);
+
+-- CreateTable
+CREATE TABLE `organization_sso_configs` (
+    `organization_id` VARCHAR(191) NOT NULL,
+    `issuer` VARCHAR(512) NOT NULL,
+    `client_id` VARCHAR(191) NOT NULL,
+    `client_secret` TEXT NOT NULL,
+    `default_role` ENUM('USER', 'ADMIN', 'SYSTEM', 'SUPER_ADMIN') NOT NULL DEFAULT 'USER',
+    `default_position_id` VARCHAR(191) NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `organization_sso_configs_default_position_id_idx`(`default_position_id`),
+    PRIMARY KEY (`organization_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `sso_domains` (
+    `domain` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+
+    INDEX `sso_domains_organization_id_idx`(`organization_id`),
+    PRIMARY KEY (`domain`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `sso_login_states` (
+    `state_id` VARCHAR(191) NOT NULL,
+    `organization_id` VARCHAR(191) NOT NULL,
+    `state_hash` VARCHAR(191) NOT NULL,
+    `nonce` VARCHAR(64) NOT NULL,
+    `code_verifier` VARCHAR(128) NOT NULL,
+    `redirect_uri` VARCHAR(2048) NOT NULL,
+    `platform` ENUM('browser', 'mobile') NOT NULL,
+    `device_name` VARCHAR(191) NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `consumed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `sso_login_states_state_hash_key`(`state_hash`),
+    INDEX `sso_login_states_organization_id_idx`(`organization_id`),
+    INDEX `sso_login_states_expires_at_idx`(`expires_at`),
+    PRIMARY KEY (`state_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `organization_sso_configs` ADD CONSTRAINT `organization_sso_configs_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `organization_sso_configs` ADD CONSTRAINT `organization_sso_configs_default_position_id_fkey` FOREIGN KEY (`default_position_id`) REFERENCES `positions`(`position_id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `sso_domains` ADD CONSTRAINT `sso_domains_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `sso_login_states` ADD CONSTRAINT `sso_login_states_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `task_events` MODIFY `task_id` VARCHAR(191) NULL,
+    ADD COLUMN `template_id` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `task_events_template_id_created_at_idx` ON `task_events`(`template_id`, `created_at`);
+
+-- AddForeignKey
+ALTER TABLE `task_events` ADD CONSTRAINT `task_events_template_id_fkey` FOREIGN KEY (`template_id`) REFERENCES `recurring_task_templates`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `sso_domains` ADD COLUMN `verification_token` VARCHAR(191) NULL,
+    ADD COLUMN `verified_at` DATETIME(3) NULL;
+
+-- Existing domains get a token and must be verified before they route sign-ins
+UPDATE `sso_domains` SET `verification_token` = REPLACE(UUID(), '-', '');
+
+ALTER TABLE `sso_domains` MODIFY `verification_token` VARCHAR(191) NOT NULL;
@@ -0,0 +1,6 @@
+-- Attempts in flight cannot be bound to their client; they are started again
+DELETE FROM `sso_login_states`;
+
+-- AlterTable
+ALTER TABLE `sso_login_states` ADD COLUMN `binding_hash` VARCHAR(191) NOT NULL,
+    MODIFY `code_verifier` VARCHAR(128) NULL;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE `organization_scheduled_sends` (
+    `organization_id` VARCHAR(191) NOT NULL,
+    `kind` ENUM('MORNING_BRIEFING', 'EVENING_REMINDER') NOT NULL,
+    `sent_on` DATE NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`organization_id`, `kind`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `organization_scheduled_sends` ADD CONSTRAINT `organization_scheduled_sends_organization_id_fkey` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`org_id`) ON DELETE CASCADE ON UPDATE CASCADE;
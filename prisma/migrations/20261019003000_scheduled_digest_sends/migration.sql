@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `organization_scheduled_sends` MODIFY `kind` ENUM('MORNING_BRIEFING', 'EVENING_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `job_leases` ADD COLUMN `missed_tick` DATETIME(3) NULL;
@@ -0,0 +1,13 @@
+-- Completed tasks and logged progress reach admins through the digests; nothing sends these types any more.
+DELETE FROM `push_outbox` WHERE `type` IN ('TASK_DONE', 'PROGRESS_LOGGED');
+DELETE FROM `notification_preferences` WHERE `type` IN ('TASK_DONE', 'PROGRESS_LOGGED');
+DELETE FROM `notifications` WHERE `type` IN ('TASK_DONE', 'PROGRESS_LOGGED');
+
+-- AlterTable
+ALTER TABLE `notifications` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `notification_preferences` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `push_outbox` MODIFY `type` ENUM('TASK_ASSIGNED', 'COMMENT_CREATED', 'COMMENT_REPLY', 'COMMENT_MENTION', 'PRIORITY_CHANGED', 'DAILY_BRIEFING', 'NO_ACTIVITY_REMINDER', 'DAILY_DIGEST', 'WEEKLY_DIGEST') NOT NULL;
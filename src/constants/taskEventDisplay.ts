@@ -26,4 +26,6 @@ export const taskEventDisplay: Record<TaskEventType, TaskEventDisplayTarget> = {
   [TaskEventType.RECURRING_TEMPLATE_UPDATED]:     "audit",
   [TaskEventType.RECURRING_TEMPLATE_DEACTIVATED]: "audit",
   [TaskEventType.RECURRING_INSTANCE_GENERATED]:   "timeline",
+  [TaskEventType.RECURRING_OCCURRENCE_SKIPPED]:   "timeline",
+  [TaskEventType.RECURRING_OCCURRENCE_MOVED]:     "timeline",
 };
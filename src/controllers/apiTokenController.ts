@@ -0,0 +1,67 @@
+import type { Request, Response } from "express";
+import * as apiTokenService from "../services/apiTokenService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+
+// ---------------------------------------------------------------------------
+// Personal tokens
+// ---------------------------------------------------------------------------
+
+export async function listTokens(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const tokens = await apiTokenService.listPersonalTokens(userId);
+  return res.json({ success: true, data: tokens });
+}
+
+// The response is the only time the token itself is returned.
+export async function createToken(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const { name, scopes, expires_in_days } = req.body;
+  const token = await apiTokenService.createPersonalToken(userId, { name, scopes, expires_in_days });
+  return res.status(201).json({ success: true, data: token });
+}
+
+export async function revokeToken(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  await apiTokenService.revokePersonalToken(userId, id);
+  return res.json({ success: true });
+}
+
+// ---------------------------------------------------------------------------
+// Service tokens
+// ---------------------------------------------------------------------------
+
+export async function listServiceTokens(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const tokens = await apiTokenService.listServiceTokens(ctx);
+  return res.json({ success: true, data: tokens });
+}
+
+// The response is the only time the token itself is returned.
+export async function createServiceToken(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { name, scopes, expires_in_days, role } = req.body;
+  const token = await apiTokenService.createServiceToken(ctx, { name, scopes, expires_in_days, role });
+  return res.status(201).json({ success: true, data: token });
+}
+
+export async function revokeServiceToken(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await apiTokenService.revokeServiceToken(ctx, id);
+  return res.json({ success: true });
+}
@@ -1,6 +1,7 @@
 import type { Request, Response } from "express";
 import * as authService from "../services/authService";
-import { parseLocation } from "../utils/uaUtils";
+import * as ssoService from "../services/ssoService";
+import { SessionPlatform } from "../generated/prisma/client";
 
 const SESSION_COOKIE_OPTIONS = {
   httpOnly: true,
@@ -10,6 +11,16 @@ const SESSION_COOKIE_OPTIONS = {
   maxAge: 30 * 86400 * 1000,
 };
 
+// Ties a browser's single sign-on attempt to that browser; lives as long as the attempt.
+const SSO_BINDING_COOKIE = "sso_binding";
+const SSO_BINDING_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path: "/api/auth/sso",
+  maxAge: 10 * 60 * 1000,
+};
+
 export async function login(req: Request, res: Response) {
   const isWebClient = req.headers["x-client"] === "browser";
 
@@ -17,14 +28,14 @@ export async function login(req: Request, res: Response) {
     if (isWebClient) {
       const sessionId = (req.cookies as Record<string, string>)?.session_id;
       const result = await authService.authenticateWebUser(req.body, sessionId, req.headers["user-agent"], req.ip);
+      if ("mfa_required" in result) return res.json({ success: true, data: result });
       res.cookie("session_id", result.sessionId, SESSION_COOKIE_OPTIONS);
       return res.json({ success: true, data: { token: result.token, user: result.user, savedAccounts: result.savedAccounts } });
     }
 
     // Mobile flow
     const deviceName = typeof req.body.device_name === "string" ? req.body.device_name.trim() || undefined : undefined;
-    const location = parseLocation(req.ip);
-    const authResult = await authService.authenticateUser(req.body, deviceName, location);
+    const authResult = await authService.authenticateUser(req.body, deviceName, req.ip);
     return res.json({ success: true, data: authResult });
   } catch (error) {
     console.error("Login error:", {
@@ -37,6 +48,80 @@ export async function login(req: Request, res: Response) {
   }
 }
 
+// Second sign-in step for users with two-factor authentication. Responds like login on
+// the platform the challenge was issued for, plus recovery_codes when it completed enrollment.
+export async function verifyLogin(req: Request, res: Response) {
+  const { challenge_token, code, recovery_code } = req.body;
+  const result = await authService.completeLoginChallenge(
+    challenge_token,
+    { code, recovery_code },
+    {
+      sessionId: (req.cookies as Record<string, string>)?.session_id,
+      userAgent: req.headers["user-agent"],
+      ip: req.ip,
+    },
+  );
+
+  if ("mfa_required" in result) return res.json({ success: true, data: result });
+  if (result.platform === SessionPlatform.browser) {
+    res.cookie("session_id", result.sessionId, SESSION_COOKIE_OPTIONS);
+    const { token, user, savedAccounts, recovery_codes } = result;
+    return res.json({ success: true, data: { token, user, savedAccounts, recovery_codes } });
+  }
+  const { token, refresh_token, user, recovery_codes } = result;
+  return res.json({ success: true, data: { token, refresh_token, user, recovery_codes } });
+}
+
+// Single sign-on, first step: the identity provider URL to send the user to. Like login,
+// the session will be a browser one with the X-Client: browser header, else a mobile one.
+// A browser gets the attempt's binding cookie; the app gets a code_verifier to keep for
+// the second step.
+export async function startSsoLogin(req: Request, res: Response) {
+  const platform = req.headers["x-client"] === "browser" ? SessionPlatform.browser : SessionPlatform.mobile;
+  const { email, device_name } = req.body;
+  const { authorization_url, binding } = await ssoService.startSsoLogin({ email, platform, device_name });
+
+  if (platform === SessionPlatform.browser) {
+    res.cookie(SSO_BINDING_COOKIE, binding, SSO_BINDING_COOKIE_OPTIONS);
+    return res.json({ success: true, data: { authorization_url } });
+  }
+  return res.json({ success: true, data: { authorization_url, code_verifier: binding } });
+}
+
+// Single sign-on, second step: the code and state the provider redirected back with, and
+// the app's code_verifier. Responds like login on the platform the attempt started on,
+// including its two-factor challenge.
+export async function completeSsoLogin(req: Request, res: Response) {
+  const { state, code, code_verifier } = req.body;
+  const cookies = req.cookies as Record<string, string> | undefined;
+  res.clearCookie(SSO_BINDING_COOKIE, { path: SSO_BINDING_COOKIE_OPTIONS.path });
+  const result = await authService.completeSsoLogin(
+    state,
+    code,
+    { browserBinding: cookies?.[SSO_BINDING_COOKIE], codeVerifier: code_verifier },
+    {
+      sessionId: cookies?.session_id,
+      userAgent: req.headers["user-agent"],
+      ip: req.ip,
+    },
+  );
+
+  if ("mfa_required" in result) return res.json({ success: true, data: result });
+  if (result.platform === SessionPlatform.browser) {
+    res.cookie("session_id", result.sessionId, SESSION_COOKIE_OPTIONS);
+    const { token, user, savedAccounts } = result;
+    return res.json({ success: true, data: { token, user, savedAccounts } });
+  }
+  const { token, refresh_token, user } = result;
+  return res.json({ success: true, data: { token, refresh_token, user } });
+}
+
+// Setup secret for a login challenge with enrollment_required.
+export async function enrollLogin(req: Request, res: Response) {
+  const setup = await authService.startChallengeEnrollment(req.body.challenge_token);
+  return res.json({ success: true, data: setup });
+}
+
 export async function refresh(req: Request, res: Response) {
   const sessionId = (req.cookies as Record<string, string>)?.session_id;
 
@@ -109,3 +194,15 @@ export async function logout(req: Request, res: Response) {
 
   return res.json({ success: true });
 }
+
+// Always 202, whether or not the email belongs to an account.
+export async function requestPasswordReset(req: Request, res: Response) {
+  await authService.requestPasswordReset(req.body.email);
+  return res.status(202).json({ success: true });
+}
+
+export async function confirmPasswordReset(req: Request, res: Response) {
+  await authService.resetPassword(req.body.token, req.body.password);
+  res.clearCookie("session_id", { path: "/api/auth" });
+  return res.json({ success: true });
+}
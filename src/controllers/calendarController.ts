@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import * as calendarService from "../services/calendarService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { calendarQuerySchema } from "../schemas/calendarSchemas";
+
+export async function getCalendar(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { from, to } = parseQuery(calendarQuerySchema, req.query);
+  const calendar = await calendarService.getCalendar(ctx, {
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+  });
+  return res.json({ success: true, data: calendar });
+}
+
+export async function updateWorkingDays(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const calendar = await calendarService.updateWorkingDays(ctx, req.body.working_days);
+  return res.json({ success: true, data: calendar });
+}
+
+export async function addClosedDay(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { date, name } = req.body;
+  const closedDay = await calendarService.addClosedDay(ctx, { date: new Date(date), name });
+  return res.status(201).json({ success: true, data: closedDay });
+}
+
+export async function removeClosedDay(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await calendarService.removeClosedDay(ctx, id);
+  return res.status(204).send();
+}
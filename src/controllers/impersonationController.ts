@@ -0,0 +1,30 @@
+import type { Request, Response } from "express";
+import * as impersonationService from "../services/impersonationService";
+import { getRequestContext } from "../types/requestContext";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { listImpersonationsQuerySchema } from "../schemas/authSchemas";
+
+// The response is the only time the token is returned. It has no refresh token; start
+// again once it expires.
+export async function startImpersonation(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { user_id, reason } = req.body;
+  const result = await impersonationService.startImpersonation(ctx, { user_id, reason }, req.ip);
+  return res.status(201).json({ success: true, data: result });
+}
+
+// Called with the impersonation token itself.
+export async function stopImpersonation(req: Request, res: Response) {
+  if (!req.user) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await impersonationService.stopImpersonation(req.user.impersonation_id);
+  return res.json({ success: true });
+}
+
+export async function listImpersonations(req: Request, res: Response) {
+  const { user_id, limit } = parseQuery(listImpersonationsQuerySchema, req.query);
+  const sessions = await impersonationService.listImpersonations(user_id, limit);
+  return res.json({ success: true, data: sessions });
+}
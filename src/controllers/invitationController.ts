@@ -0,0 +1,65 @@
+import type { Request, Response } from "express";
+import * as invitationService from "../services/invitationService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { invitationTokenQuerySchema, listInvitationsQuerySchema } from "../schemas/invitationSchemas";
+
+export async function listInvitations(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const query = parseQuery(listInvitationsQuerySchema, req.query);
+  const invitations = await invitationService.listInvitations(ctx, query);
+  return res.json({ success: true, data: invitations });
+}
+
+export async function createInvitation(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { email, name, position_id, role, locale, organization_id } = req.body;
+  const invitation = await invitationService.createInvitation(ctx, {
+    email,
+    name,
+    position_id,
+    role,
+    locale,
+    organization_id,
+  });
+  return res.status(201).json({ success: true, data: invitation });
+}
+
+export async function resendInvitation(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const invitation = await invitationService.resendInvitation(ctx, id);
+  return res.json({ success: true, data: invitation });
+}
+
+export async function revokeInvitation(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await invitationService.revokeInvitation(ctx, id);
+  return res.status(204).send();
+}
+
+export async function previewInvitation(req: Request, res: Response) {
+  const { token } = parseQuery(invitationTokenQuerySchema, req.query);
+  const invitation = await invitationService.previewInvitation(token);
+  return res.json({ success: true, data: invitation });
+}
+
+export async function acceptInvitation(req: Request, res: Response) {
+  const { token, password, name } = req.body;
+  const user = await invitationService.acceptInvitation({ token, password, name });
+  return res.status(201).json({ success: true, data: user });
+}
@@ -0,0 +1,14 @@
+import type { Request, Response } from "express";
+import * as jobService from "../services/jobService";
+import { getRequestContext } from "../types/requestContext";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { listJobRunsQuerySchema } from "../schemas/jobSchemas";
+
+export async function listJobRuns(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const query = parseQuery(listJobRunsQuerySchema, req.query);
+  const runs = await jobService.getJobRuns(query);
+  return res.json({ success: true, data: runs });
+}
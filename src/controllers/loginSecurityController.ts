@@ -0,0 +1,19 @@
+import type { Request, Response } from "express";
+import * as loginSecurityService from "../services/loginSecurityService";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { loginHistoryQuerySchema } from "../schemas/authSchemas";
+
+// The "this wasn't me" link from a new sign-in email; works without being signed in.
+export async function reportLogin(req: Request, res: Response) {
+  await loginSecurityService.reportLogin(req.body.token);
+  return res.json({ success: true });
+}
+
+export async function getLoginHistory(req: Request, res: Response) {
+  const userId = req.user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { limit } = parseQuery(loginHistoryQuerySchema, req.query);
+  const history = await loginSecurityService.getLoginHistory(userId, limit);
+  return res.json({ success: true, data: history });
+}
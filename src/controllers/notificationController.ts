@@ -0,0 +1,60 @@
+import type { Request, Response } from "express";
+import * as inboxService from "../services/inboxService";
+import * as notificationPreferenceService from "../services/notificationPreferenceService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { listNotificationsQuerySchema } from "../schemas/notificationSchemas";
+
+export async function listNotifications(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const query = parseQuery(listNotificationsQuerySchema, req.query);
+  const { notifications, nextCursor } = await inboxService.listNotifications(ctx, query);
+  return res.json({ success: true, data: notifications, next_cursor: nextCursor });
+}
+
+export async function getUnreadCount(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const count = await inboxService.getUnreadCount(ctx);
+  return res.json({ success: true, data: { count } });
+}
+
+export async function markRead(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const notification = await inboxService.markRead(ctx, id);
+  return res.json({ success: true, data: notification });
+}
+
+export async function markAllRead(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const updated = await inboxService.markAllRead(ctx);
+  return res.json({ success: true, data: { updated } });
+}
+
+export async function getPreferences(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const preferences = await notificationPreferenceService.getPreferences(ctx);
+  return res.json({ success: true, data: preferences });
+}
+
+export async function updatePreferences(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { preferences, quiet_hours } = req.body;
+  const updated = await notificationPreferenceService.updatePreferences(ctx, { preferences, quiet_hours });
+  return res.json({ success: true, data: updated });
+}
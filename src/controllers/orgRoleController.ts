@@ -0,0 +1,48 @@
+import type { Request, Response } from "express";
+import * as orgRoleService from "../services/orgRoleService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+
+export async function getPermissions(_req: Request, res: Response) {
+  return res.json({ success: true, data: orgRoleService.getPermissionCatalog() });
+}
+
+export async function listRoles(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const roles = await orgRoleService.listRoles(ctx);
+  return res.json({ success: true, data: roles });
+}
+
+export async function createRole(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { name, description, permissions } = req.body;
+  const role = await orgRoleService.createRole(ctx, { name, description, permissions });
+  return res.status(201).json({ success: true, data: role });
+}
+
+export async function updateRole(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { name, description, permissions } = req.body;
+  const role = await orgRoleService.updateRole(ctx, id, { name, description, permissions });
+  return res.json({ success: true, data: role });
+}
+
+export async function deleteRole(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await orgRoleService.deleteRole(ctx, id);
+  return res.status(204).send();
+}
@@ -14,13 +14,46 @@ export async function getOrganization(req: Request, res: Response) {
 }
 
 export async function createOrganization(req: Request, res: Response) {
-  const { name, slug, logo_url } = req.body;
-  const org = await organizationService.createOrganization({ name: name.trim(), slug: slug.trim(), logo_url });
+  const {
+    name,
+    slug,
+    logo_url,
+    timezone,
+    morning_briefing_time,
+    evening_reminder_time,
+    default_locale,
+    digest_time,
+    weekly_digest_day,
+    require_admin_2fa,
+  } = req.body;
+  const org = await organizationService.createOrganization({
+    name: name.trim(),
+    slug: slug.trim(),
+    logo_url,
+    timezone,
+    morning_briefing_time,
+    evening_reminder_time,
+    default_locale,
+    digest_time,
+    weekly_digest_day,
+    require_admin_2fa,
+  });
   return res.status(201).json({ success: true, data: org });
 }
 
 export async function updateOrganization(req: Request, res: Response) {
-  const { name, slug, logo_url } = req.body;
+  const {
+    name,
+    slug,
+    logo_url,
+    timezone,
+    morning_briefing_time,
+    evening_reminder_time,
+    default_locale,
+    digest_time,
+    weekly_digest_day,
+    require_admin_2fa,
+  } = req.body;
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
 
@@ -28,6 +61,13 @@ export async function updateOrganization(req: Request, res: Response) {
     name: name?.trim(),
     slug: slug?.trim(),
     logo_url,
+    timezone,
+    morning_briefing_time,
+    evening_reminder_time,
+    default_locale,
+    digest_time,
+    weekly_digest_day,
+    require_admin_2fa,
   });
   return res.json({ success: true, data: org });
 }
@@ -31,8 +31,8 @@ export async function createProject(req: Request, res: Response) {
     return res.status(403).json({ success: false, error: "No organization assigned" });
   }
 
-  const { name, description, color } = req.body;
-  const project = await projectService.createProject(ctx, { name: name.trim(), description, color });
+  const { name, description, color, restricted } = req.body;
+  const project = await projectService.createProject(ctx, { name: name.trim(), description, color, restricted });
   return res.status(201).json({ success: true, data: project });
 }
 
@@ -40,11 +40,11 @@ export async function updateProject(req: Request, res: Response) {
   const id = getParamId(req);
   if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
 
-  const { name, description, color } = req.body;
+  const { name, description, color, restricted } = req.body;
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
 
-  const project = await projectService.updateProject(ctx, id, { name: name?.trim(), description, color });
+  const project = await projectService.updateProject(ctx, id, { name: name?.trim(), description, color, restricted });
   return res.json({ success: true, data: project });
 }
 
@@ -58,3 +58,38 @@ export async function deleteProject(req: Request, res: Response) {
   await projectService.deleteProject(ctx, id);
   return res.status(204).send();
 }
+
+export async function listMembers(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const members = await projectService.listMembers(ctx, id);
+  return res.json({ success: true, data: members });
+}
+
+export async function setMember(req: Request, res: Response) {
+  const id = getParamId(req);
+  const userId = getParamId(req, "userId");
+  if (!id || !userId) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const member = await projectService.setMember(ctx, id, userId, req.body.role);
+  return res.json({ success: true, data: member });
+}
+
+export async function removeMember(req: Request, res: Response) {
+  const id = getParamId(req);
+  const userId = getParamId(req, "userId");
+  if (!id || !userId) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await projectService.removeMember(ctx, id, userId);
+  return res.status(204).send();
+}
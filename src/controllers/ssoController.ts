@@ -0,0 +1,45 @@
+import type { Request, Response } from "express";
+import * as ssoService from "../services/ssoService";
+import { getRequestContext } from "../types/requestContext";
+
+// The client secret is never returned.
+export async function getSsoConfig(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const config = await ssoService.getSsoConfig(ctx);
+  return res.json({ success: true, data: config });
+}
+
+export async function saveSsoConfig(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { issuer, client_id, client_secret, allowed_domains, default_role, default_position_id, enabled } = req.body;
+  const config = await ssoService.saveSsoConfig(ctx, {
+    issuer,
+    client_id,
+    client_secret,
+    allowed_domains,
+    default_role,
+    default_position_id,
+    enabled,
+  });
+  return res.json({ success: true, data: config });
+}
+
+export async function deleteSsoConfig(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await ssoService.deleteSsoConfig(ctx);
+  return res.json({ success: true });
+}
+
+export async function verifySsoDomain(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const result = await ssoService.verifySsoDomain(ctx, req.params.domain as string);
+  return res.json({ success: true, data: result });
+}
@@ -3,12 +3,23 @@ import type { CreateTaskInput, UpdateTaskInput } from "../types/task";
 import { getParamId } from "../helper/helpers";
 import { getRequestContext } from "../types/requestContext";
 import * as taskService from "../services/taskService";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { listTasksQuerySchema, searchTasksQuerySchema } from "../schemas/taskSchemas";
 
 export async function listTasks(req: Request, res: Response) {
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
-  const tasks = await taskService.listTasks(ctx);
-  return res.json({ success: true, data: tasks });
+  const query = parseQuery(listTasksQuerySchema, req.query);
+  const { tasks, nextCursor } = await taskService.listTasks(ctx, query);
+  return res.json({ success: true, data: tasks, next_cursor: nextCursor });
+}
+
+export async function searchTasks(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const query = parseQuery(searchTasksQuerySchema, req.query);
+  const results = await taskService.searchTasks(ctx, query);
+  return res.json({ success: true, data: results });
 }
 
 export async function getTask(req: Request, res: Response) {
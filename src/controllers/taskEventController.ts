@@ -1,7 +1,21 @@
 import type { Request, Response } from "express";
 import * as taskService from "../services/taskService";
 import * as storageService from "../services/storageService";
+import * as realtimeService from "../services/realtimeService";
+import * as apiTokenService from "../services/apiTokenService";
 import { getRequestContext } from "../types/requestContext";
+import type { StreamMessage } from "../types/realtime";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { taskEventStreamQuerySchema } from "../schemas/taskEventSchemas";
+
+// How long EventSource clients wait before reconnecting, and how often an idle stream
+// sends a comment so proxies do not close it.
+const STREAM_RETRY_MS = 3000;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+// How often a stream opened with an API token checks that the token is still usable.
+const STREAM_TOKEN_CHECK_MS = 60 * 1000;
+// setTimeout fires at once for longer delays.
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 export async function listTaskEvents(req: Request, res: Response) {
   const taskId = req.params.taskId as string;
@@ -32,3 +46,60 @@ export async function listTaskEvents(req: Request, res: Response) {
 
   res.json({ success: true, data: eventsWithSignedUrls });
 }
+
+function formatStreamMessage(message: StreamMessage): string {
+  if (message.kind === "reset") return "event: reset\ndata: {}\n\n";
+  return `id: ${message.event.event_id}\nevent: task_event\ndata: ${JSON.stringify(message.event)}\n\n`;
+}
+
+// Server-Sent Events stream of the task events the caller can see, optionally narrowed to
+// one task or project. Reconnecting with Last-Event-ID replays what was missed. The stream
+// ends when the access token expires; the client reconnects with a fresh one. A stream
+// opened with an API token also ends once the token is revoked or its user deactivated.
+export async function streamTaskEvents(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { task_id, project_id, last_event_id } = parseQuery(taskEventStreamQuerySchema, req.query);
+  const lastEventId = req.get("Last-Event-ID") || last_event_id || null;
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const unsubscribe = await realtimeService.openStream(ctx, { task_id, project_id }, lastEventId, (message) => {
+    res.write(formatStreamMessage(message));
+  });
+  res.flushHeaders();
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+  const expiresInMs = req.user?.exp ? req.user.exp * 1000 - Date.now() : null;
+  // An API token may expire further out than a timer can wait; its periodic check ends those
+  const expiry = expiresInMs !== null && expiresInMs <= MAX_TIMER_MS
+    ? setTimeout(() => res.end(), Math.max(expiresInMs, 0))
+    : null;
+  const apiTokenId = req.user?.api_token_id;
+  const tokenCheck = apiTokenId
+    ? setInterval(() => {
+        apiTokenService
+          .isApiTokenActive(apiTokenId)
+          .then((active) => {
+            if (!active) res.end();
+          })
+          .catch((err) => console.error("API token check for task event stream failed:", err));
+      }, STREAM_TOKEN_CHECK_MS)
+    : null;
+
+  const close = () => {
+    clearInterval(heartbeat);
+    if (expiry) clearTimeout(expiry);
+    if (tokenCheck) clearInterval(tokenCheck);
+    unsubscribe();
+  };
+  if (req.destroyed) return close();
+  req.on("close", close);
+}
@@ -1,24 +1,26 @@
 import type { Request, Response } from "express";
 import { RecurringTaskService } from "../services/recurringTaskService";
+import { projectVisibilityFor } from "../services/policyService";
 import { validateRecurringTemplateData, getParamId } from "../helper/helpers";
 import { RecurrenceFrequency } from "../generated/prisma/client";
 import { getRequestContext } from "../types/requestContext";
 import { ValidationError } from "../errors/domainErrors";
 import type { CreateTemplateInput, UpdateTemplateInput } from "../types/template";
+import { normalizeRRule, parseTemplateRRule, rruleFrequency, rruleInterval } from "../utils/rruleUtils";
 
 const recurringService = new RecurringTaskService();
 
 export async function listTemplates(req: Request, res: Response) {
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
-  const templates = await recurringService.getAllTemplates(ctx.effectiveOrgId);
+  const templates = await recurringService.getAllTemplates(ctx.effectiveOrgId, projectVisibilityFor(ctx));
   return res.json({ success: true, data: templates });
 }
 
 export async function listActiveTemplates(req: Request, res: Response) {
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
-  const templates = await recurringService.getActiveTemplates(ctx.effectiveOrgId);
+  const templates = await recurringService.getActiveTemplates(ctx.effectiveOrgId, projectVisibilityFor(ctx));
   return res.json({ success: true, data: templates });
 }
 
@@ -28,7 +30,7 @@ export async function getTemplate(req: Request, res: Response) {
 
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
-  const template = await recurringService.getTemplateById(id, ctx.effectiveOrgId);
+  const template = await recurringService.getTemplateById(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
   if (!template) return res.status(404).json({ success: false, error: "Template not found" });
   return res.json({ success: true, data: template });
 }
@@ -44,14 +46,19 @@ export async function createTemplate(req: Request, res: Response) {
     return res.status(400).json({ success: false, error: "created_by must match the authenticated user" });
   }
 
+  // With an RRULE, frequency and interval are derived from the rule so they stay consistent.
+  const rrule = body.rrule ? parseTemplateRRule(body.rrule) : null;
+
   const templateData: CreateTemplateInput = {
     title: body.title,
     description: body.description,
     priority: body.priority,
-    frequency: body.frequency,
-    interval: body.interval,
+    frequency: rrule ? rruleFrequency(rrule) : body.frequency,
+    interval: rrule ? rruleInterval(rrule) : body.interval,
+    rrule: rrule ? normalizeRRule(rrule) : undefined,
     days_of_week: body.days_of_week,
     day_of_month: body.day_of_month,
+    closed_day_policy: body.closed_day_policy,
     start_date: new Date(body.start_date),
     end_date: body.end_date ? new Date(body.end_date) : undefined,
     project_id: body.project_id.trim(),
@@ -61,7 +68,7 @@ export async function createTemplate(req: Request, res: Response) {
   };
 
   const template = await recurringService.createTemplate(ctx, templateData, ctx.effectiveOrgId);
-  const completeTemplate = await recurringService.getTemplateById(template.id, ctx.effectiveOrgId);
+  const completeTemplate = await recurringService.getTemplateById(template.id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 
   return res.status(201).json({ success: true, data: completeTemplate });
 }
@@ -74,7 +81,7 @@ export async function updateTemplate(req: Request, res: Response) {
 
   const body = req.body;
 
-  const existing = await recurringService.getTemplateById(id, ctx.effectiveOrgId);
+  const existing = await recurringService.getTemplateById(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
   if (!existing) return res.status(404).json({ success: false, error: "Template not found" });
 
   if (
@@ -82,12 +89,24 @@ export async function updateTemplate(req: Request, res: Response) {
     body.days_of_week !== undefined ||
     body.day_of_month !== undefined ||
     body.interval !== undefined ||
+    body.rrule !== undefined ||
     body.start_date !== undefined ||
     body.end_date !== undefined
   ) {
     const targetFrequency = body.frequency !== undefined ? body.frequency : existing.frequency;
+    const targetRRule = body.rrule !== undefined ? body.rrule : existing.rrule;
 
-    const validationData = {
+    // A rule replaces the simple fields, so only fields sent in this request can conflict with it
+    const validationData = targetRRule ? {
+      title: body.title !== undefined ? body.title : existing.title,
+      rrule: targetRRule,
+      frequency: body.frequency,
+      start_date: body.start_date !== undefined ? body.start_date : existing.start_date,
+      end_date: body.end_date !== undefined ? body.end_date : existing.end_date,
+      interval: body.interval,
+      days_of_week: body.days_of_week,
+      day_of_month: body.day_of_month,
+    } : {
       title: body.title !== undefined ? body.title : existing.title,
       frequency: body.frequency !== undefined ? body.frequency : existing.frequency,
       start_date: body.start_date !== undefined ? body.start_date : existing.start_date,
@@ -124,6 +143,19 @@ export async function updateTemplate(req: Request, res: Response) {
   if (body.interval !== undefined) updateData.interval = body.interval;
   if (body.days_of_week !== undefined) updateData.days_of_week = body.days_of_week;
   if (body.day_of_month !== undefined) updateData.day_of_month = body.day_of_month;
+  if (body.closed_day_policy !== undefined) updateData.closed_day_policy = body.closed_day_policy;
+  if (body.rrule !== undefined) {
+    if (body.rrule) {
+      const rrule = parseTemplateRRule(body.rrule);
+      updateData.rrule = normalizeRRule(rrule);
+      updateData.frequency = rruleFrequency(rrule);
+      updateData.interval = rruleInterval(rrule);
+      updateData.days_of_week = null;
+      updateData.day_of_month = null;
+    } else {
+      updateData.rrule = null;
+    }
+  }
   if (body.start_date !== undefined) updateData.start_date = new Date(body.start_date);
   if (body.end_date !== undefined) updateData.end_date = body.end_date ? new Date(body.end_date) : null;
   if (body.assigned_users !== undefined && Array.isArray(body.assigned_users)) {
@@ -131,7 +163,7 @@ export async function updateTemplate(req: Request, res: Response) {
   }
 
   await recurringService.updateTemplate(ctx, id, updateData, ctx.effectiveOrgId);
-  const updatedTemplate = await recurringService.getTemplateById(id, ctx.effectiveOrgId);
+  const updatedTemplate = await recurringService.getTemplateById(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 
   return res.json({ success: true, data: updatedTemplate });
 }
@@ -172,6 +204,65 @@ export async function getTemplateInstances(req: Request, res: Response) {
 
   const ctx = getRequestContext(req);
   if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
-  const instances = await recurringService.getTemplateInstances(id, ctx.effectiveOrgId);
+  const instances = await recurringService.getTemplateInstances(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
   return res.json({ success: true, data: instances });
 }
+
+export async function listTemplateExceptions(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const exceptions = await recurringService.getTemplateExceptions(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
+  return res.json({ success: true, data: exceptions });
+}
+
+export async function listTemplateEvents(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const events = await recurringService.getTemplateEvents(id, ctx.effectiveOrgId, projectVisibilityFor(ctx));
+  return res.json({ success: true, data: events });
+}
+
+export async function createTemplateException(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const body = req.body;
+  const exception = await recurringService.addTemplateException(
+    ctx,
+    id,
+    {
+      occurrence_date: new Date(body.occurrence_date),
+      type: body.type,
+      moved_to: body.moved_to ? new Date(body.moved_to) : undefined,
+    },
+    ctx.effectiveOrgId,
+  );
+  return res.status(201).json({ success: true, data: exception });
+}
+
+export async function deleteTemplateException(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+  const exceptionId = getParamId(req, "exceptionId");
+  if (!exceptionId) return res.status(400).json({ success: false, error: "Missing or invalid exceptionId" });
+
+  await recurringService.removeTemplateException(ctx, id, exceptionId, ctx.effectiveOrgId);
+  return res.status(204).send();
+}
+
+export async function listGenerationRuns(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const runs = await recurringService.getGenerationRuns();
+  return res.json({ success: true, data: runs });
+}
@@ -0,0 +1,38 @@
+import type { Request, Response } from "express";
+import * as twoFactorService from "../services/twoFactorService";
+
+export async function getStatus(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const status = await twoFactorService.getStatus(userId);
+  return res.json({ success: true, data: status });
+}
+
+export async function beginSetup(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const setup = await twoFactorService.beginSetup(userId);
+  return res.json({ success: true, data: setup });
+}
+
+// The response is the only time the recovery codes are returned.
+export async function enable(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const result = await twoFactorService.enable(userId, req.body.code);
+  return res.json({ success: true, data: result });
+}
+
+export async function disable(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  await twoFactorService.disable(userId, { code: req.body.code });
+  return res.json({ success: true });
+}
+
+export async function regenerateRecoveryCodes(req: Request, res: Response) {
+  const userId = (req as any).user?.user_id;
+  if (!userId) return res.status(401).json({ success: false, error: "Unauthorized" });
+  const result = await twoFactorService.regenerateRecoveryCodes(userId, { code: req.body.code });
+  return res.json({ success: true, data: result });
+}
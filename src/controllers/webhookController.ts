@@ -0,0 +1,70 @@
+import type { Request, Response } from "express";
+import * as webhookService from "../services/webhookService";
+import { getRequestContext } from "../types/requestContext";
+import { getParamId } from "../helper/helpers";
+import { parseQuery } from "../middleware/validateMiddleware";
+import { listWebhookDeliveriesQuerySchema } from "../schemas/webhookSchemas";
+
+export async function listWebhooks(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const endpoints = await webhookService.listEndpoints(ctx);
+  return res.json({ success: true, data: endpoints });
+}
+
+export async function createWebhook(req: Request, res: Response) {
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { url, description, event_types } = req.body;
+  const endpoint = await webhookService.createEndpoint(ctx, { url, description, event_types });
+  return res.status(201).json({ success: true, data: endpoint });
+}
+
+export async function updateWebhook(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const { url, description, event_types, enabled } = req.body;
+  const endpoint = await webhookService.updateEndpoint(ctx, id, { url, description, event_types, enabled });
+  return res.json({ success: true, data: endpoint });
+}
+
+export async function deleteWebhook(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  await webhookService.deleteEndpoint(ctx, id);
+  return res.status(204).send();
+}
+
+export async function listDeliveries(req: Request, res: Response) {
+  const id = getParamId(req);
+  if (!id) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const query = parseQuery(listWebhookDeliveriesQuerySchema, req.query);
+  const { deliveries, nextCursor } = await webhookService.listDeliveries(ctx, id, query);
+  return res.json({ success: true, data: deliveries, next_cursor: nextCursor });
+}
+
+export async function redeliver(req: Request, res: Response) {
+  const id = getParamId(req);
+  const deliveryId = getParamId(req, "deliveryId");
+  if (!id || !deliveryId) return res.status(400).json({ success: false, error: "Missing or invalid id" });
+
+  const ctx = getRequestContext(req);
+  if (!ctx) return res.status(401).json({ success: false, error: "Unauthorized" });
+
+  const delivery = await webhookService.redeliver(ctx, id, deliveryId);
+  return res.status(202).json({ success: true, data: delivery });
+}
@@ -36,8 +36,8 @@ export class TemplateForbiddenError extends AppError {
 
 // Thrown when a non-admin tries to mutate project structure.
 export class ProjectForbiddenError extends AppError {
-  constructor() {
-    super(403, "Only admins can manage projects");
+  constructor(message = "Only admins can manage projects") {
+    super(403, message);
     this.name = "ProjectForbiddenError";
   }
 }
@@ -166,6 +166,31 @@ export class TemplateNotFoundError extends AppError {
   }
 }
 
+// Thrown when a recurring template exception is not found on the given template.
+export class TemplateExceptionNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Template exception not found: ${id}`);
+    this.name = "TemplateExceptionNotFoundError";
+  }
+}
+
+// Thrown when an occurrence already has a skip or move recorded.
+// The existing exception must be removed before another one can be added.
+export class DuplicateTemplateExceptionError extends AppError {
+  constructor() {
+    super(409, "An exception already exists for this occurrence");
+    this.name = "DuplicateTemplateExceptionError";
+  }
+}
+
+// Thrown when skipping or moving an occurrence whose task has already been worked on.
+export class TemplateOccurrenceStartedError extends AppError {
+  constructor() {
+    super(409, "This occurrence has already been started and cannot be skipped or moved");
+    this.name = "TemplateOccurrenceStartedError";
+  }
+}
+
 // Thrown when a project is not found, or is outside the caller's org scope.
 export class ProjectNotFoundError extends AppError {
   constructor(id: string) {
@@ -174,6 +199,22 @@ export class ProjectNotFoundError extends AppError {
   }
 }
 
+// Thrown when a user is not a member of the project.
+export class ProjectMemberNotFoundError extends AppError {
+  constructor(projectId: string, userId: string) {
+    super(404, `User ${userId} is not a member of project ${projectId}`);
+    this.name = "ProjectMemberNotFoundError";
+  }
+}
+
+// Thrown when removing or demoting a member would leave the project without an owner.
+export class LastProjectOwnerError extends AppError {
+  constructor() {
+    super(409, "A project must keep at least one owner");
+    this.name = "LastProjectOwnerError";
+  }
+}
+
 // Thrown when an organization is not found by ID.
 export class OrganizationNotFoundError extends AppError {
   constructor(id: string) {
@@ -233,6 +274,110 @@ export class DuplicatePositionError extends AppError {
   }
 }
 
+// Thrown when a closed day is not found, or belongs to another organization.
+export class ClosedDayNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Closed day not found: ${id}`);
+    this.name = "ClosedDayNotFoundError";
+  }
+}
+
+// Thrown when the organization already has a closed day on the given date.
+export class DuplicateClosedDayError extends AppError {
+  constructor() {
+    super(409, "The organization already has a closed day on this date");
+    this.name = "DuplicateClosedDayError";
+  }
+}
+
+// Thrown when a notification is not found, or belongs to another user.
+export class NotificationNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Notification not found: ${id}`);
+    this.name = "NotificationNotFoundError";
+  }
+}
+
+// Thrown when a webhook endpoint is not found, or is outside the caller's org scope.
+export class WebhookEndpointNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Webhook endpoint not found: ${id}`);
+    this.name = "WebhookEndpointNotFoundError";
+  }
+}
+
+// Thrown when a webhook delivery is not found, or belongs to another endpoint.
+export class WebhookDeliveryNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Webhook delivery not found: ${id}`);
+    this.name = "WebhookDeliveryNotFoundError";
+  }
+}
+
+// Thrown when redelivering to an endpoint that is disabled.
+export class WebhookEndpointDisabledError extends AppError {
+  constructor() {
+    super(409, "The webhook endpoint is disabled; enable it before redelivering");
+    this.name = "WebhookEndpointDisabledError";
+  }
+}
+
+// Thrown when an invitation is not found, or is outside the caller's org scope.
+export class InvitationNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Invitation not found: ${id}`);
+    this.name = "InvitationNotFoundError";
+  }
+}
+
+// Thrown when resending or revoking an invitation that was already accepted or revoked.
+export class InvitationNotPendingError extends AppError {
+  constructor(status: string) {
+    super(409, `The invitation is ${status.toLowerCase()}`);
+    this.name = "InvitationNotPendingError";
+  }
+}
+
+// Thrown when inviting an email that already has a pending invitation to the organization.
+export class InvitationAlreadyPendingError extends AppError {
+  constructor() {
+    super(409, "This email already has a pending invitation; resend it instead");
+    this.name = "InvitationAlreadyPendingError";
+  }
+}
+
+// Thrown when an organization role is not found, or belongs to another organization.
+export class OrgRoleNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `Role not found: ${id}`);
+    this.name = "OrgRoleNotFoundError";
+  }
+}
+
+// Thrown when an organization already has a role with the requested name.
+export class DuplicateOrgRoleError extends AppError {
+  constructor() {
+    super(409, "A role with this name already exists in the organization");
+    this.name = "DuplicateOrgRoleError";
+  }
+}
+
+// Thrown when an API token is not found, is not the caller's, or is already revoked.
+export class ApiTokenNotFoundError extends AppError {
+  constructor(id: string) {
+    super(404, `API token not found: ${id}`);
+    this.name = "ApiTokenNotFoundError";
+  }
+}
+
+// Thrown when an API token is used outside its scopes, or for an endpoint tokens cannot use.
+export class ApiTokenScopeError extends AppError {
+  constructor(message: string) {
+    super(403, message);
+    this.name = "ApiTokenScopeError";
+  }
+}
+
 // Thrown when a user is already assigned to the target task.
 export class DuplicateAssignmentError extends AppError {
   constructor() {
@@ -265,6 +410,119 @@ export class AuthenticationError extends AppError {
   }
 }
 
+// Thrown when a password reset token is unknown, already used or expired.
+export class InvalidPasswordResetTokenError extends AppError {
+  constructor() {
+    super(400, "The password reset link is invalid or has expired");
+    this.name = "InvalidPasswordResetTokenError";
+  }
+}
+
+// Thrown when a "this wasn't me" link is unknown, already used or expired.
+export class InvalidLoginReportTokenError extends AppError {
+  constructor() {
+    super(400, "The sign-in report link is invalid or has expired");
+    this.name = "InvalidLoginReportTokenError";
+  }
+}
+
+// Thrown when no organization has single sign-on enabled for an email's domain.
+export class SsoNotConfiguredError extends AppError {
+  constructor() {
+    super(404, "Single sign-on is not set up for this email domain");
+    this.name = "SsoNotConfiguredError";
+  }
+}
+
+// Thrown when an organization's single sign-on is looked up or changed but has not been set up.
+export class SsoConfigNotFoundError extends AppError {
+  constructor() {
+    super(404, "Single sign-on is not set up for this organization");
+    this.name = "SsoConfigNotFoundError";
+  }
+}
+
+// Thrown when an email domain is already used for single sign-on by another organization.
+export class SsoDomainTakenError extends AppError {
+  constructor(domain: string) {
+    super(409, `Single sign-on is already set up for ${domain} by another organization`);
+    this.name = "SsoDomainTakenError";
+  }
+}
+
+// Thrown when an email domain is not among the organization's single sign-on domains.
+export class SsoDomainNotFoundError extends AppError {
+  constructor(domain: string) {
+    super(404, `Single sign-on domain not found: ${domain}`);
+    this.name = "SsoDomainNotFoundError";
+  }
+}
+
+// Thrown when a domain's DNS does not have the TXT record that proves the organization owns it.
+export class SsoDomainVerificationFailedError extends AppError {
+  constructor(domain: string) {
+    super(409, `The verification TXT record for ${domain} was not found`);
+    this.name = "SsoDomainVerificationFailedError";
+  }
+}
+
+// Thrown when the identity provider cannot be reached or answers with something unusable.
+export class SsoProviderError extends AppError {
+  constructor(message = "The identity provider could not be reached") {
+    super(502, message);
+    this.name = "SsoProviderError";
+  }
+}
+
+// Thrown when a single sign-on callback does not yield a user that may sign in: an unknown
+// or used state, a rejected code or ID token, or an identity the organization does not allow.
+export class SsoLoginFailedError extends AppError {
+  constructor(message = "Single sign-on failed") {
+    super(401, message);
+    this.name = "SsoLoginFailedError";
+  }
+}
+
+// Thrown when an invitation token is unknown, already used, revoked or expired.
+export class InvalidInvitationTokenError extends AppError {
+  constructor() {
+    super(400, "The invitation link is invalid or has expired");
+    this.name = "InvalidInvitationTokenError";
+  }
+}
+
+// Thrown when a sign-in challenge is unknown, already used, expired or out of attempts.
+export class InvalidLoginChallengeError extends AppError {
+  constructor() {
+    super(401, "The sign-in attempt has expired; sign in again");
+    this.name = "InvalidLoginChallengeError";
+  }
+}
+
+// Thrown when a TOTP or recovery code does not match.
+export class InvalidTwoFactorCodeError extends AppError {
+  constructor() {
+    super(401, "Invalid two-factor code");
+    this.name = "InvalidTwoFactorCodeError";
+  }
+}
+
+// Thrown when starting two-factor setup while it is already enabled.
+export class TwoFactorAlreadyEnabledError extends AppError {
+  constructor() {
+    super(409, "Two-factor authentication is already enabled");
+    this.name = "TwoFactorAlreadyEnabledError";
+  }
+}
+
+// Thrown when an operation needs two-factor authentication (or its setup) to be started first.
+export class TwoFactorNotEnabledError extends AppError {
+  constructor(message = "Two-factor authentication is not enabled") {
+    super(409, message);
+    this.name = "TwoFactorNotEnabledError";
+  }
+}
+
 // Thrown when the organization is manually suspended by a platform admin.
 export class OrganizationSuspendedError extends AppError {
   constructor() {
@@ -1,6 +1,9 @@
 import bcrypt from "bcrypt";
 import { RecurrenceFrequency } from "../generated/prisma/client";
 import type { Request, Response } from "express";
+import type { RequestContext } from "../types/requestContext";
+import { parseTemplateRRule, rruleFrequency } from "../utils/rruleUtils";
+import { can } from "../services/policyService";
 
 export const getIdFromUrl = (url: string): string | undefined => {
   return new URL(url).pathname.split("/").pop();
@@ -41,8 +44,40 @@ export function requireUserId(req: Request, res: Response): string | null {
   return userId;
 }
 
+// The actor of a task event written for a request. While impersonating, the super-admin
+// behind the actor is recorded too.
+export function eventActor(ctx: RequestContext) {
+  return {
+    actor: { connect: { user_id: ctx.actorUserId } },
+    ...(ctx.impersonatorUserId && { impersonator: { connect: { user_id: ctx.impersonatorUserId } } }),
+  };
+}
+
 // Helpers for input validation template
 
+// A task is visible to its creator, its assignees, and holders of task.view.any who can see
+// its project (a restricted project only to its members, unless they hold project.view.any).
+// Pass the task with its assignments and project members loaded (filtering them to the
+// actor is enough).
+export function canAccessTask(
+  task: {
+    created_by: string;
+    assignments?: { user_id: string }[];
+    project: { restricted: boolean; members: { user_id: string }[] };
+  } | null,
+  ctx: RequestContext,
+): boolean {
+  if (!task) return false;
+  if (task.created_by === ctx.actorUserId) return true;
+  if ((task.assignments ?? []).some((a) => a.user_id === ctx.actorUserId)) return true;
+  if (!can(ctx, "task.view.any")) return false;
+  return (
+    can(ctx, "project.view.any") ||
+    !task.project.restricted ||
+    task.project.members.some((m) => m.user_id === ctx.actorUserId)
+  );
+}
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -229,6 +264,60 @@ export function validateInterval(interval: unknown): ValidationResult {
   return { isValid: true };
 }
 
+/**
+ * Validates an RRULE used instead of the simple recurrence fields
+ * @param rrule - RFC 5545 RRULE string (e.g. "FREQ=MONTHLY;BYDAY=-1FR")
+ * @param data - Simple recurrence fields sent alongside the rule
+ * @returns ValidationResult
+ */
+export function validateRRule(
+  rrule: unknown,
+  data: {
+    frequency?: unknown;
+    interval?: unknown;
+    days_of_week?: unknown;
+    day_of_month?: unknown;
+  } = {},
+): ValidationResult {
+  if (typeof rrule !== "string") {
+    return {
+      isValid: false,
+      error: "rrule must be a string",
+    };
+  }
+
+  let frequency: RecurrenceFrequency;
+  try {
+    frequency = rruleFrequency(parseTemplateRRule(rrule));
+  } catch (err) {
+    return {
+      isValid: false,
+      error: (err as Error).message,
+    };
+  }
+
+  // The rule carries its own interval and day selection
+  if (
+    (data.interval !== undefined && data.interval !== null) ||
+    (data.days_of_week !== undefined && data.days_of_week !== null) ||
+    (data.day_of_month !== undefined && data.day_of_month !== null)
+  ) {
+    return {
+      isValid: false,
+      error: "interval, days_of_week and day_of_month should not be set when rrule is used",
+    };
+  }
+
+  if (data.frequency !== undefined && data.frequency !== null && data.frequency !== frequency) {
+    return {
+      isValid: false,
+      error: `frequency must match the rrule FREQ (${frequency})`,
+    };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Comprehensive validation for recurring template data
  * Combines all validation rules
@@ -243,6 +332,7 @@ export function validateRecurringTemplateData(data: {
   interval?: unknown;
   days_of_week?: unknown;
   day_of_month?: unknown;
+  rrule?: unknown;
 }): ValidationResult {
   // Check required fields
   if (
@@ -256,6 +346,15 @@ export function validateRecurringTemplateData(data: {
     };
   }
 
+  // An RRULE replaces frequency, interval, days_of_week and day_of_month
+  if (data.rrule !== undefined && data.rrule !== null) {
+    const rruleValidation = validateRRule(data.rrule, data);
+    if (!rruleValidation.isValid) {
+      return rruleValidation;
+    }
+    return validateDateRange(data.start_date, data.end_date);
+  }
+
   if (!data.frequency) {
     return {
       isValid: false,
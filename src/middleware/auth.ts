@@ -1,5 +1,8 @@
 import type { Request, Response, NextFunction } from "express";
 import * as authService from "../services/authService";
+import * as apiTokenService from "../services/apiTokenService";
+import * as impersonationService from "../services/impersonationService";
+import { ApiTokenScopeError } from "../errors/domainErrors";
 // import "../types/express";
 import { UserRole } from "../generated/prisma/client";
 
@@ -9,49 +12,79 @@ function normalizeOrgId(value: unknown): string | null {
   return trimmed !== "" ? trimmed : null;
 }
 
+// Sets req.user and req.effectiveOrgId for an authenticated identity. Returns false (after
+// responding) when a non-super-admin has no organization.
+function applyIdentity(req: Request, res: Response, user: NonNullable<Request["user"]>): boolean {
+  req.user = user;
+
+  const organizationId = normalizeOrgId(req.user.organization_id);
+
+  if (req.user.role === UserRole.SUPER_ADMIN) {
+    req.effectiveOrgId = normalizeOrgId(req.headers["x-org-context"]);
+  } else if (organizationId) {
+    req.effectiveOrgId = organizationId;
+  } else {
+    res.status(403).json({
+      success: false,
+      error: "No organization assigned",
+    });
+    return false;
+  }
+  return true;
+}
+
+// Accepts access tokens (JWTs) and API tokens. API tokens, and access tokens issued for
+// impersonation (whose session may have been stopped), need a database lookup, so they
+// are resolved asynchronously; API token scope errors go to errorMiddleware.
 export function authenticateToken(
   req: Request,
   res: Response,
   next: NextFunction,
 ) {
-  try {
-    const token = req.headers.authorization?.replace("Bearer ", "");
+  const token = req.headers.authorization?.replace("Bearer ", "");
 
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        error: "No token provided",
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: "No token provided",
+    });
+  }
+
+  if (apiTokenService.isApiToken(token)) {
+    apiTokenService
+      .authenticateApiToken(token, { baseUrl: req.baseUrl, method: req.method, ip: req.ip })
+      .then((identity) => {
+        if (applyIdentity(req, res, identity)) next();
+      })
+      .catch((error) => {
+        if (error instanceof ApiTokenScopeError) return next(error);
+        logTokenFailure(req, error);
+        res.status(401).json({ success: false, error: "Invalid token" });
       });
-    }
+    return;
+  }
 
+  try {
     const payload = authService.verifyToken(token);
-
     // Convert role to UserRole enum
-    req.user = {
-      ...payload,
-      role: payload.role as UserRole,
-    };
-
-    const organizationId = normalizeOrgId(req.user.organization_id);
+    const identity = { ...payload, role: payload.role as UserRole };
 
-    if (req.user.role === UserRole.SUPER_ADMIN) {
-      req.effectiveOrgId = normalizeOrgId(req.headers["x-org-context"]);
-    } else if (organizationId) {
-      req.effectiveOrgId = organizationId;
-    } else {
-      return res.status(403).json({
-        success: false,
-        error: "No organization assigned",
-      });
+    if (payload.impersonation_id) {
+      impersonationService
+        .assertSessionActive(payload.impersonation_id)
+        .then(() => {
+          if (applyIdentity(req, res, identity)) next();
+        })
+        .catch((error) => {
+          logTokenFailure(req, error);
+          res.status(401).json({ success: false, error: "Invalid token" });
+        });
+      return;
     }
 
-    next();
+    if (applyIdentity(req, res, identity)) next();
   } catch (error) {
-    console.error("Token verification failed:", {
-      error: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-      ip: req.ip,
-    });
+    logTokenFailure(req, error);
 
     res.status(401).json({
       success: false,
@@ -60,6 +93,28 @@ export function authenticateToken(
   }
 }
 
+function logTokenFailure(req: Request, error: unknown) {
+  console.error("Token verification failed:", {
+    error: error instanceof Error ? error.message : "Unknown error",
+    timestamp: new Date().toISOString(),
+    ip: req.ip,
+  });
+}
+
+// For credential and session management (API tokens, two-factor, signing out devices):
+// an impersonating super-admin must not leave the user with credentials that outlive the
+// impersonation, or end the user's own sessions.
+export function forbidImpersonation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (req.user?.impersonator_id) {
+    return res.status(403).json({ success: false, error: "Not allowed while impersonating" });
+  }
+  next();
+}
+
 export function requireSuperAdmin(
   req: Request,
   res: Response,
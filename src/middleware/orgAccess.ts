@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { prisma } from "../db/prisma";
 import { getRequestContext } from "../types/requestContext";
+import type { Permission } from "../types/permission";
 import {
   OrganizationSuspendedError,
   OrganizationInactiveError,
@@ -22,7 +23,7 @@ export async function requireOrgAccess(req: Request, _res: Response, next: NextF
   const [user, org] = await Promise.all([
     prisma.user.findUnique({
       where: { user_id: ctx.actorUserId },
-      select: { status: true },
+      select: { status: true, orgRole: { select: { organization_id: true, permissions: true } } },
     }),
     needsOrgCheck
       ? prisma.organization.findUnique({
@@ -34,6 +35,11 @@ export async function requireOrgAccess(req: Request, _res: Response, next: NextF
 
   if (!user || user.status === UserStatus.TERMINATED) throw new UserTerminatedError();
 
+  // The organization role's permissions, for the policy evaluator (policyService.can).
+  if (user.orgRole && user.orgRole.organization_id === ctx.effectiveOrgId) {
+    req.orgRolePermissions = user.orgRole.permissions as Permission[];
+  }
+
   // Super-admins and users with no organization bypass org/subscription checks.
   if (!org) return next();
 
@@ -1,20 +1,33 @@
 import type { Request, Response, NextFunction } from "express";
-import type { ZodType } from "zod";
+import type { ZodError, ZodType } from "zod";
 import { ValidationError } from "../errors/domainErrors";
 
+function toValidationError(error: ZodError): ValidationError {
+  const fields: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const key = issue.path.length > 0 ? issue.path.join(".") : "_root";
+    if (!fields[key]) fields[key] = issue.message;
+  }
+  return new ValidationError("Validation failed", fields);
+}
+
 export function validate(schema: ZodType) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     const result = schema.safeParse(req.body);
     if (!result.success) {
-      const fields: Record<string, string> = {};
-      for (const issue of result.error.issues) {
-        const key = issue.path.length > 0 ? issue.path.join(".") : "_root";
-        if (!fields[key]) fields[key] = issue.message;
-      }
-      next(new ValidationError("Validation failed", fields));
+      next(toValidationError(result.error));
       return;
     }
     req.body = result.data;
     next();
   };
 }
+
+// req.query is a read-only getter in Express 5, so query params are parsed in the
+// controller instead of being replaced by middleware. Throws the same field-level
+// ValidationError as validate().
+export function parseQuery<T>(schema: ZodType<T>, query: unknown): T {
+  const result = schema.safeParse(query);
+  if (!result.success) throw toValidationError(result.error);
+  return result.data;
+}
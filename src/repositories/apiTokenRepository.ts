@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import { prisma } from "../db/prisma";
+import { ApiTokenKind, UserRole } from "../generated/prisma/client";
+import { apiTokenSelect } from "../types/apiToken";
+import { hashToken } from "../utils/tokenUtils";
+
+// last_used_at and last_used_ip are written at most this often per token.
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+interface NewToken {
+  name: string;
+  scopes: string[];
+  expires_at: Date | null;
+  created_by: string;
+}
+
+function generateRawApiToken(kind: ApiTokenKind): string {
+  const prefix = kind === ApiTokenKind.SERVICE ? "sat_" : "pat_";
+  return prefix + crypto.randomBytes(32).toString("base64url");
+}
+
+// ---------------------------------------------------------------------------
+// Creating and listing
+// ---------------------------------------------------------------------------
+
+// Returns the token and its raw value; only the hash is stored.
+export async function createPersonalToken(userId: string, data: NewToken) {
+  const raw = generateRawApiToken(ApiTokenKind.PERSONAL);
+  const token = await prisma.apiToken.create({
+    data: {
+      ...data,
+      kind: ApiTokenKind.PERSONAL,
+      token_prefix: raw.slice(0, 12),
+      token_hash: hashToken(raw),
+      user_id: userId,
+    },
+    select: apiTokenSelect,
+  });
+  return { token, raw };
+}
+
+// Creates the token with its service account: a SYSTEM user in the organization, named
+// after the token, that the token acts as. It stays after the token is revoked so task
+// events and comments keep their actor.
+export async function createServiceToken(orgId: string, role: UserRole, data: NewToken) {
+  const raw = generateRawApiToken(ApiTokenKind.SERVICE);
+  const token = await prisma.$transaction(async (tx) => {
+    const serviceAccount = await tx.user.create({
+      data: {
+        name: data.name,
+        email: `service+${crypto.randomUUID()}@api-tokens.invalid`,
+        // Not a bcrypt hash, so no password matches; SYSTEM users cannot log in anyway.
+        password: "!",
+        role: UserRole.SYSTEM,
+        organization_id: orgId,
+      },
+      select: { user_id: true },
+    });
+    return tx.apiToken.create({
+      data: {
+        ...data,
+        kind: ApiTokenKind.SERVICE,
+        token_prefix: raw.slice(0, 12),
+        token_hash: hashToken(raw),
+        user_id: serviceAccount.user_id,
+        organization_id: orgId,
+        role,
+      },
+      select: apiTokenSelect,
+    });
+  });
+  return { token, raw };
+}
+
+export async function getPersonalTokens(userId: string) {
+  return prisma.apiToken.findMany({
+    where: { kind: ApiTokenKind.PERSONAL, user_id: userId, revoked_at: null },
+    select: apiTokenSelect,
+    orderBy: { created_at: "desc" },
+  });
+}
+
+export async function getServiceTokens(orgId: string) {
+  return prisma.apiToken.findMany({
+    where: { kind: ApiTokenKind.SERVICE, organization_id: orgId, revoked_at: null },
+    select: apiTokenSelect,
+    orderBy: { created_at: "desc" },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Revoking
+// ---------------------------------------------------------------------------
+
+// Returns false when the token does not exist, is not the user's or is already revoked.
+export async function revokePersonalToken(tokenId: string, userId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { token_id: tokenId, kind: ApiTokenKind.PERSONAL, user_id: userId, revoked_at: null },
+    data: { revoked_at: now },
+  });
+  return count > 0;
+}
+
+export async function revokeServiceToken(tokenId: string, orgId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { token_id: tokenId, kind: ApiTokenKind.SERVICE, organization_id: orgId, revoked_at: null },
+    data: { revoked_at: now },
+  });
+  return count > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Authenticating
+// ---------------------------------------------------------------------------
+
+export async function getTokenForAuth(raw: string) {
+  return prisma.apiToken.findUnique({
+    where: { token_hash: hashToken(raw) },
+    select: {
+      token_id: true,
+      kind: true,
+      name: true,
+      scopes: true,
+      organization_id: true,
+      role: true,
+      expires_at: true,
+      revoked_at: true,
+      last_used_at: true,
+      user: {
+        select: { user_id: true, email: true, name: true, role: true, organization_id: true, status: true },
+      },
+    },
+  });
+}
+
+// What decides whether an authenticated token may still be used, e.g. by an open stream.
+export async function getTokenValidity(tokenId: string) {
+  return prisma.apiToken.findUnique({
+    where: { token_id: tokenId },
+    select: { expires_at: true, revoked_at: true, user: { select: { status: true } } },
+  });
+}
+
+// Records the use, at most once per TOUCH_INTERVAL_MS so busy integrations do not write
+// on every request.
+export async function touchToken(tokenId: string, ip: string | undefined, now: Date): Promise<void> {
+  await prisma.apiToken.updateMany({
+    where: {
+      token_id: tokenId,
+      OR: [{ last_used_at: null }, { last_used_at: { lt: new Date(now.getTime() - TOUCH_INTERVAL_MS) } }],
+    },
+    data: { last_used_at: now, last_used_ip: ip ?? null },
+  });
+}
@@ -7,6 +7,7 @@ import { AssignmentNotFoundError, AssignmentCrossOrganizationError, DuplicateAss
 import type { DbClient } from "../types/db";
 import { userSelect } from "../types/user";
 import { signUserProfilePicture } from "./userRepository";
+import { visibleTaskFilter } from "./taskRepository";
 
 async function signAssignmentUser<T extends { user?: any }>(a: T): Promise<T> {
   if (!a.user) return a;
@@ -16,9 +17,21 @@ async function signAssignmentUser<T extends { user?: any }>(a: T): Promise<T> {
 // Re-export for backward compatibility with imports from this module.
 export { AssignmentNotFoundError, AssignmentCrossOrganizationError } from "../errors/domainErrors";
 
-export async function getAllAssignments(orgId: string | null): Promise<TaskAssignment[]> {
+// visibleToUserId limits the assignments to tasks that user can see (see visibleTaskFilter),
+// here and in the other reads.
+function taskScope(orgId: string | null, visibleToUserId: string | null) {
+  return {
+    ...(orgId ? { project: { organization_id: orgId } } : {}),
+    ...visibleTaskFilter(visibleToUserId),
+  };
+}
+
+export async function getAllAssignments(
+  orgId: string | null,
+  visibleToUserId: string | null = null,
+): Promise<TaskAssignment[]> {
   const assignments = await prisma.taskAssignment.findMany({
-    where: orgId ? { task: { project: { organization_id: orgId } } } : undefined,
+    where: orgId || visibleToUserId ? { task: taskScope(orgId, visibleToUserId) } : undefined,
     include: {
       user: { select: userSelect },
       task: {
@@ -37,11 +50,13 @@ export async function getAllAssignments(orgId: string | null): Promise<TaskAssig
   return Promise.all(assignments.map(signAssignmentUser));
 }
 
+// Accepts a DbClient so the caller (service) can include this in its own transaction.
 export async function assignTaskToUser(
+  db: DbClient,
   data: CreateTaskAssignmentInput,
   effectiveOrgId: string | null,
 ): Promise<TaskAssignment> {
-  const task = await prisma.task.findFirst({
+  const task = await (db as any).task.findFirst({
     where: {
       task_id: data.task_id,
       ...(effectiveOrgId ? { project: { organization_id: effectiveOrgId } } : {}),
@@ -50,7 +65,7 @@ export async function assignTaskToUser(
   });
   if (!task) throw new AssignmentCrossOrganizationError("Task not found in organization.");
 
-  const user = await prisma.user.findFirst({
+  const user = await (db as any).user.findFirst({
     where: {
       user_id: data.user_id,
       organization_id: task.project.organization_id,
@@ -63,7 +78,7 @@ export async function assignTaskToUser(
   }
 
   // Check if assignment already exists
-  const existing = await prisma.taskAssignment.findFirst({
+  const existing = await (db as any).taskAssignment.findFirst({
     where: {
       task_id: data.task_id,
       user_id: data.user_id,
@@ -74,7 +89,7 @@ export async function assignTaskToUser(
     throw new DuplicateAssignmentError();
   }
 
-  const assignment = await prisma.taskAssignment.create({
+  const assignment = await (db as any).taskAssignment.create({
     data,
     include: {
       task: { select: { task_id: true, title: true } },
@@ -87,11 +102,12 @@ export async function assignTaskToUser(
 export async function getTaskAssignments(
   taskId: string,
   orgId: string | null,
+  visibleToUserId: string | null = null,
 ): Promise<TaskAssignment[]> {
   const assignments = await prisma.taskAssignment.findMany({
     where: {
       task_id: taskId,
-      ...(orgId ? { task: { project: { organization_id: orgId } } } : {}),
+      ...(orgId || visibleToUserId ? { task: taskScope(orgId, visibleToUserId) } : {}),
     },
     include: {
       user: { select: userSelect },
@@ -103,11 +119,12 @@ export async function getTaskAssignments(
 export async function getAssignmentById(
   assignmentId: string,
   orgId: string | null,
+  visibleToUserId: string | null = null,
 ): Promise<TaskAssignment | null> {
   const assignment = await prisma.taskAssignment.findFirst({
     where: {
       assignment_id: assignmentId,
-      ...(orgId ? { task: { project: { organization_id: orgId } } } : {}),
+      ...(orgId || visibleToUserId ? { task: taskScope(orgId, visibleToUserId) } : {}),
     },
     include: {
       user: { select: userSelect },
@@ -130,11 +147,12 @@ export async function getAssignmentById(
 export async function getUserAssignments(
   userId: string,
   orgId: string | null,
+  visibleToUserId: string | null = null,
 ): Promise<TaskAssignment[]> {
   const assignments = await prisma.taskAssignment.findMany({
     where: {
       user_id: userId,
-      ...(orgId ? { task: { project: { organization_id: orgId } } } : {}),
+      ...(orgId || visibleToUserId ? { task: taskScope(orgId, visibleToUserId) } : {}),
     },
     include: {
       task: {
@@ -11,6 +11,27 @@ export async function getUserByEmail(email: string): Promise<User | null> {
   });
 }
 
+// The full user a login challenge completes for.
+export async function getLoginUserById(userId: string): Promise<User | null> {
+  return prisma.user.findFirst({
+    where: { user_id: userId, role: { notIn: [UserRole.SYSTEM] } },
+  });
+}
+
+// The account a password reset email goes to, with its locale.
+export async function getPasswordResetRecipient(email: string) {
+  return prisma.user.findFirst({
+    where: { email, role: { notIn: [UserRole.SYSTEM] } },
+    select: {
+      user_id: true,
+      email: true,
+      status: true,
+      locale: true,
+      organization: { select: { default_locale: true } },
+    },
+  });
+}
+
 export async function getUserById(userId: string): Promise<SafeUser | null> {
   const user = await prisma.user.findUnique({
     where: { user_id: userId },
@@ -0,0 +1,98 @@
+import { Prisma } from "../generated/prisma/client";
+import type { OrganizationClosedDay } from "../generated/prisma/client";
+import { prisma } from "../db/prisma";
+import type { DbClient } from "../types/db";
+import type { PublicHoliday } from "../utils/holidayUtils";
+import { ClosedDayNotFoundError, DuplicateClosedDayError } from "../errors/domainErrors";
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+export async function getWorkingDays(db: DbClient, orgId: string): Promise<Prisma.JsonValue | null> {
+  const org = await (db as any).organization.findUnique({
+    where: { org_id: orgId },
+    select: { working_days: true },
+  });
+  return org?.working_days ?? null;
+}
+
+// Both bounds are inclusive @db.Date values; omitted bounds are open.
+export async function getClosedDays(
+  db: DbClient,
+  orgId: string,
+  from?: Date,
+  to?: Date,
+): Promise<OrganizationClosedDay[]> {
+  return (db as any).organizationClosedDay.findMany({
+    where: {
+      organization_id: orgId,
+      ...(from || to ? { date: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+    },
+    orderBy: { date: "asc" },
+  });
+}
+
+export async function hasClosedDay(orgId: string, date: Date): Promise<boolean> {
+  const count = await prisma.organizationClosedDay.count({
+    where: { organization_id: orgId, date },
+  });
+  return count > 0;
+}
+
+export async function getOrganizationsWithHolidaysBefore(year: number) {
+  return prisma.organization.findMany({
+    where: { OR: [{ holidays_seeded_through: null }, { holidays_seeded_through: { lt: year } }] },
+    select: { org_id: true, holidays_seeded_through: true, timezone: true },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+export async function createClosedDay(orgId: string, date: Date, name: string) {
+  try {
+    return await prisma.organizationClosedDay.create({
+      data: { organization_id: orgId, date, name },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new DuplicateClosedDayError();
+    }
+    throw err;
+  }
+}
+
+export async function deleteClosedDayInOrg(id: string, orgId: string): Promise<void> {
+  const result = await prisma.organizationClosedDay.deleteMany({
+    where: { id, organization_id: orgId },
+  });
+  if (result.count === 0) throw new ClosedDayNotFoundError(id);
+}
+
+export async function updateWorkingDays(orgId: string, workingDays: number[]) {
+  return prisma.organization.update({
+    where: { org_id: orgId },
+    data: { working_days: workingDays },
+    select: { org_id: true, working_days: true },
+  });
+}
+
+// Days the organization already has (holiday or not) are left untouched.
+export async function seedHolidays(
+  db: DbClient,
+  orgId: string,
+  holidays: PublicHoliday[],
+  seededThrough: number,
+): Promise<number> {
+  const { count } = await (db as any).organizationClosedDay.createMany({
+    data: holidays.map((h) => ({ organization_id: orgId, date: h.date, name: h.name, is_holiday: true })),
+    skipDuplicates: true,
+  });
+  await (db as any).organization.update({
+    where: { org_id: orgId },
+    data: { holidays_seeded_through: seededThrough },
+  });
+  return count;
+}
@@ -2,7 +2,9 @@ import { prisma } from "../db/prisma";
 import { AttachmentStatus, Prisma } from "../generated/prisma/client";
 import { confirmAttachments } from "./attachmentRepository";
 import { signUserProfilePicture } from "./userRepository";
-import { appDayBounds } from "../utils/dateUtils";
+import { getOrganizationTimeZone } from "./organizationRepository";
+import { visibleProjectFilter } from "./projectRepository";
+import { appDateKey, appDayBounds, dateKeyBounds, subDaysFromKey } from "../utils/dateUtils";
 import type { DbClient } from "../types/db";
 import { CommentNotFoundError } from "../errors/domainErrors";
 
@@ -69,6 +71,14 @@ export async function getCommentById(commentId: string) {
   return { ...comment, author: await signUserProfilePicture(comment.author) };
 }
 
+export async function getCommentMessagesByIds(commentIds: string[]) {
+  if (commentIds.length === 0) return [];
+  return prisma.taskComment.findMany({
+    where: { comment_id: { in: commentIds } },
+    select: { comment_id: true, task_id: true, message: true, created_at: true },
+  });
+}
+
 // Accepts a DbClient so the caller (service) can include this in its own transaction.
 // Returns the updated comment and the GCS paths of removed attachments so the caller
 // can clean up GCS storage after the transaction commits.
@@ -117,13 +127,23 @@ export async function deleteComment(db: DbClient, commentId: string) {
   });
 }
 
-export async function getTodayCommentsByOrg(orgId: string) {
-  const { start, end } = appDayBounds(new Date());
+// "Today" is the organization's own calendar day.
+export async function getTodayCommentsByOrg(orgId: string, visibleToUserId: string | null = null) {
+  return getRecentCommentsByOrg(orgId, 1, visibleToUserId);
+}
+
+// Comments from the last `days` calendar days of the organization, today included.
+// visibleToUserId limits them to tasks in projects that user can see.
+export async function getRecentCommentsByOrg(orgId: string, days: number, visibleToUserId: string | null = null) {
+  const timeZone = await getOrganizationTimeZone(orgId);
+  const now = new Date();
+  const { end } = appDayBounds(now, timeZone);
+  const { start } = dateKeyBounds(subDaysFromKey(appDateKey(now, timeZone), days - 1), timeZone);
 
   const comments = await prisma.taskComment.findMany({
     where: {
       created_at: { gte: start, lt: end },
-      task: { project: { organization_id: orgId } },
+      task: { project: { organization_id: orgId, ...visibleProjectFilter(visibleToUserId) } },
     },
     include: {
       author: { select: { user_id: true, name: true, email: true, profile_picture_url: true } },
@@ -0,0 +1,65 @@
+import { prisma } from "../db/prisma";
+import { EmailStatus } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import type { NewEmail } from "../types/email";
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+// Oldest first.
+export async function getDueEmails(now: Date, limit: number) {
+  return prisma.emailOutbox.findMany({
+    where: { status: EmailStatus.PENDING, send_after: { lte: now } },
+    orderBy: { send_after: "asc" },
+    take: limit,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+// Accepts a DbClient so the email is written in the caller's transaction.
+export async function enqueueEmail(db: DbClient, email: NewEmail, sendAfter: Date) {
+  return (db as any).emailOutbox.create({
+    data: {
+      user_id: email.user_id ?? null,
+      to_address: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html ?? null,
+      send_after: sendAfter,
+    },
+  });
+}
+
+export async function markSent(id: string, sentAt: Date, attempts: number) {
+  await prisma.emailOutbox.update({
+    where: { id },
+    data: { status: EmailStatus.SENT, sent_at: sentAt, attempts, last_error: null },
+  });
+}
+
+// Leaves the email in the queue, to be sent again at sendAfter.
+export async function scheduleRetry(id: string, attempts: number, sendAfter: Date, error: string) {
+  await prisma.emailOutbox.update({
+    where: { id },
+    data: { attempts, send_after: sendAfter, last_error: error },
+  });
+}
+
+export async function markFailed(id: string, attempts: number, error: string) {
+  await prisma.emailOutbox.update({
+    where: { id },
+    data: { status: EmailStatus.FAILED, attempts, last_error: error },
+  });
+}
+
+// Pending emails are kept however old they are.
+export async function deleteFinishedBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.emailOutbox.deleteMany({
+    where: { status: { not: EmailStatus.PENDING }, created_at: { lt: cutoff } },
+  });
+  return count;
+}
@@ -0,0 +1,58 @@
+import { prisma } from "../db/prisma";
+
+const impersonationSelect = {
+  impersonation_id: true,
+  reason: true,
+  started_ip: true,
+  started_at: true,
+  expires_at: true,
+  ended_at: true,
+  organization_id: true,
+  impersonator: { select: { user_id: true, name: true, email: true } },
+  target: { select: { user_id: true, name: true, email: true } },
+} as const;
+
+export async function getTarget(userId: string) {
+  return prisma.user.findUnique({
+    where: { user_id: userId },
+    select: { user_id: true, email: true, name: true, role: true, status: true, organization_id: true },
+  });
+}
+
+export async function createSession(data: {
+  impersonator_id: string;
+  target_user_id: string;
+  organization_id: string;
+  reason: string;
+  started_ip: string | null;
+  started_at: Date;
+  expires_at: Date;
+}) {
+  return prisma.impersonationSession.create({ data, select: impersonationSelect });
+}
+
+export async function getSession(impersonationId: string) {
+  return prisma.impersonationSession.findUnique({
+    where: { impersonation_id: impersonationId },
+    select: { impersonation_id: true, expires_at: true, ended_at: true },
+  });
+}
+
+// Returns false when the session was already ended.
+export async function endSession(impersonationId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.impersonationSession.updateMany({
+    where: { impersonation_id: impersonationId, ended_at: null },
+    data: { ended_at: now },
+  });
+  return count > 0;
+}
+
+// Newest first, optionally for one impersonated user.
+export async function listSessions(targetUserId: string | undefined, limit: number) {
+  return prisma.impersonationSession.findMany({
+    where: targetUserId ? { target_user_id: targetUserId } : undefined,
+    select: impersonationSelect,
+    orderBy: { started_at: "desc" },
+    take: limit,
+  });
+}
@@ -0,0 +1,156 @@
+import { prisma } from "../db/prisma";
+import { InvitationStatus, Prisma, UserRole } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import { invitationSelect } from "../types/invitation";
+import { userSelect } from "../types/user";
+import { generateRawLinkToken, hashToken } from "../utils/tokenUtils";
+import { EmailAlreadyInUseError } from "../errors/domainErrors";
+
+// Invitations that can still be resent or revoked.
+const OPEN_STATUSES = [InvitationStatus.PENDING, InvitationStatus.EXPIRED];
+
+export interface NewInvitation {
+  organization_id: string;
+  email: string;
+  name?: string | null;
+  role: UserRole;
+  position_id?: string | null;
+  locale?: string | null;
+  invited_by: string;
+}
+
+// ---------------------------------------------------------------------------
+// Admin API
+// ---------------------------------------------------------------------------
+
+// orgId null lists every organization's invitations (super-admins without org context).
+export async function getInvitations(orgId: string | null, status?: InvitationStatus) {
+  return prisma.invitation.findMany({
+    where: {
+      ...(orgId ? { organization_id: orgId } : {}),
+      ...(status ? { status } : {}),
+    },
+    select: invitationSelect,
+    orderBy: { created_at: "desc" },
+  });
+}
+
+export async function getInvitationById(id: string, orgId: string | null) {
+  return prisma.invitation.findFirst({
+    where: { invitation_id: id, ...(orgId ? { organization_id: orgId } : {}) },
+    select: invitationSelect,
+  });
+}
+
+// A pending invitation for the email to the organization that has not expired yet.
+export async function hasPendingInvitation(email: string, orgId: string, now: Date): Promise<boolean> {
+  const invitation = await prisma.invitation.findFirst({
+    where: { email, organization_id: orgId, status: InvitationStatus.PENDING, expires_at: { gt: now } },
+    select: { invitation_id: true },
+  });
+  return !!invitation;
+}
+
+// Returns the invitation and the raw token for its link; only the hash is stored.
+export async function createInvitation(db: DbClient, data: NewInvitation, expiresAt: Date, now: Date) {
+  const raw = generateRawLinkToken();
+  const invitation = await (db as any).invitation.create({
+    data: { ...data, token_hash: hashToken(raw), expires_at: expiresAt, last_sent_at: now },
+    select: invitationSelect,
+  });
+  return { invitation, raw };
+}
+
+// Issues a new token for a pending or expired invitation, so the link in earlier emails
+// stops working, and makes it pending again until expiresAt. Returns null when the
+// invitation is no longer open.
+export async function reissueInvitation(db: DbClient, id: string, expiresAt: Date, now: Date) {
+  const raw = generateRawLinkToken();
+  const { count } = await (db as any).invitation.updateMany({
+    where: { invitation_id: id, status: { in: OPEN_STATUSES } },
+    data: {
+      token_hash: hashToken(raw),
+      status: InvitationStatus.PENDING,
+      expires_at: expiresAt,
+      last_sent_at: now,
+      sent_count: { increment: 1 },
+    },
+  });
+  if (count === 0) return null;
+  const invitation = await (db as any).invitation.findUnique({ where: { invitation_id: id }, select: invitationSelect });
+  return { invitation, raw };
+}
+
+// Returns false when the invitation is outside the scope or no longer open.
+export async function revokeInvitation(id: string, orgId: string | null, now: Date): Promise<boolean> {
+  const { count } = await prisma.invitation.updateMany({
+    where: {
+      invitation_id: id,
+      status: { in: OPEN_STATUSES },
+      ...(orgId ? { organization_id: orgId } : {}),
+    },
+    data: { status: InvitationStatus.REVOKED, revoked_at: now },
+  });
+  return count > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Accepting
+// ---------------------------------------------------------------------------
+
+export async function getInvitationByToken(raw: string) {
+  return prisma.invitation.findUnique({
+    where: { token_hash: hashToken(raw) },
+    select: invitationSelect,
+  });
+}
+
+// Marks the invitation accepted and creates its user in one transaction. The conditional
+// update makes the link single-use even under concurrent requests. Returns null when the
+// invitation is no longer pending or has expired.
+export async function acceptInvitation(
+  id: string,
+  user: { name: string | null; passwordHash: string },
+  now: Date,
+) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const accepted = await tx.invitation.updateMany({
+        where: { invitation_id: id, status: InvitationStatus.PENDING, expires_at: { gt: now } },
+        data: { status: InvitationStatus.ACCEPTED, accepted_at: now },
+      });
+      if (accepted.count === 0) return null;
+
+      const invitation = await tx.invitation.findUniqueOrThrow({ where: { invitation_id: id } });
+      return tx.user.create({
+        data: {
+          name: user.name,
+          email: invitation.email,
+          password: user.passwordHash,
+          role: invitation.role,
+          position_id: invitation.position_id,
+          locale: invitation.locale,
+          organization_id: invitation.organization_id,
+        },
+        select: userSelect,
+      });
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new EmailAlreadyInUseError();
+    }
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Expiry (scheduler)
+// ---------------------------------------------------------------------------
+
+export async function expireInvitations(now: Date): Promise<number> {
+  const { count } = await prisma.invitation.updateMany({
+    where: { status: InvitationStatus.PENDING, expires_at: { lte: now } },
+    data: { status: InvitationStatus.EXPIRED },
+  });
+  return count;
+}
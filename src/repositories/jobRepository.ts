@@ -0,0 +1,109 @@
+import { prisma } from "../db/prisma";
+import { JobRunStatus, Prisma } from "../generated/prisma/client";
+
+// ---------------------------------------------------------------------------
+// Leases
+// ---------------------------------------------------------------------------
+
+// Claims the job's lease for `tick`. Succeeds only if no replica has claimed this
+// tick (or a later one) and the previous holder's lease has run out, so exactly one
+// replica wins each tick and a run that is still going is never overlapped.
+export async function acquireLease(
+  jobName: string,
+  holder: string,
+  tick: Date,
+  lockedUntil: Date,
+  now: Date,
+): Promise<boolean> {
+  const { count } = await prisma.jobLease.updateMany({
+    where: { job_name: jobName, tick: { lt: tick }, locked_until: { lte: now } },
+    data: { holder, tick, locked_until: lockedUntil },
+  });
+  if (count === 1) return true;
+
+  try {
+    await prisma.jobLease.create({
+      data: { job_name: jobName, holder, tick, locked_until: lockedUntil },
+    });
+    return true;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return false;
+    throw err;
+  }
+}
+
+// Keeps a tick that fired while another claim of the job was still running, so its
+// holder runs the job again for it. A tick some replica already claimed is not missed.
+export async function recordMissedTick(jobName: string, tick: Date): Promise<void> {
+  await prisma.jobLease.updateMany({
+    where: {
+      job_name: jobName,
+      tick: { lt: tick },
+      OR: [{ missed_tick: null }, { missed_tick: { lt: tick } }],
+    },
+    data: { missed_tick: tick },
+  });
+}
+
+// Moves the holder's claim from the tick it just finished to the latest missed tick and
+// extends the lease. Returns that tick, or null when no tick was missed meanwhile.
+export async function claimMissedTick(
+  jobName: string,
+  holder: string,
+  tick: Date,
+  lockedUntil: Date,
+): Promise<Date | null> {
+  const lease = await prisma.jobLease.findUnique({
+    where: { job_name: jobName },
+    select: { missed_tick: true },
+  });
+  const missed = lease?.missed_tick;
+  if (!missed || missed <= tick) return null;
+
+  const { count } = await prisma.jobLease.updateMany({
+    where: { job_name: jobName, holder, tick },
+    data: { tick: missed, locked_until: lockedUntil },
+  });
+  return count === 1 ? missed : null;
+}
+
+// Ends the lease early so the next tick is not blocked. The tick stays claimed.
+export async function releaseLease(jobName: string, holder: string, now: Date): Promise<void> {
+  await prisma.jobLease.updateMany({
+    where: { job_name: jobName, holder },
+    data: { locked_until: now },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Run history
+// ---------------------------------------------------------------------------
+
+export async function createRun(jobName: string, holder: string) {
+  return prisma.jobRun.create({
+    data: { job_name: jobName, holder },
+  });
+}
+
+export async function finishRun(runId: string, status: JobRunStatus, error?: string) {
+  return prisma.jobRun.update({
+    where: { id: runId },
+    data: { status, error: error ?? null, finished_at: new Date() },
+  });
+}
+
+// Most recent runs first, optionally for a single job.
+export async function getRecentRuns(limit: number, jobName?: string) {
+  return prisma.jobRun.findMany({
+    where: jobName ? { job_name: jobName } : undefined,
+    orderBy: { started_at: "desc" },
+    take: limit,
+  });
+}
+
+export async function deleteRunsStartedBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.jobRun.deleteMany({
+    where: { started_at: { lt: cutoff } },
+  });
+  return count;
+}
@@ -0,0 +1,138 @@
+import { prisma } from "../db/prisma";
+import type { SessionPlatform } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import { generateRawLinkToken, hashToken } from "../utils/tokenUtils";
+
+export interface NewLoginEvent {
+  user_id: string;
+  success: boolean;
+  platform: SessionPlatform;
+  ip: string | null;
+  location: string | null;
+  country: string | null;
+  device_name: string | null;
+  session_id?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Failed attempts and lockout
+// ---------------------------------------------------------------------------
+
+// Returns the user's consecutive failed attempts, this one included. With a null user the
+// same statements run against no row and it returns 0, so an attempt that is not counted
+// takes as long as one that is.
+export async function incrementFailedLogins(userId: string | null): Promise<number> {
+  const where = { user_id: userId ?? "" };
+  await prisma.user.updateMany({ where, data: { failed_login_count: { increment: 1 } } });
+  const user = await prisma.user.findUnique({ where, select: { failed_login_count: true } });
+  return user?.failed_login_count ?? 0;
+}
+
+export async function lockUntil(userId: string, until: Date): Promise<void> {
+  await prisma.user.update({ where: { user_id: userId }, data: { locked_until: until } });
+}
+
+export async function resetFailedLogins(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { user_id: userId },
+    data: { failed_login_count: 0, locked_until: null },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Login history
+// ---------------------------------------------------------------------------
+
+export async function createLoginEvent(db: DbClient, data: NewLoginEvent): Promise<void> {
+  await db.loginEvent.create({ data });
+}
+
+// Creates the event for a suspicious sign-in with its "this wasn't me" token. Returns the
+// raw token; only its hash is stored.
+export async function createReportableLoginEvent(db: DbClient, data: NewLoginEvent): Promise<string> {
+  const raw = generateRawLinkToken();
+  await db.loginEvent.create({ data: { ...data, suspicious: true, report_token_hash: hashToken(raw) } });
+  return raw;
+}
+
+// The countries and devices of the user's earlier successful sign-ins.
+export async function getKnownOrigins(userId: string) {
+  const [countries, devices] = await Promise.all([
+    prisma.loginEvent.findMany({
+      where: { user_id: userId, success: true, country: { not: null } },
+      distinct: ["country"],
+      select: { country: true },
+    }),
+    prisma.loginEvent.findMany({
+      where: { user_id: userId, success: true, device_name: { not: null } },
+      distinct: ["device_name"],
+      select: { device_name: true },
+    }),
+  ]);
+  return {
+    countries: countries.map((c) => c.country!),
+    devices: devices.map((d) => d.device_name!),
+  };
+}
+
+export async function hasSuccessfulLogin(userId: string): Promise<boolean> {
+  const event = await prisma.loginEvent.findFirst({
+    where: { user_id: userId, success: true },
+    select: { login_id: true },
+  });
+  return !!event;
+}
+
+// Where a new-sign-in email goes, with what it needs to be written in the user's locale
+// and time zone.
+export async function getAlertRecipient(userId: string) {
+  return prisma.user.findUnique({
+    where: { user_id: userId },
+    select: {
+      user_id: true,
+      email: true,
+      locale: true,
+      organization: { select: { default_locale: true, timezone: true } },
+    },
+  });
+}
+
+export async function getLoginHistory(userId: string, limit: number) {
+  return prisma.loginEvent.findMany({
+    where: { user_id: userId },
+    select: {
+      login_id: true,
+      success: true,
+      platform: true,
+      ip: true,
+      location: true,
+      device_name: true,
+      suspicious: true,
+      reported_at: true,
+      created_at: true,
+    },
+    orderBy: { created_at: "desc" },
+    take: limit,
+  });
+}
+
+export async function getLoginEventByReportToken(raw: string) {
+  return prisma.loginEvent.findUnique({
+    where: { report_token_hash: hashToken(raw) },
+    select: { login_id: true, user_id: true, session_id: true, reported_at: true, created_at: true },
+  });
+}
+
+// Returns false when the sign-in was already reported.
+export async function markReported(loginId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.loginEvent.updateMany({
+    where: { login_id: loginId, reported_at: null },
+    data: { reported_at: now },
+  });
+  return count > 0;
+}
+
+export async function deleteLoginEventsBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.loginEvent.deleteMany({ where: { created_at: { lt: cutoff } } });
+  return count;
+}
@@ -0,0 +1,137 @@
+import { prisma } from "../db/prisma";
+import type { NotificationType, Prisma } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import type {
+  DeliverySettings,
+  ListNotificationsQuery,
+  NotificationChannels,
+  NotificationContent,
+  QuietHours,
+} from "../types/notification";
+import { NotificationNotFoundError } from "../errors/domainErrors";
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+// Newest first. The cursor is the id of the last notification on the previous page.
+export async function getNotificationsForUser(userId: string, query: ListNotificationsQuery) {
+  return prisma.notification.findMany({
+    where: { user_id: userId, ...(query.unread ? { read_at: null } : {}) },
+    orderBy: [{ created_at: "desc" }, { id: "desc" }],
+    take: query.limit,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+}
+
+export async function countUnreadForUser(userId: string): Promise<number> {
+  return prisma.notification.count({
+    where: { user_id: userId, read_at: null },
+  });
+}
+
+export async function notificationExistsForUser(id: string, userId: string): Promise<boolean> {
+  const count = await prisma.notification.count({
+    where: { id, user_id: userId },
+  });
+  return count > 0;
+}
+
+// Accepts a DbClient so a notification sent in a transaction reads the recipient's settings there.
+export async function getDeliverySettings(
+  db: DbClient,
+  userId: string,
+  type: NotificationType,
+): Promise<DeliverySettings | null> {
+  const user = await (db as any).user.findUnique({
+    where: { user_id: userId },
+    select: {
+      email: true,
+      quiet_hours_start: true,
+      quiet_hours_end: true,
+      locale: true,
+      organization: { select: { timezone: true, default_locale: true } },
+      notificationPreferences: { where: { type }, select: { push: true, in_app: true, email: true } },
+    },
+  });
+  if (!user) return null;
+  return {
+    email: user.email,
+    quiet_hours_start: user.quiet_hours_start,
+    quiet_hours_end: user.quiet_hours_end,
+    timezone: user.organization.timezone,
+    locale: user.locale ?? user.organization.default_locale,
+    preference: user.notificationPreferences[0] ?? null,
+  };
+}
+
+// The user's stored overrides (types without a row use the defaults) and quiet hours.
+export async function getPreferenceSettings(userId: string) {
+  return prisma.user.findUnique({
+    where: { user_id: userId },
+    select: {
+      quiet_hours_start: true,
+      quiet_hours_end: true,
+      notificationPreferences: { select: { type: true, push: true, in_app: true, email: true } },
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+// Accepts a DbClient so the notification is written in the caller's transaction.
+export async function createNotification(db: DbClient, userId: string, notification: NotificationContent) {
+  return (db as any).notification.create({
+    data: {
+      user_id: userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data as Prisma.InputJsonValue | undefined,
+      task_id: notification.task_id ?? null,
+    },
+  });
+}
+
+// Already-read notifications keep their original read_at.
+export async function markReadForUser(id: string, userId: string, readAt: Date) {
+  const result = await prisma.notification.updateMany({
+    where: { id, user_id: userId, read_at: null },
+    data: { read_at: readAt },
+  });
+  if (result.count === 0 && !(await notificationExistsForUser(id, userId))) {
+    throw new NotificationNotFoundError(id);
+  }
+  return prisma.notification.findUniqueOrThrow({ where: { id } });
+}
+
+export async function markAllReadForUser(userId: string, readAt: Date): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { user_id: userId, read_at: null },
+    data: { read_at: readAt },
+  });
+  return count;
+}
+
+export async function upsertPreferences(
+  db: DbClient,
+  userId: string,
+  preferences: (NotificationChannels & { type: NotificationType })[],
+): Promise<void> {
+  for (const { type, push, in_app, email } of preferences) {
+    await (db as any).notificationPreference.upsert({
+      where: { user_id_type: { user_id: userId, type } },
+      create: { user_id: userId, type, push, in_app, email },
+      update: { push, in_app, email },
+    });
+  }
+}
+
+export async function updateQuietHours(db: DbClient, userId: string, quietHours: QuietHours | null): Promise<void> {
+  await (db as any).user.update({
+    where: { user_id: userId },
+    data: { quiet_hours_start: quietHours?.start ?? null, quiet_hours_end: quietHours?.end ?? null },
+  });
+}
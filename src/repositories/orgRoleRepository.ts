@@ -0,0 +1,68 @@
+import { Prisma } from "../generated/prisma/client";
+import { prisma } from "../db/prisma";
+import { orgRoleSelect, type CreateOrgRoleInput, type UpdateOrgRoleInput } from "../types/permission";
+import { DuplicateOrgRoleError, OrgRoleNotFoundError } from "../errors/domainErrors";
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+export async function getRoles(orgId: string) {
+  return prisma.orgRole.findMany({
+    where: { organization_id: orgId },
+    select: orgRoleSelect,
+    orderBy: { name: "asc" },
+  });
+}
+
+export async function getRoleById(roleId: string, orgId: string) {
+  return prisma.orgRole.findFirst({
+    where: { role_id: roleId, organization_id: orgId },
+    select: orgRoleSelect,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+export async function createRole(orgId: string, data: CreateOrgRoleInput) {
+  try {
+    return await prisma.orgRole.create({
+      data: { ...data, organization_id: orgId },
+      select: orgRoleSelect,
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new DuplicateOrgRoleError();
+    }
+    throw err;
+  }
+}
+
+export async function updateRoleInOrg(roleId: string, orgId: string, data: UpdateOrgRoleInput) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const result = await tx.orgRole.updateMany({
+        where: { role_id: roleId, organization_id: orgId },
+        data,
+      });
+      if (result.count === 0) throw new OrgRoleNotFoundError(roleId);
+      return tx.orgRole.findUniqueOrThrow({ where: { role_id: roleId }, select: orgRoleSelect });
+    });
+  } catch (err) {
+    if (err instanceof OrgRoleNotFoundError) throw err;
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new DuplicateOrgRoleError();
+    }
+    throw err;
+  }
+}
+
+// Members with the role keep their built-in role (org_role_id is set to null).
+export async function deleteRoleInOrg(roleId: string, orgId: string): Promise<void> {
+  const result = await prisma.orgRole.deleteMany({
+    where: { role_id: roleId, organization_id: orgId },
+  });
+  if (result.count === 0) throw new OrgRoleNotFoundError(roleId);
+}
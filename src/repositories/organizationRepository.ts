@@ -1,7 +1,8 @@
 import { prisma } from "../db/prisma";
-import type { Organization } from "../generated/prisma/client";
+import { Prisma, type Organization, type ScheduledSendKind } from "../generated/prisma/client";
 import { getPublicAssetUrl } from "../services/storageService";
 import { OrganizationNotFoundError } from "../errors/domainErrors";
+import { APP_TIMEZONE } from "../utils/dateUtils";
 
 // Re-export for backward compatibility with imports from this module.
 export { OrganizationNotFoundError } from "../errors/domainErrors";
@@ -10,12 +11,26 @@ export interface CreateOrganizationInput {
   name: string;
   slug: string;
   logo_url?: string | null;
+  timezone?: string | null;
+  morning_briefing_time?: string;
+  evening_reminder_time?: string;
+  default_locale?: string;
+  digest_time?: string;
+  weekly_digest_day?: number;
+  require_admin_2fa?: boolean;
 }
 
 export interface UpdateOrganizationInput {
   name?: string;
   slug?: string;
   logo_url?: string | null;
+  timezone?: string | null;
+  morning_briefing_time?: string;
+  evening_reminder_time?: string;
+  default_locale?: string;
+  digest_time?: string;
+  weekly_digest_day?: number;
+  require_admin_2fa?: boolean;
 }
 
 function withPublicLogo<T extends { logo_url: string | null }>(org: T): T {
@@ -51,6 +66,59 @@ export async function getOrganizationBySlug(slug: string): Promise<Organization
   return withPublicLogo(org);
 }
 
+// The organization's IANA timezone, falling back to APP_TIMEZONE when it has none set.
+export async function getOrganizationTimeZone(orgId: string): Promise<string> {
+  const org = await prisma.organization.findUnique({
+    where: { org_id: orgId },
+    select: { timezone: true },
+  });
+  return org?.timezone ?? APP_TIMEZONE;
+}
+
+// Clock settings the scheduler needs to decide when each organization's pushes are due.
+export async function getPushSchedules() {
+  return prisma.organization.findMany({
+    select: {
+      org_id: true,
+      timezone: true,
+      morning_briefing_time: true,
+      evening_reminder_time: true,
+      working_days: true,
+    },
+  });
+}
+
+// Clock settings the scheduler needs to decide when each organization's admin digests are due.
+export async function getDigestSchedules() {
+  return prisma.organization.findMany({
+    select: {
+      org_id: true,
+      timezone: true,
+      digest_time: true,
+      weekly_digest_day: true,
+      working_days: true,
+    },
+  });
+}
+
+// Records that the organization's scheduled send went out for the local date `day`.
+// Returns false when it already went out for that day, so only one caller sends it.
+export async function claimScheduledSend(orgId: string, kind: ScheduledSendKind, day: Date): Promise<boolean> {
+  const { count } = await prisma.organizationScheduledSend.updateMany({
+    where: { organization_id: orgId, kind, sent_on: { lt: day } },
+    data: { sent_on: day },
+  });
+  if (count === 1) return true;
+
+  try {
+    await prisma.organizationScheduledSend.create({ data: { organization_id: orgId, kind, sent_on: day } });
+    return true;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return false;
+    throw err;
+  }
+}
+
 export async function createOrganization(data: CreateOrganizationInput): Promise<Organization> {
   const org = await prisma.organization.create({ data });
   return withPublicLogo(org);
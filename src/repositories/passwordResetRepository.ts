@@ -0,0 +1,50 @@
+import { prisma } from "../db/prisma";
+import type { DbClient } from "../types/db";
+import { generateRawLinkToken, hashToken } from "../utils/tokenUtils";
+
+// Issues a new token and invalidates the user's earlier unused ones, so only the latest
+// reset email works. Returns the raw token; only its hash is stored.
+export async function createPasswordResetToken(db: DbClient, userId: string, expiresAt: Date): Promise<string> {
+  const raw = generateRawLinkToken();
+  await (db as any).passwordResetToken.updateMany({
+    where: { user_id: userId, used_at: null },
+    data: { used_at: new Date() },
+  });
+  await (db as any).passwordResetToken.create({
+    data: { user_id: userId, token_hash: hashToken(raw), expires_at: expiresAt },
+  });
+  return raw;
+}
+
+// Consumes the token and sets the new password hash in one transaction, lifting any
+// sign-in lockout. The conditional update makes the token single-use even under
+// concurrent requests. Returns the user id, or null when the token is unknown, used or
+// expired.
+export async function consumePasswordResetToken(raw: string, passwordHash: string, now: Date): Promise<string | null> {
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { token_hash: hashToken(raw) },
+    select: { token_id: true, user_id: true },
+  });
+  if (!stored) return null;
+
+  return prisma.$transaction(async (tx) => {
+    const consumed = await tx.passwordResetToken.updateMany({
+      where: { token_id: stored.token_id, used_at: null, expires_at: { gt: now } },
+      data: { used_at: now },
+    });
+    if (consumed.count === 0) return null;
+
+    await tx.user.update({
+      where: { user_id: stored.user_id },
+      data: { password: passwordHash, failed_login_count: 0, locked_until: null },
+    });
+    return stored.user_id;
+  });
+}
+
+export async function deleteExpiredBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.passwordResetToken.deleteMany({
+    where: { expires_at: { lt: cutoff } },
+  });
+  return count;
+}
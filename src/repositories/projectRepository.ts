@@ -1,18 +1,27 @@
 import { prisma } from "../db/prisma";
-import type { Project } from "../generated/prisma/client";
+import { ProjectMemberRole, type Prisma, type Project } from "../generated/prisma/client";
 import type { CreateProjectInput, UpdateProjectInput } from "../types/project";
+import type { DbClient } from "../types/db";
+import { APP_TIMEZONE } from "../utils/dateUtils";
 import { ProjectNotFoundError } from "../errors/domainErrors";
 
 // Re-export for backward compatibility with imports from this module.
 export { ProjectNotFoundError } from "../errors/domainErrors";
 
+// Limits project queries to the projects a user can see: every unrestricted project and
+// the restricted ones they are a member of. Pass null for callers that see every project.
+export function visibleProjectFilter(visibleToUserId: string | null): Prisma.ProjectWhereInput {
+  if (!visibleToUserId) return {};
+  return { OR: [{ restricted: false }, { members: { some: { user_id: visibleToUserId } } }] };
+}
+
 // ---------------------------------------------------------------------------
 // Reads
 // ---------------------------------------------------------------------------
 
-export async function getAllProjects(orgId: string | null): Promise<Project[]> {
+export async function getAllProjects(orgId: string | null, visibleToUserId: string | null = null): Promise<Project[]> {
   return prisma.project.findMany({
-    where: orgId ? { organization_id: orgId } : undefined,
+    where: { ...(orgId ? { organization_id: orgId } : {}), ...visibleProjectFilter(visibleToUserId) },
     orderBy: { created_at: "asc" },
   });
 }
@@ -23,17 +32,70 @@ export async function getProjectById(id: string, orgId: string | null): Promise<
   });
 }
 
-export async function getProjectWithTasks(id: string, orgId: string | null) {
+export async function getProjectWithTasks(id: string, orgId: string | null, visibleToUserId: string | null = null) {
   return prisma.project.findFirst({
-    where: { project_id: id, ...(orgId ? { organization_id: orgId } : {}) },
+    where: { project_id: id, ...(orgId ? { organization_id: orgId } : {}), ...visibleProjectFilter(visibleToUserId) },
     include: { tasks: { orderBy: { created_at: "desc" } } },
   });
 }
 
+// The timezone of the project's organization, falling back to APP_TIMEZONE when it has none set.
+export async function getProjectTimeZone(db: DbClient, projectId: string): Promise<string> {
+  const project = await (db as any).project.findUnique({
+    where: { project_id: projectId },
+    select: { organization: { select: { timezone: true } } },
+  });
+  return project?.organization.timezone ?? APP_TIMEZONE;
+}
+
+// Whether a project is restricted and the user's role in it (null when not a member).
+export async function getProjectAccess(projectId: string, userId: string, orgId: string | null) {
+  const project = await prisma.project.findFirst({
+    where: { project_id: projectId, ...(orgId ? { organization_id: orgId } : {}) },
+    select: {
+      organization_id: true,
+      restricted: true,
+      members: { where: { user_id: userId }, select: { role: true } },
+    },
+  });
+  if (!project) return null;
+  return {
+    organization_id: project.organization_id,
+    restricted: project.restricted,
+    role: project.members[0]?.role ?? null,
+  };
+}
+
+export async function getMemberRole(projectId: string, userId: string): Promise<ProjectMemberRole | null> {
+  const member = await prisma.projectMember.findUnique({
+    where: { project_id_user_id: { project_id: projectId, user_id: userId } },
+    select: { role: true },
+  });
+  return member?.role ?? null;
+}
+
+export async function countOwners(projectId: string): Promise<number> {
+  return prisma.projectMember.count({ where: { project_id: projectId, role: ProjectMemberRole.OWNER } });
+}
+
+export async function getMembers(projectId: string) {
+  return prisma.projectMember.findMany({
+    where: { project_id: projectId },
+    select: {
+      user_id: true,
+      role: true,
+      created_at: true,
+      user: { select: { name: true, email: true } },
+    },
+    orderBy: { created_at: "asc" },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Creates
 // ---------------------------------------------------------------------------
 
+// The creator becomes the project's first owner.
 export async function createProject(
   input: CreateProjectInput,
   createdBy: string,
@@ -44,12 +106,24 @@ export async function createProject(
       name: input.name,
       description: input.description,
       color: input.color,
+      restricted: input.restricted,
       created_by: createdBy,
       organization_id: orgId,
+      members: { create: { user_id: createdBy, role: ProjectMemberRole.OWNER } },
     },
   });
 }
 
+// Adds the user to the project or changes their role.
+export async function upsertMember(projectId: string, userId: string, role: ProjectMemberRole) {
+  return prisma.projectMember.upsert({
+    where: { project_id_user_id: { project_id: projectId, user_id: userId } },
+    create: { project_id: projectId, user_id: userId, role },
+    update: { role },
+    select: { user_id: true, role: true, created_at: true },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Updates
 // ---------------------------------------------------------------------------
@@ -74,6 +148,14 @@ export async function updateProject(
 // Deletes
 // ---------------------------------------------------------------------------
 
+// Returns false when the user was not a member.
+export async function removeMember(projectId: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.projectMember.deleteMany({
+    where: { project_id: projectId, user_id: userId },
+  });
+  return count > 0;
+}
+
 export async function deleteProject(id: string, orgId: string | null): Promise<void> {
   const existing = await prisma.project.findFirst({
     where: { project_id: id, ...(orgId ? { organization_id: orgId } : {}) },
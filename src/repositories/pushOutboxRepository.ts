@@ -0,0 +1,83 @@
+import { prisma } from "../db/prisma";
+import { PushStatus, type Prisma } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import type { NotificationContent } from "../types/notification";
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+// Oldest first, with the recipient's current token and status.
+export async function getDuePushes(now: Date, limit: number) {
+  return prisma.pushOutbox.findMany({
+    where: { status: PushStatus.PENDING, send_after: { lte: now } },
+    include: { user: { select: { push_token: true, status: true } } },
+    orderBy: { send_after: "asc" },
+    take: limit,
+  });
+}
+
+// Sent pushes whose receipt should be ready: sent in [sentFrom, sentBefore).
+export async function getPushesAwaitingReceipt(sentFrom: Date, sentBefore: Date, limit: number) {
+  return prisma.pushOutbox.findMany({
+    where: { status: PushStatus.SENT, sent_at: { gte: sentFrom, lt: sentBefore } },
+    orderBy: { sent_at: "asc" },
+    take: limit,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+// Accepts a DbClient so the push is written in the caller's transaction.
+export async function enqueuePush(db: DbClient, userId: string, notification: NotificationContent, sendAfter: Date) {
+  return (db as any).pushOutbox.create({
+    data: {
+      user_id: userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data as Prisma.InputJsonValue | undefined,
+      send_after: sendAfter,
+    },
+  });
+}
+
+export async function markSent(id: string, pushToken: string, ticketId: string, sentAt: Date, attempts: number) {
+  await prisma.pushOutbox.update({
+    where: { id },
+    data: { status: PushStatus.SENT, push_token: pushToken, ticket_id: ticketId, sent_at: sentAt, attempts, last_error: null },
+  });
+}
+
+export async function markDelivered(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await prisma.pushOutbox.updateMany({
+    where: { id: { in: ids } },
+    data: { status: PushStatus.DELIVERED },
+  });
+}
+
+// Puts the push back in the queue, to be sent again at sendAfter.
+export async function scheduleRetry(id: string, attempts: number, sendAfter: Date, error: string) {
+  await prisma.pushOutbox.update({
+    where: { id },
+    data: { status: PushStatus.PENDING, attempts, send_after: sendAfter, last_error: error, ticket_id: null },
+  });
+}
+
+export async function markFailed(id: string, attempts: number, error: string) {
+  await prisma.pushOutbox.update({
+    where: { id },
+    data: { status: PushStatus.FAILED, attempts, last_error: error },
+  });
+}
+
+// Pending pushes are kept however old they are.
+export async function deleteFinishedBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.pushOutbox.deleteMany({
+    where: { status: { not: PushStatus.PENDING }, created_at: { lt: cutoff } },
+  });
+  return count;
+}
@@ -0,0 +1,60 @@
+import { prisma } from "../db/prisma";
+import { RecurringGenerationStatus } from "../generated/prisma/client";
+import type { RecurringHorizon } from "../types/template";
+
+export async function createRun(horizon: RecurringHorizon) {
+  return prisma.recurringGenerationRun.create({
+    data: { horizon_days: horizon.days, min_occurrences: horizon.minOccurrences },
+  });
+}
+
+export async function recordResult(
+  runId: string,
+  templateId: string,
+  status: RecurringGenerationStatus,
+  instancesCreated: number,
+  error?: string,
+) {
+  return prisma.recurringGenerationResult.create({
+    data: {
+      run_id: runId,
+      template_id: templateId,
+      status,
+      instances_created: instancesCreated,
+      error: error ?? null,
+    },
+  });
+}
+
+export async function finishRun(
+  runId: string,
+  totals: {
+    templates_checked: number;
+    templates_extended: number;
+    templates_failed: number;
+    instances_created: number;
+  },
+) {
+  return prisma.recurringGenerationRun.update({
+    where: { id: runId },
+    data: { ...totals, finished_at: new Date() },
+  });
+}
+
+// Most recent runs first, each with the templates it extended or failed on.
+export async function getRecentRuns(limit: number) {
+  return prisma.recurringGenerationRun.findMany({
+    orderBy: { started_at: "desc" },
+    take: limit,
+    include: {
+      results: {
+        orderBy: { created_at: "asc" },
+        include: {
+          template: {
+            select: { id: true, title: true, project: { select: { project_id: true, name: true, organization_id: true } } },
+          },
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,210 @@
+import { prisma } from "../db/prisma";
+import type { Prisma, SessionPlatform, User, UserRole } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import type { SaveSsoConfigInput } from "../types/sso";
+import { generateRawLinkToken, hashToken } from "../utils/tokenUtils";
+
+// Everything but the client secret, which is never returned.
+const configSelect = {
+  organization_id: true,
+  issuer: true,
+  client_id: true,
+  default_role: true,
+  default_position_id: true,
+  enabled: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.OrganizationSsoConfigSelect;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export async function getConfig(orgId: string) {
+  const config = await prisma.organizationSsoConfig.findUnique({
+    where: { organization_id: orgId },
+    select: configSelect,
+  });
+  if (!config) return null;
+  const domains = await prisma.ssoDomain.findMany({
+    where: { organization_id: orgId },
+    select: { domain: true, verification_token: true, verified_at: true },
+    orderBy: { domain: "asc" },
+  });
+  return { ...config, allowed_domains: domains.map((d) => d.domain), domains };
+}
+
+// The enabled configuration, with its secret, of the organization that has verified an
+// email domain.
+export async function getEnabledConfigByDomain(domain: string) {
+  const owner = await prisma.ssoDomain.findFirst({
+    where: { domain, verified_at: { not: null } },
+    select: { organization: { select: { ssoConfig: true } } },
+  });
+  const config = owner?.organization.ssoConfig;
+  return config?.enabled ? config : null;
+}
+
+export async function getConfigWithSecret(orgId: string) {
+  return prisma.organizationSsoConfig.findUnique({ where: { organization_id: orgId } });
+}
+
+export async function isDomainAllowed(orgId: string, domain: string): Promise<boolean> {
+  const count = await prisma.ssoDomain.count({
+    where: { organization_id: orgId, domain, verified_at: { not: null } },
+  });
+  return count > 0;
+}
+
+// The domains among these that another organization has verified.
+export async function getDomainsTakenByOthers(orgId: string, domains: string[]): Promise<string[]> {
+  const taken = await prisma.ssoDomain.findMany({
+    where: { domain: { in: domains }, organization_id: { not: orgId }, verified_at: { not: null } },
+    select: { domain: true },
+  });
+  return taken.map((d) => d.domain);
+}
+
+export async function getDomain(orgId: string, domain: string) {
+  return prisma.ssoDomain.findFirst({ where: { domain, organization_id: orgId } });
+}
+
+export async function markDomainVerified(domain: string, now: Date): Promise<void> {
+  await prisma.ssoDomain.update({ where: { domain }, data: { verified_at: now } });
+}
+
+export async function upsertConfig(db: DbClient, orgId: string, data: SaveSsoConfigInput): Promise<void> {
+  const fields = {
+    issuer: data.issuer,
+    client_id: data.client_id,
+    ...(data.client_secret !== undefined && { client_secret: data.client_secret }),
+    ...(data.default_role !== undefined && { default_role: data.default_role }),
+    ...(data.default_position_id !== undefined && { default_position_id: data.default_position_id }),
+    ...(data.enabled !== undefined && { enabled: data.enabled }),
+  };
+  await db.organizationSsoConfig.upsert({
+    where: { organization_id: orgId },
+    create: { organization_id: orgId, client_secret: data.client_secret ?? "", ...fields },
+    update: fields,
+  });
+}
+
+// Domains the organization keeps stay verified; new ones get a verification token. Another
+// organization's unverified claim on one of them is dropped.
+export async function replaceDomains(db: DbClient, orgId: string, domains: string[]): Promise<void> {
+  await db.ssoDomain.deleteMany({ where: { organization_id: orgId, domain: { notIn: domains } } });
+  await db.ssoDomain.deleteMany({
+    where: { domain: { in: domains }, organization_id: { not: orgId }, verified_at: null },
+  });
+  const kept = await db.ssoDomain.findMany({
+    where: { organization_id: orgId, domain: { in: domains } },
+    select: { domain: true },
+  });
+  const keptDomains = new Set(kept.map((d) => d.domain));
+  const added = domains.filter((domain) => !keptDomains.has(domain));
+  if (added.length === 0) return;
+  await db.ssoDomain.createMany({
+    data: added.map((domain) => ({
+      domain,
+      organization_id: orgId,
+      verification_token: generateRawLinkToken(),
+    })),
+  });
+}
+
+// Every domain of the organization has to be verified again, with a new TXT record.
+export async function resetDomainVerification(db: DbClient, orgId: string): Promise<void> {
+  const domains = await db.ssoDomain.findMany({ where: { organization_id: orgId }, select: { domain: true } });
+  for (const { domain } of domains) {
+    await db.ssoDomain.update({
+      where: { domain },
+      data: { verified_at: null, verification_token: generateRawLinkToken() },
+    });
+  }
+}
+
+// Returns false when the organization has no single sign-on.
+export async function deleteConfig(db: DbClient, orgId: string): Promise<boolean> {
+  await db.ssoDomain.deleteMany({ where: { organization_id: orgId } });
+  const { count } = await db.organizationSsoConfig.deleteMany({ where: { organization_id: orgId } });
+  return count > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Sign-in states
+// ---------------------------------------------------------------------------
+
+// Returns the raw state, the only time it is available.
+export async function createLoginState(data: {
+  organization_id: string;
+  binding_hash: string;
+  nonce: string;
+  code_verifier: string | null;
+  redirect_uri: string;
+  platform: SessionPlatform;
+  device_name?: string;
+  expires_at: Date;
+}): Promise<string> {
+  const raw = generateRawLinkToken();
+  await prisma.ssoLoginState.create({ data: { ...data, state_hash: hashToken(raw) } });
+  return raw;
+}
+
+// Uses up a state. Returns null when it is unknown, already used or expired.
+export async function consumeLoginState(raw: string, now: Date) {
+  const state = await prisma.ssoLoginState.findUnique({ where: { state_hash: hashToken(raw) } });
+  if (!state) return null;
+  const { count } = await prisma.ssoLoginState.updateMany({
+    where: { state_id: state.state_id, consumed_at: null, expires_at: { gt: now } },
+    data: { consumed_at: now },
+  });
+  return count > 0 ? state : null;
+}
+
+export async function deleteStatesExpiredBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.ssoLoginState.deleteMany({
+    where: { expires_at: { lt: cutoff } },
+  });
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+export async function getUserBySubject(orgId: string, subject: string): Promise<User | null> {
+  return prisma.user.findUnique({
+    where: { organization_id_sso_subject: { organization_id: orgId, sso_subject: subject } },
+  });
+}
+
+export async function linkSubject(userId: string, subject: string): Promise<void> {
+  await prisma.user.update({ where: { user_id: userId }, data: { sso_subject: subject } });
+}
+
+// Subjects are only unique at one provider, so a new provider links every user anew.
+export async function unlinkSubjects(db: DbClient, orgId: string): Promise<void> {
+  await db.user.updateMany({
+    where: { organization_id: orgId, sso_subject: { not: null } },
+    data: { sso_subject: null },
+  });
+}
+
+// Creates a user on their first single sign-on. They have no password until they set one
+// with a password reset.
+export async function createSsoUser(data: {
+  organization_id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  position_id: string | null;
+  sso_subject: string;
+}): Promise<User> {
+  return prisma.user.create({
+    data: {
+      ...data,
+      // Not a bcrypt hash, so no password matches.
+      password: "!",
+    },
+  });
+}
@@ -1,11 +1,15 @@
 import { prisma } from "../db/prisma";
 import { signUserProfilePicture } from "./userRepository";
+import { visibleProjectFilter } from "./projectRepository";
+import { getOrganizationTimeZone } from "./organizationRepository";
 import {
   TaskStatus,
   TaskPriority,
   type Prisma,
+  type TaskUnit,
 } from "../generated/prisma/client";
 import {
+  APP_TIMEZONE,
   appDayBounds,
   appWeekBoundsUTC,
   dateKeyBounds,
@@ -23,23 +27,32 @@ type TransactionClient = Prisma.TransactionClient;
 type PrismaClient = typeof prisma | TransactionClient;
 
 // ---------------------------------------------------------------------------
-// Org filter helpers — all return empty objects when orgId is null (SUPER_ADMIN)
+// Org filter helpers — all return empty objects when orgId is null (SUPER_ADMIN).
+// visibleToUserId further limits them to the projects that user can see (see
+// visibleProjectFilter); null means every project.
 // ---------------------------------------------------------------------------
 
-function taskOrgFilter(orgId: string | null): Prisma.TaskWhereInput {
-  return orgId ? { project: { organization_id: orgId } } : {};
+function projectOrgFilter(orgId: string | null, visibleToUserId: string | null = null): Prisma.ProjectWhereInput {
+  return { ...(orgId ? { organization_id: orgId } : {}), ...visibleProjectFilter(visibleToUserId) };
 }
 
-function projectOrgFilter(orgId: string | null): Prisma.ProjectWhereInput {
-  return orgId ? { organization_id: orgId } : {};
+function taskOrgFilter(orgId: string | null, visibleToUserId: string | null = null): Prisma.TaskWhereInput {
+  return orgId || visibleToUserId ? { project: projectOrgFilter(orgId, visibleToUserId) } : {};
 }
 
-function assignmentOrgFilter(orgId: string | null): Prisma.TaskAssignmentWhereInput {
-  return orgId ? { task: { project: { organization_id: orgId } } } : {};
+function assignmentOrgFilter(orgId: string | null, visibleToUserId: string | null = null): Prisma.TaskAssignmentWhereInput {
+  return orgId || visibleToUserId ? { task: taskOrgFilter(orgId, visibleToUserId) } : {};
 }
 
-function templateOrgFilter(orgId: string | null): Prisma.RecurringTaskTemplateWhereInput {
-  return orgId ? { project: { organization_id: orgId } } : {};
+function templateOrgFilter(orgId: string | null, visibleToUserId: string | null = null): Prisma.RecurringTaskTemplateWhereInput {
+  return orgId || visibleToUserId ? { project: projectOrgFilter(orgId, visibleToUserId) } : {};
+}
+
+// Days ("today", this week, the last N days) are counted in the organization's timezone,
+// or in APP_TIMEZONE across all organizations. Callers that already know it pass timeZone.
+async function resolveTimeZone(orgId: string | null, timeZone: string | undefined): Promise<string> {
+  if (timeZone) return timeZone;
+  return orgId ? getOrganizationTimeZone(orgId) : APP_TIMEZONE;
 }
 
 function dateKeyDiffInDays(fromKey: string, toKey: string): number {
@@ -58,10 +71,16 @@ function dateKeyDiffInDays(fromKey: string, toKey: string): number {
 /**
  * Get overview statistics
  */
-export async function getOverviewStats(orgId: string | null = null, client: PrismaClient = prisma) {
+export async function getOverviewStats(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+  timeZone?: string,
+) {
+  const tz = await resolveTimeZone(orgId, timeZone);
   const now = new Date();
-  const { start: todayStart } = appDayBounds(now);
-  const orgFilter = taskOrgFilter(orgId);
+  const { start: todayStart } = appDayBounds(now, tz);
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const [totalTasks, completedToday, pendingTasks, overdueTasks] =
     await Promise.all([
@@ -89,7 +108,7 @@ export async function getOverviewStats(orgId: string | null = null, client: Pris
       client.task.count({
         where: {
           ...orgFilter,
-          deadline: { lt: todayStart },
+          deadline: { lt: new Date(appDateKey(now, tz)) },
           status: { not: TaskStatus.DONE },
         },
       }),
@@ -106,21 +125,28 @@ export async function getOverviewStats(orgId: string | null = null, client: Pris
 /**
  * Get completion rate statistics for different time periods
  */
-export async function getCompletionRates(orgId: string | null = null, client: PrismaClient = prisma) {
-  return getCompletionRatesForWindow(30, orgId, client);
+export async function getCompletionRates(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+) {
+  return getCompletionRatesForWindow(30, orgId, visibleToUserId, client);
 }
 
 export async function getCompletionRatesForWindow(
   days: number = 30,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
+  const tz = await resolveTimeZone(orgId, timeZone);
   const now = new Date();
-  const todayStart = appDayBounds(now).start;
-  const weekStart = appWeekBoundsUTC(now).start;
-  const windowStartKey = subDaysFromKey(appDateKey(now), days - 1);
-  const windowStart = dateKeyBounds(windowStartKey).start;
-  const orgFilter = taskOrgFilter(orgId);
+  const todayStart = appDayBounds(now, tz).start;
+  const weekStart = appWeekBoundsUTC(now, tz).start;
+  const windowStartKey = subDaysFromKey(appDateKey(now, tz), days - 1);
+  const windowStart = dateKeyBounds(windowStartKey, tz).start;
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const [todayStats, weekStats, periodStats] = await Promise.all([
     // Today
@@ -185,8 +211,8 @@ export async function getCompletionRatesForWindow(
     for (const task of completedTasks) {
       if (!task.completed_at) continue;
 
-      const completedKey = appDateKey(task.completed_at);
-      const deadlineKey = appDateKey(task.deadline);
+      const completedKey = appDateKey(task.completed_at, tz);
+      const deadlineKey = appDateKey(task.deadline, "UTC");
       const delayDays = dateKeyDiffInDays(deadlineKey, completedKey);
 
       if (delayDays <= 0) {
@@ -217,9 +243,15 @@ export async function getCompletionRatesForWindow(
 /**
  * Get priority breakdown statistics
  */
-export async function getPriorityStats(orgId: string | null = null, client: PrismaClient = prisma) {
+export async function getPriorityStats(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+  timeZone?: string,
+) {
+  const tz = await resolveTimeZone(orgId, timeZone);
   const now = new Date();
-  const orgFilter = taskOrgFilter(orgId);
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const priorityGroups = await client.task.groupBy({
     by: ["priority", "status"],
@@ -231,7 +263,7 @@ export async function getPriorityStats(orgId: string | null = null, client: Pris
     by: ["priority"],
     where: {
       ...orgFilter,
-      deadline: { lt: new Date(appDateKey(now)) },
+      deadline: { lt: new Date(appDateKey(now, tz)) },
       status: { not: TaskStatus.DONE },
     },
     _count: true,
@@ -268,8 +300,12 @@ export async function getPriorityStats(orgId: string | null = null, client: Pris
 /**
  * Get status distribution
  */
-export async function getStatusStats(orgId: string | null = null, client: PrismaClient = prisma) {
-  const orgFilter = taskOrgFilter(orgId);
+export async function getStatusStats(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+) {
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const statusGroups = await client.task.groupBy({
     by: ["status"],
@@ -298,20 +334,24 @@ export async function getStatusStats(orgId: string | null = null, client: Prisma
 export async function getTopPerformers(
   limit: number = 5,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
 ) {
-  return getTopPerformersForWindow(30, limit, orgId, client);
+  return getTopPerformersForWindow(30, limit, orgId, visibleToUserId, client);
 }
 
 export async function getTopPerformersForWindow(
   days: number = 30,
   limit: number = 5,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
-  const windowStartKey = subDaysFromKey(appDateKey(), days - 1);
-  const windowStart = dateKeyBounds(windowStartKey).start;
-  const orgFilter = taskOrgFilter(orgId);
+  const tz = await resolveTimeZone(orgId, timeZone);
+  const windowStartKey = subDaysFromKey(appDateKey(new Date(), tz), days - 1);
+  const windowStart = dateKeyBounds(windowStartKey, tz).start;
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const performers = await client.task.groupBy({
     by: ["completed_by"],
@@ -384,9 +424,13 @@ export async function getTopPerformersForWindow(
 /**
  * Get workload distribution (assigned tasks per user)
  */
-export async function getWorkloadDistribution(orgId: string | null = null, client: PrismaClient = prisma) {
-  const assignmentFilter = assignmentOrgFilter(orgId);
-  const taskFilter = taskOrgFilter(orgId);
+export async function getWorkloadDistribution(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+) {
+  const assignmentFilter = assignmentOrgFilter(orgId, visibleToUserId);
+  const taskFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const assignments = await client.taskAssignment.groupBy({
     by: ["user_id"],
@@ -431,12 +475,18 @@ export async function getWorkloadDistribution(orgId: string | null = null, clien
 /**
  * Get recurring template statistics
  */
-export async function getRecurringStats(orgId: string | null = null, client: PrismaClient = prisma) {
+export async function getRecurringStats(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+  timeZone?: string,
+) {
+  const tz = await resolveTimeZone(orgId, timeZone);
   const now = new Date();
-  const nextWeekKey = addDaysToKey(appDateKey(now), 7);
+  const nextWeekKey = addDaysToKey(appDateKey(now, tz), 7);
   const nextWeek = new Date(nextWeekKey);
-  const tmplFilter = templateOrgFilter(orgId);
-  const taskFilter = taskOrgFilter(orgId);
+  const tmplFilter = templateOrgFilter(orgId, visibleToUserId);
+  const taskFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const [
     activeTemplates,
@@ -498,17 +548,20 @@ export async function getRecurringStats(orgId: string | null = null, client: Pri
 export async function getTaskTrends(
   days: number = 7,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
-  const todayKey = appDateKey();
+  const tz = await resolveTimeZone(orgId, timeZone);
+  const todayKey = appDateKey(new Date(), tz);
   const dateKeys = Array.from({ length: days }, (_, i) =>
     subDaysFromKey(todayKey, days - 1 - i),
   );
-  const orgFilter = taskOrgFilter(orgId);
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   const trends = await Promise.all(
     dateKeys.map(async (dateKey) => {
-      const { start, end } = dateKeyBounds(dateKey);
+      const { start, end } = dateKeyBounds(dateKey, tz);
 
       const [created, completed] = await Promise.all([
         client.task.count({
@@ -536,18 +589,21 @@ export async function getTaskTrends(
 export async function getProjectStatsForWindow(
   days: number = 30,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
+  const tz = await resolveTimeZone(orgId, timeZone);
   const now = new Date();
-  const windowStartKey = subDaysFromKey(appDateKey(now), days - 1);
-  const windowStart = dateKeyBounds(windowStartKey).start;
+  const windowStartKey = subDaysFromKey(appDateKey(now, tz), days - 1);
+  const windowStart = dateKeyBounds(windowStartKey, tz).start;
   const inactiveStatuses = [
     TaskStatus.DONE,
     TaskStatus.ARCHIVED,
     TaskStatus.REJECTED,
   ];
-  const taskFilter = taskOrgFilter(orgId);
-  const projFilter = projectOrgFilter(orgId);
+  const taskFilter = taskOrgFilter(orgId, visibleToUserId);
+  const projFilter = projectOrgFilter(orgId, visibleToUserId);
 
   const [projects, activeTasks, overdueActiveTasks, completedTasks] =
     await Promise.all([
@@ -572,7 +628,7 @@ export async function getProjectStatsForWindow(
         by: ["project_id"],
         where: {
           ...taskFilter,
-          deadline: { lt: appDayBounds(now).start },
+          deadline: { lt: new Date(appDateKey(now, tz)) },
           status: { notIn: inactiveStatuses },
         },
         _count: { task_id: true },
@@ -604,8 +660,8 @@ export async function getProjectStatsForWindow(
       onTime: 0,
       late: 0,
     };
-    const completedKey = appDateKey(task.completed_at);
-    const deadlineKey = appDateKey(task.deadline);
+    const completedKey = appDateKey(task.completed_at, tz);
+    const deadlineKey = appDateKey(task.deadline, "UTC");
     const delayDays = dateKeyDiffInDays(deadlineKey, completedKey);
 
     current.completed += 1;
@@ -662,19 +718,68 @@ export async function getProjectStatsForWindow(
     });
 }
 
+/**
+ * Get progress logged in the last N days, summed per goal unit
+ */
+export async function getProgressByUnitForWindow(
+  days: number = 30,
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+  timeZone?: string,
+) {
+  const tz = await resolveTimeZone(orgId, timeZone);
+  const windowStartKey = subDaysFromKey(appDateKey(new Date(), tz), days - 1);
+  const windowStart = dateKeyBounds(windowStartKey, tz).start;
+
+  const logs = await client.taskProgressLog.findMany({
+    where: {
+      created_at: { gte: windowStart },
+      goal: { task: { ...taskOrgFilter(orgId, visibleToUserId) } },
+    },
+    select: { quantity_done: true, goal: { select: { unit: true } } },
+  });
+
+  const byUnit = new Map<TaskUnit, number>();
+  for (const log of logs) {
+    byUnit.set(log.goal.unit, (byUnit.get(log.goal.unit) ?? 0) + log.quantity_done);
+  }
+  return [...byUnit].map(([unit, quantity]) => ({ unit, quantity }));
+}
+
+/**
+ * Get count of active tasks nobody is assigned to
+ */
+export async function getUnassignedTaskCount(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+) {
+  return client.task.count({
+    where: {
+      ...taskOrgFilter(orgId, visibleToUserId),
+      status: { notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED, TaskStatus.REJECTED] },
+      assignments: { none: {} },
+    },
+  });
+}
+
 /**
  * Get user overdue tasks count
  */
 export async function getUserOverdueTasks(
   userId: string,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
-  const orgFilter = taskOrgFilter(orgId);
+  const tz = await resolveTimeZone(orgId, timeZone);
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
   return client.task.count({
     where: {
       ...orgFilter,
-      deadline: { lt: new Date(appDateKey()) },
+      deadline: { lt: new Date(appDateKey(new Date(), tz)) },
       status: {
         notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED, TaskStatus.REJECTED],
       },
@@ -691,10 +796,13 @@ export async function getUserOverdueTasks(
 export async function getUserWeeklyStats(
   userId: string,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
+  timeZone?: string,
 ) {
-  const { start: weekStart, end: weekEnd } = appWeekBoundsUTC();
-  const orgFilter = taskOrgFilter(orgId);
+  const tz = await resolveTimeZone(orgId, timeZone);
+  const { start: weekStart, end: weekEnd } = appWeekBoundsUTC(new Date(), tz);
+  const orgFilter = taskOrgFilter(orgId, visibleToUserId);
 
   // planned tasks = assignments where task is scheduled this week
   const plannedWhere = {
@@ -739,15 +847,21 @@ export async function getUserWeeklyStats(
 /**
  * Get all dashboard stats in a single call (optimized)
  */
-export async function getAllStats(orgId: string | null = null, client: PrismaClient = prisma) {
-  return getStatsForWindow(30, orgId, client);
+export async function getAllStats(
+  orgId: string | null = null,
+  visibleToUserId: string | null = null,
+  client: PrismaClient = prisma,
+) {
+  return getStatsForWindow(30, orgId, visibleToUserId, client);
 }
 
 export async function getStatsForWindow(
   days: number = 30,
   orgId: string | null = null,
+  visibleToUserId: string | null = null,
   client: PrismaClient = prisma,
 ) {
+  const tz = await resolveTimeZone(orgId, undefined);
   const [
     overview,
     completion,
@@ -759,15 +873,15 @@ export async function getStatsForWindow(
     trends,
     projects,
   ] = await Promise.all([
-    getOverviewStats(orgId, client),
-    getCompletionRatesForWindow(days, orgId, client),
-    getPriorityStats(orgId, client),
-    getStatusStats(orgId, client),
-    getTopPerformersForWindow(days, 5, orgId, client),
-    getWorkloadDistribution(orgId, client),
-    getRecurringStats(orgId, client),
-    getTaskTrends(Math.min(days, 90), orgId, client),
-    getProjectStatsForWindow(days, orgId, client),
+    getOverviewStats(orgId, visibleToUserId, client, tz),
+    getCompletionRatesForWindow(days, orgId, visibleToUserId, client, tz),
+    getPriorityStats(orgId, visibleToUserId, client, tz),
+    getStatusStats(orgId, visibleToUserId, client),
+    getTopPerformersForWindow(days, 5, orgId, visibleToUserId, client, tz),
+    getWorkloadDistribution(orgId, visibleToUserId, client),
+    getRecurringStats(orgId, visibleToUserId, client, tz),
+    getTaskTrends(Math.min(days, 90), orgId, visibleToUserId, client, tz),
+    getProjectStatsForWindow(days, orgId, visibleToUserId, client, tz),
   ]);
 
   return {
@@ -4,9 +4,23 @@ import { AttachmentStatus } from "../generated/prisma/client";
 import type { DbClient } from "../types/db";
 import { userSelect } from "../types/user";
 import { signUserProfilePicture } from "./userRepository";
+import { enqueueDeliveriesForEvent } from "./webhookRepository";
 
+// Also queues the event for the organization's subscribed webhook endpoints, in the
+// same transaction, so webhooks only fire for events that were committed.
 export async function createTaskEvent(db: DbClient, data: Prisma.TaskEventCreateInput) {
-  return (db as any).taskEvent.create({ data });
+  const event = await (db as any).taskEvent.create({ data });
+  await enqueueDeliveriesForEvent(db, event);
+  return event;
+}
+
+// Events recorded against a recurring template: skipped and moved occurrences.
+export async function getTemplateEvents(templateId: string) {
+  return prisma.taskEvent.findMany({
+    where: { template_id: templateId },
+    orderBy: { created_at: "asc" },
+    include: { actor: { select: userSelect } },
+  });
 }
 
 export async function getTaskEventsByTaskId(taskId: string) {
@@ -69,3 +83,87 @@ export async function getTaskEventsByTaskId(taskId: string) {
       : e.progress,
   })));
 }
+
+// ---------------------------------------------------------------------------
+// Real-time stream (see realtimeService)
+// ---------------------------------------------------------------------------
+
+// The event with what the stream needs to decide who may see it.
+const streamEventSelect = {
+  event_id: true,
+  task_id: true,
+  actor_id: true,
+  type: true,
+  message: true,
+  before_json: true,
+  after_json: true,
+  created_at: true,
+  task: {
+    select: {
+      created_by: true,
+      project_id: true,
+      project: { select: { organization_id: true, restricted: true, members: { select: { user_id: true } } } },
+      assignments: { select: { user_id: true } },
+    },
+  },
+} satisfies Prisma.TaskEventSelect;
+
+// Only events about a task are streamed, not those about a recurring template.
+type StreamEventRow = Prisma.TaskEventGetPayload<{ select: typeof streamEventSelect }>;
+export type StreamEvent = StreamEventRow & { task_id: string; task: NonNullable<StreamEventRow["task"]> };
+
+export async function getEventPosition(eventId: string) {
+  return prisma.taskEvent.findUnique({
+    where: { event_id: eventId },
+    select: { event_id: true, created_at: true },
+  });
+}
+
+// Oldest first, in (created_at, event_id) order. Pass the last event of the previous page
+// as `after` to read the next one.
+export async function getEventsCreatedSince(
+  since: Date,
+  limit: number,
+  after: { event_id: string; created_at: Date } | null = null,
+): Promise<StreamEvent[]> {
+  const events = await prisma.taskEvent.findMany({
+    where: {
+      task_id: { not: null },
+      ...(after
+        ? {
+            OR: [
+              { created_at: { gt: after.created_at } },
+              { created_at: after.created_at, event_id: { gt: after.event_id } },
+            ],
+          }
+        : { created_at: { gte: since } }),
+    },
+    select: streamEventSelect,
+    orderBy: [{ created_at: "asc" }, { event_id: "asc" }],
+    take: limit,
+  });
+  return events as StreamEvent[];
+}
+
+// Events on tasks matching taskWhere that come after `after` in (created_at, event_id)
+// order, oldest first.
+export async function getEventsAfter(
+  after: { event_id: string; created_at: Date },
+  taskWhere: Prisma.TaskWhereInput,
+  limit: number,
+): Promise<StreamEvent[]> {
+  const events = await prisma.taskEvent.findMany({
+    where: {
+      task_id: { not: null },
+      task: taskWhere,
+      OR: [
+        { created_at: { gt: after.created_at } },
+        { created_at: after.created_at, event_id: { gt: after.event_id } },
+      ],
+    },
+    select: streamEventSelect,
+    orderBy: [{ created_at: "asc" }, { event_id: "asc" }],
+    take: limit,
+  });
+  return events as StreamEvent[];
+}
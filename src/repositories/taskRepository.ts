@@ -2,15 +2,23 @@ import { prisma } from "../db/prisma";
 import { signUserProfilePicture } from "./userRepository";
 import {
   type Task,
-  type Prisma,
+  Prisma,
+  TaskPriority,
   TaskStatus,
   TaskUnit,
   UserRole,
   UserStatus,
 } from "../generated/prisma/client";
-import type { CreateTaskInput, UpdateTaskInput } from "../types/task";
+import type {
+  CreateTaskInput,
+  TaskListFilters,
+  TaskListQuery,
+  TaskSortField,
+  UpdateTaskInput,
+} from "../types/task";
 import type { DbClient } from "../types/db";
 import { userSelect } from "../types/user";
+import { visibleProjectFilter } from "./projectRepository";
 import { appDayBounds } from "../utils/dateUtils";
 import {
   TaskNotFoundError,
@@ -19,6 +27,7 @@ import {
   AssignmentNotFoundError,
   TaskNotProgressableError,
   CrossOrganizationReferenceError,
+  ValidationError,
 } from "../errors/domainErrors";
 
 // Re-export domain errors for backward compatibility with existing test imports.
@@ -72,9 +81,22 @@ async function assertUsersInOrg(
 // Reads — use prisma directly; they never participate in cross-repo transactions
 // ---------------------------------------------------------------------------
 
-export async function getAllTasks(orgId: string | null) {
+// Tasks in the projects the user can see (see visibleProjectFilter), plus those they
+// created or are assigned to elsewhere. Pass null for callers that see every project.
+export function visibleTaskFilter(visibleToUserId: string | null): Prisma.TaskWhereInput {
+  if (!visibleToUserId) return {};
+  return {
+    OR: [
+      { project: visibleProjectFilter(visibleToUserId) },
+      { created_by: visibleToUserId },
+      { assignments: { some: { user_id: visibleToUserId } } },
+    ],
+  };
+}
+
+export async function getAllTasks(orgId: string | null, visibleToUserId: string | null = null) {
   const tasks = await prisma.task.findMany({
-    where: orgId ? { project: { organization_id: orgId } } : undefined,
+    where: { ...(orgId ? { project: { organization_id: orgId } } : {}), ...visibleTaskFilter(visibleToUserId) },
     orderBy: { created_at: "desc" },
     include: {
       assignments: { select: { user_id: true } },
@@ -89,11 +111,213 @@ export async function getAllTasks(orgId: string | null) {
   }));
 }
 
-export async function getTaskById(id: string, orgId: string | null) {
+// ---------------------------------------------------------------------------
+// Filtered listing with keyset (cursor) pagination
+// ---------------------------------------------------------------------------
+
+const PRIORITY_ORDER: TaskPriority[] = [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH];
+
+function buildTaskListWhere(orgId: string | null, filters: TaskListFilters): Prisma.TaskWhereInput[] {
+  const where: Prisma.TaskWhereInput[] = [];
+  if (orgId) where.push({ project: { organization_id: orgId } });
+  if (filters.project_id) where.push({ project_id: filters.project_id });
+  if (filters.status?.length) where.push({ status: { in: filters.status } });
+  if (filters.priority?.length) where.push({ priority: { in: filters.priority } });
+  if (filters.assignee) where.push({ assignments: { some: { user_id: filters.assignee } } });
+  if (filters.creator) where.push({ created_by: filters.creator });
+  if (filters.parent_task_id !== undefined) where.push({ parent_task_id: filters.parent_task_id });
+  if (filters.deadline_from) where.push({ deadline: { gte: filters.deadline_from } });
+  if (filters.deadline_to) where.push({ deadline: { lte: filters.deadline_to } });
+  if (filters.start_date_from) where.push({ start_date: { gte: filters.start_date_from } });
+  if (filters.start_date_to) where.push({ start_date: { lte: filters.start_date_to } });
+  if (filters.has_goal !== undefined) {
+    where.push({ current_goal_id: filters.has_goal ? { not: null } : null });
+  }
+  return where;
+}
+
+// The cursor is the sort value and task_id of the last row on the previous page,
+// so a page boundary stays stable even if that row is deleted in the meantime.
+type TaskCursor = { v: string | number; id: string };
+
+function encodeTaskCursor(task: Record<string, unknown>, sort: TaskSortField): string {
+  const value = task[sort];
+  const v = value instanceof Date ? value.toISOString() : (value as string | number);
+  return Buffer.from(JSON.stringify({ v, id: task.task_id })).toString("base64url");
+}
+
+function decodeTaskCursor(cursor: string): TaskCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      parsed &&
+      typeof parsed.id === "string" &&
+      (typeof parsed.v === "string" || typeof parsed.v === "number")
+    ) {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ValidationError("Invalid cursor");
+}
+
+function cursorCondition(cursor: TaskCursor, sort: TaskSortField, order: "asc" | "desc"): Prisma.TaskWhereInput {
+  const idAfter = { task_id: order === "asc" ? { gt: cursor.id } : { lt: cursor.id } };
+
+  if (sort === "priority") {
+    // Enums only support equality filters, so "after" is expressed as the set of later priorities.
+    const index = PRIORITY_ORDER.indexOf(cursor.v as TaskPriority);
+    if (index === -1) throw new ValidationError("Invalid cursor");
+    const later = order === "asc" ? PRIORITY_ORDER.slice(index + 1) : PRIORITY_ORDER.slice(0, index);
+    return {
+      OR: [
+        { priority: { in: later } },
+        { priority: cursor.v as TaskPriority, ...idAfter },
+      ],
+    };
+  }
+
+  const value = sort === "number" ? Number(cursor.v) : new Date(cursor.v);
+  if (typeof value === "number" ? !Number.isFinite(value) : isNaN(value.getTime())) {
+    throw new ValidationError("Invalid cursor");
+  }
+  return {
+    OR: [
+      { [sort]: order === "asc" ? { gt: value } : { lt: value } },
+      { [sort]: value, ...idAfter },
+    ],
+  };
+}
+
+export async function listTasks(orgId: string | null, query: TaskListQuery, visibleToUserId: string | null = null) {
+  const { sort, order, limit, cursor, ...filters } = query;
+  const where = buildTaskListWhere(orgId, filters);
+  if (visibleToUserId) where.push(visibleTaskFilter(visibleToUserId));
+  if (cursor) where.push(cursorCondition(decodeTaskCursor(cursor), sort, order));
+
+  // Fetch one extra row to find out whether another page exists.
+  const rows = await prisma.task.findMany({
+    where: { AND: where },
+    orderBy: [{ [sort]: order }, { task_id: order }],
+    take: limit + 1,
+    include: {
+      assignments: { select: { user_id: true } },
+      project: { select: { name: true, color: true } },
+      current_goal: true,
+    },
+  });
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last ? encodeTaskCursor(last, sort) : null;
+
+  return {
+    tasks: page.map(({ assignments, current_goal, ...task }) => ({
+      ...task,
+      assigned_users: assignments.map((a) => a.user_id),
+      goal: current_goal ?? null,
+    })),
+    nextCursor,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Full-text search
+// ---------------------------------------------------------------------------
+
+export type TaskSearchHit = {
+  task_id: string;
+  comment_id: string | null;
+  score: number;
+};
+
+// Ranks task title/description and comment matches in one pass using the FULLTEXT
+// indexes. visibleToUserId limits hits to tasks the user created or is assigned to;
+// pass null for callers that may see every task in the org. Otherwise
+// projectVisibleToUserId hides restricted projects the user is not a member of, except
+// for their own tasks (see visibleTaskFilter); pass null for callers that see every project.
+export async function searchTaskHits(
+  orgId: string | null,
+  visibleToUserId: string | null,
+  projectVisibleToUserId: string | null,
+  booleanQuery: string,
+  limit: number,
+): Promise<TaskSearchHit[]> {
+  const ownTask = (userId: string) => Prisma.sql`t.created_by = ${userId} OR EXISTS (
+            SELECT 1 FROM task_assignments a
+            WHERE a.task_id = t.task_id AND a.user_id = ${userId})`;
+  const scope = Prisma.sql`
+    ${orgId ? Prisma.sql`AND p.organization_id = ${orgId}` : Prisma.empty}
+    ${
+      visibleToUserId
+        ? Prisma.sql`AND (${ownTask(visibleToUserId)})`
+        : projectVisibleToUserId
+          ? Prisma.sql`AND (p.restricted = false OR EXISTS (
+            SELECT 1 FROM project_members m
+            WHERE m.project_id = p.project_id AND m.user_id = ${projectVisibleToUserId})
+            OR ${ownTask(projectVisibleToUserId)})`
+          : Prisma.empty
+    }`;
+
+  const rows = await prisma.$queryRaw<TaskSearchHit[]>`
+    SELECT hits.task_id, hits.comment_id, hits.score FROM (
+      SELECT t.task_id AS task_id, NULL AS comment_id,
+             MATCH(t.title, t.description) AGAINST (${booleanQuery} IN BOOLEAN MODE) AS score
+      FROM tasks t
+      JOIN projects p ON p.project_id = t.project_id
+      WHERE MATCH(t.title, t.description) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+      ${scope}
+      UNION ALL
+      SELECT c.task_id AS task_id, c.comment_id AS comment_id,
+             MATCH(c.message) AGAINST (${booleanQuery} IN BOOLEAN MODE) AS score
+      FROM task_comments c
+      JOIN tasks t ON t.task_id = c.task_id
+      JOIN projects p ON p.project_id = t.project_id
+      WHERE MATCH(c.message) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+      ${scope}
+    ) hits
+    ORDER BY hits.score DESC
+    LIMIT ${limit}`;
+
+  return rows.map((r) => ({ ...r, score: Number(r.score) }));
+}
+
+// Loads the fields search results display, with the actor's own assignment so the
+// service can re-check access the same way commentService does.
+export async function getTasksForSearch(taskIds: string[], actorUserId: string) {
+  if (taskIds.length === 0) return [];
+  return prisma.task.findMany({
+    where: { task_id: { in: taskIds } },
+    select: {
+      task_id: true,
+      number: true,
+      title: true,
+      description: true,
+      status: true,
+      priority: true,
+      deadline: true,
+      created_by: true,
+      project: {
+        select: {
+          project_id: true,
+          name: true,
+          color: true,
+          restricted: true,
+          members: { where: { user_id: actorUserId }, select: { user_id: true } },
+        },
+      },
+      assignments: { where: { user_id: actorUserId }, select: { user_id: true } },
+    },
+  });
+}
+
+export async function getTaskById(id: string, orgId: string | null, visibleToUserId: string | null = null) {
   const task = await prisma.task.findFirst({
     where: {
       task_id: id,
       ...(orgId ? { project: { organization_id: orgId } } : {}),
+      ...visibleTaskFilter(visibleToUserId),
     },
     include: {
       project: { select: { name: true, color: true } },
@@ -383,10 +607,13 @@ export async function deleteTaskPlatform(db: DbClient, id: string): Promise<void
 // Scheduler queries — use prisma directly; standalone reads
 // ---------------------------------------------------------------------------
 
+// Optionally limited to one organization's users, with "today" taken in timeZone.
 export async function getTodayTasksPerUser(
   date: Date,
-): Promise<{ user_id: string; push_token: string; tasks: Task[] }[]> {
-  const { end } = appDayBounds(date);
+  orgId?: string,
+  timeZone?: string,
+): Promise<{ user_id: string; push_token: string | null; tasks: Task[] }[]> {
+  const { end } = appDayBounds(date, timeZone);
 
   const assignments = await prisma.taskAssignment.findMany({
     where: {
@@ -394,7 +621,7 @@ export async function getTodayTasksPerUser(
         start_date: { lt: end },
         status: { notIn: [TaskStatus.DONE, TaskStatus.REJECTED, TaskStatus.ARCHIVED] },
       },
-      user: { push_token: { not: null } },
+      user: { status: UserStatus.ACTIVE, ...(orgId ? { organization_id: orgId } : {}) },
     },
     include: {
       task: true,
@@ -402,13 +629,13 @@ export async function getTodayTasksPerUser(
     },
   });
 
-  const byUser = new Map<string, { push_token: string; tasks: Task[] }>();
+  const byUser = new Map<string, { push_token: string | null; tasks: Task[] }>();
   for (const a of assignments) {
     const entry = byUser.get(a.user_id);
     if (entry) {
       entry.tasks.push(a.task);
     } else {
-      byUser.set(a.user_id, { push_token: a.user.push_token!, tasks: [a.task] });
+      byUser.set(a.user_id, { push_token: a.user.push_token, tasks: [a.task] });
     }
   }
 
@@ -419,10 +646,13 @@ export async function getTodayTasksPerUser(
   }));
 }
 
+// Same scoping as getTodayTasksPerUser.
 export async function getUsersWithNoActivityToday(
   date: Date,
-): Promise<{ user_id: string; push_token: string }[]> {
-  const { start, end } = appDayBounds(date);
+  orgId?: string,
+  timeZone?: string,
+): Promise<{ user_id: string; push_token: string | null }[]> {
+  const { start, end } = appDayBounds(date, timeZone);
 
   const activeAssignments = await prisma.taskAssignment.findMany({
     where: {
@@ -430,7 +660,7 @@ export async function getUsersWithNoActivityToday(
         status: { in: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS] },
         start_date: { gte: start, lt: end },
       },
-      user: { push_token: { not: null } },
+      user: { status: UserStatus.ACTIVE, ...(orgId ? { organization_id: orgId } : {}) },
     },
     select: {
       user_id: true,
@@ -444,18 +674,18 @@ export async function getUsersWithNoActivityToday(
   });
 
   // Per user: track whether they have ANY activity today across all assignments
-  const userMap = new Map<string, { push_token: string; hasActivity: boolean }>();
+  const userMap = new Map<string, { push_token: string | null; hasActivity: boolean }>();
   for (const a of activeAssignments) {
     const hasActivity = a.progressLogs.length > 0;
     const existing = userMap.get(a.user_id);
     if (!existing) {
-      userMap.set(a.user_id, { push_token: a.user.push_token!, hasActivity });
+      userMap.set(a.user_id, { push_token: a.user.push_token, hasActivity });
     } else if (hasActivity) {
       existing.hasActivity = true;
     }
   }
 
-  const result: { user_id: string; push_token: string }[] = [];
+  const result: { user_id: string; push_token: string | null }[] = [];
   for (const [user_id, { push_token, hasActivity }] of userMap.entries()) {
     if (!hasActivity) result.push({ user_id, push_token });
   }
@@ -471,6 +701,7 @@ async function upsertProgressLogScoped(
   db: DbClient,
   taskId: string,
   userId: string,
+  canUpdateAnyTask: boolean,
   quantity_done: number,
   unit?: TaskUnit,
   note?: string,
@@ -500,18 +731,10 @@ async function upsertProgressLogScoped(
   const assignment = await (db as any).taskAssignment.findUnique({
     where: { task_id_user_id: { task_id: taskId, user_id: userId } },
   });
-  const user = await (db as any).user.findFirst({
-    where: {
-      user_id: userId,
-      ...(effectiveOrgId ? { organization_id: effectiveOrgId } : {}),
-    },
-    select: { role: true },
-  });
 
-  // Non-admin users must be assigned to the task to log progress.
-  // Admins may log progress on any task in their org regardless of assignment.
-  const isAdmin = user?.role === UserRole.ADMIN || user?.role === UserRole.SUPER_ADMIN;
-  if (!assignment && !isAdmin) throw new AssignmentNotFoundError();
+  // Users must be assigned to the task to log progress, unless they may update any task
+  // (task.update.any), in which case they are assigned as they log.
+  if (!assignment && !canUpdateAnyTask) throw new AssignmentNotFoundError();
 
   const resolvedAssignment = assignment ?? await (db as any).taskAssignment.upsert({
     where: { task_id_user_id: { task_id: taskId, user_id: userId } },
@@ -584,11 +807,12 @@ export async function upsertProgressLogInOrg(
   taskId: string,
   orgId: string,
   userId: string,
+  canUpdateAnyTask: boolean,
   quantity_done: number,
   unit?: TaskUnit,
   note?: string,
 ) {
-  return upsertProgressLogScoped(db, taskId, userId, quantity_done, unit, note, orgId);
+  return upsertProgressLogScoped(db, taskId, userId, canUpdateAnyTask, quantity_done, unit, note, orgId);
 }
 
 // Platform-level progress log upsert (super-admin). db is the tx client passed from the service.
@@ -596,11 +820,12 @@ export async function upsertProgressLogPlatform(
   db: DbClient,
   taskId: string,
   userId: string,
+  canUpdateAnyTask: boolean,
   quantity_done: number,
   unit?: TaskUnit,
   note?: string,
 ) {
-  return upsertProgressLogScoped(db, taskId, userId, quantity_done, unit, note);
+  return upsertProgressLogScoped(db, taskId, userId, canUpdateAnyTask, quantity_done, unit, note);
 }
 
 export async function getStaleDoneTasks(olderThanDays: number) {
@@ -1,9 +1,10 @@
 import { prisma } from "../db/prisma";
-import type { Prisma, RecurringTaskTemplate } from "../generated/prisma/client";
-import { UserRole, UserStatus } from "../generated/prisma/client";
+import type { RecurringTaskTemplate } from "../generated/prisma/client";
+import { Prisma, UserRole, UserStatus } from "../generated/prisma/client";
 import { CrossOrganizationReferenceError, TemplateNotFoundError } from "../errors/domainErrors";
 import type { DbClient } from "../types/db";
-import type { CreateTemplateInput, UpdateTemplateInput } from "../types/template";
+import { APP_TIMEZONE } from "../utils/dateUtils";
+import type { CreateTemplateExceptionInput, CreateTemplateInput, UpdateTemplateInput } from "../types/template";
 
 type PrismaClient = typeof prisma | Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
 
@@ -67,6 +68,8 @@ export async function createTemplateWithAssignees(
       interval: data.interval ?? 1,
       days_of_week: data.days_of_week ?? null,
       day_of_month: data.day_of_month ?? null,
+      rrule: data.rrule ?? null,
+      ...(data.closed_day_policy ? { closed_day_policy: data.closed_day_policy } : {}),
       start_date: data.start_date,
       end_date: data.end_date ?? null,
       is_active: true,
@@ -130,8 +133,10 @@ export async function updateTemplateWithAssignees(
   if (data.priority !== undefined) updateInput.priority = data.priority;
   if (data.frequency !== undefined) updateInput.frequency = data.frequency;
   if (data.interval !== undefined) updateInput.interval = data.interval;
-  if (data.days_of_week !== undefined) updateInput.days_of_week = data.days_of_week;
+  if (data.days_of_week !== undefined) updateInput.days_of_week = data.days_of_week ?? Prisma.DbNull;
   if (data.day_of_month !== undefined) updateInput.day_of_month = data.day_of_month;
+  if (data.rrule !== undefined) updateInput.rrule = data.rrule;
+  if (data.closed_day_policy !== undefined) updateInput.closed_day_policy = data.closed_day_policy;
   if (data.start_date !== undefined) updateInput.start_date = data.start_date;
   if (data.end_date !== undefined) updateInput.end_date = data.end_date;
   if (data.project_id !== undefined) updateInput.project = { connect: { project_id: data.project_id } };
@@ -181,3 +186,52 @@ export async function getTemplateById(
 ) {
   return client.recurringTaskTemplate.findUnique({ where: { id } });
 }
+
+// The timezone of the template's organization, falling back to APP_TIMEZONE when it has none set.
+export async function getTemplateTimeZone(templateId: string, client: PrismaClient = prisma): Promise<string> {
+  const template = await client.recurringTaskTemplate.findUnique({
+    where: { id: templateId },
+    select: { project: { select: { organization: { select: { timezone: true } } } } },
+  });
+  return template?.project.organization.timezone ?? APP_TIMEZONE;
+}
+
+export async function getTemplateExceptions(templateId: string, client: PrismaClient = prisma) {
+  return client.recurringTemplateException.findMany({
+    where: { template_id: templateId },
+    orderBy: { occurrence_date: "asc" },
+  });
+}
+
+export async function getTemplateException(
+  templateId: string,
+  occurrenceDate: Date,
+  client: PrismaClient = prisma,
+) {
+  return client.recurringTemplateException.findUnique({
+    where: { template_id_occurrence_date: { template_id: templateId, occurrence_date: occurrenceDate } },
+  });
+}
+
+// Accepts a DbClient so the caller (service) can include this in its own transaction.
+export async function createTemplateException(
+  db: DbClient,
+  templateId: string,
+  data: CreateTemplateExceptionInput,
+  createdBy: string,
+) {
+  return (db as any).recurringTemplateException.create({
+    data: {
+      template_id: templateId,
+      occurrence_date: data.occurrence_date,
+      type: data.type,
+      moved_to: data.moved_to ?? null,
+      created_by: createdBy,
+    },
+  });
+}
+
+// Accepts a DbClient so the caller (service) can include this in its own transaction.
+export async function deleteTemplateException(db: DbClient, exceptionId: string) {
+  return (db as any).recurringTemplateException.delete({ where: { id: exceptionId } });
+}
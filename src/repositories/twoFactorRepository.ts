@@ -0,0 +1,135 @@
+import { prisma } from "../db/prisma";
+import type { SessionPlatform } from "../generated/prisma/client";
+import { generateRawLinkToken, hashToken } from "../utils/tokenUtils";
+
+// ---------------------------------------------------------------------------
+// TOTP state
+// ---------------------------------------------------------------------------
+
+export async function getTwoFactorState(userId: string) {
+  return prisma.user.findUnique({
+    where: { user_id: userId },
+    select: {
+      user_id: true,
+      email: true,
+      role: true,
+      totp_secret: true,
+      totp_enabled_at: true,
+      totp_last_used_step: true,
+      failed_login_count: true,
+      locked_until: true,
+      organization: { select: { require_admin_2fa: true } },
+      _count: { select: { recoveryCodes: { where: { used_at: null } } } },
+    },
+  });
+}
+
+// Stores a new secret for setup. Returns false when two-factor is already enabled, so an
+// active secret is never replaced.
+export async function setPendingSecret(userId: string, secret: string): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: { user_id: userId, totp_enabled_at: null },
+    data: { totp_secret: secret },
+  });
+  return count > 0;
+}
+
+// Enables the pending secret, recording the step of the code that confirmed it, and
+// replaces any recovery codes. Returns false when it was enabled concurrently.
+export async function enableTotp(userId: string, step: number, codeHashes: string[], now: Date): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.user.updateMany({
+      where: { user_id: userId, totp_enabled_at: null, totp_secret: { not: null } },
+      data: { totp_enabled_at: now, totp_last_used_step: step },
+    });
+    if (count === 0) return false;
+    await tx.recoveryCode.deleteMany({ where: { user_id: userId } });
+    await tx.recoveryCode.createMany({ data: codeHashes.map((code_hash) => ({ user_id: userId, code_hash })) });
+    return true;
+  });
+}
+
+export async function disableTotp(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { user_id: userId },
+      data: { totp_secret: null, totp_enabled_at: null, totp_last_used_step: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { user_id: userId } }),
+  ]);
+}
+
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { user_id: userId } }),
+    prisma.recoveryCode.createMany({ data: codeHashes.map((code_hash) => ({ user_id: userId, code_hash })) }),
+  ]);
+}
+
+// Records a code's step as used. Returns false when that step or a later one was
+// already used, so each code works once even under concurrent requests.
+export async function consumeTotpStep(userId: string, step: number): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      user_id: userId,
+      OR: [{ totp_last_used_step: null }, { totp_last_used_step: { lt: step } }],
+    },
+    data: { totp_last_used_step: step },
+  });
+  return count > 0;
+}
+
+export async function consumeRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { user_id: userId, code_hash: codeHash, used_at: null },
+    data: { used_at: now },
+  });
+  return count > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Login challenges
+// ---------------------------------------------------------------------------
+
+// Returns the raw challenge token; only its hash is stored.
+export async function createLoginChallenge(
+  userId: string,
+  platform: SessionPlatform,
+  deviceName: string | undefined,
+  expiresAt: Date,
+): Promise<string> {
+  const raw = generateRawLinkToken();
+  await prisma.loginChallenge.create({
+    data: { user_id: userId, token_hash: hashToken(raw), platform, device_name: deviceName, expires_at: expiresAt },
+  });
+  return raw;
+}
+
+export async function getLoginChallenge(raw: string) {
+  return prisma.loginChallenge.findUnique({ where: { token_hash: hashToken(raw) } });
+}
+
+// Counts a code attempt before it is checked. Returns false when the challenge is used,
+// expired or out of attempts.
+export async function recordChallengeAttempt(challengeId: string, maxAttempts: number, now: Date): Promise<boolean> {
+  const { count } = await prisma.loginChallenge.updateMany({
+    where: { challenge_id: challengeId, consumed_at: null, expires_at: { gt: now }, attempts: { lt: maxAttempts } },
+    data: { attempts: { increment: 1 } },
+  });
+  return count > 0;
+}
+
+export async function consumeLoginChallenge(challengeId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.loginChallenge.updateMany({
+    where: { challenge_id: challengeId, consumed_at: null, expires_at: { gt: now } },
+    data: { consumed_at: now },
+  });
+  return count > 0;
+}
+
+export async function deleteChallengesExpiredBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.loginChallenge.deleteMany({
+    where: { expires_at: { lt: cutoff } },
+  });
+  return count;
+}
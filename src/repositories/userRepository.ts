@@ -9,6 +9,8 @@ import {
   type SafeUser,
   type UpdateUserInput,
 } from "../types/user";
+import type { NotificationRecipient } from "../types/notification";
+import type { DbClient } from "../types/db";
 import { EmailAlreadyInUseError, UserNotFoundError, ValidationError } from "../errors/domainErrors";
 
 export function isUserProfilePicturePath(value: string): boolean {
@@ -45,6 +47,11 @@ export async function getUserById(id: string, orgId: string | null): Promise<Saf
   return signUserProfilePicture(user);
 }
 
+export async function emailExists(email: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { email }, select: { user_id: true } });
+  return !!user;
+}
+
 // Creates a new user in the organization. Password is hashed before persisting.
 // organization_id is always set by the service layer, never trusted from client input.
 export async function createUser(data: CreateUserInput) {
@@ -185,45 +192,53 @@ export async function updatePushToken(
   }
 }
 
-export async function getPushTokenInOrg(userId: string, organizationId: string): Promise<string | null> {
-  const user = await prisma.user.findFirst({
+// Clears a token Expo reported as no longer registered, unless the user has since
+// registered a different one.
+export async function clearPushToken(userId: string, pushToken: string): Promise<void> {
+  await prisma.user.updateMany({
+    where: { user_id: userId, push_token: pushToken },
+    data: { push_token: null },
+  });
+}
+
+// Notification recipients are active users only; push_token is null for users who
+// have not registered a device — they still get the in-app notification.
+
+export async function getRecipientInOrg(userId: string, organizationId: string): Promise<NotificationRecipient | null> {
+  return prisma.user.findFirst({
     where: { user_id: userId, organization_id: organizationId, status: UserStatus.ACTIVE },
-    select: { push_token: true },
+    select: { user_id: true, push_token: true },
   });
-  return user?.push_token ?? null;
 }
 
-export async function getPushToken(userId: string): Promise<string | null> {
-  const user = await prisma.user.findUnique({
+// The recipient reads take a DbClient so they see the caller's transaction.
+export async function getRecipient(db: DbClient, userId: string): Promise<NotificationRecipient | null> {
+  const user = await (db as any).user.findUnique({
     where: { user_id: userId },
-    select: { push_token: true, status: true },
+    select: { user_id: true, push_token: true, status: true },
   });
   if (!user || user.status !== UserStatus.ACTIVE) return null;
-  return user.push_token ?? null;
+  return { user_id: user.user_id, push_token: user.push_token };
 }
 
-export async function getPushTokensForUsers(
-  userIds: string[],
-): Promise<Map<string, string>> {
-  if (userIds.length === 0) return new Map();
-  const users = await prisma.user.findMany({
-    where: { user_id: { in: userIds }, push_token: { not: null }, status: UserStatus.ACTIVE },
+export async function getRecipientsForUsers(db: DbClient, userIds: string[]): Promise<NotificationRecipient[]> {
+  if (userIds.length === 0) return [];
+  return (db as any).user.findMany({
+    where: { user_id: { in: userIds }, status: UserStatus.ACTIVE },
     select: { user_id: true, push_token: true },
   });
-  return new Map(users.map((u) => [u.user_id, u.push_token!]));
 }
 
-export async function getAdminPushTokens(orgId: string | null = null): Promise<
-  { user_id: string; push_token: string }[]
-> {
-  const admins = await prisma.user.findMany({
+export async function getAdminRecipients(
+  db: DbClient,
+  orgId: string | null = null,
+): Promise<NotificationRecipient[]> {
+  return (db as any).user.findMany({
     where: {
       role: UserRole.ADMIN,
       status: UserStatus.ACTIVE,
-      push_token: { not: null },
       ...(orgId ? { organization_id: orgId } : {}),
     },
     select: { user_id: true, push_token: true },
   });
-  return admins.map((a) => ({ user_id: a.user_id, push_token: a.push_token! }));
 }
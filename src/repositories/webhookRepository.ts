@@ -0,0 +1,247 @@
+import { prisma } from "../db/prisma";
+import { WebhookDeliveryStatus, type Prisma, type TaskEvent } from "../generated/prisma/client";
+import type { DbClient } from "../types/db";
+import type { CreateWebhookInput, ListWebhookDeliveriesQuery, UpdateWebhookInput, WebhookPayload } from "../types/webhook";
+import { WebhookDeliveryNotFoundError, WebhookEndpointNotFoundError } from "../errors/domainErrors";
+
+// Everything but the secret, which is only returned when the endpoint is created.
+const endpointSelect = {
+  id: true,
+  organization_id: true,
+  url: true,
+  description: true,
+  event_types: true,
+  enabled: true,
+  consecutive_failures: true,
+  disabled_at: true,
+  created_by: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.WebhookEndpointSelect;
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+export async function getEndpointsByOrg(orgId: string) {
+  return prisma.webhookEndpoint.findMany({
+    where: { organization_id: orgId },
+    select: endpointSelect,
+    orderBy: { created_at: "asc" },
+  });
+}
+
+export async function getEndpointInOrg(id: string, orgId: string) {
+  const endpoint = await prisma.webhookEndpoint.findFirst({
+    where: { id, organization_id: orgId },
+    select: endpointSelect,
+  });
+  if (!endpoint) throw new WebhookEndpointNotFoundError(id);
+  return endpoint;
+}
+
+export async function createEndpoint(orgId: string, data: CreateWebhookInput, secret: string, createdBy: string) {
+  return prisma.webhookEndpoint.create({
+    data: {
+      organization_id: orgId,
+      url: data.url,
+      description: data.description ?? null,
+      event_types: data.event_types,
+      secret,
+      created_by: createdBy,
+    },
+  });
+}
+
+// Enabling an endpoint again starts its failure count over.
+export async function updateEndpointInOrg(id: string, orgId: string, data: UpdateWebhookInput) {
+  const result = await prisma.webhookEndpoint.updateMany({
+    where: { id, organization_id: orgId },
+    data: {
+      ...(data.url !== undefined ? { url: data.url } : {}),
+      ...(data.description !== undefined ? { description: data.description } : {}),
+      ...(data.event_types !== undefined ? { event_types: data.event_types } : {}),
+      ...(data.enabled !== undefined
+        ? { enabled: data.enabled, ...(data.enabled ? { consecutive_failures: 0, disabled_at: null } : {}) }
+        : {}),
+    },
+  });
+  if (result.count === 0) throw new WebhookEndpointNotFoundError(id);
+  return getEndpointInOrg(id, orgId);
+}
+
+export async function deleteEndpointInOrg(id: string, orgId: string): Promise<void> {
+  const result = await prisma.webhookEndpoint.deleteMany({
+    where: { id, organization_id: orgId },
+  });
+  if (result.count === 0) throw new WebhookEndpointNotFoundError(id);
+}
+
+export async function recordEndpointSuccess(id: string): Promise<void> {
+  await prisma.webhookEndpoint.update({
+    where: { id },
+    data: { consecutive_failures: 0 },
+  });
+}
+
+// Returns the new count so the caller can decide whether to disable the endpoint.
+export async function recordEndpointFailure(id: string): Promise<number> {
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id },
+    data: { consecutive_failures: { increment: 1 } },
+    select: { consecutive_failures: true },
+  });
+  return endpoint.consecutive_failures;
+}
+
+// Disables the endpoint and fails its queued deliveries; they can be redelivered later.
+export async function disableEndpoint(id: string, now: Date, reason: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.webhookEndpoint.update({
+      where: { id },
+      data: { enabled: false, disabled_at: now },
+    }),
+    prisma.webhookDelivery.updateMany({
+      where: { endpoint_id: id, status: WebhookDeliveryStatus.PENDING },
+      data: { status: WebhookDeliveryStatus.FAILED, last_error: reason },
+    }),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Deliveries
+// ---------------------------------------------------------------------------
+
+// Accepts a DbClient so deliveries are queued in the transaction that records the event.
+// Only enabled endpoints of the organization of the event's task (or recurring template)
+// subscribed to the event type get one.
+export async function enqueueDeliveriesForEvent(db: DbClient, event: TaskEvent): Promise<void> {
+  const owner = event.task_id
+    ? await (db as any).task.findUnique({
+        where: { task_id: event.task_id },
+        select: { project: { select: { organization_id: true } } },
+      })
+    : await (db as any).recurringTaskTemplate.findUnique({
+        where: { id: event.template_id ?? "" },
+        select: { project: { select: { organization_id: true } } },
+      });
+  const orgId: string | undefined = owner?.project?.organization_id;
+  if (!orgId) return;
+
+  const endpoints: { id: string; event_types: Prisma.JsonValue }[] = await (db as any).webhookEndpoint.findMany({
+    where: { organization_id: orgId, enabled: true },
+    select: { id: true, event_types: true },
+  });
+  const subscribed = endpoints.filter(
+    (e) => Array.isArray(e.event_types) && e.event_types.includes(event.type),
+  );
+  if (subscribed.length === 0) return;
+
+  const payload: WebhookPayload = {
+    id: event.event_id,
+    type: event.type,
+    created_at: event.created_at.toISOString(),
+    organization_id: orgId,
+    task_id: event.task_id,
+    template_id: event.template_id,
+    actor_id: event.actor_id,
+    message: event.message,
+    before: event.before_json ?? null,
+    after: event.after_json ?? null,
+  };
+  await (db as any).webhookDelivery.createMany({
+    data: subscribed.map((e) => ({
+      endpoint_id: e.id,
+      event_id: event.event_id,
+      event_type: event.type,
+      payload: payload as unknown as Prisma.InputJsonValue,
+    })),
+  });
+}
+
+// Oldest first, with the endpoint's URL and secret as they are now.
+export async function getDueDeliveries(now: Date, limit: number) {
+  return prisma.webhookDelivery.findMany({
+    where: { status: WebhookDeliveryStatus.PENDING, send_after: { lte: now }, endpoint: { enabled: true } },
+    include: { endpoint: { select: { url: true, secret: true } } },
+    orderBy: { send_after: "asc" },
+    take: limit,
+  });
+}
+
+// Newest first. The cursor is the id of the last delivery on the previous page.
+export async function getDeliveriesForEndpoint(endpointId: string, query: ListWebhookDeliveriesQuery) {
+  return prisma.webhookDelivery.findMany({
+    where: { endpoint_id: endpointId, ...(query.status ? { status: query.status } : {}) },
+    orderBy: [{ created_at: "desc" }, { id: "desc" }],
+    take: query.limit,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+}
+
+// Queues the delivery's payload again as a new delivery, so the log keeps both.
+export async function redeliver(id: string, endpointId: string) {
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: { id, endpoint_id: endpointId },
+    select: { event_id: true, event_type: true, payload: true },
+  });
+  if (!delivery) throw new WebhookDeliveryNotFoundError(id);
+  return prisma.webhookDelivery.create({
+    data: {
+      endpoint_id: endpointId,
+      event_id: delivery.event_id,
+      event_type: delivery.event_type,
+      payload: delivery.payload as Prisma.InputJsonValue,
+    },
+  });
+}
+
+export interface DeliveryResponse {
+  status: number | null;
+}
+
+export async function markSucceeded(id: string, attempts: number, response: DeliveryResponse, deliveredAt: Date) {
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts,
+      response_status: response.status,
+      last_error: null,
+      delivered_at: deliveredAt,
+    },
+  });
+}
+
+// Puts the delivery back in the queue, to be sent again at sendAfter.
+export async function scheduleRetry(id: string, attempts: number, sendAfter: Date, response: DeliveryResponse, error: string) {
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      attempts,
+      send_after: sendAfter,
+      response_status: response.status,
+      last_error: error,
+    },
+  });
+}
+
+export async function markFailed(id: string, attempts: number, response: DeliveryResponse, error: string) {
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: WebhookDeliveryStatus.FAILED,
+      attempts,
+      response_status: response.status,
+      last_error: error,
+    },
+  });
+}
+
+// Pending deliveries are kept however old they are.
+export async function deleteFinishedBefore(cutoff: Date): Promise<number> {
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: { status: { not: WebhookDeliveryStatus.PENDING }, created_at: { lt: cutoff } },
+  });
+  return count;
+}
@@ -1,10 +1,28 @@
 import { Router } from "express";
 import * as authController from "../controllers/authController";
+import * as apiTokenController from "../controllers/apiTokenController";
+import * as twoFactorController from "../controllers/twoFactorController";
+import * as impersonationController from "../controllers/impersonationController";
+import * as loginSecurityController from "../controllers/loginSecurityController";
 import rateLimit from "express-rate-limit";
 import { validate } from "../middleware/validateMiddleware";
-import { loginSchema } from "../schemas/authSchemas";
+import {
+  completeSsoLoginSchema,
+  confirmPasswordResetSchema,
+  createApiTokenSchema,
+  createServiceTokenSchema,
+  enrollLoginSchema,
+  loginSchema,
+  reportLoginSchema,
+  requestPasswordResetSchema,
+  startImpersonationSchema,
+  startSsoLoginSchema,
+  totpCodeSchema,
+  verifyLoginSchema,
+} from "../schemas/authSchemas";
 import { asyncHandler } from "../middleware/errorMiddleware";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, forbidImpersonation, requireSuperAdmin } from "../middleware/auth";
+import { requireOrgAccess } from "../middleware/orgAccess";
 
 const router = Router();
 
@@ -22,12 +40,47 @@ const refreshLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // each reset request sends an email
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 router.post("/login", loginLimiter, validate(loginSchema), asyncHandler(authController.login));
+router.post("/login/verify", loginLimiter, validate(verifyLoginSchema), asyncHandler(authController.verifyLogin));
+router.post("/login/enroll", loginLimiter, validate(enrollLoginSchema), asyncHandler(authController.enrollLogin));
+router.post("/sso/start", loginLimiter, validate(startSsoLoginSchema), asyncHandler(authController.startSsoLogin));
+router.post("/sso/callback", loginLimiter, validate(completeSsoLoginSchema), asyncHandler(authController.completeSsoLogin));
 router.post("/refresh", refreshLimiter, asyncHandler(authController.refresh));
 router.post("/switch-account", asyncHandler(authController.switchAccount));
 router.post("/logout", asyncHandler(authController.logout));
+router.post("/password-reset/request", passwordResetLimiter, validate(requestPasswordResetSchema), asyncHandler(authController.requestPasswordReset));
+router.post("/password-reset/confirm", passwordResetLimiter, validate(confirmPasswordResetSchema), asyncHandler(authController.confirmPasswordReset));
+router.post("/login-report", passwordResetLimiter, validate(reportLoginSchema), asyncHandler(loginSecurityController.reportLogin));
+router.get("/login-history", authenticateToken, asyncHandler(loginSecurityController.getLoginHistory));
 router.get("/sessions", authenticateToken, asyncHandler(authController.getSessions));
-router.delete("/sessions/all", authenticateToken, asyncHandler(authController.revokeAllSessions));
-router.delete("/sessions/:id", authenticateToken, asyncHandler(authController.revokeSession));
+router.delete("/sessions/all", authenticateToken, forbidImpersonation, asyncHandler(authController.revokeAllSessions));
+router.delete("/sessions/:id", authenticateToken, forbidImpersonation, asyncHandler(authController.revokeSession));
+
+// API tokens: your own personal tokens, and your organization's service tokens (admins)
+router.get("/tokens", authenticateToken, asyncHandler(apiTokenController.listTokens));
+router.post("/tokens", authenticateToken, forbidImpersonation, validate(createApiTokenSchema), asyncHandler(apiTokenController.createToken));
+router.delete("/tokens/:id", authenticateToken, asyncHandler(apiTokenController.revokeToken));
+router.get("/service-tokens", authenticateToken, asyncHandler(requireOrgAccess), asyncHandler(apiTokenController.listServiceTokens));
+router.post("/service-tokens", authenticateToken, forbidImpersonation, asyncHandler(requireOrgAccess), validate(createServiceTokenSchema), asyncHandler(apiTokenController.createServiceToken));
+router.delete("/service-tokens/:id", authenticateToken, asyncHandler(requireOrgAccess), asyncHandler(apiTokenController.revokeServiceToken));
+
+// Your own two-factor authentication
+router.get("/2fa", authenticateToken, asyncHandler(twoFactorController.getStatus));
+router.post("/2fa/setup", authenticateToken, forbidImpersonation, asyncHandler(twoFactorController.beginSetup));
+router.post("/2fa/enable", authenticateToken, forbidImpersonation, loginLimiter, validate(totpCodeSchema), asyncHandler(twoFactorController.enable));
+router.post("/2fa/disable", authenticateToken, forbidImpersonation, loginLimiter, validate(totpCodeSchema), asyncHandler(twoFactorController.disable));
+router.post("/2fa/recovery-codes", authenticateToken, forbidImpersonation, loginLimiter, validate(totpCodeSchema), asyncHandler(twoFactorController.regenerateRecoveryCodes));
+
+// Super-admin impersonation; stop is called with the impersonation token
+router.post("/impersonate", authenticateToken, requireSuperAdmin, validate(startImpersonationSchema), asyncHandler(impersonationController.startImpersonation));
+router.post("/impersonate/stop", authenticateToken, asyncHandler(impersonationController.stopImpersonation));
+router.get("/impersonations", authenticateToken, requireSuperAdmin, asyncHandler(impersonationController.listImpersonations));
 
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import * as calendarController from "../controllers/calendarController";
+import { authenticateToken } from "../middleware/auth";
+import { validate } from "../middleware/validateMiddleware";
+import { createClosedDaySchema, updateWorkingDaysSchema } from "../schemas/calendarSchemas";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+router.get("/", asyncHandler(calendarController.getCalendar));
+router.put("/working-days", validate(updateWorkingDaysSchema), asyncHandler(calendarController.updateWorkingDays));
+router.post("/closed-days", validate(createClosedDaySchema), asyncHandler(calendarController.addClosedDay));
+router.delete("/closed-days/:id", asyncHandler(calendarController.removeClosedDay));
+
+export default router;
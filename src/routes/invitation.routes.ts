@@ -0,0 +1,31 @@
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import * as invitationController from "../controllers/invitationController";
+import { authenticateToken } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+import { validate } from "../middleware/validateMiddleware";
+import { acceptInvitationSchema, createInvitationSchema } from "../schemas/invitationSchemas";
+
+const router = Router();
+
+const acceptLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // the accept page looks the invitation up before submitting
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Public — the invitee has no account yet and is identified by the link token
+router.get("/accept", acceptLimiter, asyncHandler(invitationController.previewInvitation));
+router.post("/accept", acceptLimiter, validate(acceptInvitationSchema), asyncHandler(invitationController.acceptInvitation));
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+// The organization's invitations (admins only); revoking keeps the invitation as REVOKED
+router.get("/", asyncHandler(invitationController.listInvitations));
+router.post("/", validate(createInvitationSchema), asyncHandler(invitationController.createInvitation));
+router.post("/:id/resend", asyncHandler(invitationController.resendInvitation));
+router.delete("/:id", asyncHandler(invitationController.revokeInvitation));
+
+export default router;
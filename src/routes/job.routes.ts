@@ -0,0 +1,14 @@
+import { Router } from "express";
+import * as jobController from "../controllers/jobController";
+import { authenticateToken, requireSuperAdmin } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+// Scheduled job runs across all replicas (super-admin only)
+router.get("/runs", requireSuperAdmin, asyncHandler(jobController.listJobRuns));
+
+export default router;
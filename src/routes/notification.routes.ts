@@ -0,0 +1,23 @@
+import { Router } from "express";
+import * as notificationController from "../controllers/notificationController";
+import { authenticateToken } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+import { validate } from "../middleware/validateMiddleware";
+import { updateNotificationPreferencesSchema } from "../schemas/notificationSchemas";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+// The caller's own in-app notifications, newest first
+router.get("/", asyncHandler(notificationController.listNotifications));
+router.get("/unread-count", asyncHandler(notificationController.getUnreadCount));
+router.post("/read-all", asyncHandler(notificationController.markAllRead));
+router.post("/:id/read", asyncHandler(notificationController.markRead));
+
+// Which notification types the caller receives on which channel, and their quiet hours
+router.get("/preferences", asyncHandler(notificationController.getPreferences));
+router.put("/preferences", validate(updateNotificationPreferencesSchema), asyncHandler(notificationController.updatePreferences));
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import * as orgRoleController from "../controllers/orgRoleController";
+import { authenticateToken } from "../middleware/auth";
+import { validate } from "../middleware/validateMiddleware";
+import { createOrgRoleSchema, updateOrgRoleSchema } from "../schemas/orgRoleSchemas";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+router.get("/permissions", asyncHandler(orgRoleController.getPermissions));
+router.get("/", asyncHandler(orgRoleController.listRoles));
+router.post("/", validate(createOrgRoleSchema), asyncHandler(orgRoleController.createRole));
+router.patch("/:id", validate(updateOrgRoleSchema), asyncHandler(orgRoleController.updateRole));
+router.delete("/:id", asyncHandler(orgRoleController.deleteRole));
+
+export default router;
@@ -2,7 +2,7 @@ import { Router } from "express";
 import * as projectController from "../controllers/projectController";
 import { authenticateToken } from "../middleware/auth";
 import { validate } from "../middleware/validateMiddleware";
-import { createProjectSchema, updateProjectSchema } from "../schemas/projectSchemas";
+import { createProjectSchema, setProjectMemberSchema, updateProjectSchema } from "../schemas/projectSchemas";
 import { asyncHandler } from "../middleware/errorMiddleware";
 import { requireOrgAccess } from "../middleware/orgAccess";
 
@@ -15,5 +15,8 @@ router.post("/", validate(createProjectSchema), asyncHandler(projectController.c
 router.get("/:id", asyncHandler(projectController.getProject));
 router.patch("/:id", validate(updateProjectSchema), asyncHandler(projectController.updateProject));
 router.delete("/:id", asyncHandler(projectController.deleteProject));
+router.get("/:id/members", asyncHandler(projectController.listMembers));
+router.put("/:id/members/:userId", validate(setProjectMemberSchema), asyncHandler(projectController.setMember));
+router.delete("/:id/members/:userId", asyncHandler(projectController.removeMember));
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import * as ssoController from "../controllers/ssoController";
+import { authenticateToken } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+import { validate } from "../middleware/validateMiddleware";
+import { saveSsoConfigSchema } from "../schemas/ssoSchemas";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+// The organization's OpenID Connect identity provider (admins only); signing in with it
+// is under /api/auth/sso
+router.get("/", asyncHandler(ssoController.getSsoConfig));
+router.put("/", validate(saveSsoConfigSchema), asyncHandler(ssoController.saveSsoConfig));
+router.delete("/", asyncHandler(ssoController.deleteSsoConfig));
+
+// Checks the domain's DNS for the TXT record listed in the configuration
+router.post("/domains/:domain/verify", asyncHandler(ssoController.verifySsoDomain));
+
+export default router;
@@ -13,6 +13,7 @@ const router = Router();
 router.use(authenticateToken, asyncHandler(requireOrgAccess));
 
 router.get("/", asyncHandler(taskController.listTasks));
+router.get("/search", asyncHandler(taskController.searchTasks));
 router.post("/", validate(createTaskSchema), asyncHandler(taskController.createTask));
 router.get("/:id", asyncHandler(taskController.getTask));
 router.patch("/:id", validate(updateTaskSchema), asyncHandler(taskController.updateTask));
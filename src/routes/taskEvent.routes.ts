@@ -8,6 +8,8 @@ const router = Router();
 
 router.use(authenticateToken, asyncHandler(requireOrgAccess));
 
+// Live task events over Server-Sent Events (see taskEventController.streamTaskEvents)
+router.get("/stream", asyncHandler(taskEventController.streamTaskEvents));
 router.get("/:taskId", asyncHandler(taskEventController.listTaskEvents));
 
 export default router;
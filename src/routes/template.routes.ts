@@ -1,8 +1,12 @@
 import { Router } from "express";
 import * as templateController from "../controllers/templateController";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, requireSuperAdmin } from "../middleware/auth";
 import { validate } from "../middleware/validateMiddleware";
-import { createTemplateSchema, updateTemplateSchema } from "../schemas/templateSchemas";
+import {
+  createTemplateExceptionSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+} from "../schemas/templateSchemas";
 import { asyncHandler } from "../middleware/errorMiddleware";
 import { requireOrgAccess } from "../middleware/orgAccess";
 
@@ -19,6 +23,13 @@ router.get(
   asyncHandler(templateController.listActiveTemplates),
 );
 
+// Nightly horizon runs and the templates they extended or failed on (super-admin only)
+router.get(
+  "/generation-runs",
+  requireSuperAdmin,
+  asyncHandler(templateController.listGenerationRuns),
+);
+
 // Create new template
 router.post("/", validate(createTemplateSchema), asyncHandler(templateController.createTemplate));
 
@@ -49,4 +60,25 @@ router.get(
   asyncHandler(templateController.getTemplateInstances),
 );
 
+// History of skipped and moved occurrences
+router.get(
+  "/:id/events",
+  asyncHandler(templateController.listTemplateEvents),
+);
+
+// Skip or move single occurrences
+router.get(
+  "/:id/exceptions",
+  asyncHandler(templateController.listTemplateExceptions),
+);
+router.post(
+  "/:id/exceptions",
+  validate(createTemplateExceptionSchema),
+  asyncHandler(templateController.createTemplateException),
+);
+router.delete(
+  "/:id/exceptions/:exceptionId",
+  asyncHandler(templateController.deleteTemplateException),
+);
+
 export default router;
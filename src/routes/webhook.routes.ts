@@ -0,0 +1,23 @@
+import { Router } from "express";
+import * as webhookController from "../controllers/webhookController";
+import { authenticateToken } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import { requireOrgAccess } from "../middleware/orgAccess";
+import { validate } from "../middleware/validateMiddleware";
+import { createWebhookSchema, updateWebhookSchema } from "../schemas/webhookSchemas";
+
+const router = Router();
+
+router.use(authenticateToken, asyncHandler(requireOrgAccess));
+
+// The organization's webhook endpoints (admins only)
+router.get("/", asyncHandler(webhookController.listWebhooks));
+router.post("/", validate(createWebhookSchema), asyncHandler(webhookController.createWebhook));
+router.patch("/:id", validate(updateWebhookSchema), asyncHandler(webhookController.updateWebhook));
+router.delete("/:id", asyncHandler(webhookController.deleteWebhook));
+
+// Delivery log, newest first, and manual redelivery
+router.get("/:id/deliveries", asyncHandler(webhookController.listDeliveries));
+router.post("/:id/deliveries/:deliveryId/redeliver", asyncHandler(webhookController.redeliver));
+
+export default router;
@@ -1,7 +1,87 @@
 import { z } from "zod";
+import { UserRole } from "../generated/prisma/client";
+import { API_TOKEN_SCOPES } from "../types/apiToken";
 
 export const loginSchema = z.object({
   email: z.string("email is required").trim().min(1, "email is required"),
   password: z.string("password is required").min(1, "password is required"),
   device_name: z.string().trim().max(100).optional(),
 });
+
+export const requestPasswordResetSchema = z.object({
+  email: z.string("email is required").trim().min(1, "email is required"),
+});
+
+export const confirmPasswordResetSchema = z.object({
+  token: z.string("token is required").min(1, "token is required"),
+  password: z.string("password is required").min(1, "password is required"),
+});
+
+const totpCode = z.string().trim().regex(/^\d{6}$/, "code must be a 6-digit code");
+
+// A TOTP code or, where allowed, a recovery code.
+const secondFactor = {
+  code: totpCode.optional(),
+  recovery_code: z.string().trim().min(1).optional(),
+};
+
+export const verifyLoginSchema = z
+  .object({
+    challenge_token: z.string("challenge_token is required").min(1, "challenge_token is required"),
+    ...secondFactor,
+  })
+  .refine((v) => !!v.code !== !!v.recovery_code, { message: "Provide either code or recovery_code" });
+
+export const enrollLoginSchema = z.object({
+  challenge_token: z.string("challenge_token is required").min(1, "challenge_token is required"),
+});
+
+export const totpCodeSchema = z.object({
+  code: totpCode,
+});
+
+const apiTokenFields = {
+  name: z.string("name is required").trim().min(1, "name is required").max(100),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES as [string, ...string[]], { error: "scopes must contain valid API token scopes" }))
+    .min(1, "scopes must contain at least one scope")
+    .transform((scopes) => [...new Set(scopes)]),
+  expires_in_days: z.number().int().min(1).max(365).optional(),
+};
+
+export const createApiTokenSchema = z.object(apiTokenFields);
+
+export const createServiceTokenSchema = z.object({
+  ...apiTokenFields,
+  role: z.enum([UserRole.USER, UserRole.ADMIN], { error: "role must be USER or ADMIN" }).optional(),
+});
+
+export const startImpersonationSchema = z.object({
+  user_id: z.string("user_id is required").trim().min(1, "user_id is required"),
+  reason: z.string("reason is required").trim().min(1, "reason is required").max(500),
+});
+
+export const listImpersonationsQuerySchema = z.object({
+  user_id: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const reportLoginSchema = z.object({
+  token: z.string("token is required").min(1, "token is required"),
+});
+
+export const loginHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const startSsoLoginSchema = z.object({
+  email: z.string("email is required").trim().email("email must be a valid email address"),
+  device_name: z.string().trim().max(100).optional(),
+});
+
+export const completeSsoLoginSchema = z.object({
+  state: z.string("state is required").min(1, "state is required"),
+  code: z.string("code is required").min(1, "code is required"),
+  // The app's copy from /sso/start; browsers send their binding cookie instead
+  code_verifier: z.string().min(1).max(128).optional(),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+const dateOnly = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date in YYYY-MM-DD format")
+  .refine((v) => !isNaN(new Date(v).getTime()), { message: "must be a valid date" });
+
+export const calendarQuerySchema = z
+  .object({
+    from: dateOnly.optional(),
+    to: dateOnly.optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "from must be on or before to",
+    path: ["to"],
+  });
+
+export const updateWorkingDaysSchema = z.object({
+  working_days: z
+    .array(z.number().int().min(0).max(6), "working_days must be an array of weekdays (0 = Sunday … 6 = Saturday)")
+    .max(7),
+});
+
+export const createClosedDaySchema = z.object({
+  date: dateOnly,
+  name: z.string("name is required").trim().min(1, "name is required").max(191),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { InvitationStatus, UserRole } from "../generated/prisma/client";
+import { SUPPORTED_LOCALES } from "../utils/messageCatalog";
+
+export const createInvitationSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim().min(1).optional(),
+  position_id: z.string().uuid().optional(),
+  role: z.nativeEnum(UserRole).optional(),
+  // null leaves the new user on the organization's default_locale.
+  locale: z.enum(SUPPORTED_LOCALES).nullable().optional(),
+  organization_id: z.string().uuid().optional(),
+});
+
+export const listInvitationsQuerySchema = z.object({
+  status: z.nativeEnum(InvitationStatus).optional(),
+});
+
+export const invitationTokenQuerySchema = z.object({
+  token: z.string("token is required").min(1, "token is required"),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string("token is required").min(1, "token is required"),
+  password: z.string("password is required").min(1, "password is required"),
+  name: z.string().trim().min(1).optional(),
+});
@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+export const listJobRunsQuerySchema = z.object({
+  job: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
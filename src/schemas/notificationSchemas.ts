@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { NotificationType } from "../generated/prisma/client";
+
+export const listNotificationsQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "must be a time in HH:mm format");
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    preferences: z
+      .array(
+        z.object({
+          type: z.nativeEnum(NotificationType, { error: "type must be a valid NotificationType" }),
+          push: z.boolean(),
+          in_app: z.boolean(),
+          email: z.boolean().optional(),
+        }),
+      )
+      .optional(),
+    quiet_hours: z
+      .object({ start: clockTime, end: clockTime })
+      .refine((q) => q.start !== q.end, { message: "quiet_hours start and end must differ" })
+      .nullable()
+      .optional(),
+  })
+  .refine((v) => v.preferences !== undefined || v.quiet_hours !== undefined, {
+    message: "Provide preferences and/or quiet_hours",
+  });
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { PERMISSIONS } from "../types/permission";
+
+const permissions = z
+  .array(z.enum(PERMISSIONS, { error: "permissions must contain valid permissions" }))
+  .transform((values) => [...new Set(values)]);
+
+const description = z.string().trim().max(191).nullable().optional();
+
+export const createOrgRoleSchema = z.object({
+  name: z.string("name is required").trim().min(1, "name is required").max(100),
+  description,
+  permissions,
+});
+
+export const updateOrgRoleSchema = z
+  .object({
+    name: z.string().trim().min(1, "name must be a non-empty string").max(100).optional(),
+    description,
+    permissions: permissions.optional(),
+  })
+  .refine((v) => Object.values(v).some((value) => value !== undefined), {
+    message: "Provide at least one field to update",
+  });
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { isOrgLogoPath } from "../repositories/organizationRepository";
 import { ALLOWED_MIME_TYPES } from "../services/storageService";
+import { isValidTimeZone } from "../utils/dateUtils";
+import { SUPPORTED_LOCALES } from "../utils/messageCatalog";
 
 const logoUrlField = z
   .string()
@@ -8,16 +10,46 @@ const logoUrlField = z
   .nullable()
   .optional();
 
+const timezoneField = z
+  .string()
+  .trim()
+  .refine((v) => isValidTimeZone(v), { message: "timezone must be a valid IANA timezone, e.g. Europe/Copenhagen" })
+  .nullable()
+  .optional();
+
+const clockTimeField = (name: string) =>
+  z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, `${name} must be a time in HH:mm format`)
+    .optional();
+
+// 0 = Sunday … 6 = Saturday, as in working_days.
+const weekdayField = z.number().int().min(0).max(6).optional();
+
 export const createOrganizationSchema = z.object({
   name: z.string("name is required").trim().min(1, "name is required"),
   slug: z.string("slug is required").trim().min(1, "slug is required"),
   logo_url: logoUrlField,
+  timezone: timezoneField,
+  morning_briefing_time: clockTimeField("morning_briefing_time"),
+  evening_reminder_time: clockTimeField("evening_reminder_time"),
+  default_locale: z.enum(SUPPORTED_LOCALES).optional(),
+  digest_time: clockTimeField("digest_time"),
+  weekly_digest_day: weekdayField,
+  require_admin_2fa: z.boolean().optional(),
 });
 
 export const updateOrganizationSchema = z.object({
   name: z.string().trim().min(1, "name must be a non-empty string").optional(),
   slug: z.string().trim().min(1, "slug must be a non-empty string").optional(),
   logo_url: logoUrlField,
+  timezone: timezoneField,
+  morning_briefing_time: clockTimeField("morning_briefing_time"),
+  evening_reminder_time: clockTimeField("evening_reminder_time"),
+  default_locale: z.enum(SUPPORTED_LOCALES).optional(),
+  digest_time: clockTimeField("digest_time"),
+  weekly_digest_day: weekdayField,
+  require_admin_2fa: z.boolean().optional(),
 });
 
 export const prepareOrgLogoSchema = z.object({
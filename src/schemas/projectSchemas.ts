@@ -1,13 +1,20 @@
 import { z } from "zod";
+import { ProjectMemberRole } from "../generated/prisma/client";
 
 export const createProjectSchema = z.object({
   name: z.string("name is required").trim().min(1, "name is required"),
   description: z.string().optional(),
   color: z.string().optional(),
+  restricted: z.boolean("restricted must be a boolean").optional(),
 });
 
 export const updateProjectSchema = z.object({
   name: z.string().trim().min(1, "name must be a non-empty string").optional(),
   description: z.string().optional().nullable(),
   color: z.string().optional().nullable(),
+  restricted: z.boolean("restricted must be a boolean").optional(),
+});
+
+export const setProjectMemberSchema = z.object({
+  role: z.nativeEnum(ProjectMemberRole, { error: "role must be OWNER, MEMBER or VIEWER" }),
 });
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { UserRole } from "../generated/prisma/client";
+
+const domain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?=.{1,191}$)([a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, "allowed_domains must contain domain names");
+
+export const saveSsoConfigSchema = z.object({
+  issuer: z.url({ protocol: /^https$/, error: "issuer must be a valid https URL" }).max(512),
+  client_id: z.string("client_id is required").trim().min(1, "client_id is required").max(191),
+  client_secret: z.string().min(1).max(2048).optional(),
+  allowed_domains: z.array(domain).min(1, "allowed_domains must contain at least one domain").max(50),
+  default_role: z.enum([UserRole.USER, UserRole.ADMIN], { error: "default_role must be USER or ADMIN" }).optional(),
+  default_position_id: z.string().min(1).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const taskEventStreamQuerySchema = z
+  .object({
+    task_id: z.string().min(1).optional(),
+    project_id: z.string().min(1).optional(),
+    // For clients that cannot set the Last-Event-ID header; the header wins.
+    last_event_id: z.string().min(1).optional(),
+  })
+  .refine((q) => !q.task_id || !q.project_id, {
+    message: "Provide task_id or project_id, not both",
+    path: ["project_id"],
+  });
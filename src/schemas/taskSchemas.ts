@@ -39,3 +39,48 @@ export const upsertProgressLogSchema = z
     quantity_done: z.number("quantity_done is required").positive("quantity_done must be a positive number"),
   })
   .passthrough();
+
+export const TASK_LIST_DEFAULT_LIMIT = 100;
+export const TASK_LIST_MAX_LIMIT = 500;
+
+// Query params arrive as a single string, a comma-separated string, or a repeated key.
+function csvArray<T extends z.ZodType>(item: T) {
+  return z.preprocess(
+    (v) => {
+      if (v === undefined) return undefined;
+      const values = Array.isArray(v) ? v : [v];
+      return values.flatMap((s) => String(s).split(",")).map((s) => s.trim()).filter(Boolean);
+    },
+    z.array(item).min(1),
+  );
+}
+
+const dateParam = z
+  .string()
+  .refine((v) => !isNaN(new Date(v).getTime()), { message: "Invalid date" })
+  .transform((v) => new Date(v));
+
+const booleanParam = z.enum(["true", "false"]).transform((v) => v === "true");
+
+export const listTasksQuerySchema = z.object({
+  project_id:      z.string().trim().min(1).optional(),
+  status:          csvArray(statusEnum).optional(),
+  priority:        csvArray(priorityEnum).optional(),
+  assignee:        z.string().trim().min(1).optional(),
+  creator:         z.string().trim().min(1).optional(),
+  parent_task_id:  z.string().trim().min(1).transform((v) => (v === "null" ? null : v)).optional(),
+  deadline_from:   dateParam.optional(),
+  deadline_to:     dateParam.optional(),
+  start_date_from: dateParam.optional(),
+  start_date_to:   dateParam.optional(),
+  has_goal:        booleanParam.optional(),
+  sort:            z.enum(["created_at", "updated_at", "deadline", "start_date", "priority", "number"]).default("created_at"),
+  order:           z.enum(["asc", "desc"]).default("desc"),
+  limit:           z.coerce.number().int().min(1).max(TASK_LIST_MAX_LIMIT).default(TASK_LIST_DEFAULT_LIMIT),
+  cursor:          z.string().min(1).optional(),
+});
+
+export const searchTasksQuerySchema = z.object({
+  q:     z.string().trim().min(3, "q must be at least 3 characters").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
@@ -1,5 +1,11 @@
 import { z } from "zod";
-import { RecurrenceFrequency, TaskPriority, TaskUnit } from "../generated/prisma/client";
+import {
+  ClosedDayPolicy,
+  RecurrenceFrequency,
+  RecurringExceptionType,
+  TaskPriority,
+  TaskUnit,
+} from "../generated/prisma/client";
 import { validateRecurringTemplateData } from "../helper/helpers";
 
 const templateGoalSchema = z.object({
@@ -11,12 +17,14 @@ const templateGoalSchema = z.object({
 export const createTemplateSchema = z
   .object({
     title: z.string("title is required").trim().min(1, "title is required and must be a non-empty string"),
-    frequency: z.nativeEnum(RecurrenceFrequency, { error: "frequency must be a valid RecurrenceFrequency" }),
+    frequency: z.nativeEnum(RecurrenceFrequency, { error: "frequency must be a valid RecurrenceFrequency" }).optional(),
+    rrule: z.string().trim().min(1, "rrule must be a non-empty string").optional().nullable(),
     start_date: z.string("start_date is required").min(1, "start_date is required"),
     end_date: z.string().optional().nullable(),
     interval: z.number().int().positive("interval must be a positive integer").optional(),
     days_of_week: z.array(z.number()).optional().nullable(),
     day_of_month: z.number().int().optional().nullable(),
+    closed_day_policy: z.nativeEnum(ClosedDayPolicy, { error: "closed_day_policy must be a valid ClosedDayPolicy" }).optional(),
     project_id: z.string("project_id is required").trim().min(1, "project_id is required"),
     description: z.string().optional().nullable(),
     priority: z.nativeEnum(TaskPriority).optional(),
@@ -33,6 +41,7 @@ export const createTemplateSchema = z
       interval: data.interval,
       days_of_week: data.days_of_week,
       day_of_month: data.day_of_month,
+      rrule: data.rrule,
     });
     if (!result.isValid) {
       ctx.addIssue({ code: "custom", message: result.error! });
@@ -45,14 +54,36 @@ export const createTemplateSchema = z
 export const updateTemplateSchema = z.object({
   title: z.string().trim().min(1, "title must be a non-empty string").optional(),
   frequency: z.nativeEnum(RecurrenceFrequency).optional(),
+  rrule: z.string().trim().min(1, "rrule must be a non-empty string").optional().nullable(),
   start_date: z.string().optional(),
   end_date: z.string().optional().nullable(),
   interval: z.number().int().positive("interval must be a positive integer").optional(),
   days_of_week: z.array(z.number()).optional().nullable(),
   day_of_month: z.number().int().optional().nullable(),
+  closed_day_policy: z.nativeEnum(ClosedDayPolicy, { error: "closed_day_policy must be a valid ClosedDayPolicy" }).optional(),
   project_id: z.string().trim().min(1, "project_id must be a non-empty string").optional(),
   description: z.string().optional().nullable(),
   priority: z.nativeEnum(TaskPriority).optional(),
   goal: templateGoalSchema.optional().nullable(),
   assigned_users: z.array(z.string()).optional(),
 });
+
+const dateOnly = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date in YYYY-MM-DD format")
+  .refine((v) => !isNaN(new Date(v).getTime()), { message: "must be a valid date" });
+
+export const createTemplateExceptionSchema = z
+  .object({
+    occurrence_date: dateOnly,
+    type: z.nativeEnum(RecurringExceptionType, { error: "type must be SKIP or MOVE" }),
+    moved_to: dateOnly.optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === RecurringExceptionType.MOVE && !data.moved_to) {
+      ctx.addIssue({ code: "custom", path: ["moved_to"], message: "moved_to is required when moving an occurrence" });
+    }
+    if (data.type === RecurringExceptionType.SKIP && data.moved_to) {
+      ctx.addIssue({ code: "custom", path: ["moved_to"], message: "moved_to should not be set when skipping an occurrence" });
+    }
+  });
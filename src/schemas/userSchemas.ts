@@ -3,6 +3,10 @@ import Expo from "expo-server-sdk";
 import { UserRole, UserStatus } from "../generated/prisma/client";
 import { ALLOWED_MIME_TYPES } from "../services/storageService";
 import { isUserProfilePicturePath } from "../repositories/userRepository";
+import { SUPPORTED_LOCALES } from "../utils/messageCatalog";
+
+// null clears the user's own locale so the organization's default_locale applies.
+const localeField = z.enum(SUPPORTED_LOCALES).nullable().optional();
 
 export const createUserSchema = z.object({
   name: z.string().min(1),
@@ -10,6 +14,7 @@ export const createUserSchema = z.object({
   password: z.string().min(1),
   position_id: z.string().uuid().optional(),
   role: z.nativeEnum(UserRole).optional(),
+  locale: localeField,
   organization_id: z.string().uuid().optional(),
 });
 
@@ -20,7 +25,9 @@ export const updateUserSchema = z.object({
   position_id: z.string().uuid().nullable().optional(),
   role: z.nativeEnum(UserRole).optional(),
   status: z.nativeEnum(UserStatus).optional(),
+  org_role_id: z.string().uuid().nullable().optional(),
   profile_picture_url: z.string().refine(isUserProfilePicturePath, { message: "Invalid profile_picture_url" }).nullable().optional(),
+  locale: localeField,
 });
 
 export const prepareProfilePictureSchema = z.object({
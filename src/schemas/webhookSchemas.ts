@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { TaskEventType, WebhookDeliveryStatus } from "../generated/prisma/client";
+
+const webhookUrl = z.url({ protocol: /^https$/, error: "url must be a valid https URL" }).max(2048);
+
+const eventTypes = z
+  .array(z.nativeEnum(TaskEventType, { error: "event_types must contain valid TaskEventType values" }))
+  .min(1, "event_types must contain at least one event type")
+  .transform((types) => [...new Set(types)]);
+
+const description = z.string().trim().max(191).nullable().optional();
+
+export const createWebhookSchema = z.object({
+  url: webhookUrl,
+  description,
+  event_types: eventTypes,
+});
+
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrl.optional(),
+    description,
+    event_types: eventTypes.optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((v) => Object.values(v).some((value) => value !== undefined), {
+    message: "Provide at least one field to update",
+  });
+
+export const listWebhookDeliveriesQuerySchema = z.object({
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
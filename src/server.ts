@@ -19,6 +19,13 @@ import organizationRoutes from "./routes/organization.routes";
 import positionRoutes from "./routes/position.routes";
 import goalRoutes from "./routes/goal.routes";
 import dashboardRoutes from "./routes/dashboard.routes";
+import calendarRoutes from "./routes/calendar.routes";
+import jobRoutes from "./routes/job.routes";
+import notificationRoutes from "./routes/notification.routes";
+import webhookRoutes from "./routes/webhook.routes";
+import invitationRoutes from "./routes/invitation.routes";
+import orgRoleRoutes from "./routes/orgRole.routes";
+import ssoRoutes from "./routes/sso.routes";
 import { initScheduler } from "./services/schedulerService";
 import { errorMiddleware } from "./middleware/errorMiddleware";
 
@@ -58,7 +65,7 @@ app.use(
     },
     credentials: true, // needed for httpOnly refresh-token cookie (web client)
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Org-Context", "X-Client"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-Org-Context", "X-Client", "Last-Event-ID"],
   }),
 );
 
@@ -110,6 +117,13 @@ app.use("/api/organizations", organizationRoutes);
 app.use("/api/attachments", attachmentRoutes);
 app.use("/api/positions", positionRoutes);
 app.use("/api/dashboard", dashboardRoutes);
+app.use("/api/calendar", calendarRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/invitations", invitationRoutes);
+app.use("/api/roles", orgRoleRoutes);
+app.use("/api/sso", ssoRoutes);
 
 // 404
 app.use((_req, res) => {
@@ -0,0 +1,169 @@
+import * as apiTokenRepo from "../repositories/apiTokenRepository";
+import { ApiTokenKind, UserRole, UserStatus } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import {
+  API_TOKEN_AREAS,
+  type ApiTokenIdentity,
+  type CreateApiTokenInput,
+  type CreateServiceTokenInput,
+} from "../types/apiToken";
+import {
+  ApiTokenNotFoundError,
+  ApiTokenScopeError,
+  AuthenticationError,
+  ForbiddenUserOperationError,
+  MissingOrganizationError,
+  UserTerminatedError,
+} from "../errors/domainErrors";
+import { isBuiltInAdmin, requirePermission } from "./policyService";
+
+export { ApiTokenNotFoundError, ApiTokenScopeError } from "../errors/domainErrors";
+
+// API tokens for scripts and integrations, sent as "Authorization: Bearer <token>" like
+// access tokens. Personal tokens (pat_…) act as their user with the user's current role;
+// service tokens (sat_…) belong to an organization and act as its service account with
+// the role chosen for the token. Either is limited to its scopes (see API_TOKEN_SCOPES).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function requireAdminRole(ctx: RequestContext) {
+  requirePermission(ctx, "service_token.manage", "Only admins can manage service tokens");
+}
+
+function requireOrg(ctx: RequestContext): string {
+  if (!ctx.effectiveOrgId) throw new MissingOrganizationError();
+  return ctx.effectiveOrgId;
+}
+
+function expiresAt(input: CreateApiTokenInput, now: Date): Date | null {
+  return input.expires_in_days ? new Date(now.getTime() + input.expires_in_days * DAY_MS) : null;
+}
+
+export function isApiToken(raw: string): boolean {
+  return raw.startsWith("pat_") || raw.startsWith("sat_");
+}
+
+// The API area of a request, from the path its router is mounted under (/api/<area>).
+export function apiAreaOf(baseUrl: string): string | null {
+  return /^\/api\/([^/]+)/.exec(baseUrl)?.[1] ?? null;
+}
+
+export function scopesAllow(scopes: string[], area: string, access: "read" | "write"): boolean {
+  return scopes.some((scope) => {
+    const [scopeArea, scopeAccess] = scope.includes(":") ? scope.split(":") : [null, scope];
+    if (scopeArea && scopeArea !== area) return false;
+    return scopeAccess === "write" || access === "read";
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Authenticating (authenticateToken)
+// ---------------------------------------------------------------------------
+
+// Resolves an API token into the identity authenticateToken sets as req.user, after
+// checking that its scopes allow the request. Records when and from where it was used.
+export async function authenticateApiToken(
+  raw: string,
+  request: { baseUrl: string; method: string; ip?: string },
+  now: Date = new Date(),
+): Promise<ApiTokenIdentity> {
+  const token = await apiTokenRepo.getTokenForAuth(raw);
+  if (!token || token.revoked_at || (token.expires_at && token.expires_at <= now)) {
+    throw new AuthenticationError("Invalid token");
+  }
+  // A personal token stops working with its user's account, as sign-in and refresh do
+  if (token.user.status !== UserStatus.ACTIVE) throw new UserTerminatedError();
+
+  const area = apiAreaOf(request.baseUrl);
+  if (!area || !(API_TOKEN_AREAS as readonly string[]).includes(area)) {
+    throw new ApiTokenScopeError("API tokens cannot be used for this endpoint");
+  }
+  const access = READ_METHODS.has(request.method) ? "read" : "write";
+  if (!scopesAllow(token.scopes as string[], area, access)) {
+    throw new ApiTokenScopeError(`This API token does not have ${access} access to ${area}`);
+  }
+
+  apiTokenRepo.touchToken(token.token_id, request.ip, now).catch((err) => {
+    console.error("API token last-used update error:", err);
+  });
+
+  const isService = token.kind === ApiTokenKind.SERVICE;
+  return {
+    user_id: token.user.user_id,
+    email: token.user.email,
+    name: isService ? token.name : token.user.name,
+    role: isService ? token.role! : token.user.role,
+    organization_id: isService ? token.organization_id! : token.user.organization_id,
+    exp: token.expires_at ? Math.floor(token.expires_at.getTime() / 1000) : undefined,
+    api_token_id: token.token_id,
+  };
+}
+
+// Whether a token authenticated earlier is still unrevoked, unexpired and its user
+// active. Long-lived connections (the task event stream) check this periodically.
+export async function isApiTokenActive(tokenId: string, now: Date = new Date()): Promise<boolean> {
+  const token = await apiTokenRepo.getTokenValidity(tokenId);
+  return (
+    !!token &&
+    !token.revoked_at &&
+    !(token.expires_at && token.expires_at <= now) &&
+    token.user.status === UserStatus.ACTIVE
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Personal tokens — your own
+// ---------------------------------------------------------------------------
+
+export async function listPersonalTokens(userId: string) {
+  return apiTokenRepo.getPersonalTokens(userId);
+}
+
+// The response is the only time the token itself is returned.
+export async function createPersonalToken(userId: string, input: CreateApiTokenInput, now: Date = new Date()) {
+  const { token, raw } = await apiTokenRepo.createPersonalToken(userId, {
+    name: input.name,
+    scopes: input.scopes,
+    expires_at: expiresAt(input, now),
+    created_by: userId,
+  });
+  return { ...token, token: raw };
+}
+
+export async function revokePersonalToken(userId: string, tokenId: string, now: Date = new Date()): Promise<void> {
+  if (!(await apiTokenRepo.revokePersonalToken(tokenId, userId, now))) throw new ApiTokenNotFoundError(tokenId);
+}
+
+// ---------------------------------------------------------------------------
+// Service tokens — org admins only
+// ---------------------------------------------------------------------------
+
+export async function listServiceTokens(ctx: RequestContext) {
+  requireAdminRole(ctx);
+  return apiTokenRepo.getServiceTokens(requireOrg(ctx));
+}
+
+// The response is the only time the token itself is returned. Only built-in admins can
+// create ADMIN tokens, as only they can make admins (see userService).
+export async function createServiceToken(ctx: RequestContext, input: CreateServiceTokenInput, now: Date = new Date()) {
+  requireAdminRole(ctx);
+  const role = input.role ?? UserRole.USER;
+  if (role === UserRole.ADMIN && !isBuiltInAdmin(ctx)) {
+    throw new ForbiddenUserOperationError("Only admins can create admin service tokens");
+  }
+  const { token, raw } = await apiTokenRepo.createServiceToken(requireOrg(ctx), role, {
+    name: input.name,
+    scopes: input.scopes,
+    expires_at: expiresAt(input, now),
+    created_by: ctx.actorUserId,
+  });
+  return { ...token, token: raw };
+}
+
+export async function revokeServiceToken(ctx: RequestContext, tokenId: string, now: Date = new Date()): Promise<void> {
+  requireAdminRole(ctx);
+  if (!(await apiTokenRepo.revokeServiceToken(tokenId, requireOrg(ctx), now))) {
+    throw new ApiTokenNotFoundError(tokenId);
+  }
+}
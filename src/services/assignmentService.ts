@@ -1,37 +1,41 @@
 import { prisma } from "../db/prisma";
-import { TaskEventType, TaskStatus, UserRole } from "../generated/prisma/client";
+import { NotificationType, TaskEventType, TaskStatus } from "../generated/prisma/client";
 import * as assignmentRepo from "../repositories/assignmentRepository";
 import * as taskRepo from "../repositories/taskRepository";
 import * as taskEventRepo from "../repositories/taskEventRepository";
 import * as userRepo from "../repositories/userRepository";
-import { sendPushNotification } from "./notificationService";
+import { notifyUser } from "./inboxService";
 import type { RequestContext } from "../types/requestContext";
+import { eventActor } from "../helper/helpers";
 import {
   AssignmentNotFoundError,
   AssignmentCrossOrganizationError,
   AssignmentForbiddenError,
   TaskArchivedError,
 } from "../errors/domainErrors";
+import { can, projectVisibilityFor } from "./policyService";
 
 export { AssignmentNotFoundError, AssignmentCrossOrganizationError };
 
-// Lists all assignments scoped to the caller's org (or platform-wide for super-admin).
+// Lists all assignments scoped to the caller's org (or platform-wide for super-admin),
+// on the tasks the caller can see.
 export async function listAssignments(ctx: RequestContext, userId?: string, taskId?: string) {
-  if (userId) return assignmentRepo.getUserAssignments(userId, ctx.effectiveOrgId);
-  if (taskId) return assignmentRepo.getTaskAssignments(taskId, ctx.effectiveOrgId);
-  return assignmentRepo.getAllAssignments(ctx.effectiveOrgId);
+  const visibleTo = projectVisibilityFor(ctx);
+  if (userId) return assignmentRepo.getUserAssignments(userId, ctx.effectiveOrgId, visibleTo);
+  if (taskId) return assignmentRepo.getTaskAssignments(taskId, ctx.effectiveOrgId, visibleTo);
+  return assignmentRepo.getAllAssignments(ctx.effectiveOrgId, visibleTo);
 }
 
 export async function getTaskAssignments(ctx: RequestContext, taskId: string) {
-  return assignmentRepo.getTaskAssignments(taskId, ctx.effectiveOrgId);
+  return assignmentRepo.getTaskAssignments(taskId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 }
 
 export async function getUserAssignments(ctx: RequestContext, userId: string) {
-  return assignmentRepo.getUserAssignments(userId, ctx.effectiveOrgId);
+  return assignmentRepo.getUserAssignments(userId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 }
 
 export async function getAssignmentById(ctx: RequestContext, assignmentId: string) {
-  return assignmentRepo.getAssignmentById(assignmentId, ctx.effectiveOrgId);
+  return assignmentRepo.getAssignmentById(assignmentId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 }
 
 // Assignments cannot be created on archived tasks.
@@ -41,51 +45,50 @@ export async function assignTaskToUser(
   taskId: string,
   userId: string,
 ) {
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new AssignmentForbiddenError();
+  if (!can(ctx, "task.assign")) throw new AssignmentForbiddenError();
 
   const task = await taskRepo.getTaskById(taskId, ctx.effectiveOrgId);
   if (!task) return null;
 
   if (task.status === TaskStatus.ARCHIVED) throw new TaskArchivedError();
 
-  const assignment = await assignmentRepo.assignTaskToUser(
-    { task_id: taskId, user_id: userId },
-    ctx.effectiveOrgId,
-  );
-
-  await taskEventRepo.createTaskEvent(prisma, {
-    task: { connect: { task_id: assignment.task_id } },
-    actor: { connect: { user_id: ctx.actorUserId } },
-    type: TaskEventType.ASSIGNMENT_CREATED,
-    message: "Assignment created",
-    assignment: { connect: { assignment_id: assignment.assignment_id } },
-    before_json: {},
-    after_json: assignment,
-  });
-
-  // Notify the assigned user after the event is recorded.
-  const pushToken = await userRepo.getPushToken(userId);
-  if (pushToken) {
-    const taskTitle = (assignment as any).task?.title ?? "En opgave";
-    void sendPushNotification(
-      pushToken,
-      "Ny opgave tildelt",
-      `Du er blevet tildelt: ${taskTitle}`,
-      { taskId: assignment.task_id },
-      userId,
+  // The assignment, its event and the notification to the assigned user commit together.
+  return prisma.$transaction(async (tx) => {
+    const assignment = await assignmentRepo.assignTaskToUser(
+      tx,
+      { task_id: taskId, user_id: userId },
+      ctx.effectiveOrgId,
     );
-  }
 
-  return assignment;
+    await taskEventRepo.createTaskEvent(tx, {
+      task: { connect: { task_id: assignment.task_id } },
+      ...eventActor(ctx),
+      type: TaskEventType.ASSIGNMENT_CREATED,
+      message: "Assignment created",
+      assignment: { connect: { assignment_id: assignment.assignment_id } },
+      before_json: {},
+      after_json: assignment,
+    });
+
+    const recipient = await userRepo.getRecipient(tx, userId);
+    if (recipient) {
+      await notifyUser(tx, recipient, {
+        type: NotificationType.TASK_ASSIGNED,
+        params: { task: task.title },
+        data: { taskId: assignment.task_id },
+        task_id: assignment.task_id,
+      });
+    }
+
+    return assignment;
+  });
 }
 
 // Deleting an assignment on an archived task is rejected.
 export async function deleteAssignment(ctx: RequestContext, assignmentId: string) {
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new AssignmentForbiddenError();
+  if (!can(ctx, "task.assign")) throw new AssignmentForbiddenError();
 
-  const existing = await assignmentRepo.getAssignmentById(assignmentId, ctx.effectiveOrgId);
+  const existing = await assignmentRepo.getAssignmentById(assignmentId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
   if (!existing) throw new AssignmentNotFoundError();
 
   if ((existing as any).task?.status === TaskStatus.ARCHIVED) throw new TaskArchivedError();
@@ -93,7 +96,7 @@ export async function deleteAssignment(ctx: RequestContext, assignmentId: string
   // Log event before deletion so the assignment FK still exists.
   await taskEventRepo.createTaskEvent(prisma, {
     task: { connect: { task_id: existing.task_id } },
-    actor: { connect: { user_id: ctx.actorUserId } },
+    ...eventActor(ctx),
     type: TaskEventType.ASSIGNMENT_DELETED,
     message: "Assignment deleted",
     assignment: { connect: { assignment_id: existing.assignment_id } },
@@ -1,13 +1,15 @@
 import { prisma } from "../db/prisma";
-import { TaskStatus, UserRole } from "../generated/prisma/client";
+import { TaskStatus } from "../generated/prisma/client";
 import * as attachmentRepo from "../repositories/attachmentRepository";
 import { generateSignedUploadUrl, generateSignedReadUrl, deleteFile, ALLOWED_MIME_TYPES } from "./storageService";
 import type { RequestContext } from "../types/requestContext";
 import { AttachmentNotFoundError, AttachmentAccessError, TaskNotFoundError, TaskArchivedError, PayloadTooLargeError } from "../errors/domainErrors";
+import { can } from "./policyService";
+import { canAccessTask } from "../helper/helpers";
 
 export { AttachmentNotFoundError, AttachmentAccessError };
 
-// Access rule: task creator, assigned users, admins, and super-admins can access attachments.
+// Access rule: anyone who can see the task (see canAccessTask) can access its attachments.
 // Throws TaskNotFoundError if the task is outside org scope (keeps 404 behavior).
 // Throws AttachmentAccessError if the user lacks role/assignment access.
 async function assertTaskAccess(
@@ -19,13 +21,15 @@ async function assertTaskAccess(
       task_id: taskId,
       ...(ctx.effectiveOrgId ? { project: { organization_id: ctx.effectiveOrgId } } : {}),
     },
-    include: { assignments: { where: { user_id: ctx.actorUserId } } },
+    include: {
+      assignments: { where: { user_id: ctx.actorUserId } },
+      project: { select: { restricted: true, members: { where: { user_id: ctx.actorUserId } } } },
+    },
   });
 
   if (!task) throw new TaskNotFoundError(taskId);
 
-  const isAdmin = ctx.actorRole === UserRole.ADMIN || ctx.isSuperAdmin;
-  if (!isAdmin && task.created_by !== ctx.actorUserId && task.assignments.length === 0) {
+  if (!canAccessTask(task, ctx)) {
     throw new AttachmentAccessError();
   }
 
@@ -122,8 +126,7 @@ export async function deleteAttachment(ctx: RequestContext, attachmentId: string
     throw new TaskArchivedError();
   }
 
-  const isAdmin = ctx.actorRole === UserRole.ADMIN || ctx.isSuperAdmin;
-  if (attachment.uploaded_by !== ctx.actorUserId && !isAdmin) {
+  if (attachment.uploaded_by !== ctx.actorUserId && !can(ctx, "attachment.delete.any")) {
     throw new AttachmentAccessError();
   }
 
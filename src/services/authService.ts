@@ -1,13 +1,28 @@
 import jwt from "jsonwebtoken";
+import { prisma } from "../db/prisma";
 import * as authRepo from "../repositories/authRepository";
 import * as refreshTokenRepo from "../repositories/refreshTokenRepository";
 import * as sessionRepo from "../repositories/sessionRepository";
-import { AuthenticationError, ForbiddenUserOperationError, UserNotFoundError, UserTerminatedError } from "../errors/domainErrors";
-import type { LoginRequest, JWTPayload } from "../types/auth";
-import { comparePassword } from "../helper/helpers";
-import { SessionPlatform, UserStatus } from "../generated/prisma/client";
+import * as passwordResetRepo from "../repositories/passwordResetRepository";
+import {
+  AuthenticationError,
+  ForbiddenUserOperationError,
+  InvalidPasswordResetTokenError,
+  UserNotFoundError,
+  UserTerminatedError,
+} from "../errors/domainErrors";
+import type { LoginClient, LoginRequest, JWTPayload, SecondFactorInput } from "../types/auth";
+import type { SsoClientBinding } from "../types/sso";
+import { comparePassword, hashPassword } from "../helper/helpers";
+import { SessionPlatform, UserStatus, type User } from "../generated/prisma/client";
 import { generateAccessToken } from "../utils/tokenUtils";
 import { parseBrowserDeviceName, parseLocation } from "../utils/uaUtils";
+import { frontendLink, positiveIntFromEnv } from "../utils/envUtils";
+import { renderMessage, resolveLocale } from "../utils/messageCatalog";
+import { queueEmail } from "./emailOutboxService";
+import * as twoFactorService from "./twoFactorService";
+import * as loginSecurityService from "./loginSecurityService";
+import * as ssoService from "./ssoService";
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
@@ -15,41 +30,47 @@ const JWT_SECRET = process.env.JWT_SECRET;
 const DUMMY_PASSWORD_HASH =
   "$2a$10$CwTycUXWue0Thq9StjUM0uJ8eG8G8YpAo0P5PLf4KJIp4jOSAm5e.";
 
-async function validateCredentials(credentials: LoginRequest) {
+// Wrong passwords count towards the account lockout (see loginSecurityService); locked
+// accounts are refused even with the right password. Every refusal is the same. The count
+// is cleared once sign-in completes, after the second factor for users who have one.
+async function validateCredentials(credentials: LoginRequest, client: LoginClient) {
   const { email, password } = credentials;
   const user = await authRepo.getUserByEmail(email);
   const passwordHashToCheck = user ? user.password : DUMMY_PASSWORD_HASH;
   const isPasswordValid = await comparePassword(password, passwordHashToCheck);
-  if (!user || !isPasswordValid) throw new AuthenticationError("Invalid credentials");
+  if (!user || !isPasswordValid || loginSecurityService.isLocked(user)) {
+    await loginSecurityService.recordFailedLogin(user, client);
+    throw new AuthenticationError("Invalid credentials");
+  }
   if (user.status === UserStatus.TERMINATED) throw new UserTerminatedError();
   return user;
 }
 
-// Web login: finds or creates a browser session, returns savedAccounts summaries.
-export async function authenticateWebUser(
-  credentials: LoginRequest,
+// Creates (or reuses) the browser session and makes the user its active account.
+async function startWebSession(
+  user: User,
   sessionId: string | undefined,
   userAgent: string | undefined,
   ip: string | undefined,
 ) {
-  const user = await validateCredentials(credentials);
-
   let sid = sessionId;
   if (sid) {
     const existing = await sessionRepo.findActiveSession(sid);
     if (!existing || existing.platform !== SessionPlatform.browser) sid = undefined;
   }
 
+  const deviceName = parseBrowserDeviceName(userAgent);
   if (!sid) {
-    sid = await sessionRepo.createSession(
-      SessionPlatform.browser,
-      parseBrowserDeviceName(userAgent),
-      parseLocation(ip),
-    );
+    sid = await sessionRepo.createSession(SessionPlatform.browser, deviceName, parseLocation(ip));
   }
 
   const sessionAccountId = await sessionRepo.upsertSessionAccount(sid, user.user_id);
   await sessionRepo.setActiveSessionAccount(sid, sessionAccountId);
+  await loginSecurityService.recordSignIn(
+    user.user_id,
+    { platform: SessionPlatform.browser, ip, device_name: deviceName },
+    sid,
+  );
 
   const token = generateAccessToken(user);
   const safeUser = await authRepo.getUserById(user.user_id);
@@ -58,17 +79,16 @@ export async function authenticateWebUser(
   return { token, user: safeUser, sessionId: sid, savedAccounts };
 }
 
-// Mobile login: creates a session + session account + refresh token.
-export async function authenticateUser(
-  credentials: LoginRequest,
-  deviceName?: string,
-  location?: string,
-) {
-  const user = await validateCredentials(credentials);
-
-  const sid = await sessionRepo.createSession(SessionPlatform.mobile, deviceName, location);
+// Creates a mobile session + session account + refresh token.
+async function startMobileSession(user: User, deviceName?: string, ip?: string) {
+  const sid = await sessionRepo.createSession(SessionPlatform.mobile, deviceName, parseLocation(ip));
   const sessionAccountId = await sessionRepo.upsertSessionAccount(sid, user.user_id);
   await sessionRepo.setActiveSessionAccount(sid, sessionAccountId);
+  await loginSecurityService.recordSignIn(
+    user.user_id,
+    { platform: SessionPlatform.mobile, ip, device_name: deviceName },
+    sid,
+  );
   const refreshToken = await refreshTokenRepo.createRefreshToken(sessionAccountId);
 
   const token = generateAccessToken(user);
@@ -77,11 +97,100 @@ export async function authenticateUser(
   return { token, refresh_token: refreshToken, user: safeUser };
 }
 
+// Web login: finds or creates a browser session, returns savedAccounts summaries.
+// Users with two-factor authentication get a login challenge instead.
+export async function authenticateWebUser(
+  credentials: LoginRequest,
+  sessionId: string | undefined,
+  userAgent: string | undefined,
+  ip: string | undefined,
+) {
+  const user = await validateCredentials(credentials, {
+    platform: SessionPlatform.browser,
+    ip,
+    device_name: parseBrowserDeviceName(userAgent),
+  });
+  const challenge = await twoFactorService.startLoginChallenge(user.user_id, SessionPlatform.browser);
+  if (challenge) return challenge;
+  await loginSecurityService.clearFailedLogins(user);
+  return startWebSession(user, sessionId, userAgent, ip);
+}
+
+// Mobile login: creates a session + session account + refresh token.
+// Users with two-factor authentication get a login challenge instead.
+export async function authenticateUser(
+  credentials: LoginRequest,
+  deviceName?: string,
+  ip?: string,
+) {
+  const user = await validateCredentials(credentials, { platform: SessionPlatform.mobile, ip, device_name: deviceName });
+  const challenge = await twoFactorService.startLoginChallenge(user.user_id, SessionPlatform.mobile, deviceName);
+  if (challenge) return challenge;
+  await loginSecurityService.clearFailedLogins(user);
+  return startMobileSession(user, deviceName, ip);
+}
+
+// Second sign-in step: exchanges a login challenge and a code for the session the
+// password login would have created, on the platform the challenge was issued for.
+export async function completeLoginChallenge(
+  challengeToken: string,
+  input: SecondFactorInput,
+  client: { sessionId: string | undefined; userAgent: string | undefined; ip: string | undefined },
+) {
+  const verified = await twoFactorService.verifyLoginChallenge(challengeToken, input, client.ip);
+  const user = await authRepo.getLoginUserById(verified.user_id);
+  if (!user) throw new AuthenticationError("Invalid credentials");
+  if (user.status === UserStatus.TERMINATED) throw new UserTerminatedError();
+
+  if (verified.platform === SessionPlatform.browser) {
+    const session = await startWebSession(user, client.sessionId, client.userAgent, client.ip);
+    return { platform: SessionPlatform.browser, ...session, recovery_codes: verified.recovery_codes };
+  }
+  const session = await startMobileSession(user, verified.device_name ?? undefined, client.ip);
+  return { platform: SessionPlatform.mobile, ...session, recovery_codes: verified.recovery_codes };
+}
+
+// Single sign-on callback: signs in the user the organization's identity provider vouched
+// for, on the platform the attempt started on. The provider stands in for the password,
+// so the lockout does not apply; users with (or required to have) two-factor
+// authentication get a login challenge as with a password login.
+export async function completeSsoLogin(
+  state: string,
+  code: string,
+  binding: SsoClientBinding,
+  client: { sessionId: string | undefined; userAgent: string | undefined; ip: string | undefined },
+) {
+  const result = await ssoService.completeSsoLogin(state, code, binding);
+  const user = await authRepo.getLoginUserById(result.user_id);
+  if (!user) throw new AuthenticationError("Invalid credentials");
+  if (user.status === UserStatus.TERMINATED) throw new UserTerminatedError();
+
+  const challenge = await twoFactorService.startLoginChallenge(
+    user.user_id,
+    result.platform,
+    result.device_name ?? undefined,
+  );
+  if (challenge) return challenge;
+
+  if (result.platform === SessionPlatform.browser) {
+    const session = await startWebSession(user, client.sessionId, client.userAgent, client.ip);
+    return { platform: SessionPlatform.browser, ...session };
+  }
+  const session = await startMobileSession(user, result.device_name ?? undefined, client.ip);
+  return { platform: SessionPlatform.mobile, ...session };
+}
+
+// Starts two-factor setup for a user whose login challenge requires enrollment.
+export async function startChallengeEnrollment(challengeToken: string) {
+  return twoFactorService.startChallengeEnrollment(challengeToken);
+}
+
 // Web refresh: validates session cookie and returns a new access token.
 export async function refreshWebSession(sessionId: string) {
   const result = await sessionRepo.getActiveAccountForSession(sessionId);
   if (!result) throw new AuthenticationError("Session expired or invalid");
 
+  await twoFactorService.assertEnrolledIfRequired(result.user.user_id);
   await sessionRepo.touchSession(sessionId, result.account.session_account_id);
 
   const token = generateAccessToken(result.user);
@@ -95,6 +204,7 @@ export async function refreshWebSession(sessionId: string) {
 export async function switchAccount(sessionId: string, userId: string) {
   const result = await sessionRepo.switchActiveAccount(sessionId, userId);
   if (!result) throw new AuthenticationError("Account not found in this session");
+  await twoFactorService.assertEnrolledIfRequired(result.user.user_id);
 
   const token = generateAccessToken(result.user);
   const safeUser = await authRepo.getUserById(result.user.user_id);
@@ -112,6 +222,7 @@ export async function logoutWebSession(sessionId: string): Promise<void> {
 export async function refreshTokens(raw: string) {
   const result = await refreshTokenRepo.rotateRefreshToken(raw);
   if (!result) throw new AuthenticationError("Invalid or expired refresh token");
+  await twoFactorService.assertEnrolledIfRequired(result.user.user_id);
 
   const token = generateAccessToken(result.user);
   const safeUser = await authRepo.getUserById(result.user.user_id);
@@ -163,6 +274,46 @@ export async function revokeAllSessions(userId: string): Promise<void> {
   await sessionRepo.revokeAllSessionAccountsForUser(userId);
 }
 
+// ---------------------------------------------------------------------------
+// Forgotten password
+// ---------------------------------------------------------------------------
+
+// Emails a reset link valid for PASSWORD_RESET_TTL_MINUTES (default 60). Unknown and
+// terminated accounts get nothing, without telling the caller, so the endpoint cannot
+// be used to find out which emails have an account.
+export async function requestPasswordReset(email: string, now: Date = new Date()): Promise<void> {
+  const user = await authRepo.getPasswordResetRecipient(email);
+  if (!user || user.status === UserStatus.TERMINATED) return;
+
+  const minutes = positiveIntFromEnv("PASSWORD_RESET_TTL_MINUTES", 60);
+  const expiresAt = new Date(now.getTime() + minutes * 60 * 1000);
+  const locale = resolveLocale(user.locale, user.organization.default_locale);
+
+  await prisma.$transaction(async (tx) => {
+    const raw = await passwordResetRepo.createPasswordResetToken(tx, user.user_id, expiresAt);
+    const { title, body } = renderMessage("PASSWORD_RESET", locale, {
+      app: process.env.APP_NAME || "AndreassenTask",
+      minutes,
+      url: frontendLink("PASSWORD_RESET_URL", "/reset-password", { token: raw }),
+    });
+    await queueEmail(tx, { user_id: user.user_id, to: user.email, subject: title, text: body }, now);
+  });
+}
+
+// Sets the new password and signs the user out everywhere, so whoever knew the old
+// password loses access.
+export async function resetPassword(raw: string, newPassword: string, now: Date = new Date()): Promise<void> {
+  const passwordHash = await hashPassword(newPassword);
+  const userId = await passwordResetRepo.consumePasswordResetToken(raw, passwordHash, now);
+  if (!userId) throw new InvalidPasswordResetTokenError();
+  await revokeAllSessions(userId);
+}
+
+// Deletes reset tokens that expired more than a day ago.
+export async function prunePasswordResetTokens(now: Date = new Date()): Promise<number> {
+  return passwordResetRepo.deleteExpiredBefore(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+}
+
 // Used by authenticateToken middleware to verify access tokens.
 export function verifyToken(token: string): JWTPayload {
   if (!JWT_SECRET) {
@@ -0,0 +1,161 @@
+import { prisma } from "../db/prisma";
+import * as calendarRepo from "../repositories/calendarRepository";
+import * as organizationRepo from "../repositories/organizationRepository";
+import { ClosedDayPolicy, type Prisma } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type { DbClient } from "../types/db";
+import type { CalendarRange, CreateClosedDayInput, OrgCalendar } from "../types/calendar";
+import { APP_TIMEZONE, appDateKey } from "../utils/dateUtils";
+import { danishHolidays, type PublicHoliday } from "../utils/holidayUtils";
+import { MissingOrganizationError } from "../errors/domainErrors";
+import { requirePermission } from "./policyService";
+
+export { ClosedDayNotFoundError, DuplicateClosedDayError } from "../errors/domainErrors";
+
+// Mon–Fri, as 0 = Sunday … 6 = Saturday (same numbering as template days_of_week).
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+// The timezone where a new year starts first (UTC+14): no organization is in a later year.
+const EARLIEST_TIMEZONE = "Pacific/Kiritimati";
+// How far a shifted occurrence may move before it is dropped instead.
+export const MAX_SHIFT_DAYS = 14;
+// @db.Date values are UTC midnights, so whole days can be added without DST concerns.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requireAdminRole(ctx: RequestContext) {
+  requirePermission(ctx, "calendar.manage", "Only admins can manage the organization calendar");
+}
+
+function requireOrg(ctx: RequestContext): string {
+  if (!ctx.effectiveOrgId) throw new MissingOrganizationError();
+  return ctx.effectiveOrgId;
+}
+
+export function toWorkingDays(value: Prisma.JsonValue | null | undefined): number[] {
+  return Array.isArray(value) ? (value as number[]) : DEFAULT_WORKING_DAYS;
+}
+
+// Today in the given timezone as a @db.Date value (UTC midnight).
+function appToday(now: Date, timeZone: string): Date {
+  return new Date(appDateKey(now, timeZone));
+}
+
+// ---------------------------------------------------------------------------
+// Organization calendar (API)
+// ---------------------------------------------------------------------------
+
+// Returns the working week and the closed days in range (default: rest of this year and next).
+export async function getCalendar(ctx: RequestContext, range: CalendarRange = {}) {
+  const orgId = requireOrg(ctx);
+  const from = range.from ?? appToday(new Date(), await organizationRepo.getOrganizationTimeZone(orgId));
+  const to = range.to ?? new Date(Date.UTC(from.getUTCFullYear() + 1, 11, 31));
+  const [workingDays, closedDays] = await Promise.all([
+    calendarRepo.getWorkingDays(prisma, orgId),
+    calendarRepo.getClosedDays(prisma, orgId, from, to),
+  ]);
+  return { working_days: toWorkingDays(workingDays), closed_days: closedDays };
+}
+
+export async function updateWorkingDays(ctx: RequestContext, workingDays: number[]) {
+  requireAdminRole(ctx);
+  const orgId = requireOrg(ctx);
+  const sorted = [...new Set(workingDays)].sort((a, b) => a - b);
+  const org = await calendarRepo.updateWorkingDays(orgId, sorted);
+  return { working_days: toWorkingDays(org.working_days) };
+}
+
+export async function addClosedDay(ctx: RequestContext, data: CreateClosedDayInput) {
+  requireAdminRole(ctx);
+  return calendarRepo.createClosedDay(requireOrg(ctx), data.date, data.name);
+}
+
+export async function removeClosedDay(ctx: RequestContext, closedDayId: string) {
+  requireAdminRole(ctx);
+  return calendarRepo.deleteClosedDayInOrg(closedDayId, requireOrg(ctx));
+}
+
+// ---------------------------------------------------------------------------
+// Public holidays
+// ---------------------------------------------------------------------------
+
+async function seedHolidayYears(
+  orgId: string,
+  seededThrough: number | null,
+  timeZone: string,
+  now: Date,
+): Promise<number> {
+  const thisYear = appToday(now, timeZone).getUTCFullYear();
+  const throughYear = thisYear + 1;
+  const holidays: PublicHoliday[] = [];
+  for (let year = Math.max(thisYear, (seededThrough ?? 0) + 1); year <= throughYear; year++) {
+    holidays.push(...danishHolidays(year));
+  }
+  if (holidays.length === 0) return 0;
+  return prisma.$transaction((tx) => calendarRepo.seedHolidays(tx, orgId, holidays, throughYear));
+}
+
+// Seeds this year's and next year's Danish public holidays into a new organization.
+export async function seedOrganizationHolidays(orgId: string, now: Date = new Date()): Promise<number> {
+  return seedHolidayYears(orgId, null, await organizationRepo.getOrganizationTimeZone(orgId), now);
+}
+
+// Seeds Danish public holidays for this year and next into every organization that
+// does not have them yet. Years already seeded are skipped, so a holiday an admin
+// deleted is not added back. Years follow each organization's timezone. Called by the
+// nightly cron job.
+export async function ensureHolidaysSeeded(now: Date = new Date()): Promise<number> {
+  const orgs = await calendarRepo.getOrganizationsWithHolidaysBefore(
+    appToday(now, EARLIEST_TIMEZONE).getUTCFullYear() + 1,
+  );
+  let seeded = 0;
+  for (const org of orgs) {
+    seeded += await seedHolidayYears(org.org_id, org.holidays_seeded_through, org.timezone ?? APP_TIMEZONE, now);
+  }
+  return seeded;
+}
+
+// ---------------------------------------------------------------------------
+// Closed-day checks
+// ---------------------------------------------------------------------------
+
+// Loads what is needed to decide whether days between from and to are working days.
+export async function loadCalendar(db: DbClient, orgId: string, from: Date, to: Date): Promise<OrgCalendar> {
+  const [workingDays, closedDays] = await Promise.all([
+    calendarRepo.getWorkingDays(db, orgId),
+    calendarRepo.getClosedDays(db, orgId, from, to),
+  ]);
+  return {
+    workingDays: new Set(toWorkingDays(workingDays)),
+    closedDates: new Set(closedDays.map((d) => d.date.getTime())),
+  };
+}
+
+// date is a @db.Date value (UTC midnight).
+export function isWorkingDay(calendar: OrgCalendar, date: Date): boolean {
+  return calendar.workingDays.has(date.getUTCDay()) && !calendar.closedDates.has(date.getTime());
+}
+
+// Where an occurrence on date should be scheduled under the template's policy.
+// Returns null when it should not be generated at all.
+export function applyClosedDayPolicy(calendar: OrgCalendar, date: Date, policy: ClosedDayPolicy): Date | null {
+  if (policy === ClosedDayPolicy.IGNORE || isWorkingDay(calendar, date)) return date;
+  if (policy === ClosedDayPolicy.SKIP) return null;
+
+  const step = policy === ClosedDayPolicy.NEXT_WORKING_DAY ? 1 : -1;
+  for (let i = 1; i <= MAX_SHIFT_DAYS; i++) {
+    const candidate = new Date(date.getTime() + i * step * DAY_MS);
+    if (isWorkingDay(calendar, candidate)) return candidate;
+  }
+  return null;
+}
+
+// Whether an organization is closed on dateKey (YYYY-MM-DD in its own timezone).
+export async function isOrganizationClosed(
+  orgId: string,
+  workingDays: Prisma.JsonValue | null,
+  dateKey: string,
+): Promise<boolean> {
+  const date = new Date(dateKey);
+  if (!toWorkingDays(workingDays).includes(date.getUTCDay())) return true;
+  return calendarRepo.hasClosedDay(orgId, date);
+}
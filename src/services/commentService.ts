@@ -1,33 +1,27 @@
 import { prisma } from "../db/prisma";
-import { TaskEventType, TaskStatus, UserRole } from "../generated/prisma/client";
+import { NotificationType, TaskEventType, TaskStatus, UserRole, UserStatus } from "../generated/prisma/client";
 import * as commentRepo from "../repositories/commentRepository";
 import * as attachmentRepo from "../repositories/attachmentRepository";
 import * as taskRepo from "../repositories/taskRepository";
 import * as taskEventRepo from "../repositories/taskEventRepository";
 import * as userRepo from "../repositories/userRepository";
-import { sendPushNotification } from "./notificationService";
+import { notifyUser } from "./inboxService";
 import { generateSignedReadUrl, deleteFile } from "./storageService";
 import type { RequestContext } from "../types/requestContext";
+import type { DbClient } from "../types/db";
+import type { NotificationRecipient } from "../types/notification";
+import { canAccessTask, eventActor } from "../helper/helpers";
 import {
   CommentNotFoundError,
   CommentForbiddenError,
   TaskArchivedError,
 } from "../errors/domainErrors";
+import { can } from "./policyService";
 
 export { CommentNotFoundError, CommentForbiddenError };
 
-// Any authenticated user who can see the task (creator, assigned, admin, super-admin)
-// can view and post comments. Modification/deletion is limited to the comment author
-// and admins/super-admins.
-function canAccessTask(
-  task: { created_by: string; assignments?: { user_id: string }[] } | null,
-  ctx: RequestContext,
-): boolean {
-  if (!task) return false;
-  if (ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN) return true;
-  if (task.created_by === ctx.actorUserId) return true;
-  return (task.assignments ?? []).some((a) => a.user_id === ctx.actorUserId);
-}
+// Any authenticated user who can see the task (see canAccessTask) can view and post
+// comments. Modification/deletion is limited to the comment author and admins/super-admins.
 
 // Only the comment author can edit their own comment.
 // Admins and super-admins are intentionally excluded from editing others' comments —
@@ -42,7 +36,10 @@ export async function getCommentsByTaskId(ctx: RequestContext, taskId: string) {
       task_id: taskId,
       ...(ctx.effectiveOrgId ? { project: { organization_id: ctx.effectiveOrgId } } : {}),
     },
-    include: { assignments: { where: { user_id: ctx.actorUserId } } },
+    include: {
+      assignments: { where: { user_id: ctx.actorUserId } },
+      project: { select: { restricted: true, members: { where: { user_id: ctx.actorUserId } } } },
+    },
   });
 
   if (!task || !canAccessTask(task, ctx)) return null;
@@ -61,6 +58,105 @@ export async function getCommentsByTaskId(ctx: RequestContext, taskId: string) {
   );
 }
 
+type CommentTask = { task_id: string; title: string; project: { organization_id: string } };
+
+// Notifications are written in the caller's transaction (see inboxService.notifyUser),
+// so they only go out if the comment is saved. Each user gets at most one notification,
+// and never for their own comment; notified collects who has been notified so far.
+async function notifyMentioned(
+  db: DbClient,
+  ctx: RequestContext,
+  task: CommentTask,
+  mentionUserIds: string[] | undefined,
+  adminMap: Map<string, NotificationRecipient>,
+  notified: Set<string>,
+) {
+  if (!mentionUserIds || mentionUserIds.length === 0) return;
+  for (const mentionedId of new Set(mentionUserIds)) {
+    if (mentionedId === ctx.actorUserId) continue;
+    if (notified.has(mentionedId)) continue;
+    const recipient = adminMap.get(mentionedId) ?? await userRepo.getRecipientInOrg(mentionedId, task.project.organization_id);
+    if (!recipient) continue;
+    notified.add(mentionedId);
+    await notifyUser(db, recipient, {
+      type: NotificationType.COMMENT_MENTION,
+      params: { task: task.title },
+      data: { taskId: task.task_id, screen: "comments" },
+      task_id: task.task_id,
+    });
+  }
+}
+
+// The replied-to author, mentioned users, assignees and admins of the task.
+async function notifyCommentCreated(
+  db: DbClient,
+  ctx: RequestContext,
+  task: CommentTask & {
+    created_by: string;
+    assignments: { user_id: string; user: { user_id: string; role: UserRole; status?: UserStatus; push_token: string | null } }[];
+  },
+  replyTarget: { user_id: string } | null,
+  mentionUserIds: string[] | undefined,
+) {
+  const notifiedUserIds = new Set<string>();
+
+  // Fetch admins early so we can include them in the reply-target access check.
+  const admins = await userRepo.getAdminRecipients(db, task.project.organization_id);
+  const adminMap = new Map(admins.map((admin) => [admin.user_id, admin]));
+
+  const replyTargetHasAccess = replyTarget && (
+    replyTarget.user_id === task.created_by ||
+    task.assignments.some((a) => a.user_id === replyTarget.user_id) ||
+    adminMap.has(replyTarget.user_id)
+  );
+
+  if (replyTargetHasAccess && replyTarget.user_id !== ctx.actorUserId) {
+    const replyRecipient = adminMap.get(replyTarget.user_id) ?? await userRepo.getRecipientInOrg(replyTarget.user_id, task.project.organization_id);
+    if (replyRecipient) {
+      notifiedUserIds.add(replyTarget.user_id);
+      await notifyUser(db, replyRecipient, {
+        type: NotificationType.COMMENT_REPLY,
+        params: { task: task.title },
+        data: { taskId: task.task_id, screen: "comments" },
+        task_id: task.task_id,
+      });
+    }
+  }
+
+  // Notify explicitly mentioned users first so they receive the mention-specific message
+  // rather than the generic assignee/admin notification sent below.
+  await notifyMentioned(db, ctx, task, mentionUserIds, adminMap, notifiedUserIds);
+
+  // Notify assigned users (skip commenter, skip admins — they get a separate notification).
+  for (const assignment of task.assignments) {
+    if (assignment.user_id === ctx.actorUserId) continue;
+    if (notifiedUserIds.has(assignment.user_id)) continue;
+    if (assignment.user.role === UserRole.ADMIN) continue;
+    if (assignment.user.status === UserStatus.TERMINATED) continue;
+    notifiedUserIds.add(assignment.user_id);
+    await notifyUser(db, assignment.user, {
+      type: NotificationType.COMMENT_CREATED,
+      params: { task: task.title },
+      data: { taskId: task.task_id, screen: "comments" },
+      task_id: task.task_id,
+    });
+  }
+
+  // Notify admins separately.
+  for (const admin of admins) {
+    if (admin.user_id === ctx.actorUserId) continue;
+    if (notifiedUserIds.has(admin.user_id)) continue;
+    notifiedUserIds.add(admin.user_id);
+    await notifyUser(db, admin, {
+      type: NotificationType.COMMENT_CREATED,
+      message: "COMMENT_CREATED_ADMIN",
+      params: { task: task.title },
+      data: { taskId: task.task_id, screen: "comments" },
+      task_id: task.task_id,
+    });
+  }
+}
+
 export async function createComment(
   ctx: RequestContext,
   taskId: string,
@@ -77,9 +173,15 @@ export async function createComment(
     },
     include: {
       assignments: {
-        include: { user: { select: { user_id: true, role: true, push_token: true } } },
+        include: { user: { select: { user_id: true, role: true, status: true, push_token: true } } },
+      },
+      project: {
+        select: {
+          organization_id: true,
+          restricted: true,
+          members: { where: { user_id: ctx.actorUserId }, select: { user_id: true } },
+        },
       },
-      project: { select: { organization_id: true } },
     },
   });
 
@@ -120,7 +222,7 @@ export async function createComment(
 
     await taskEventRepo.createTaskEvent(tx, {
       task: { connect: { task_id: created.task_id } },
-      actor: { connect: { user_id: ctx.actorUserId } },
+      ...eventActor(ctx),
       type: TaskEventType.COMMENT_CREATED,
       message: "Comment created",
       comment: { connect: { comment_id: created.comment_id } },
@@ -128,85 +230,10 @@ export async function createComment(
       after_json: created,
     });
 
+    await notifyCommentCreated(tx, ctx, task, replyTarget, mentionUserIds);
     return created;
   });
 
-  const notifiedUserIds = new Set<string>();
-
-  // Fetch admins early so we can include them in the reply-target access check.
-  const admins = await userRepo.getAdminPushTokens(task.project.organization_id);
-  const adminMap = new Map(admins.map(({ user_id, push_token }) => [user_id, push_token]));
-
-  const replyTargetHasAccess = replyTarget && (
-    replyTarget.user_id === task.created_by ||
-    task.assignments.some((a) => a.user_id === replyTarget.user_id) ||
-    adminMap.has(replyTarget.user_id)
-  );
-
-  if (replyTargetHasAccess && replyTarget.user_id !== ctx.actorUserId) {
-    const replyPushToken = adminMap.get(replyTarget.user_id) ?? await userRepo.getPushTokenInOrg(replyTarget.user_id, task.project.organization_id);
-    if (replyPushToken) {
-      notifiedUserIds.add(replyTarget.user_id);
-      void sendPushNotification(
-        replyPushToken,
-        "Nyt svar på din kommentar",
-        task.title,
-        { taskId: task.task_id, screen: "comments" },
-        replyTarget.user_id,
-      );
-    }
-  }
-
-  // Notify explicitly mentioned users first so they receive the mention-specific message
-  // rather than the generic assignee/admin notification sent below.
-  if (mentionUserIds && mentionUserIds.length > 0) {
-    const uniqueMentionIds = [...new Set(mentionUserIds)];
-    for (const mentionedId of uniqueMentionIds) {
-      if (mentionedId === ctx.actorUserId) continue;
-      if (notifiedUserIds.has(mentionedId)) continue;
-      const pushToken = adminMap.get(mentionedId) ?? await userRepo.getPushTokenInOrg(mentionedId, task.project.organization_id);
-      if (!pushToken) continue;
-      notifiedUserIds.add(mentionedId);
-      void sendPushNotification(
-        pushToken,
-        "Du blev nævnt i en kommentar",
-        task.title,
-        { taskId: task.task_id, screen: "comments" },
-        mentionedId,
-      );
-    }
-  }
-
-  // Notify assigned users (skip commenter, skip admins — they get a separate notification).
-  for (const assignment of task.assignments) {
-    if (assignment.user_id === ctx.actorUserId) continue;
-    if (notifiedUserIds.has(assignment.user_id)) continue;
-    if (assignment.user.role === UserRole.ADMIN) continue;
-    if (!assignment.user.push_token) continue;
-    notifiedUserIds.add(assignment.user_id);
-    void sendPushNotification(
-      assignment.user.push_token,
-      "Ny kommentar på din opgave",
-      task.title,
-      { taskId: task.task_id, screen: "comments" },
-      assignment.user_id,
-    );
-  }
-
-  // Notify admins separately.
-  for (const { user_id: adminId, push_token } of admins) {
-    if (adminId === ctx.actorUserId) continue;
-    if (notifiedUserIds.has(adminId)) continue;
-    notifiedUserIds.add(adminId);
-    void sendPushNotification(
-      push_token,
-      "Ny kommentar",
-      task.title,
-      { taskId: task.task_id, screen: "comments" },
-      adminId,
-    );
-  }
-
   return comment;
 }
 
@@ -232,7 +259,13 @@ export async function updateComment(
       status: true,
       created_by: true,
       assignments: { where: { user_id: ctx.actorUserId } },
-      project: { select: { organization_id: true } },
+      project: {
+        select: {
+          organization_id: true,
+          restricted: true,
+          members: { where: { user_id: ctx.actorUserId }, select: { user_id: true } },
+        },
+      },
     },
   });
   if (!commentTask || !canAccessTask(commentTask, ctx)) throw new CommentNotFoundError();
@@ -256,7 +289,7 @@ export async function updateComment(
 
     await taskEventRepo.createTaskEvent(tx, {
       task: { connect: { task_id: comment.task_id } },
-      actor: { connect: { user_id: ctx.actorUserId } },
+      ...eventActor(ctx),
       type: TaskEventType.COMMENT_UPDATED,
       message: "Comment updated",
       comment: { connect: { comment_id: comment.comment_id } },
@@ -264,6 +297,12 @@ export async function updateComment(
       after_json: updated.comment,
     });
 
+    if (mentionUserIds && mentionUserIds.length > 0) {
+      const admins = await userRepo.getAdminRecipients(tx, commentTask.project.organization_id);
+      const adminMap = new Map(admins.map((admin) => [admin.user_id, admin]));
+      await notifyMentioned(tx, ctx, { ...commentTask, task_id: comment.task_id }, mentionUserIds, adminMap, new Set());
+    }
+
     return updated;
   });
   const updatedComment = result.comment;
@@ -279,28 +318,6 @@ export async function updateComment(
     );
   }
 
-  // Notify explicitly mentioned users.
-  if (mentionUserIds && mentionUserIds.length > 0) {
-    const admins = await userRepo.getAdminPushTokens(commentTask.project.organization_id);
-    const adminMap = new Map(admins.map(({ user_id, push_token }) => [user_id, push_token]));
-    const notifiedUserIds = new Set<string>();
-    const uniqueMentionIds = [...new Set(mentionUserIds)];
-    for (const mentionedId of uniqueMentionIds) {
-      if (mentionedId === ctx.actorUserId) continue;
-      if (notifiedUserIds.has(mentionedId)) continue;
-      const pushToken = adminMap.get(mentionedId) ?? await userRepo.getPushTokenInOrg(mentionedId, commentTask.project.organization_id);
-      if (!pushToken) continue;
-      notifiedUserIds.add(mentionedId);
-      void sendPushNotification(
-        pushToken,
-        "Du blev nævnt i en kommentar",
-        commentTask.title,
-        { taskId: comment.task_id, screen: "comments" },
-        mentionedId,
-      );
-    }
-  }
-
   return updatedComment;
 }
 
@@ -321,8 +338,8 @@ export async function deleteComment(ctx: RequestContext, commentId: string) {
     throw new TaskArchivedError();
   }
 
-  // Only the comment author, admins, and super-admins may delete.
-  if (!canModifyComment(comment, ctx) && ctx.actorRole !== UserRole.ADMIN && !ctx.isSuperAdmin) {
+  // Only the comment author and members with comment.delete.any may delete.
+  if (!canModifyComment(comment, ctx) && !can(ctx, "comment.delete.any")) {
     throw new CommentForbiddenError();
   }
 
@@ -333,7 +350,7 @@ export async function deleteComment(ctx: RequestContext, commentId: string) {
     // Log event first (comment FK must still exist for the event).
     await taskEventRepo.createTaskEvent(tx, {
       task: { connect: { task_id: comment.task_id } },
-      actor: { connect: { user_id: ctx.actorUserId } },
+      ...eventActor(ctx),
       type: TaskEventType.COMMENT_DELETED,
       message: "Comment deleted",
       comment: { connect: { comment_id: comment.comment_id } },
@@ -3,22 +3,22 @@ import * as projectRepo from "../repositories/projectRepository";
 import * as assignmentRepo from "../repositories/assignmentRepository";
 import * as commentRepo from "../repositories/commentRepository";
 import { generateSignedReadUrl } from "./storageService";
-import { UserRole } from "../generated/prisma/client";
 import { DashboardForbiddenError } from "../errors/domainErrors";
 import type { RequestContext } from "../types/requestContext";
+import { can, projectVisibilityFor } from "./policyService";
 
 export async function getDashboardData(ctx: RequestContext) {
   if (!ctx.effectiveOrgId) return null;
 
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new DashboardForbiddenError();
+  if (!can(ctx, "dashboard.view")) throw new DashboardForbiddenError();
   const orgId = ctx.effectiveOrgId;
+  const visibleTo = projectVisibilityFor(ctx);
 
   const [tasks, projects, assignments, todayComments] = await Promise.all([
-    taskRepo.getAllTasks(orgId),
-    projectRepo.getAllProjects(orgId),
-    assignmentRepo.getAllAssignments(orgId),
-    commentRepo.getTodayCommentsByOrg(orgId),
+    taskRepo.getAllTasks(orgId, visibleTo),
+    projectRepo.getAllProjects(orgId, visibleTo),
+    assignmentRepo.getAllAssignments(orgId, visibleTo),
+    commentRepo.getTodayCommentsByOrg(orgId, visibleTo),
   ]);
 
   const todayCommentsWithUrls = await Promise.all(
@@ -0,0 +1,125 @@
+import { prisma } from "../db/prisma";
+import * as statRepo from "../repositories/statRepository";
+import * as commentRepo from "../repositories/commentRepository";
+import * as orgRepo from "../repositories/organizationRepository";
+import * as userRepo from "../repositories/userRepository";
+import * as calendarService from "./calendarService";
+import { isScheduledSendDue } from "./pushScheduleService";
+import { notifyUser } from "./inboxService";
+import { NotificationType, ScheduledSendKind, type TaskUnit } from "../generated/prisma/client";
+import { formatQuantity, type Locale } from "../utils/messageCatalog";
+import { APP_TIMEZONE, appDateKey, appTimeKey } from "../utils/dateUtils";
+
+// Admins get one summary per day (and one per week) instead of a push for every
+// completed task and logged progress entry.
+
+export type DigestPeriod = "daily" | "weekly";
+
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+
+export interface Digest {
+  completed: number;
+  progress: { unit: TaskUnit; quantity: number }[];
+  overdue: number;
+  comments: number;
+  unassigned: number;
+}
+
+// Windows are calendar days in `timeZone`, by default the organization's own.
+export async function buildDigest(orgId: string, period: DigestPeriod, timeZone?: string): Promise<Digest> {
+  const days = PERIOD_DAYS[period];
+  const [completion, progress, overview, comments, unassigned] = await Promise.all([
+    statRepo.getCompletionRatesForWindow(days, orgId, null, prisma, timeZone),
+    statRepo.getProgressByUnitForWindow(days, orgId, null, prisma, timeZone),
+    statRepo.getOverviewStats(orgId, null, prisma, timeZone),
+    period === "daily"
+      ? commentRepo.getTodayCommentsByOrg(orgId)
+      : commentRepo.getRecentCommentsByOrg(orgId, days),
+    statRepo.getUnassignedTaskCount(orgId),
+  ]);
+
+  return {
+    completed: completion.completed_in_period,
+    progress,
+    overdue: overview.overdue_tasks,
+    comments: comments.length,
+    unassigned,
+  };
+}
+
+function isEmpty(digest: Digest): boolean {
+  return (
+    digest.completed === 0 &&
+    digest.progress.length === 0 &&
+    digest.overdue === 0 &&
+    digest.comments === 0 &&
+    digest.unassigned === 0
+  );
+}
+
+// Notifies every active admin of the organization; nothing is sent when there is nothing
+// to report. Whether it lands in-app, by push or by email follows each admin's preferences.
+export async function sendDigest(
+  orgId: string,
+  period: DigestPeriod,
+  now: Date,
+  timeZone?: string,
+): Promise<number> {
+  const digest = await buildDigest(orgId, period, timeZone);
+  if (isEmpty(digest)) return 0;
+
+  const admins = await userRepo.getAdminRecipients(prisma, orgId);
+  const progress = (locale: Locale) =>
+    digest.progress.map((p) => formatQuantity(p.quantity, p.unit, locale)).join(", ") || "–";
+
+  for (const admin of admins) {
+    await notifyUser(prisma, admin, {
+      type: period === "daily" ? NotificationType.DAILY_DIGEST : NotificationType.WEEKLY_DIGEST,
+      params: {
+        completed: digest.completed,
+        progress,
+        overdue: digest.overdue,
+        comments: digest.comments,
+        unassigned: digest.unassigned,
+      },
+      data: {
+        screen: "dashboard",
+        period,
+        completed: digest.completed,
+        overdue: digest.overdue,
+        comments: digest.comments,
+        unassigned: digest.unassigned,
+      },
+    }, now);
+  }
+  return admins.length;
+}
+
+// Sends the daily digest to every organization whose digest_time has passed in its own
+// timezone at `now`, within the same window as the scheduled pushes (see
+// pushScheduleService), and which has not had today's digest yet, skipping its closed days,
+// and the weekly digest likewise on its weekly_digest_day. A missed tick is caught up and
+// a repeated hour (DST fall-back) does not send twice. One failing organization does not
+// stop the rest.
+export async function sendScheduledDigests(now: Date): Promise<void> {
+  const schedules = await orgRepo.getDigestSchedules();
+  for (const schedule of schedules) {
+    const timeZone = schedule.timezone ?? APP_TIMEZONE;
+    if (!isScheduledSendDue(appTimeKey(now, timeZone), schedule.digest_time)) continue;
+
+    try {
+      const dateKey = appDateKey(now, timeZone);
+      const today = new Date(dateKey);
+      const weekly = today.getUTCDay() === schedule.weekly_digest_day
+        && await orgRepo.claimScheduledSend(schedule.org_id, ScheduledSendKind.WEEKLY_DIGEST, today);
+      const daily = await orgRepo.claimScheduledSend(schedule.org_id, ScheduledSendKind.DAILY_DIGEST, today);
+
+      if (weekly) await sendDigest(schedule.org_id, "weekly", now, timeZone);
+      if (daily && !(await calendarService.isOrganizationClosed(schedule.org_id, schedule.working_days, dateKey))) {
+        await sendDigest(schedule.org_id, "daily", now, timeZone);
+      }
+    } catch (err) {
+      console.error(`Digest error for organization ${schedule.org_id}:`, err);
+    }
+  }
+}
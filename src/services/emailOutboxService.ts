@@ -0,0 +1,63 @@
+import * as emailOutboxRepo from "../repositories/emailOutboxRepository";
+import { isPermanentEmailError, sendEmail } from "./emailService";
+import { retryDelayMs } from "./pushOutboxService";
+import type { DbClient } from "../types/db";
+import type { NewEmail } from "../types/email";
+import { positiveIntFromEnv } from "../utils/envUtils";
+
+const MINUTE_MS = 60 * 1000;
+
+// Up to this many emails are sent per run; the rest wait for the next run.
+const SEND_BATCH_SIZE = 200;
+// Sending stops after this many attempts; the email is then marked FAILED.
+export const MAX_EMAIL_ATTEMPTS = 6;
+
+// Queues an email in the outbox. Passing the caller's transaction as db makes it part
+// of the change it is about, so it only goes out if that change is committed.
+export async function queueEmail(db: DbClient, email: NewEmail, sendAfter: Date = new Date()): Promise<void> {
+  await emailOutboxRepo.enqueueEmail(db, email, sendAfter);
+}
+
+export interface EmailSendSummary {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// Sends due outbox emails one at a time through the configured transport. Failures are
+// retried with the same backoff as pushes; SMTP 5xx replies fail the email at once.
+// Called every minute by the scheduler, which makes sure only one replica runs it.
+export async function sendPendingEmails(now: Date = new Date()): Promise<EmailSendSummary> {
+  const summary: EmailSendSummary = { sent: 0, retried: 0, failed: 0 };
+  const due = await emailOutboxRepo.getDueEmails(now, SEND_BATCH_SIZE);
+
+  for (const email of due) {
+    const attempts = email.attempts + 1;
+    try {
+      await sendEmail({
+        to: email.to_address,
+        subject: email.subject,
+        text: email.text,
+        html: email.html ?? undefined,
+      });
+      await emailOutboxRepo.markSent(email.id, now, attempts);
+      summary.sent++;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      if (isPermanentEmailError(err) || attempts >= MAX_EMAIL_ATTEMPTS) {
+        await emailOutboxRepo.markFailed(email.id, attempts, error);
+        summary.failed++;
+      } else {
+        await emailOutboxRepo.scheduleRetry(email.id, attempts, new Date(now.getTime() + retryDelayMs(attempts)), error);
+        summary.retried++;
+      }
+    }
+  }
+  return summary;
+}
+
+// Deletes sent and failed emails older than EMAIL_OUTBOX_RETENTION_DAYS (default 14).
+export async function pruneEmailOutbox(now: Date = new Date()): Promise<number> {
+  const days = positiveIntFromEnv("EMAIL_OUTBOX_RETENTION_DAYS", 14);
+  return emailOutboxRepo.deleteFinishedBefore(new Date(now.getTime() - days * 24 * 60 * MINUTE_MS));
+}
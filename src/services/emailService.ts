@@ -0,0 +1,66 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import type { EmailMessage } from "../types/email";
+
+// Email transport used by the email outbox (see emailOutboxService). Nothing else should
+// send email directly. EMAIL_TRANSPORT picks where messages go:
+//   smtp    — SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+//   file    — one .eml file per message in EMAIL_FILE_DIR (default ./mail)
+//   console — logged to stdout (the default, for local development)
+
+export type EmailTransport = "smtp" | "file" | "console";
+
+export function emailTransport(): EmailTransport {
+  const value = process.env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  return value === "smtp" || value === "file" ? value : "console";
+}
+
+function fromAddress(): string {
+  return process.env.EMAIL_FROM || `${process.env.APP_NAME || "AndreassenTask"} <no-reply@localhost>`;
+}
+
+let smtp: ReturnType<typeof nodemailer.createTransport> | null = null;
+let stream: ReturnType<typeof createStreamTransport> | null = null;
+
+function getSmtpTransport() {
+  smtp ??= nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+  return smtp;
+}
+
+function createStreamTransport() {
+  return nodemailer.createTransport({ streamTransport: true, buffer: true });
+}
+
+// Throws when the message could not be handed over; see isPermanentEmailError.
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const mail = { from: fromAddress(), ...message };
+  const transport = emailTransport();
+
+  if (transport === "smtp") {
+    await getSmtpTransport().sendMail(mail);
+    return;
+  }
+
+  stream ??= createStreamTransport();
+  const info = await stream.sendMail(mail);
+  if (transport === "file") {
+    const dir = process.env.EMAIL_FILE_DIR || "mail";
+    await mkdir(dir, { recursive: true });
+    const name = `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, "")}.eml`;
+    await writeFile(path.join(dir, name), info.message as Buffer);
+  } else {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// SMTP 5xx replies (unknown mailbox, rejected sender …) will fail the same way again.
+export function isPermanentEmailError(err: unknown): boolean {
+  const code = (err as { responseCode?: unknown } | null)?.responseCode;
+  return typeof code === "number" && code >= 500 && code < 600;
+}
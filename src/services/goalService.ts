@@ -1,27 +1,24 @@
 import { prisma } from "../db/prisma";
-import { TaskEventType, TaskStatus, UserRole } from "../generated/prisma/client";
+import { TaskEventType, TaskStatus } from "../generated/prisma/client";
 import * as goalRepo from "../repositories/goalRepository";
 import * as taskRepo from "../repositories/taskRepository";
 import * as taskEventRepo from "../repositories/taskEventRepository";
 import type { RequestContext } from "../types/requestContext";
+import { eventActor } from "../helper/helpers";
 import type { CreateGoalInput } from "../types/task";
 import { TaskNotFoundError, TaskArchivedError, TaskForbiddenError } from "../errors/domainErrors";
+import { can } from "./policyService";
 
 function taskConnect(taskId: string) {
   return { connect: { task_id: taskId } } as const;
 }
 
-function actorConnect(userId: string) {
-  return { connect: { user_id: userId } } as const;
-}
-
 export async function setGoal(ctx: RequestContext, taskId: string, input: CreateGoalInput) {
   const task = await taskRepo.getTaskById(taskId, ctx.effectiveOrgId);
   if (!task) throw new TaskNotFoundError(taskId);
   if (task.status === TaskStatus.ARCHIVED) throw new TaskArchivedError();
 
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin && task.created_by !== ctx.actorUserId && !task.assigned_users.includes(ctx.actorUserId)) {
+  if (!can(ctx, "task.update.any") && task.created_by !== ctx.actorUserId && !task.assigned_users.includes(ctx.actorUserId)) {
     throw new TaskForbiddenError();
   }
 
@@ -31,7 +28,7 @@ export async function setGoal(ctx: RequestContext, taskId: string, input: Create
     if (existing) {
       await taskEventRepo.createTaskEvent(tx, {
         task: taskConnect(taskId),
-        actor: actorConnect(ctx.actorUserId),
+        ...eventActor(ctx),
         type: TaskEventType.TASK_GOAL_REMOVED,
         before_json: { target_quantity: existing.target_quantity, unit: existing.unit },
         after_json: {},
@@ -43,7 +40,7 @@ export async function setGoal(ctx: RequestContext, taskId: string, input: Create
 
     await taskEventRepo.createTaskEvent(tx, {
       task: taskConnect(taskId),
-      actor: actorConnect(ctx.actorUserId),
+      ...eventActor(ctx),
       type: TaskEventType.TASK_GOAL_SET,
       before_json: {},
       after_json: { target_quantity: goal.target_quantity, unit: goal.unit },
@@ -58,8 +55,7 @@ export async function removeGoal(ctx: RequestContext, taskId: string) {
   if (!task) throw new TaskNotFoundError(taskId);
   if (task.status === TaskStatus.ARCHIVED) throw new TaskArchivedError();
 
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin && task.created_by !== ctx.actorUserId && !task.assigned_users.includes(ctx.actorUserId)) {
+  if (!can(ctx, "task.update.any") && task.created_by !== ctx.actorUserId && !task.assigned_users.includes(ctx.actorUserId)) {
     throw new TaskForbiddenError();
   }
 
@@ -71,7 +67,7 @@ export async function removeGoal(ctx: RequestContext, taskId: string) {
 
     await taskEventRepo.createTaskEvent(tx, {
       task: taskConnect(taskId),
-      actor: actorConnect(ctx.actorUserId),
+      ...eventActor(ctx),
       type: TaskEventType.TASK_GOAL_REMOVED,
       before_json: { target_quantity: existing.target_quantity, unit: existing.unit },
       after_json: {},
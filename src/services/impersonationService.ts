@@ -0,0 +1,74 @@
+import * as impersonationRepo from "../repositories/impersonationRepository";
+import { UserRole, UserStatus } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type { StartImpersonationInput } from "../types/auth";
+import { generateAccessToken } from "../utils/tokenUtils";
+import {
+  AuthenticationError,
+  ForbiddenUserOperationError,
+  UserNotFoundError,
+  ValidationError,
+} from "../errors/domainErrors";
+
+// Super-admins can act as another user to see the app as they do, e.g. to reproduce a
+// support report. Starting gives a short-lived access token for the user with no refresh
+// token; requests made with it carry impersonator_id (see RequestContext) and every task
+// event written records it. Each session is kept as an audit record of who impersonated
+// whom, why, and until when.
+
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+// Returns the access token to use as the user, the only time it is returned.
+export async function startImpersonation(
+  ctx: RequestContext,
+  input: StartImpersonationInput,
+  ip: string | undefined,
+  now: Date = new Date(),
+) {
+  if (!ctx.isSuperAdmin || ctx.impersonatorUserId) {
+    throw new ForbiddenUserOperationError("Only super-admins can impersonate users");
+  }
+
+  const target = await impersonationRepo.getTarget(input.user_id);
+  if (!target) throw new UserNotFoundError(input.user_id);
+  if (target.role === UserRole.SUPER_ADMIN || target.role === UserRole.SYSTEM) {
+    throw new ForbiddenUserOperationError("Super-admins and service accounts cannot be impersonated");
+  }
+  if (target.status !== UserStatus.ACTIVE) {
+    throw new ForbiddenUserOperationError("Inactive users cannot be impersonated");
+  }
+
+  const session = await impersonationRepo.createSession({
+    impersonator_id: ctx.actorUserId,
+    target_user_id: target.user_id,
+    organization_id: target.organization_id,
+    reason: input.reason,
+    started_ip: ip ?? null,
+    started_at: now,
+    expires_at: new Date(now.getTime() + SESSION_TTL_MS),
+  });
+  const token = generateAccessToken(target, {
+    impersonator_id: ctx.actorUserId,
+    impersonation_id: session.impersonation_id,
+    expires_at: session.expires_at,
+  });
+  return { token, impersonation: session };
+}
+
+// Ends the session the request's impersonation token belongs to; the token stops working.
+export async function stopImpersonation(impersonationId: string | undefined, now: Date = new Date()): Promise<void> {
+  if (!impersonationId) throw new ValidationError("This session is not an impersonation");
+  await impersonationRepo.endSession(impersonationId, now);
+}
+
+// Checked by authenticateToken for every request made with an impersonation token.
+export async function assertSessionActive(impersonationId: string, now: Date = new Date()): Promise<void> {
+  const session = await impersonationRepo.getSession(impersonationId);
+  if (!session || session.ended_at || session.expires_at <= now) {
+    throw new AuthenticationError("Impersonation session has ended");
+  }
+}
+
+export async function listImpersonations(targetUserId: string | undefined, limit: number) {
+  return impersonationRepo.listSessions(targetUserId, limit);
+}
@@ -0,0 +1,85 @@
+import * as notificationRepo from "../repositories/notificationRepository";
+import * as pushOutboxRepo from "../repositories/pushOutboxRepository";
+import { queueEmail } from "./emailOutboxService";
+import { quietHoursEnd, resolveChannels } from "./notificationPreferenceService";
+import { renderMessage, resolveLocale } from "../utils/messageCatalog";
+import type { RequestContext } from "../types/requestContext";
+import type { DbClient } from "../types/db";
+import type {
+  ListNotificationsQuery,
+  NewNotification,
+  NotificationContent,
+  NotificationRecipient,
+} from "../types/notification";
+
+export { NotificationNotFoundError } from "../errors/domainErrors";
+
+// Delivers a notification on the channels the recipient has enabled for its type:
+// stored in their inbox, queued in the push outbox if they have a token, and queued
+// in the email outbox. All are written with db, so passing the caller's transaction
+// makes them part of the change they are about. A push that falls in the recipient's
+// quiet hours is queued to go out when the quiet hours end; email is not held back.
+// The title and body are rendered in the recipient's locale. If the settings cannot
+// be read the default push and inbox channels and locale are used, and no email is sent.
+export async function notifyUser(
+  db: DbClient,
+  recipient: NotificationRecipient,
+  notification: NewNotification,
+  now: Date = new Date(),
+): Promise<void> {
+  const settings = await notificationRepo.getDeliverySettings(db, recipient.user_id, notification.type).catch((err) => {
+    console.error(`Failed to load notification settings for user ${recipient.user_id}:`, err);
+    return null;
+  });
+  const channels = resolveChannels(notification.type, settings?.preference ?? null);
+  const push = channels.push && !!recipient.push_token;
+  const emailTo = channels.email ? settings?.email : undefined;
+  if (!channels.in_app && !push && !emailTo) return;
+
+  const { title, body } = renderMessage(
+    notification.message ?? notification.type,
+    resolveLocale(settings?.locale),
+    notification.params,
+  );
+  const content: NotificationContent = {
+    type: notification.type,
+    title,
+    body,
+    data: notification.data,
+    task_id: notification.task_id,
+  };
+
+  if (channels.in_app) {
+    await notificationRepo.createNotification(db, recipient.user_id, content);
+  }
+  if (push) {
+    const sendAfter = (settings ? quietHoursEnd(now, settings) : null) ?? now;
+    await pushOutboxRepo.enqueuePush(db, recipient.user_id, content, sendAfter);
+  }
+  if (emailTo) {
+    await queueEmail(db, { user_id: recipient.user_id, to: emailTo, subject: title, text: body }, now);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Inbox (API) — always the caller's own notifications
+// ---------------------------------------------------------------------------
+
+export async function listNotifications(ctx: RequestContext, query: ListNotificationsQuery) {
+  const notifications = await notificationRepo.getNotificationsForUser(ctx.actorUserId, query);
+  const last = notifications[notifications.length - 1];
+  const nextCursor = last && notifications.length === query.limit ? last.id : null;
+  return { notifications, nextCursor };
+}
+
+export async function getUnreadCount(ctx: RequestContext): Promise<number> {
+  return notificationRepo.countUnreadForUser(ctx.actorUserId);
+}
+
+export async function markRead(ctx: RequestContext, notificationId: string) {
+  return notificationRepo.markReadForUser(notificationId, ctx.actorUserId, new Date());
+}
+
+export async function markAllRead(ctx: RequestContext): Promise<number> {
+  return notificationRepo.markAllReadForUser(ctx.actorUserId, new Date());
+}
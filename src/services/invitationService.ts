@@ -0,0 +1,171 @@
+import { prisma } from "../db/prisma";
+import * as invitationRepo from "../repositories/invitationRepository";
+import * as userRepo from "../repositories/userRepository";
+import { InvitationStatus } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type { DbClient } from "../types/db";
+import type { AcceptInvitationInput, CreateInvitationInput, ListInvitationsQuery } from "../types/invitation";
+import { hashPassword } from "../helper/helpers";
+import { resolveNewUserPlacement } from "./userService";
+import { requirePermission } from "./policyService";
+import { queueEmail } from "./emailOutboxService";
+import { frontendLink, positiveIntFromEnv } from "../utils/envUtils";
+import { renderMessage, resolveLocale } from "../utils/messageCatalog";
+import {
+  EmailAlreadyInUseError,
+  InvalidInvitationTokenError,
+  InvitationAlreadyPendingError,
+  InvitationNotFoundError,
+  InvitationNotPendingError,
+  ValidationError,
+} from "../errors/domainErrors";
+
+export {
+  InvalidInvitationTokenError,
+  InvitationAlreadyPendingError,
+  InvitationNotFoundError,
+  InvitationNotPendingError,
+} from "../errors/domainErrors";
+
+// Invitations. An admin invites an email with the role, position and locale the user
+// will get; the invitee opens the emailed link, chooses a password and the user is
+// created active. Links are valid for INVITATION_TTL_DAYS (default 7); the scheduler
+// marks invitations past that as EXPIRED, and a resend issues a new link.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requireAdminRole(ctx: RequestContext) {
+  requirePermission(ctx, "invitation.manage", "Only admins can manage invitations");
+}
+
+type Invitation = NonNullable<Awaited<ReturnType<typeof invitationRepo.getInvitationById>>>;
+
+// Queues the invitation email in the invitee's locale, else the organization's default.
+async function sendInvitationEmail(db: DbClient, invitation: Invitation, raw: string, days: number, now: Date) {
+  const locale = resolveLocale(invitation.locale, invitation.organization.default_locale);
+  const { title, body } = renderMessage("INVITATION", locale, {
+    app: process.env.APP_NAME || "AndreassenTask",
+    org: invitation.organization.name,
+    days,
+    url: frontendLink("INVITATION_URL", "/accept-invite", { token: raw }),
+  });
+  await queueEmail(db, { user_id: null, to: invitation.email, subject: title, text: body }, now);
+}
+
+// ---------------------------------------------------------------------------
+// Admin API
+// ---------------------------------------------------------------------------
+
+export async function listInvitations(ctx: RequestContext, query: ListInvitationsQuery) {
+  requireAdminRole(ctx);
+  return invitationRepo.getInvitations(ctx.effectiveOrgId, query.status);
+}
+
+// The organization, role and position follow the same rules as creating a user directly.
+export async function createInvitation(ctx: RequestContext, body: CreateInvitationInput, now: Date = new Date()) {
+  requireAdminRole(ctx);
+  const { role, organization_id } = await resolveNewUserPlacement(ctx, body);
+  const { email } = body;
+
+  if (await userRepo.emailExists(email)) throw new EmailAlreadyInUseError();
+  if (await invitationRepo.hasPendingInvitation(email, organization_id, now)) {
+    throw new InvitationAlreadyPendingError();
+  }
+
+  const days = positiveIntFromEnv("INVITATION_TTL_DAYS", 7);
+  return prisma.$transaction(async (tx) => {
+    const { invitation, raw } = await invitationRepo.createInvitation(
+      tx,
+      {
+        organization_id,
+        email,
+        name: body.name,
+        role,
+        position_id: body.position_id,
+        locale: body.locale,
+        invited_by: ctx.actorUserId,
+      },
+      new Date(now.getTime() + days * DAY_MS),
+      now,
+    );
+    await sendInvitationEmail(tx, invitation, raw, days, now);
+    return invitation;
+  });
+}
+
+// Emails a new link, valid for another INVITATION_TTL_DAYS. Works for expired invitations too.
+export async function resendInvitation(ctx: RequestContext, invitationId: string, now: Date = new Date()) {
+  requireAdminRole(ctx);
+  const existing = await invitationRepo.getInvitationById(invitationId, ctx.effectiveOrgId);
+  if (!existing) throw new InvitationNotFoundError(invitationId);
+  if (existing.status === InvitationStatus.ACCEPTED || existing.status === InvitationStatus.REVOKED) {
+    throw new InvitationNotPendingError(existing.status);
+  }
+  if (await userRepo.emailExists(existing.email)) throw new EmailAlreadyInUseError();
+
+  const days = positiveIntFromEnv("INVITATION_TTL_DAYS", 7);
+  return prisma.$transaction(async (tx) => {
+    const reissued = await invitationRepo.reissueInvitation(tx, invitationId, new Date(now.getTime() + days * DAY_MS), now);
+    // Accepted or revoked since it was read.
+    if (!reissued) throw new InvitationNotPendingError(InvitationStatus.ACCEPTED);
+    await sendInvitationEmail(tx, reissued.invitation, reissued.raw, days, now);
+    return reissued.invitation;
+  });
+}
+
+// The invitation is kept as REVOKED so the admin can see it was withdrawn.
+export async function revokeInvitation(ctx: RequestContext, invitationId: string, now: Date = new Date()) {
+  requireAdminRole(ctx);
+  if (await invitationRepo.revokeInvitation(invitationId, ctx.effectiveOrgId, now)) return;
+
+  const existing = await invitationRepo.getInvitationById(invitationId, ctx.effectiveOrgId);
+  if (!existing) throw new InvitationNotFoundError(invitationId);
+  throw new InvitationNotPendingError(existing.status);
+}
+
+// ---------------------------------------------------------------------------
+// Accepting (public, by token)
+// ---------------------------------------------------------------------------
+
+async function getPendingInvitation(token: string, now: Date): Promise<Invitation> {
+  const invitation = await invitationRepo.getInvitationByToken(token);
+  if (!invitation || invitation.status !== InvitationStatus.PENDING || invitation.expires_at <= now) {
+    throw new InvalidInvitationTokenError();
+  }
+  return invitation;
+}
+
+// What the accept page shows before the invitee chooses a password.
+export async function previewInvitation(token: string, now: Date = new Date()) {
+  const invitation = await getPendingInvitation(token, now);
+  return {
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    organization: { org_id: invitation.organization.org_id, name: invitation.organization.name },
+    expires_at: invitation.expires_at,
+  };
+}
+
+// Creates the invitee's user with the password they chose. They sign in with it afterwards.
+export async function acceptInvitation(body: AcceptInvitationInput, now: Date = new Date()) {
+  const invitation = await getPendingInvitation(body.token, now);
+  const name = body.name?.trim() || invitation.name;
+  if (!name) throw new ValidationError("name is required");
+
+  const user = await invitationRepo.acceptInvitation(
+    invitation.invitation_id,
+    { name, passwordHash: await hashPassword(body.password) },
+    now,
+  );
+  if (!user) throw new InvalidInvitationTokenError();
+  return user;
+}
+
+// ---------------------------------------------------------------------------
+// Expiry (scheduler)
+// ---------------------------------------------------------------------------
+
+export async function expireInvitations(now: Date = new Date()): Promise<number> {
+  return invitationRepo.expireInvitations(now);
+}
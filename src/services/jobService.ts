@@ -0,0 +1,73 @@
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import * as jobRepo from "../repositories/jobRepository";
+import { JobRunStatus } from "../generated/prisma/client";
+import { positiveIntFromEnv } from "../utils/envUtils";
+
+// Identifies this process in job_leases/job_runs, e.g. "api-7f9c4-2:41:1a2b3c4d".
+export const JOB_HOLDER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const MINUTE_MS = 60 * 1000;
+
+// Cron fires on whole minutes, so every replica derives the same tick for a firing.
+export function jobTick(now: Date): Date {
+  return new Date(Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS);
+}
+
+// Runs `task` if this replica wins the job's lease for the current tick, and records
+// the run. Returns false when another replica has the tick or is still running the job;
+// in the latter case the tick is recorded as missed and the holder runs the job again
+// for it when it is done, so a run longer than the interval does not drop a tick.
+// Task errors are recorded on the run and logged, never rethrown.
+// leaseMs bounds how long a crashed holder can block the job.
+export async function runExclusive(
+  jobName: string,
+  leaseMs: number,
+  task: () => Promise<void>,
+  now: Date = new Date(),
+): Promise<boolean> {
+  let tick: Date | null = jobTick(now);
+  const acquired = await jobRepo.acquireLease(
+    jobName,
+    JOB_HOLDER_ID,
+    tick,
+    new Date(now.getTime() + leaseMs),
+    now,
+  );
+  if (!acquired) {
+    await jobRepo.recordMissedTick(jobName, tick);
+    return false;
+  }
+
+  try {
+    while (tick) {
+      await runAndRecord(jobName, task);
+      tick = await jobRepo.claimMissedTick(jobName, JOB_HOLDER_ID, tick, new Date(Date.now() + leaseMs));
+    }
+  } finally {
+    await jobRepo.releaseLease(jobName, JOB_HOLDER_ID, new Date());
+  }
+  return true;
+}
+
+async function runAndRecord(jobName: string, task: () => Promise<void>): Promise<void> {
+  const run = await jobRepo.createRun(jobName, JOB_HOLDER_ID);
+  try {
+    await task();
+    await jobRepo.finishRun(run.id, JobRunStatus.SUCCEEDED);
+  } catch (err) {
+    console.error(`Scheduled job ${jobName} failed:`, err);
+    await jobRepo.finishRun(run.id, JobRunStatus.FAILED, err instanceof Error ? err.message : String(err));
+  }
+}
+
+// Recent job runs across all replicas, newest first. Super-admin only (route enforces this).
+export async function getJobRuns(options: { limit: number; job?: string }) {
+  return jobRepo.getRecentRuns(options.limit, options.job);
+}
+
+// Deletes run history older than JOB_RUN_RETENTION_DAYS (default 30).
+export async function pruneJobRuns(now: Date = new Date()): Promise<number> {
+  const days = positiveIntFromEnv("JOB_RUN_RETENTION_DAYS", 30);
+  return jobRepo.deleteRunsStartedBefore(new Date(now.getTime() - days * 24 * 60 * MINUTE_MS));
+}
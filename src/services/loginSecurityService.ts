@@ -0,0 +1,153 @@
+import { prisma } from "../db/prisma";
+import * as loginEventRepo from "../repositories/loginEventRepository";
+import * as sessionRepo from "../repositories/sessionRepository";
+import * as refreshTokenRepo from "../repositories/refreshTokenRepository";
+import type { User } from "../generated/prisma/client";
+import type { LoginClient } from "../types/auth";
+import { InvalidLoginReportTokenError } from "../errors/domainErrors";
+import { parseCountry, parseLocation } from "../utils/uaUtils";
+import { APP_TIMEZONE } from "../utils/dateUtils";
+import { frontendLink, positiveIntFromEnv } from "../utils/envUtils";
+import { renderMessage, resolveLocale, type Locale } from "../utils/messageCatalog";
+import { queueEmail } from "./emailOutboxService";
+
+export { InvalidLoginReportTokenError } from "../errors/domainErrors";
+
+// Per-account protection on top of the per-IP login rate limit, and the login history.
+//
+// Every wrong password or second-factor code for an existing account counts; from
+// LOGIN_LOCKOUT_THRESHOLD (default 5) consecutive failures sign-in is locked for a minute,
+// doubling with each further failure up to an hour. Attempts while locked are refused
+// without counting, so nobody can keep someone else locked out for longer. A completed
+// sign-in (the password, plus the code for users with two-factor) or a completed password
+// reset clears the count and the lock.
+//
+// A locked account, an unknown email and a wrong password all get the same 401 after the
+// same work, so sign-in does not reveal which emails have accounts.
+//
+// A sign-in from a country or device the user has not signed in from before emails them a
+// "this wasn't me" link, valid for LOGIN_REPORT_TTL_DAYS (default 7), that revokes it.
+
+const MINUTE_MS = 60 * 1000;
+const BASE_LOCKOUT_MS = MINUTE_MS;
+const MAX_LOCKOUT_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function lockoutDuration(failures: number): number | null {
+  const threshold = positiveIntFromEnv("LOGIN_LOCKOUT_THRESHOLD", 5);
+  if (failures < threshold) return null;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - threshold), MAX_LOCKOUT_MS);
+}
+
+function describeClient(client: LoginClient) {
+  return {
+    platform: client.platform,
+    ip: client.ip ?? null,
+    location: parseLocation(client.ip) ?? null,
+    country: parseCountry(client.ip) ?? null,
+    device_name: client.device_name ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Password and second-factor attempts
+// ---------------------------------------------------------------------------
+
+export function isLocked(user: Pick<User, "locked_until">, now: Date = new Date()): boolean {
+  return !!user.locked_until && user.locked_until > now;
+}
+
+// Records a refused attempt: counts it unless the email is unknown or the account is
+// already locked, and adds it to the account's login history.
+export async function recordFailedLogin(
+  user: Pick<User, "user_id" | "locked_until"> | null,
+  client: LoginClient,
+  now: Date = new Date(),
+): Promise<void> {
+  const countedUserId = user && !isLocked(user, now) ? user.user_id : null;
+  const failures = await loginEventRepo.incrementFailedLogins(countedUserId);
+  const lockout = lockoutDuration(failures);
+  if (countedUserId && lockout) await loginEventRepo.lockUntil(countedUserId, new Date(now.getTime() + lockout));
+  if (user) {
+    await loginEventRepo.createLoginEvent(prisma, { user_id: user.user_id, success: false, ...describeClient(client) });
+  }
+}
+
+export async function clearFailedLogins(user: Pick<User, "user_id" | "failed_login_count">): Promise<void> {
+  if (user.failed_login_count > 0) await loginEventRepo.resetFailedLogins(user.user_id);
+}
+
+// ---------------------------------------------------------------------------
+// Sign-ins
+// ---------------------------------------------------------------------------
+
+// Records a sign-in that started sessionId, and emails the user when it comes from a
+// new country or device. The first sign-in is never new.
+export async function recordSignIn(
+  userId: string,
+  client: LoginClient,
+  sessionId: string,
+  now: Date = new Date(),
+): Promise<void> {
+  const event = { user_id: userId, success: true, ...describeClient(client), session_id: sessionId };
+
+  let suspicious = false;
+  if (await loginEventRepo.hasSuccessfulLogin(userId)) {
+    const known = await loginEventRepo.getKnownOrigins(userId);
+    suspicious =
+      (!!event.country && !known.countries.includes(event.country)) ||
+      (!!event.device_name && !known.devices.includes(event.device_name));
+  }
+  if (!suspicious) {
+    await loginEventRepo.createLoginEvent(prisma, event);
+    return;
+  }
+
+  const recipient = await loginEventRepo.getAlertRecipient(userId);
+  if (!recipient) return;
+  const locale = resolveLocale(recipient.locale, recipient.organization.default_locale);
+  const days = positiveIntFromEnv("LOGIN_REPORT_TTL_DAYS", 7);
+
+  await prisma.$transaction(async (tx) => {
+    const raw = await loginEventRepo.createReportableLoginEvent(tx, event);
+    const { title, body } = renderMessage("SUSPICIOUS_LOGIN", locale, {
+      app: process.env.APP_NAME || "AndreassenTask",
+      device: event.device_name ?? "?",
+      location: event.location ?? event.ip ?? "?",
+      time: (l: Locale) =>
+        new Intl.DateTimeFormat(l, {
+          dateStyle: "medium",
+          timeStyle: "short",
+          timeZone: recipient.organization.timezone ?? APP_TIMEZONE,
+        }).format(now),
+      days,
+      url: frontendLink("LOGIN_REPORT_URL", "/login-report", { token: raw }),
+    });
+    await queueEmail(tx, { user_id: userId, to: recipient.email, subject: title, text: body }, now);
+  });
+}
+
+// "This wasn't me": signs the reported session out for the user. The link works once.
+export async function reportLogin(raw: string, now: Date = new Date()): Promise<void> {
+  const event = await loginEventRepo.getLoginEventByReportToken(raw);
+  const ttlDays = positiveIntFromEnv("LOGIN_REPORT_TTL_DAYS", 7);
+  if (!event || event.reported_at || event.created_at.getTime() + ttlDays * DAY_MS <= now.getTime()) {
+    throw new InvalidLoginReportTokenError();
+  }
+  if (!(await loginEventRepo.markReported(event.login_id, now))) throw new InvalidLoginReportTokenError();
+
+  if (event.session_id) {
+    const sessionAccountId = await sessionRepo.revokeSessionAccount(event.session_id, event.user_id);
+    if (sessionAccountId) await refreshTokenRepo.revokeTokensBySessionAccount(sessionAccountId);
+  }
+}
+
+export async function getLoginHistory(userId: string, limit: number) {
+  return loginEventRepo.getLoginHistory(userId, limit);
+}
+
+// Deletes login history older than LOGIN_HISTORY_RETENTION_DAYS (default 180).
+export async function pruneLoginHistory(now: Date = new Date()): Promise<number> {
+  const days = positiveIntFromEnv("LOGIN_HISTORY_RETENTION_DAYS", 180);
+  return loginEventRepo.deleteLoginEventsBefore(new Date(now.getTime() - days * DAY_MS));
+}
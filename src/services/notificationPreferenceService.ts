@@ -0,0 +1,92 @@
+import { prisma } from "../db/prisma";
+import * as notificationRepo from "../repositories/notificationRepository";
+import { NotificationType } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type {
+  DeliverySettings,
+  NotificationChannels,
+  UpdateNotificationPreferencesInput,
+} from "../types/notification";
+import { APP_TIMEZONE, addDaysToKey, appDateKey, appTimeKey, appTimeToUTC } from "../utils/dateUtils";
+import { UserNotFoundError } from "../errors/domainErrors";
+
+// Channels used for a type the user has not changed. The scheduled briefing and
+// reminder are push-only reminders by default and do not fill up the inbox. Only
+// assignments, mentions and the weekly admin digest are emailed by default; the
+// digests are never pushed unless an admin turns that on.
+export const NOTIFICATION_DEFAULTS: Record<NotificationType, NotificationChannels> = {
+  [NotificationType.TASK_ASSIGNED]: { push: true, in_app: true, email: true },
+  [NotificationType.COMMENT_CREATED]: { push: true, in_app: true, email: false },
+  [NotificationType.COMMENT_REPLY]: { push: true, in_app: true, email: false },
+  [NotificationType.COMMENT_MENTION]: { push: true, in_app: true, email: true },
+  [NotificationType.PRIORITY_CHANGED]: { push: true, in_app: true, email: false },
+  [NotificationType.DAILY_BRIEFING]: { push: true, in_app: false, email: false },
+  [NotificationType.NO_ACTIVITY_REMINDER]: { push: true, in_app: false, email: false },
+  [NotificationType.DAILY_DIGEST]: { push: false, in_app: true, email: false },
+  [NotificationType.WEEKLY_DIGEST]: { push: false, in_app: true, email: true },
+};
+
+export function resolveChannels(type: NotificationType, preference: NotificationChannels | null): NotificationChannels {
+  return preference ?? NOTIFICATION_DEFAULTS[type];
+}
+
+// When `now` falls inside the user's quiet hours, returns the moment they end;
+// otherwise null. Quiet hours may wrap midnight (e.g. 22:00–07:00).
+export function quietHoursEnd(now: Date, settings: DeliverySettings): Date | null {
+  const { quiet_hours_start: start, quiet_hours_end: end } = settings;
+  if (!start || !end || start === end) return null;
+
+  const timeZone = settings.timezone ?? APP_TIMEZONE;
+  const time = appTimeKey(now, timeZone);
+  const quiet = start < end ? time >= start && time < end : time >= start || time < end;
+  if (!quiet) return null;
+
+  const today = appDateKey(now, timeZone);
+  return appTimeToUTC(time < end ? today : addDaysToKey(today, 1), end, timeZone);
+}
+
+// ---------------------------------------------------------------------------
+// Preferences (API) — always the caller's own
+// ---------------------------------------------------------------------------
+
+export async function getPreferences(ctx: RequestContext) {
+  const settings = await notificationRepo.getPreferenceSettings(ctx.actorUserId);
+  if (!settings) throw new UserNotFoundError(ctx.actorUserId);
+
+  const overrides = new Map(settings.notificationPreferences.map((p) => [p.type, p]));
+  return {
+    preferences: Object.values(NotificationType).map((type) => {
+      const { push, in_app, email } = resolveChannels(type, overrides.get(type) ?? null);
+      return { type, push, in_app, email };
+    }),
+    quiet_hours:
+      settings.quiet_hours_start && settings.quiet_hours_end
+        ? { start: settings.quiet_hours_start, end: settings.quiet_hours_end }
+        : null,
+  };
+}
+
+export async function updatePreferences(ctx: RequestContext, input: UpdateNotificationPreferencesInput) {
+  // Preferences sent without email keep the user's current email setting for the type.
+  let preferences: (NotificationChannels & { type: NotificationType })[] | undefined;
+  if (input.preferences) {
+    const settings = input.preferences.some((p) => p.email === undefined)
+      ? await notificationRepo.getPreferenceSettings(ctx.actorUserId)
+      : null;
+    const overrides = new Map(settings?.notificationPreferences.map((p) => [p.type, p]));
+    preferences = input.preferences.map((p) => ({
+      ...p,
+      email: p.email ?? resolveChannels(p.type, overrides.get(p.type) ?? null).email,
+    }));
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (preferences) {
+      await notificationRepo.upsertPreferences(tx, ctx.actorUserId, preferences);
+    }
+    if (input.quiet_hours !== undefined) {
+      await notificationRepo.updateQuietHours(tx, ctx.actorUserId, input.quiet_hours);
+    }
+  });
+  return getPreferences(ctx);
+}
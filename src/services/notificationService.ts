@@ -1,54 +1,49 @@
 import Expo, {
   type ExpoPushMessage,
-  type ExpoPushErrorTicket,
+  type ExpoPushReceipt,
+  type ExpoPushTicket,
 } from "expo-server-sdk";
-import { updatePushToken } from "../repositories/userRepository";
+
+// Expo transport used by the push outbox (see pushOutboxService). Nothing else should
+// send pushes directly: outbox messages survive restarts and Expo outages.
 
 const expo = new Expo();
 
-function redactToken(token: string): string {
+export function isPushToken(token: string): boolean {
+  return Expo.isExpoPushToken(token);
+}
+
+export function redactToken(token: string): string {
   return token.length > 8
     ? `${token.slice(0, 4)}...${token.slice(-4)}`
     : "***";
 }
 
-export async function sendPushNotification(
-  pushToken: string,
-  title: string,
-  body: string,
-  data?: Record<string, unknown>,
-  userId?: string,
-): Promise<void> {
-  if (!Expo.isExpoPushToken(pushToken)) {
-    console.error(
-      `Invalid Expo push token: ${redactToken(pushToken)}${userId ? ` (userId: ${userId})` : ""}`,
-    );
-    return;
+// Sends the messages in Expo-sized chunks. Returns one entry per message, in order:
+// its ticket, or null when its chunk could not be sent at all (e.g. Expo unreachable).
+export async function sendPushMessages(messages: ExpoPushMessage[]): Promise<(ExpoPushTicket | null)[]> {
+  const tickets: (ExpoPushTicket | null)[] = [];
+  for (const chunk of expo.chunkPushNotifications(messages)) {
+    try {
+      tickets.push(...(await expo.sendPushNotificationsAsync(chunk)));
+    } catch (err) {
+      console.error("Failed to send push notifications:", err);
+      tickets.push(...chunk.map(() => null));
+    }
   }
+  return tickets;
+}
 
-  const message: ExpoPushMessage = {
-    to: pushToken,
-    sound: "default",
-    title,
-    body,
-    data,
-  };
-
-  try {
-    const chunks = expo.chunkPushNotifications([message]);
-    for (const chunk of chunks) {
-      const tickets = await expo.sendPushNotificationsAsync(chunk);
-      for (const ticket of tickets) {
-        if (ticket.status === "error") {
-          const error = (ticket as ExpoPushErrorTicket).details?.error;
-          console.error(`Push notification error [${error ?? "unknown"}]:`, ticket.message);
-          if (error === "DeviceNotRegistered" && userId) {
-            await updatePushToken(userId, null);
-          }
-        }
-      }
+// Receipts Expo has ready for the given ticket ids. Ids whose receipt is not ready
+// yet (or whose chunk failed to load) are missing from the result.
+export async function getPushReceipts(ticketIds: string[]): Promise<Record<string, ExpoPushReceipt>> {
+  const receipts: Record<string, ExpoPushReceipt> = {};
+  for (const chunk of expo.chunkPushNotificationReceiptIds(ticketIds)) {
+    try {
+      Object.assign(receipts, await expo.getPushNotificationReceiptsAsync(chunk));
+    } catch (err) {
+      console.error("Failed to fetch push receipts:", err);
     }
-  } catch (err) {
-    console.error("Failed to send push notification:", err);
   }
+  return receipts;
 }
@@ -0,0 +1,78 @@
+import * as orgRoleRepo from "../repositories/orgRoleRepository";
+import type { RequestContext } from "../types/requestContext";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  type CreateOrgRoleInput,
+  type Permission,
+  type UpdateOrgRoleInput,
+} from "../types/permission";
+import { ForbiddenUserOperationError, MissingOrganizationError, OrgRoleNotFoundError } from "../errors/domainErrors";
+import { can, requirePermission } from "./policyService";
+
+export { DuplicateOrgRoleError, OrgRoleNotFoundError } from "../errors/domainErrors";
+
+// Organization-defined roles: named sets of permissions, such as a "Foreman" with
+// template.manage, assigned to members on top of their built-in role (users.org_role_id).
+
+function requireRoleManager(ctx: RequestContext) {
+  requirePermission(ctx, "role.manage", "Only admins can manage roles");
+}
+
+function isGrantable(ctx: RequestContext, permissions: readonly Permission[]): boolean {
+  return permissions.every((permission) => can(ctx, permission));
+}
+
+// Members who manage roles without being admins cannot hand out more than they have.
+function requireGrantable(ctx: RequestContext, permissions: readonly Permission[]) {
+  if (!isGrantable(ctx, permissions)) {
+    throw new ForbiddenUserOperationError("You cannot grant permissions you do not have");
+  }
+}
+
+function requireOrg(ctx: RequestContext): string {
+  if (!ctx.effectiveOrgId) throw new MissingOrganizationError();
+  return ctx.effectiveOrgId;
+}
+
+// The permissions that exist and what each built-in role grants, for role editors.
+export function getPermissionCatalog() {
+  return { permissions: PERMISSIONS, built_in_roles: BUILT_IN_ROLE_PERMISSIONS };
+}
+
+export async function listRoles(ctx: RequestContext) {
+  return orgRoleRepo.getRoles(requireOrg(ctx));
+}
+
+export async function createRole(ctx: RequestContext, data: CreateOrgRoleInput) {
+  requireRoleManager(ctx);
+  requireGrantable(ctx, data.permissions);
+  return orgRoleRepo.createRole(requireOrg(ctx), data);
+}
+
+export async function updateRole(ctx: RequestContext, roleId: string, data: UpdateOrgRoleInput) {
+  requireRoleManager(ctx);
+  if (data.permissions) requireGrantable(ctx, data.permissions);
+  return orgRoleRepo.updateRoleInOrg(roleId, requireOrg(ctx), data);
+}
+
+export async function deleteRole(ctx: RequestContext, roleId: string) {
+  requireRoleManager(ctx);
+  return orgRoleRepo.deleteRoleInOrg(roleId, requireOrg(ctx));
+}
+
+// Checks that the actor may assign the role to a member of the organization.
+export async function assertAssignableRole(ctx: RequestContext, orgId: string, roleId: string): Promise<void> {
+  requireRoleManager(ctx);
+  const role = await orgRoleRepo.getRoleById(roleId, orgId);
+  if (!role) throw new OrgRoleNotFoundError(roleId);
+  requireGrantable(ctx, role.permissions as Permission[]);
+}
+
+// Whether the actor has every permission a member's organization role grants, so that
+// managing the member (resetting their password or email) cannot reach beyond them.
+export async function holdsRolePermissions(ctx: RequestContext, orgId: string, roleId: string | null): Promise<boolean> {
+  if (!roleId) return true;
+  const role = await orgRoleRepo.getRoleById(roleId, orgId);
+  return !role || isGrantable(ctx, role.permissions as Permission[]);
+}
@@ -1,5 +1,7 @@
 import * as orgRepo from "../repositories/organizationRepository";
+import type { CreateOrganizationInput, UpdateOrganizationInput } from "../repositories/organizationRepository";
 import { generateOrgLogoUploadUrl } from "./storageService";
+import * as calendarService from "./calendarService";
 import type { RequestContext } from "../types/requestContext";
 import { UserRole } from "../generated/prisma/client";
 import {
@@ -21,9 +23,11 @@ export async function getOrganization(orgId: string) {
   return orgRepo.getOrganizationById(orgId);
 }
 
-// Creates a new organization. Intended for super-admin use only.
-export async function createOrganization(data: { name: string; slug: string; logo_url?: string | null }) {
-  return orgRepo.createOrganization(data);
+// Creates a new organization with its public holidays. Intended for super-admin use only.
+export async function createOrganization(data: CreateOrganizationInput) {
+  const org = await orgRepo.createOrganization(data);
+  await calendarService.seedOrganizationHolidays(org.org_id);
+  return org;
 }
 
 // Updates organization fields.
@@ -32,7 +36,7 @@ export async function createOrganization(data: { name: string; slug: string; log
 export async function updateOrganization(
   ctx: RequestContext,
   orgId: string,
-  data: { name?: string; slug?: string; logo_url?: string | null },
+  data: UpdateOrganizationInput,
 ) {
   if (data.slug !== undefined && ctx.actorRole !== UserRole.SUPER_ADMIN) {
     throw new ForbiddenUserOperationError("Only super admins can update organization slug");
@@ -0,0 +1,32 @@
+import { UserRole } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import { BUILT_IN_ROLE_PERMISSIONS, type Permission } from "../types/permission";
+import { ForbiddenUserOperationError } from "../errors/domainErrors";
+
+// The policy evaluator: whether the actor of a request holds a permission, from their
+// built-in role plus their organization role. Services decide ownership themselves
+// ("own task or task.update.any").
+
+export function can(ctx: RequestContext, permission: Permission): boolean {
+  if (ctx.isSuperAdmin) return true;
+  return (
+    BUILT_IN_ROLE_PERMISSIONS[ctx.actorRole]?.includes(permission) ||
+    (ctx.orgRolePermissions?.includes(permission) ?? false)
+  );
+}
+
+export function requirePermission(ctx: RequestContext, permission: Permission, message?: string): void {
+  if (!can(ctx, permission)) throw new ForbiddenUserOperationError(message);
+}
+
+// Whether the actor is an admin by built-in role. Organization roles can grant managing
+// users, service tokens and single sign-on, but not handing out the ADMIN role itself.
+export function isBuiltInAdmin(ctx: RequestContext): boolean {
+  return ctx.actorRole === UserRole.ADMIN || ctx.actorRole === UserRole.SUPER_ADMIN;
+}
+
+// The user whose project memberships limit what the actor sees, for the visibleToUserId
+// parameters of the repositories; null when they see every project in scope.
+export function projectVisibilityFor(ctx: RequestContext): string | null {
+  return can(ctx, "project.view.any") ? null : ctx.actorUserId;
+}
@@ -1,14 +1,12 @@
 import * as positionRepo from "../repositories/positionRepository";
 import type { RequestContext } from "../types/requestContext";
-import { UserRole } from "../generated/prisma/client";
-import { ForbiddenUserOperationError, MissingOrganizationError } from "../errors/domainErrors";
+import { MissingOrganizationError } from "../errors/domainErrors";
+import { requirePermission } from "./policyService";
 
 export { DuplicatePositionError, PositionNotFoundError } from "../errors/domainErrors";
 
 function requireAdminRole(ctx: RequestContext) {
-  if (ctx.actorRole !== UserRole.ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-    throw new ForbiddenUserOperationError();
-  }
+  requirePermission(ctx, "position.manage");
 }
 
 export async function listPositions(ctx: RequestContext) {
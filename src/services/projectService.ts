@@ -1,41 +1,114 @@
 import * as projectRepo from "../repositories/projectRepository";
-import { UserRole } from "../generated/prisma/client";
+import * as userRepo from "../repositories/userRepository";
+import { ProjectMemberRole } from "../generated/prisma/client";
 import type { RequestContext } from "../types/requestContext";
 import type { CreateProjectInput, UpdateProjectInput } from "../types/project";
-import { ProjectNotFoundError, ProjectForbiddenError } from "../errors/domainErrors";
+import {
+  ProjectNotFoundError,
+  ProjectForbiddenError,
+  ProjectMemberNotFoundError,
+  LastProjectOwnerError,
+  UserNotFoundError,
+} from "../errors/domainErrors";
+import { can, projectVisibilityFor } from "./policyService";
 
-export { ProjectNotFoundError };
+export { ProjectNotFoundError, ProjectMemberNotFoundError, LastProjectOwnerError };
 
 // All project operations are org-scoped via effectiveOrgId.
 // Super-admins use the effectiveOrgId they have been given (or null for platform-wide).
+//
+// Restricted projects are only visible to their members and to holders of
+// project.view.any; everyone in the organization sees the others. Project owners manage
+// their project and its members alongside holders of project.manage.
 
-// Returns all projects in the caller's org scope.
+type ProjectAccess = NonNullable<Awaited<ReturnType<typeof projectRepo.getProjectAccess>>>;
+
+// The actor's access to a project, or null when it does not exist in scope or is hidden
+// from them.
+export async function getProjectAccess(ctx: RequestContext, projectId: string): Promise<ProjectAccess | null> {
+  const access = await projectRepo.getProjectAccess(projectId, ctx.actorUserId, ctx.effectiveOrgId);
+  if (!access) return null;
+  if (access.restricted && !access.role && !can(ctx, "project.view.any")) return null;
+  return access;
+}
+
+async function requireProjectOwner(ctx: RequestContext, projectId: string): Promise<ProjectAccess> {
+  const access = await getProjectAccess(ctx, projectId);
+  if (!access) throw new ProjectNotFoundError(projectId);
+  if (!can(ctx, "project.manage") && access.role !== ProjectMemberRole.OWNER) {
+    throw new ProjectForbiddenError("Only admins and project owners can manage this project");
+  }
+  return access;
+}
+
+// Tasks can be added to the projects the actor sees, except by viewers.
+export async function assertCanAddTasks(ctx: RequestContext, projectId: string): Promise<void> {
+  if (can(ctx, "project.manage")) return;
+  const access = await getProjectAccess(ctx, projectId);
+  if (!access) throw new ProjectNotFoundError(projectId);
+  if (access.role === ProjectMemberRole.VIEWER) {
+    throw new ProjectForbiddenError("Viewers cannot add tasks to this project");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Projects
+// ---------------------------------------------------------------------------
+
+// Returns the projects in the caller's org scope that they can see.
 export async function listProjects(ctx: RequestContext) {
-  return projectRepo.getAllProjects(ctx.effectiveOrgId);
+  return projectRepo.getAllProjects(ctx.effectiveOrgId, projectVisibilityFor(ctx));
 }
 
 // Returns a single project with its tasks. Returns null if not found within scope.
 export async function getProject(ctx: RequestContext, projectId: string) {
-  return projectRepo.getProjectWithTasks(projectId, ctx.effectiveOrgId);
+  return projectRepo.getProjectWithTasks(projectId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
 }
 
-// Creates a project in the caller's org. Requires effectiveOrgId (no org → 403).
+// Creates a project in the caller's org, owned by the caller. Requires effectiveOrgId
+// (no org → 403).
 export async function createProject(ctx: RequestContext, data: CreateProjectInput) {
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new ProjectForbiddenError();
+  if (!can(ctx, "project.manage")) throw new ProjectForbiddenError();
   return projectRepo.createProject(data, ctx.actorUserId, ctx.effectiveOrgId!);
 }
 
 // Updates a project's metadata. Throws ProjectNotFoundError if outside scope.
 export async function updateProject(ctx: RequestContext, projectId: string, data: UpdateProjectInput) {
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new ProjectForbiddenError();
+  if (!can(ctx, "project.manage")) await requireProjectOwner(ctx, projectId);
   return projectRepo.updateProject(projectId, data, ctx.effectiveOrgId);
 }
 
 // Deletes a project. Throws ProjectNotFoundError if outside scope.
 export async function deleteProject(ctx: RequestContext, projectId: string) {
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin) throw new ProjectForbiddenError();
+  if (!can(ctx, "project.manage")) throw new ProjectForbiddenError();
   return projectRepo.deleteProject(projectId, ctx.effectiveOrgId);
 }
+
+// ---------------------------------------------------------------------------
+// Members
+// ---------------------------------------------------------------------------
+
+export async function listMembers(ctx: RequestContext, projectId: string) {
+  if (!(await getProjectAccess(ctx, projectId))) throw new ProjectNotFoundError(projectId);
+  return projectRepo.getMembers(projectId);
+}
+
+// A project always keeps an owner: its last one can be neither demoted nor removed.
+async function assertNotLastOwner(projectId: string, userId: string): Promise<void> {
+  if ((await projectRepo.getMemberRole(projectId, userId)) !== ProjectMemberRole.OWNER) return;
+  if ((await projectRepo.countOwners(projectId)) <= 1) throw new LastProjectOwnerError();
+}
+
+// Adds a user of the project's organization as a member, or changes their role.
+export async function setMember(ctx: RequestContext, projectId: string, userId: string, role: ProjectMemberRole) {
+  const access = await requireProjectOwner(ctx, projectId);
+  if (!(await userRepo.getUserById(userId, access.organization_id))) throw new UserNotFoundError(userId);
+  if (role !== ProjectMemberRole.OWNER) await assertNotLastOwner(projectId, userId);
+  return projectRepo.upsertMember(projectId, userId, role);
+}
+
+export async function removeMember(ctx: RequestContext, projectId: string, userId: string): Promise<void> {
+  await requireProjectOwner(ctx, projectId);
+  await assertNotLastOwner(projectId, userId);
+  if (!(await projectRepo.removeMember(projectId, userId))) throw new ProjectMemberNotFoundError(projectId, userId);
+}
@@ -0,0 +1,149 @@
+import type { ExpoPushMessage, ExpoPushReceipt, ExpoPushTicket } from "expo-server-sdk";
+import * as pushOutboxRepo from "../repositories/pushOutboxRepository";
+import * as userRepo from "../repositories/userRepository";
+import { UserStatus } from "../generated/prisma/client";
+import { getPushReceipts, isPushToken, sendPushMessages } from "./notificationService";
+import { positiveIntFromEnv } from "../utils/envUtils";
+
+const MINUTE_MS = 60 * 1000;
+
+// Up to this many pushes are sent per run; the rest wait for the next run.
+const SEND_BATCH_SIZE = 1000;
+const RECEIPT_BATCH_SIZE = 1000;
+// Sending stops after this many attempts; the push is then marked FAILED.
+export const MAX_PUSH_ATTEMPTS = 6;
+// Expo asks senders to wait before reading receipts, which it keeps for about a day.
+const RECEIPT_DELAY_MS = 15 * MINUTE_MS;
+const RECEIPT_TTL_MS = 24 * 60 * MINUTE_MS;
+
+// Errors that will not go away by sending the same message again.
+const PERMANENT_ERRORS = new Set(["DeviceNotRegistered", "MessageTooBig", "InvalidCredentials", "DeveloperError"]);
+
+// 1, 2, 4, 8, 16 … minutes after the given attempt, capped at an hour.
+export function retryDelayMs(attempts: number): number {
+  return Math.min(2 ** Math.max(attempts - 1, 0), 60) * MINUTE_MS;
+}
+
+type Receiptish = ExpoPushTicket | ExpoPushReceipt;
+
+function errorCode(result: Receiptish): string | undefined {
+  return result.status === "error" ? result.details?.error : undefined;
+}
+
+function describeError(result: Receiptish): string {
+  return result.status === "error" ? `${result.details?.error ?? "unknown"}: ${result.message}` : "";
+}
+
+async function retryOrFail(id: string, attempts: number, error: string, now: Date): Promise<"retried" | "failed"> {
+  if (attempts >= MAX_PUSH_ATTEMPTS) {
+    await pushOutboxRepo.markFailed(id, attempts, error);
+    return "failed";
+  }
+  await pushOutboxRepo.scheduleRetry(id, attempts, new Date(now.getTime() + retryDelayMs(attempts)), error);
+  return "retried";
+}
+
+export interface PushSendSummary {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// Sends due outbox pushes to each recipient's current token in Expo-sized chunks.
+// Called every minute by the scheduler, which makes sure only one replica runs it.
+export async function sendPendingPushes(now: Date = new Date()): Promise<PushSendSummary> {
+  const summary: PushSendSummary = { sent: 0, retried: 0, failed: 0 };
+  const due = await pushOutboxRepo.getDuePushes(now, SEND_BATCH_SIZE);
+
+  const batch: { id: string; userId: string; token: string; attempts: number }[] = [];
+  const messages: ExpoPushMessage[] = [];
+  for (const push of due) {
+    const token = push.user.push_token;
+    if (push.user.status !== UserStatus.ACTIVE || !token || !isPushToken(token)) {
+      await pushOutboxRepo.markFailed(push.id, push.attempts, "No valid push token");
+      summary.failed++;
+      continue;
+    }
+    batch.push({ id: push.id, userId: push.user_id, token, attempts: push.attempts + 1 });
+    messages.push({
+      to: token,
+      sound: "default",
+      title: push.title,
+      body: push.body,
+      data: (push.data as Record<string, unknown> | null) ?? undefined,
+    });
+  }
+  if (messages.length === 0) return summary;
+
+  const tickets = await sendPushMessages(messages);
+  for (const [i, push] of batch.entries()) {
+    const ticket = tickets[i] ?? null;
+    if (ticket?.status === "ok") {
+      await pushOutboxRepo.markSent(push.id, push.token, ticket.id, now, push.attempts);
+      summary.sent++;
+      continue;
+    }
+
+    const code = ticket ? errorCode(ticket) : undefined;
+    const error = ticket ? describeError(ticket) : "Expo request failed";
+    if (code === "DeviceNotRegistered") await userRepo.clearPushToken(push.userId, push.token);
+    if (code && PERMANENT_ERRORS.has(code)) {
+      await pushOutboxRepo.markFailed(push.id, push.attempts, error);
+      summary.failed++;
+    } else {
+      summary[await retryOrFail(push.id, push.attempts, error, now)]++;
+    }
+  }
+  return summary;
+}
+
+export interface PushReceiptSummary {
+  delivered: number;
+  retried: number;
+  failed: number;
+}
+
+// Checks Expo's receipts for pushes sent at least 15 minutes ago. Delivered pushes are
+// marked DELIVERED; DeviceNotRegistered clears the token; rate limiting is retried.
+// Pushes whose receipt is not ready yet are checked again on the next run.
+export async function pollPushReceipts(now: Date = new Date()): Promise<PushReceiptSummary> {
+  const summary: PushReceiptSummary = { delivered: 0, retried: 0, failed: 0 };
+  const sent = await pushOutboxRepo.getPushesAwaitingReceipt(
+    new Date(now.getTime() - RECEIPT_TTL_MS),
+    new Date(now.getTime() - RECEIPT_DELAY_MS),
+    RECEIPT_BATCH_SIZE,
+  );
+  const withTicket = sent.filter((p) => p.ticket_id);
+  if (withTicket.length === 0) return summary;
+
+  const receipts = await getPushReceipts(withTicket.map((p) => p.ticket_id!));
+  const delivered: string[] = [];
+  for (const push of withTicket) {
+    const receipt = receipts[push.ticket_id!];
+    if (!receipt) continue;
+    if (receipt.status === "ok") {
+      delivered.push(push.id);
+      continue;
+    }
+
+    const code = errorCode(receipt);
+    if (code === "DeviceNotRegistered" && push.push_token) {
+      await userRepo.clearPushToken(push.user_id, push.push_token);
+    }
+    if (code === "MessageRateExceeded") {
+      summary[await retryOrFail(push.id, push.attempts, describeError(receipt), now)]++;
+    } else {
+      await pushOutboxRepo.markFailed(push.id, push.attempts, describeError(receipt));
+      summary.failed++;
+    }
+  }
+  await pushOutboxRepo.markDelivered(delivered);
+  summary.delivered = delivered.length;
+  return summary;
+}
+
+// Deletes sent, delivered and failed pushes older than PUSH_OUTBOX_RETENTION_DAYS (default 14).
+export async function prunePushOutbox(now: Date = new Date()): Promise<number> {
+  const days = positiveIntFromEnv("PUSH_OUTBOX_RETENTION_DAYS", 14);
+  return pushOutboxRepo.deleteFinishedBefore(new Date(now.getTime() - days * 24 * 60 * MINUTE_MS));
+}
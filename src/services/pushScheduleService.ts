@@ -0,0 +1,70 @@
+import { prisma } from "../db/prisma";
+import * as taskRepo from "../repositories/taskRepository";
+import * as orgRepo from "../repositories/organizationRepository";
+import * as calendarService from "./calendarService";
+import { notifyUser } from "./inboxService";
+import { NotificationType, ScheduledSendKind } from "../generated/prisma/client";
+import { APP_TIMEZONE, appDateKey, appTimeKey, minutesBetweenTimeKeys } from "../utils/dateUtils";
+
+// A scheduled send missed by some ticks still goes out, but not hours late, e.g. the
+// morning briefing in the evening after an outage or for an organization created that day.
+export const SCHEDULED_SEND_WINDOW_MINUTES = 2 * 60;
+
+// Whether a send scheduled at `scheduled` (HH:mm) is due at local time `time`.
+export function isScheduledSendDue(time: string, scheduled: string): boolean {
+  const late = minutesBetweenTimeKeys(scheduled, time);
+  return late >= 0 && late < SCHEDULED_SEND_WINDOW_MINUTES;
+}
+
+async function sendMorningBriefings(orgId: string, now: Date, timeZone: string) {
+  const groups = await taskRepo.getTodayTasksPerUser(now, orgId, timeZone);
+  for (const { user_id, push_token, tasks } of groups) {
+    await notifyUser(prisma, { user_id, push_token }, {
+      type: NotificationType.DAILY_BRIEFING,
+      params: { count: tasks.length },
+      data: { screen: "tasks" },
+    }, now);
+  }
+}
+
+async function sendNoActivityReminders(orgId: string, now: Date, timeZone: string) {
+  const users = await taskRepo.getUsersWithNoActivityToday(now, orgId, timeZone);
+  for (const recipient of users) {
+    await notifyUser(prisma, recipient, {
+      type: NotificationType.NO_ACTIVITY_REMINDER,
+      data: { screen: "tasks" },
+    }, now);
+  }
+}
+
+// Sends the morning briefing and no-activity reminder to every organization whose
+// configured push time has passed in its own timezone at `now`, within
+// SCHEDULED_SEND_WINDOW_MINUTES, and which has not had that push yet today, so a missed
+// tick is caught up and a repeated hour (DST fall-back) does not send twice. A closed day
+// counts as sent. One failing organization does not stop the rest.
+export async function sendScheduledPushes(now: Date): Promise<void> {
+  const schedules = await orgRepo.getPushSchedules();
+  for (const schedule of schedules) {
+    const timeZone = schedule.timezone ?? APP_TIMEZONE;
+    const time = appTimeKey(now, timeZone);
+    const morningDue = isScheduledSendDue(time, schedule.morning_briefing_time);
+    const eveningDue = isScheduledSendDue(time, schedule.evening_reminder_time);
+    if (!morningDue && !eveningDue) continue;
+
+    try {
+      const dateKey = appDateKey(now, timeZone);
+      const today = new Date(dateKey);
+      const morning = morningDue
+        && await orgRepo.claimScheduledSend(schedule.org_id, ScheduledSendKind.MORNING_BRIEFING, today);
+      const evening = eveningDue
+        && await orgRepo.claimScheduledSend(schedule.org_id, ScheduledSendKind.EVENING_REMINDER, today);
+      if (!morning && !evening) continue;
+
+      if (await calendarService.isOrganizationClosed(schedule.org_id, schedule.working_days, dateKey)) continue;
+      if (morning) await sendMorningBriefings(schedule.org_id, now, timeZone);
+      if (evening) await sendNoActivityReminders(schedule.org_id, now, timeZone);
+    } catch (err) {
+      console.error(`Scheduled push error for organization ${schedule.org_id}:`, err);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import * as taskEventRepo from "../repositories/taskEventRepository";
+import type { StreamEvent } from "../repositories/taskEventRepository";
+import type { Prisma } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type { StreamFilter, StreamMessage, TaskStreamEvent } from "../types/realtime";
+import { canAccessTask } from "../helper/helpers";
+import { positiveIntFromEnv } from "../utils/envUtils";
+import { visibleTaskFilter } from "../repositories/taskRepository";
+import { can, projectVisibilityFor } from "./policyService";
+
+// Real-time task events. Each replica polls task_events while it has subscribers and
+// hands new rows to the subscribers allowed to see them, so only committed events are
+// pushed and events written by any replica reach every client.
+//
+// A row becomes visible when its transaction commits, which can be after rows with a
+// later created_at. Every poll therefore re-reads the last GRACE_MS and skips events it
+// has already dispatched.
+
+const GRACE_MS = 10 * 1000;
+// Events read per query; a poll pages through all new events in batches of this size.
+const POLL_BATCH_SIZE = 500;
+// A reconnect replays at most this many missed events; further behind, the client is told to refetch.
+export const MAX_REPLAY_EVENTS = 500;
+
+type Listener = (message: StreamMessage) => void;
+
+interface Subscriber {
+  ctx: RequestContext;
+  filter: StreamFilter;
+  listener: Listener;
+}
+
+const subscribers = new Set<Subscriber>();
+// Dispatched event ids with their created_at, kept for GRACE_MS past the newest event.
+const dispatched = new Map<string, number>();
+let highWater = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+// Same rule as canAccessTask, within the caller's effective organization.
+function canSee(ctx: RequestContext, filter: StreamFilter, event: StreamEvent): boolean {
+  if (ctx.effectiveOrgId && event.task.project.organization_id !== ctx.effectiveOrgId) return false;
+  if (filter.task_id && event.task_id !== filter.task_id) return false;
+  if (filter.project_id && event.task.project_id !== filter.project_id) return false;
+  return canAccessTask(event.task, ctx);
+}
+
+function visibleTasksWhere(ctx: RequestContext, filter: StreamFilter): Prisma.TaskWhereInput {
+  return {
+    ...(ctx.effectiveOrgId ? { project: { organization_id: ctx.effectiveOrgId } } : {}),
+    ...(filter.task_id ? { task_id: filter.task_id } : {}),
+    ...(filter.project_id ? { project_id: filter.project_id } : {}),
+    ...(can(ctx, "task.view.any")
+      ? visibleTaskFilter(projectVisibilityFor(ctx))
+      : { OR: [{ created_by: ctx.actorUserId }, { assignments: { some: { user_id: ctx.actorUserId } } }] }),
+  };
+}
+
+export function toStreamEvent(event: StreamEvent): TaskStreamEvent {
+  return {
+    event_id: event.event_id,
+    type: event.type,
+    task_id: event.task_id,
+    project_id: event.task.project_id,
+    actor_id: event.actor_id,
+    message: event.message,
+    before: event.before_json ?? null,
+    after: event.after_json ?? null,
+    created_at: event.created_at.toISOString(),
+  };
+}
+
+function dispatch(event: StreamEvent) {
+  for (const subscriber of subscribers) {
+    if (!canSee(subscriber.ctx, subscriber.filter, event)) continue;
+    try {
+      subscriber.listener({ kind: "task_event", event: toStreamEvent(event) });
+    } catch (err) {
+      console.error("Real-time listener error:", err);
+    }
+  }
+}
+
+// Reads events from GRACE_MS before the newest dispatched one and dispatches those not
+// seen yet, a page at a time so a window holding more than a batch is still read to its
+// end. Exported for tests; the timer calls it while there are subscribers.
+export async function pollOnce(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    const since = new Date(highWater - GRACE_MS);
+    let page: StreamEvent[] = [];
+    do {
+      const last = page.at(-1) ?? null;
+      page = await taskEventRepo.getEventsCreatedSince(since, POLL_BATCH_SIZE, last);
+      for (const event of page) {
+        if (dispatched.has(event.event_id)) continue;
+        const createdAt = event.created_at.getTime();
+        dispatched.set(event.event_id, createdAt);
+        highWater = Math.max(highWater, createdAt);
+        dispatch(event);
+      }
+    } while (page.length === POLL_BATCH_SIZE);
+    for (const [id, createdAt] of dispatched) {
+      if (createdAt < highWater - GRACE_MS) dispatched.delete(id);
+    }
+  } catch (err) {
+    console.error("Real-time poll error:", err);
+  } finally {
+    polling = false;
+  }
+}
+
+function start() {
+  // Only events from now on; older ones are what Last-Event-ID replay is for.
+  highWater = Math.max(highWater, Date.now());
+  const interval = positiveIntFromEnv("REALTIME_POLL_INTERVAL_MS", 2000);
+  timer = setInterval(() => void pollOnce(), interval);
+}
+
+function stop() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+// Registers a listener for events the caller can see. Returns the function that removes it.
+export function subscribe(ctx: RequestContext, filter: StreamFilter, listener: Listener): () => void {
+  const subscriber: Subscriber = { ctx, filter, listener };
+  subscribers.add(subscriber);
+  if (!timer) start();
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0) stop();
+  };
+}
+
+// Subscribes the caller and, when lastEventId is given, first replays the events they
+// missed since it. Live events arriving during the replay are held back and sent after
+// it, without duplicates. Sends a reset instead of the replay when lastEventId is unknown
+// or more than MAX_REPLAY_EVENTS behind.
+export async function openStream(
+  ctx: RequestContext,
+  filter: StreamFilter,
+  lastEventId: string | null,
+  listener: Listener,
+): Promise<() => void> {
+  const held: StreamMessage[] = [];
+  let holding = !!lastEventId;
+  const unsubscribe = subscribe(ctx, filter, (message) => {
+    if (holding) held.push(message);
+    else listener(message);
+  });
+  if (!lastEventId) return unsubscribe;
+
+  const sent = new Set<string>();
+  try {
+    const position = await taskEventRepo.getEventPosition(lastEventId);
+    const missed = position
+      ? await taskEventRepo.getEventsAfter(position, visibleTasksWhere(ctx, filter), MAX_REPLAY_EVENTS + 1)
+      : null;
+    if (!missed || missed.length > MAX_REPLAY_EVENTS) {
+      listener({ kind: "reset" });
+    } else {
+      for (const event of missed) {
+        sent.add(event.event_id);
+        listener({ kind: "task_event", event: toStreamEvent(event) });
+      }
+    }
+  } catch (err) {
+    unsubscribe();
+    throw err;
+  }
+
+  holding = false;
+  for (const message of held) {
+    if (message.kind === "task_event" && sent.has(message.event.event_id)) continue;
+    listener(message);
+  }
+  return unsubscribe;
+}
@@ -3,27 +3,49 @@ import {
   addWeeks,
   addMonths,
   addYears,
+  differenceInCalendarDays,
   differenceInWeeks,
   isAfter,
+  isBefore,
 } from "date-fns";
 import { appDateKey } from "../utils/dateUtils";
+import { positiveIntFromEnv } from "../utils/envUtils";
+import { buildTemplateRRule } from "../utils/rruleUtils";
 import { prisma } from "../db/prisma";
 import * as templateRepository from "../repositories/templateRepository";
+import * as generationRepository from "../repositories/recurringGenerationRepository";
+import * as taskEventRepository from "../repositories/taskEventRepository";
+import * as calendarService from "./calendarService";
 import { allocateTaskNumbersForProject } from "../repositories/taskRepository";
-import { TemplateNotFoundError, TemplateForbiddenError } from "../errors/domainErrors";
+import { visibleProjectFilter } from "../repositories/projectRepository";
 import {
+  DuplicateTemplateExceptionError,
+  TemplateExceptionNotFoundError,
+  TemplateForbiddenError,
+  TemplateNotFoundError,
+  TemplateOccurrenceStartedError,
+  ValidationError,
+} from "../errors/domainErrors";
+import {
+  ClosedDayPolicy,
   RecurrenceFrequency,
+  RecurringExceptionType,
+  RecurringGenerationStatus,
   TaskEventType,
   TaskStatus,
-  UserRole,
   type Prisma,
   type RecurringTaskTemplate,
 } from "../generated/prisma/client";
 import type { RequestContext } from "../types/requestContext";
+import { eventActor } from "../helper/helpers";
 import type {
+  CreateTemplateExceptionInput,
   CreateTemplateInput,
+  RecurringGenerationSummary,
+  RecurringHorizon,
   UpdateTemplateInput,
 } from "../types/template";
+import { can, projectVisibilityFor } from "./policyService";
 
 // Type for template with relations
 type TemplateWithRelations = Prisma.RecurringTaskTemplateGetPayload<{
@@ -38,6 +60,43 @@ type TemplateWithRelations = Prisma.RecurringTaskTemplateGetPayload<{
 
 type TemplateResponse = TemplateWithRelations;
 
+// Optional bounds for occurrence calculation. Dates before notBefore are never
+// generated; every occurrence up to and including until is generated even past count.
+type OccurrenceWindow = {
+  notBefore?: Date;
+  until?: Date;
+};
+
+// Today in the template's organization, as a @db.Date value (UTC midnight).
+async function templateToday(
+  templateId: string,
+  client: Prisma.TransactionClient | typeof prisma = prisma,
+): Promise<Date> {
+  return new Date(appDateKey(new Date(), await templateRepository.getTemplateTimeZone(templateId, client)));
+}
+
+// Templates in the organization whose project the user may see (any project when null).
+function templateScope(orgId: string | null, visibleToUserId: string | null): Prisma.RecurringTaskTemplateWhereInput {
+  if (!orgId && !visibleToUserId) return {};
+  return {
+    project: {
+      ...(orgId ? { organization_id: orgId } : {}),
+      ...visibleProjectFilter(visibleToUserId),
+    },
+  };
+}
+
+/**
+ * Horizon used by the nightly generation job.
+ * Configured with RECURRING_HORIZON_DAYS and RECURRING_HORIZON_MIN_OCCURRENCES.
+ */
+export function getRecurringHorizon(): RecurringHorizon {
+  return {
+    days: positiveIntFromEnv("RECURRING_HORIZON_DAYS", 30),
+    minOccurrences: positiveIntFromEnv("RECURRING_HORIZON_MIN_OCCURRENCES", 6),
+  };
+}
+
 export class RecurringTaskService {
   /**
    * Create a new recurring template and generate initial instances
@@ -48,8 +107,7 @@ export class RecurringTaskService {
     data: CreateTemplateInput,
     effectiveOrgId: string | null = null,
   ): Promise<RecurringTaskTemplate> {
-    const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-    if (!isAdmin) throw new TemplateForbiddenError();
+    if (!can(ctx, "template.manage")) throw new TemplateForbiddenError();
     return await prisma.$transaction(async (tx) => {
       // 1. Create template + validate project org + validate assignees (all in repo)
       const template = await templateRepository.createTemplateWithAssignees(
@@ -71,6 +129,7 @@ export class RecurringTaskService {
           data: {
             task_id: firstTask.task_id,
             actor_id: template.created_by,
+            impersonator_id: ctx.impersonatorUserId ?? null,
             type: TaskEventType.RECURRING_TEMPLATE_CREATED,
             message: `Created recurring template: ${template.title}`,
           },
@@ -87,12 +146,10 @@ export class RecurringTaskService {
   async getTemplateById(
     templateId: string,
     orgId: string | null = null,
+    visibleToUserId: string | null = null,
   ): Promise<TemplateResponse | null> {
     const template = await prisma.recurringTaskTemplate.findFirst({
-      where: {
-        id: templateId,
-        ...(orgId ? { project: { organization_id: orgId } } : {}),
-      },
+      where: { id: templateId, ...templateScope(orgId, visibleToUserId) },
       include: {
         goal: true,
         creator: true,
@@ -109,9 +166,10 @@ export class RecurringTaskService {
    */
   async getAllTemplates(
     orgId: string | null = null,
+    visibleToUserId: string | null = null,
   ): Promise<TemplateResponse[]> {
     const templates = await prisma.recurringTaskTemplate.findMany({
-      where: orgId ? { project: { organization_id: orgId } } : undefined,
+      where: templateScope(orgId, visibleToUserId),
       include: {
         goal: true,
         creator: true,
@@ -128,12 +186,10 @@ export class RecurringTaskService {
    */
   async getActiveTemplates(
     orgId: string | null = null,
+    visibleToUserId: string | null = null,
   ): Promise<TemplateResponse[]> {
     const templates = await prisma.recurringTaskTemplate.findMany({
-      where: {
-        is_active: true,
-        ...(orgId ? { project: { organization_id: orgId } } : {}),
-      },
+      where: { is_active: true, ...templateScope(orgId, visibleToUserId) },
       include: {
         goal: true,
         creator: true,
@@ -149,11 +205,10 @@ export class RecurringTaskService {
    * Delete template and all its instances
    */
   async deleteTemplate(ctx: RequestContext, templateId: string, effectiveOrgId: string | null = null): Promise<RecurringTaskTemplate> {
-    const template = await this.getTemplateById(templateId, effectiveOrgId);
+    const template = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
     if (!template) throw new TemplateNotFoundError(templateId);
 
-    const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-    if (!isAdmin && template.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+    if (!can(ctx, "template.manage") && template.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
 
     // Cascade will handle deleting instances and assignees
     return prisma.recurringTaskTemplate.delete({
@@ -164,14 +219,159 @@ export class RecurringTaskService {
   /**
    * Generate task instances for the next N periods
    * Public method - creates its own transaction
+   * Returns the number of instances created
    */
   async generateInstances(
     templateId: string,
     count: number = 12,
-  ): Promise<void> {
-    await prisma.$transaction(async (tx) => {
-      await this.generateInstancesInTransaction(tx, templateId, count);
+    window: OccurrenceWindow = {},
+  ): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      return this.generateInstancesInTransaction(tx, templateId, count, window);
+    });
+  }
+
+  /**
+   * Top a template up so it has every occurrence within the horizon and at least
+   * horizon.minOccurrences instances from today onwards. Past occurrences are never
+   * backfilled, so deleted instances stay deleted.
+   * Returns the number of instances created
+   */
+  async extendToHorizon(
+    templateId: string,
+    horizon: RecurringHorizon,
+    today?: Date,
+  ): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      const from = today ?? (await templateToday(templateId, tx));
+      const futureInstances = await tx.task.count({
+        where: {
+          recurring_template_id: templateId,
+          occurrence_date: { gte: from },
+        },
+      });
+
+      return this.generateInstancesInTransaction(
+        tx,
+        templateId,
+        Math.max(0, horizon.minOccurrences - futureInstances),
+        { notBefore: from, until: addDays(from, horizon.days) },
+      );
+    });
+  }
+
+  /**
+   * Extend every active template to the horizon and record the run.
+   * A failing template is recorded and skipped; it never stops the rest of the run.
+   * Called by the nightly cron job
+   */
+  async extendAllTemplatesToHorizon(
+    horizon: RecurringHorizon = getRecurringHorizon(),
+  ): Promise<RecurringGenerationSummary> {
+    const run = await generationRepository.createRun(horizon);
+    const activeTemplates = await templateRepository.getActiveTemplates();
+    const totals = {
+      templates_checked: activeTemplates.length,
+      templates_extended: 0,
+      templates_failed: 0,
+      instances_created: 0,
+    };
+
+    // The run is finished with the totals so far even when recording a result fails.
+    try {
+      for (const template of activeTemplates) {
+        try {
+          const created = await this.extendToHorizon(template.id, horizon);
+          if (created > 0) {
+            totals.templates_extended++;
+            totals.instances_created += created;
+            await generationRepository.recordResult(
+              run.id,
+              template.id,
+              RecurringGenerationStatus.EXTENDED,
+              created,
+            );
+          }
+        } catch (err) {
+          totals.templates_failed++;
+          console.error(`Failed to extend recurring template ${template.id}:`, err);
+          await generationRepository.recordResult(
+            run.id,
+            template.id,
+            RecurringGenerationStatus.FAILED,
+            0,
+            err instanceof Error ? err.message : String(err),
+          );
+        }
+      }
+    } finally {
+      await generationRepository.finishRun(run.id, totals);
+    }
+    return { run_id: run.id, ...totals };
+  }
+
+  /**
+   * Recent horizon runs with the templates they extended or failed on
+   */
+  async getGenerationRuns(limit: number = 30) {
+    return generationRepository.getRecentRuns(limit);
+  }
+
+  /**
+   * Decide the date each occurrence is scheduled on: its moved_to date when moved,
+   * otherwise the occurrence date adjusted by the template's closed_day_policy.
+   * Occurrences the policy skips, and shifted ones landing on a date another instance
+   * already has, are left out. Instances that already exist are not revisited when the
+   * calendar changes later.
+   */
+  private async scheduleOccurrences(
+    tx: Prisma.TransactionClient,
+    template: RecurringTaskTemplate,
+    occurrences: Date[],
+    movedDates: Map<number, Date>,
+    existingInstances: { start_date: Date | null }[],
+  ): Promise<Map<Date, Date>> {
+    const scheduled = new Map<Date, Date>();
+    const policy = template.closed_day_policy ?? ClosedDayPolicy.IGNORE;
+
+    if (policy === ClosedDayPolicy.IGNORE || occurrences.length === 0) {
+      for (const occurrence of occurrences) {
+        scheduled.set(occurrence, movedDates.get(occurrence.getTime()) ?? occurrence);
+      }
+      return scheduled;
+    }
+
+    const project = await tx.project.findUnique({
+      where: { project_id: template.project_id },
+      select: { organization_id: true },
     });
+    const calendar = await calendarService.loadCalendar(
+      tx,
+      project!.organization_id,
+      addDays(occurrences[0]!, -calendarService.MAX_SHIFT_DAYS),
+      addDays(occurrences[occurrences.length - 1]!, calendarService.MAX_SHIFT_DAYS),
+    );
+
+    const takenDates = new Set(
+      existingInstances
+        .map((t) => t.start_date?.getTime())
+        .filter((t): t is number => t !== undefined && t !== null),
+    );
+    for (const moved of movedDates.values()) takenDates.add(moved.getTime());
+
+    for (const occurrence of occurrences) {
+      const moved = movedDates.get(occurrence.getTime());
+      if (moved) {
+        scheduled.set(occurrence, moved);
+        continue;
+      }
+      const date = calendarService.applyClosedDayPolicy(calendar, occurrence, policy);
+      if (!date) continue;
+      if (date.getTime() !== occurrence.getTime() && takenDates.has(date.getTime())) continue;
+      takenDates.add(date.getTime());
+      scheduled.set(occurrence, date);
+    }
+    return scheduled;
   }
 
   /**
@@ -182,20 +382,31 @@ export class RecurringTaskService {
     tx: Prisma.TransactionClient,
     templateId: string,
     count: number = 12,
-  ): Promise<void> {
+    window: OccurrenceWindow = {},
+  ): Promise<number> {
     const template = await tx.recurringTaskTemplate.findUnique({
       where: { id: templateId },
-      include: { goal: true },
+      include: { goal: true, exceptions: true },
     });
 
     if (!template || !template.is_active) {
-      return;
+      return 0;
+    }
+
+    // Skipped occurrences are treated like existing ones so they are never generated;
+    // moved occurrences are generated on their new date.
+    const skippedDates = new Set<number>();
+    const movedDates = new Map<number, Date>();
+    for (const exception of template.exceptions) {
+      const key = exception.occurrence_date.getTime();
+      if (exception.type === RecurringExceptionType.SKIP) skippedDates.add(key);
+      else if (exception.moved_to) movedDates.set(key, exception.moved_to);
     }
 
     // Get existing occurrence dates (only what we need)
     const existingInstances = await tx.task.findMany({
       where: { recurring_template_id: templateId },
-      select: { occurrence_date: true },
+      select: { occurrence_date: true, start_date: true },
     });
 
     // Create efficient Set for O(1) duplicate checking
@@ -204,16 +415,27 @@ export class RecurringTaskService {
         .map((t) => t.occurrence_date?.getTime())
         .filter((t): t is number => t !== undefined && t !== null),
     );
+    for (const skipped of skippedDates) existingDates.add(skipped);
 
     // Calculate next occurrences (starting from start_date, skipping existing)
-    const occurrences = this.calculateOccurrences(
+    const calculated = this.calculateOccurrences(
       template,
       count,
       existingDates,
+      window,
+    );
+
+    const scheduled = await this.scheduleOccurrences(
+      tx,
+      template,
+      calculated,
+      movedDates,
+      existingInstances,
     );
+    const occurrences = [...scheduled.keys()];
 
     if (occurrences.length === 0) {
-      return;
+      return 0;
     }
 
     // Allocate a contiguous block of numbers for all occurrences in one write
@@ -225,14 +447,15 @@ export class RecurringTaskService {
 
     // Batch create all instances
     const taskData = occurrences.map((occurrenceDate, i) => {
+      const scheduledDate = scheduled.get(occurrenceDate)!;
       return {
         number: numbers[i]!,
         title: template.title,
         description: template.description || "",
         priority: template.priority,
         status: TaskStatus.PENDING,
-        deadline: occurrenceDate,
-        start_date: occurrenceDate,
+        deadline: scheduledDate,
+        start_date: scheduledDate,
         occurrence_date: occurrenceDate,
         created_by: template.created_by,
         project_id: template.project_id,
@@ -295,34 +518,64 @@ export class RecurringTaskService {
     }));
 
     await tx.taskEvent.createMany({ data: eventData });
+
+    return createdTasks.length;
   }
 
   /**
    * Calculate next occurrence dates based on recurrence rule
+   * Returns at least `count` new dates, plus every new date up to window.until
    */
   private calculateOccurrences(
     template: RecurringTaskTemplate,
     count: number,
     existingDates: Set<number>,
+    window: OccurrenceWindow = {},
   ): Date[] {
     const occurrences: Date[] = [];
     let currentDate = template.start_date; // @db.Date — already UTC midnight
     const endDate = template.end_date ?? null; // @db.Date — already UTC midnight
+    const { notBefore, until } = window;
+
+    const wanted = (date: Date) =>
+      occurrences.length < count || (until !== undefined && !isAfter(date, until));
+    const consider = (date: Date) => {
+      if (notBefore && isBefore(date, notBefore)) return;
+      // Skip if duplicate
+      if (!existingDates.has(date.getTime())) {
+        occurrences.push(date);
+      }
+    };
 
-    // Safety limit to prevent infinite loops
-    const maxIterations = count * 100;
+    // Safety limit to prevent infinite loops. Each step advances at least one day,
+    // so walking from start_date up to `until` needs at most the days in between.
+    const daysToUntil = until
+      ? Math.max(0, differenceInCalendarDays(until, currentDate))
+      : 0;
+    const maxIterations = count * 100 + daysToUntil;
     let iterations = 0;
 
+    // RRULE templates: the rule yields its dates in order, including start_date
+    // when it matches. Returning false from the callback stops the expansion.
+    if (template.rrule) {
+      buildTemplateRRule(template.rrule, template.start_date).all((date) => {
+        if (++iterations > maxIterations) return false;
+        if (endDate && isAfter(date, endDate)) return false;
+        if (!wanted(date)) return false;
+        consider(date);
+        return true;
+      });
+      return occurrences;
+    }
+
     // Check if start_date itself matches the recurrence pattern
-    if (this.dateMatchesPattern(template, currentDate)) {
+    if (this.dateMatchesPattern(template, currentDate) && wanted(currentDate)) {
       if (!endDate || !isAfter(currentDate, endDate)) {
-        if (!existingDates.has(currentDate.getTime())) {
-          occurrences.push(currentDate);
-        }
+        consider(currentDate);
       }
     }
 
-    while (occurrences.length < count && iterations < maxIterations) {
+    while (iterations < maxIterations) {
       iterations++;
 
       // Advance to next occurrence
@@ -333,10 +586,11 @@ export class RecurringTaskService {
         break;
       }
 
-      // Skip if duplicate
-      if (!existingDates.has(currentDate.getTime())) {
-        occurrences.push(currentDate);
+      if (!wanted(currentDate)) {
+        break;
       }
+
+      consider(currentDate);
     }
 
     return occurrences;
@@ -484,11 +738,10 @@ export class RecurringTaskService {
     data: UpdateTemplateInput,
     effectiveOrgId: string | null = null,
   ): Promise<RecurringTaskTemplate> {
-    const existing = await this.getTemplateById(templateId, effectiveOrgId);
+    const existing = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
     if (!existing) throw new TemplateNotFoundError(templateId);
 
-    const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-    if (!isAdmin && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+    if (!can(ctx, "template.manage") && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
     return await prisma.$transaction(async (tx) => {
       // Update template + validate project org + validate assignees (all in repo)
       const template = await templateRepository.updateTemplateWithAssignees(
@@ -504,6 +757,8 @@ export class RecurringTaskService {
         data.interval !== undefined ||
         data.days_of_week !== undefined ||
         data.day_of_month !== undefined ||
+        data.rrule !== undefined ||
+        data.closed_day_policy !== undefined ||
         data.start_date !== undefined ||
         data.end_date !== undefined
       ) {
@@ -520,6 +775,7 @@ export class RecurringTaskService {
           data: {
             task_id: firstTask.task_id,
             actor_id: template.created_by,
+            impersonator_id: ctx.impersonatorUserId ?? null,
             type: TaskEventType.RECURRING_TEMPLATE_UPDATED,
             message: `Updated recurring template: ${template.title}`,
           },
@@ -537,7 +793,7 @@ export class RecurringTaskService {
     tx: Prisma.TransactionClient,
     templateId: string,
   ): Promise<void> {
-    const today = new Date(appDateKey());
+    const today = await templateToday(templateId, tx);
 
     // Delete future PENDING instances that haven't been worked on
     await tx.task.deleteMany({
@@ -556,11 +812,10 @@ export class RecurringTaskService {
    * Deactivate template (stops generating new instances)
    */
   async deactivateTemplate(ctx: RequestContext, templateId: string, effectiveOrgId: string | null = null): Promise<RecurringTaskTemplate> {
-    const existing = await this.getTemplateById(templateId, effectiveOrgId);
+    const existing = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
     if (!existing) throw new TemplateNotFoundError(templateId);
 
-    const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-    if (!isAdmin && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+    if (!can(ctx, "template.manage") && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
     return await prisma.$transaction(async (tx) => {
       const template = await templateRepository.updateTemplate(
         templateId,
@@ -578,6 +833,7 @@ export class RecurringTaskService {
           data: {
             task_id: firstTask.task_id,
             actor_id: template.created_by,
+            impersonator_id: ctx.impersonatorUserId ?? null,
             type: TaskEventType.RECURRING_TEMPLATE_DEACTIVATED,
             message: `Deactivated recurring template: ${template.title}`,
           },
@@ -592,11 +848,10 @@ export class RecurringTaskService {
    * Reactivate template and generate instances
    */
   async reactivateTemplate(ctx: RequestContext, templateId: string, effectiveOrgId: string | null = null): Promise<RecurringTaskTemplate> {
-    const existing = await this.getTemplateById(templateId, effectiveOrgId);
+    const existing = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
     if (!existing) throw new TemplateNotFoundError(templateId);
 
-    const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-    if (!isAdmin && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+    if (!can(ctx, "template.manage") && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
     return await prisma.$transaction(async (tx) => {
       const template = await templateRepository.updateTemplate(
         templateId,
@@ -611,12 +866,162 @@ export class RecurringTaskService {
     });
   }
 
+  /**
+   * Get skip/move exceptions for a template
+   */
+  async getTemplateExceptions(templateId: string, orgId: string | null = null, visibleToUserId: string | null = null) {
+    const template = await this.getTemplateById(templateId, orgId, visibleToUserId);
+    if (!template) throw new TemplateNotFoundError(templateId);
+    return templateRepository.getTemplateExceptions(templateId);
+  }
+
+  async getTemplateEvents(templateId: string, orgId: string | null = null, visibleToUserId: string | null = null) {
+    const template = await this.getTemplateById(templateId, orgId, visibleToUserId);
+    if (!template) throw new TemplateNotFoundError(templateId);
+    return taskEventRepository.getTemplateEvents(templateId);
+  }
+
+  /**
+   * Skip a single occurrence or move it to another date.
+   * The exception is stored on the template so later generation and regeneration
+   * honour it. An already generated, untouched instance is deleted (skip) or
+   * rescheduled (move) in the same transaction, and a task event records the change.
+   */
+  async addTemplateException(
+    ctx: RequestContext,
+    templateId: string,
+    data: CreateTemplateExceptionInput,
+    effectiveOrgId: string | null = null,
+  ) {
+    const existing = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
+    if (!existing) throw new TemplateNotFoundError(templateId);
+
+    if (!can(ctx, "template.manage") && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+
+    const today = await templateToday(templateId);
+    if (isBefore(data.occurrence_date, today)) {
+      throw new ValidationError("occurrence_date must not be in the past");
+    }
+    if (data.type === RecurringExceptionType.MOVE) {
+      if (!data.moved_to) throw new ValidationError("moved_to is required when moving an occurrence");
+      if (isBefore(data.moved_to, today)) throw new ValidationError("moved_to must not be in the past");
+      if (data.moved_to.getTime() === data.occurrence_date.getTime()) {
+        throw new ValidationError("moved_to must differ from occurrence_date");
+      }
+    }
+
+    // Only dates the rule would actually produce can be skipped or moved
+    const matches = this.calculateOccurrences(existing, 0, new Set(), {
+      notBefore: data.occurrence_date,
+      until: data.occurrence_date,
+    });
+    if (matches.length === 0) {
+      throw new ValidationError("occurrence_date is not an occurrence of this template");
+    }
+
+    if (await templateRepository.getTemplateException(templateId, data.occurrence_date)) {
+      throw new DuplicateTemplateExceptionError();
+    }
+
+    const occurrenceKey = data.occurrence_date.toISOString().split("T")[0];
+
+    return prisma.$transaction(async (tx) => {
+      const instance = await tx.task.findFirst({
+        where: { recurring_template_id: templateId, occurrence_date: data.occurrence_date },
+      });
+      if (instance && instance.status !== TaskStatus.PENDING) {
+        throw new TemplateOccurrenceStartedError();
+      }
+
+      const exception = await templateRepository.createTemplateException(
+        tx,
+        templateId,
+        data,
+        ctx.actorUserId,
+      );
+
+      if (data.type === RecurringExceptionType.SKIP) {
+        if (instance) {
+          await tx.task.delete({ where: { task_id: instance.task_id } });
+        }
+
+        // The skipped instance is gone, so the event is about the template
+        await taskEventRepository.createTaskEvent(tx, {
+          template: { connect: { id: templateId } },
+          ...eventActor(ctx),
+          type: TaskEventType.RECURRING_OCCURRENCE_SKIPPED,
+          message: `Skipped occurrence on ${occurrenceKey}`,
+          before_json: { occurrence_date: occurrenceKey },
+        });
+        return exception;
+      }
+
+      const movedTo = data.moved_to!;
+      const movedKey = movedTo.toISOString().split("T")[0];
+      if (instance) {
+        await tx.task.update({
+          where: { task_id: instance.task_id },
+          data: { deadline: movedTo, start_date: movedTo },
+        });
+      }
+
+      await taskEventRepository.createTaskEvent(tx, {
+        template: { connect: { id: templateId } },
+        ...(instance && { task: { connect: { task_id: instance.task_id } } }),
+        ...eventActor(ctx),
+        type: TaskEventType.RECURRING_OCCURRENCE_MOVED,
+        message: `Moved occurrence on ${occurrenceKey} to ${movedKey}`,
+        before_json: { occurrence_date: occurrenceKey },
+        after_json: { occurrence_date: movedKey },
+      });
+
+      return exception;
+    });
+  }
+
+  /**
+   * Remove a skip/move exception. A moved instance that has not been started is put
+   * back on its original date; a skipped occurrence is generated again by the next
+   * top-up.
+   */
+  async removeTemplateException(
+    ctx: RequestContext,
+    templateId: string,
+    exceptionId: string,
+    effectiveOrgId: string | null = null,
+  ): Promise<void> {
+    const existing = await this.getTemplateById(templateId, effectiveOrgId, projectVisibilityFor(ctx));
+    if (!existing) throw new TemplateNotFoundError(templateId);
+
+    if (!can(ctx, "template.manage") && existing.created_by !== ctx.actorUserId) throw new TemplateForbiddenError();
+
+    const exceptions = await templateRepository.getTemplateExceptions(templateId);
+    const exception = exceptions.find((e) => e.id === exceptionId);
+    if (!exception) throw new TemplateExceptionNotFoundError(exceptionId);
+
+    await prisma.$transaction(async (tx) => {
+      await templateRepository.deleteTemplateException(tx, exceptionId);
+
+      if (exception.type === RecurringExceptionType.MOVE) {
+        await tx.task.updateMany({
+          where: {
+            recurring_template_id: templateId,
+            occurrence_date: exception.occurrence_date,
+            status: TaskStatus.PENDING,
+          },
+          data: { deadline: exception.occurrence_date, start_date: exception.occurrence_date },
+        });
+      }
+    });
+  }
+
   /**
    * Get all instances for a template
    */
   async getTemplateInstances(
     templateId: string,
     orgId: string | null = null,
+    visibleToUserId: string | null = null,
   ): Promise<
     (Omit<
       Prisma.TaskGetPayload<{
@@ -630,9 +1035,9 @@ export class RecurringTaskService {
       "goals"
     > & { goal: Prisma.TaskGoalGetPayload<{}> | null })[]
   > {
-    if (orgId) {
+    if (orgId || visibleToUserId) {
       const template = await prisma.recurringTaskTemplate.findFirst({
-        where: { id: templateId, project: { organization_id: orgId } },
+        where: { id: templateId, ...templateScope(orgId, visibleToUserId) },
         select: { id: true },
       });
       if (!template) throw new TemplateNotFoundError(templateId);
@@ -668,7 +1073,7 @@ export class RecurringTaskService {
       return;
     }
 
-    const today = new Date(appDateKey());
+    const today = await templateToday(templateId);
     const futureInstances = await prisma.task.count({
       where: {
         recurring_template_id: templateId,
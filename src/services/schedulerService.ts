@@ -2,105 +2,209 @@ import * as cron from "node-cron";
 import * as taskRepo from "../repositories/taskRepository";
 import * as attachmentRepo from "../repositories/attachmentRepository";
 import * as taskService from "./taskService";
-import { sendPushNotification } from "./notificationService";
+import * as jobService from "./jobService";
+import { sendScheduledPushes } from "./pushScheduleService";
+import { sendScheduledDigests } from "./digestService";
+import * as pushOutboxService from "./pushOutboxService";
+import * as emailOutboxService from "./emailOutboxService";
+import * as webhookService from "./webhookService";
+import * as authService from "./authService";
+import * as invitationService from "./invitationService";
+import * as twoFactorService from "./twoFactorService";
+import * as loginSecurityService from "./loginSecurityService";
+import * as ssoService from "./ssoService";
 import { deleteFile } from "./storageService";
+import { RecurringTaskService } from "./recurringTaskService";
+import * as calendarService from "./calendarService";
 import { APP_TIMEZONE } from "../utils/dateUtils";
 
 const SYSTEM_USER_ID = "00000000-0000-0000-0000-000000000000";
+const MINUTE_MS = 60 * 1000;
 
 let initialized = false;
 
+// Every replica schedules every job; jobService.runExclusive makes sure only one of
+// them runs it per tick and records the run. Errors from the job itself are recorded
+// there; this only catches failures to take the lease (e.g. the database is down).
+function scheduleExclusive(
+  jobName: string,
+  expression: string,
+  leaseMs: number,
+  task: () => Promise<void>,
+  options?: { timezone: string },
+): void {
+  cron.schedule(
+    expression,
+    async () => {
+      try {
+        await jobService.runExclusive(jobName, leaseMs, task);
+      } catch (err) {
+        console.error(`Scheduled job ${jobName} could not run:`, err);
+      }
+    },
+    options,
+  );
+}
+
 export function initScheduler(): void {
   if (initialized) {
     console.warn("Scheduler already initialized, skipping.");
     return;
   }
   initialized = true;
-  // Morning tasks — 06:25 APP_TIMEZONE local time, Mon–Fri
-  cron.schedule(
-    "25 6 * * 1-5",
+  // Morning briefing and no-activity reminder — checked every minute against each
+  // organization's own timezone and push times, skipping its closed days
+  scheduleExclusive("scheduled-pushes", "* * * * *", 5 * MINUTE_MS, async () => {
+    await sendScheduledPushes(new Date());
+  });
+
+  // Daily and weekly admin digests — checked every minute against each organization's
+  // own timezone, digest time and weekly digest day
+  scheduleExclusive("admin-digests", "* * * * *", 5 * MINUTE_MS, async () => {
+    await sendScheduledDigests(new Date());
+  });
+
+  // Push outbox — due pushes (including those held back by quiet hours) are sent every
+  // minute, and Expo delivery receipts are checked every 5 minutes
+  scheduleExclusive("push-outbox", "* * * * *", 5 * MINUTE_MS, async () => {
+    const { sent, retried, failed } = await pushOutboxService.sendPendingPushes(new Date());
+    if (sent > 0 || retried > 0 || failed > 0) {
+      console.log(`Push outbox: ${sent} sent, ${retried} to retry, ${failed} failed`);
+    }
+  });
+
+  scheduleExclusive("push-receipts", "*/5 * * * *", 5 * MINUTE_MS, async () => {
+    const { delivered, retried, failed } = await pushOutboxService.pollPushReceipts(new Date());
+    if (delivered > 0 || retried > 0 || failed > 0) {
+      console.log(`Push receipts: ${delivered} delivered, ${retried} to retry, ${failed} failed`);
+    }
+  });
+
+  // Email outbox — every minute
+  scheduleExclusive("email-outbox", "* * * * *", 5 * MINUTE_MS, async () => {
+    const { sent, retried, failed } = await emailOutboxService.sendPendingEmails(new Date());
+    if (sent > 0 || retried > 0 || failed > 0) {
+      console.log(`Email outbox: ${sent} sent, ${retried} to retry, ${failed} failed`);
+    }
+  });
+
+  // Webhook deliveries — every minute
+  scheduleExclusive("webhook-deliveries", "* * * * *", 5 * MINUTE_MS, async () => {
+    const { succeeded, retried, failed, disabled } = await webhookService.sendPendingWebhooks(new Date());
+    if (succeeded > 0 || retried > 0 || failed > 0) {
+      console.log(`Webhooks: ${succeeded} delivered, ${retried} to retry, ${failed} failed, ${disabled} endpoint(s) disabled`);
+    }
+  });
+
+  // Invitation expiry — every 15 minutes; accepting already refuses expired links, this
+  // makes them show as EXPIRED in the admin's list
+  scheduleExclusive("invitation-expiry", "*/15 * * * *", 10 * MINUTE_MS, async () => {
+    const expired = await invitationService.expireInvitations(new Date());
+    if (expired > 0) {
+      console.log(`Expired ${expired} invitation(s)`);
+    }
+  });
+
+  // Pending attachment cleanup — every 30 minutes
+  scheduleExclusive("pending-attachment-cleanup", "*/30 * * * *", 25 * MINUTE_MS, async () => {
+    const cutoff = new Date(Date.now() - 30 * 60 * 1000);
+    const stale = await attachmentRepo.getPendingOlderThan(cutoff);
+    await Promise.allSettled(
+      stale.map(async (a) => {
+        await deleteFile(a.gcs_path);
+        await attachmentRepo.deleteAttachment(a.attachment_id);
+      }),
+    );
+    if (stale.length > 0) {
+      console.log(`Cleaned up ${stale.length} pending attachment(s)`);
+    }
+  });
+
+  // Recurring instance horizon — daily at 01:30 APP_TIMEZONE, before auto-archive.
+  // Each run and every template it extended or failed on is recorded for review.
+  // Public holidays are seeded first so closed-day policies see next year's holidays.
+  scheduleExclusive(
+    "recurring-horizon",
+    "30 1 * * *",
+    60 * MINUTE_MS,
     async () => {
       try {
-        const groups = await taskRepo.getTodayTasksPerUser(new Date());
-        for (const { user_id, push_token, tasks } of groups) {
-          const count = tasks.length;
-          void sendPushNotification(
-            push_token,
-            `${count} opgave${count > 1 ? "r" : ""} i dag`,
-            "Tryk for at se dagens program",
-            { screen: "tasks" },
-            user_id,
-          );
-        }
+        const holidays = await calendarService.ensureHolidaysSeeded();
+        if (holidays > 0) console.log(`Seeded ${holidays} public holiday(s)`);
       } catch (err) {
-        console.error("Morning task notification error:", err);
+        console.error("Public holiday seeding error:", err);
+      }
+      const summary = await new RecurringTaskService().extendAllTemplatesToHorizon();
+      if (summary.instances_created > 0 || summary.templates_failed > 0) {
+        console.log(
+          `Recurring horizon: ${summary.instances_created} instance(s) across ${summary.templates_extended} template(s), ${summary.templates_failed} failed`,
+        );
       }
     },
     { timezone: APP_TIMEZONE },
   );
 
-  // Pending attachment cleanup — every 30 minutes
-  cron.schedule("*/30 * * * *", async () => {
-    try {
-      const cutoff = new Date(Date.now() - 30 * 60 * 1000);
-      const stale = await attachmentRepo.getPendingOlderThan(cutoff);
-      await Promise.allSettled(
-        stale.map(async (a) => {
-          await deleteFile(a.gcs_path);
-          await attachmentRepo.deleteAttachment(a.attachment_id);
-        }),
-      );
-      if (stale.length > 0) {
-        console.log(`Cleaned up ${stale.length} pending attachment(s)`);
-      }
-    } catch (err) {
-      console.error("Pending attachment cleanup error:", err);
-    }
-  });
-
   // Auto-archive DONE tasks older than 7 days — daily at 02:00 APP_TIMEZONE.
   // archiveTask handles event creation and the update atomically in one transaction.
-  cron.schedule(
+  scheduleExclusive(
+    "auto-archive",
     "0 2 * * *",
+    60 * MINUTE_MS,
     async () => {
-      try {
-        const staleTasks = await taskRepo.getStaleDoneTasks(7);
-        let archivedCount = 0;
-        for (const task of staleTasks) {
-          try {
-            const updated = await taskService.archiveTask(task.task_id, SYSTEM_USER_ID);
-            if (updated) archivedCount++;
-          } catch (err) {
-            console.error(`Failed to archive task ${task.task_id}:`, err);
-          }
+      const staleTasks = await taskRepo.getStaleDoneTasks(7);
+      let archivedCount = 0;
+      for (const task of staleTasks) {
+        try {
+          const updated = await taskService.archiveTask(task.task_id, SYSTEM_USER_ID);
+          if (updated) archivedCount++;
+        } catch (err) {
+          console.error(`Failed to archive task ${task.task_id}:`, err);
         }
-        if (archivedCount > 0) {
-          console.log(`Auto-archived ${archivedCount} task(s)`);
-        }
-      } catch (err) {
-        console.error("Auto-archive task error:", err);
+      }
+      if (archivedCount > 0) {
+        console.log(`Auto-archived ${archivedCount} task(s)`);
       }
     },
     { timezone: APP_TIMEZONE },
   );
 
-  // No activity reminder — 20:00 APP_TIMEZONE local time, Mon–Fri
-  cron.schedule(
-    "0 20 * * 1-5",
+  // Job run history, push/email outbox, webhook delivery, password reset token and login challenge cleanup — daily at 03:00 APP_TIMEZONE
+  scheduleExclusive(
+    "job-run-cleanup",
+    "0 3 * * *",
+    30 * MINUTE_MS,
     async () => {
-      try {
-        const users = await taskRepo.getUsersWithNoActivityToday(new Date());
-        for (const { user_id, push_token } of users) {
-          void sendPushNotification(
-            push_token,
-            "Ingen aktivitet i dag",
-            "Husk at logge din fremgang",
-            { screen: "tasks" },
-            user_id,
-          );
-        }
-      } catch (err) {
-        console.error("No activity notification error:", err);
+      const deleted = await jobService.pruneJobRuns();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} old job run(s)`);
+      }
+      const pushes = await pushOutboxService.prunePushOutbox();
+      if (pushes > 0) {
+        console.log(`Deleted ${pushes} old outbox push(es)`);
+      }
+      const emails = await emailOutboxService.pruneEmailOutbox();
+      if (emails > 0) {
+        console.log(`Deleted ${emails} old outbox email(s)`);
+      }
+      const deliveries = await webhookService.pruneWebhookDeliveries();
+      if (deliveries > 0) {
+        console.log(`Deleted ${deliveries} old webhook deliveries`);
+      }
+      const resetTokens = await authService.prunePasswordResetTokens();
+      if (resetTokens > 0) {
+        console.log(`Deleted ${resetTokens} expired password reset token(s)`);
+      }
+      const challenges = await twoFactorService.pruneLoginChallenges();
+      if (challenges > 0) {
+        console.log(`Deleted ${challenges} expired login challenge(s)`);
+      }
+      const loginEvents = await loginSecurityService.pruneLoginHistory();
+      if (loginEvents > 0) {
+        console.log(`Deleted ${loginEvents} old login history record(s)`);
+      }
+      const ssoStates = await ssoService.pruneSsoLoginStates();
+      if (ssoStates > 0) {
+        console.log(`Deleted ${ssoStates} expired single sign-on attempt(s)`);
       }
     },
     { timezone: APP_TIMEZONE },
@@ -0,0 +1,305 @@
+import { prisma } from "../db/prisma";
+import * as ssoRepo from "../repositories/ssoRepository";
+import * as authRepo from "../repositories/authRepository";
+import * as positionRepo from "../repositories/positionRepository";
+import { SessionPlatform, UserRole } from "../generated/prisma/client";
+import type { RequestContext } from "../types/requestContext";
+import type { SaveSsoConfigInput, SsoClientBinding, SsoLoginResult, StartSsoLoginInput } from "../types/sso";
+import {
+  buildAuthorizationUrl,
+  discoverProvider,
+  exchangeCode,
+  generateOidcSecret,
+  verifyIdToken,
+  type IdTokenClaims,
+} from "../utils/oidcUtils";
+import { frontendLink } from "../utils/envUtils";
+import { resolveTxtRecords } from "../utils/netUtils";
+import { hashToken } from "../utils/tokenUtils";
+import {
+  ForbiddenUserOperationError,
+  MissingOrganizationError,
+  PositionNotFoundError,
+  SsoConfigNotFoundError,
+  SsoDomainNotFoundError,
+  SsoDomainTakenError,
+  SsoDomainVerificationFailedError,
+  SsoLoginFailedError,
+  SsoNotConfiguredError,
+  SsoProviderError,
+  ValidationError,
+} from "../errors/domainErrors";
+import { isBuiltInAdmin, requirePermission } from "./policyService";
+
+export {
+  SsoConfigNotFoundError,
+  SsoDomainNotFoundError,
+  SsoDomainTakenError,
+  SsoDomainVerificationFailedError,
+  SsoLoginFailedError,
+  SsoNotConfiguredError,
+  SsoProviderError,
+} from "../errors/domainErrors";
+
+// OpenID Connect single sign-on, one identity provider per organization (configured by its
+// admins). Signing in with an email whose domain is one of the organization's
+// allowed_domains sends the user to the provider; its callback page posts the code and
+// state back, and authService starts the session as a password login would. Users are
+// matched by the provider's subject, then by email (within the organization), and
+// otherwise created with the configured default role and position.
+//
+// A domain only routes sign-ins once the organization has verified it: the admin publishes
+// a TXT record "<DOMAIN_TXT_PREFIX>=<token>" on the domain and calls the verify endpoint.
+// Changing the issuer unverifies every domain and unlinks every user from their subject.
+//
+// An attempt only completes for the client that started it. A browser gets a binding
+// cookie with the authorization URL (see authController); the app gets the PKCE
+// code_verifier, which is not stored, and sends it with the callback.
+//
+// The provider's redirect URI is SSO_REDIRECT_URL (default: <first FRONTEND_URL>/sso/callback)
+// for browsers and SSO_MOBILE_REDIRECT_URL for the app; both must be registered with it.
+
+// A user has this long to finish signing in at the provider.
+const STATE_TTL_MS = 10 * 60 * 1000;
+const DOMAIN_TXT_PREFIX = "sso-domain-verification";
+
+function requireAdminRole(ctx: RequestContext) {
+  requirePermission(ctx, "sso.manage", "Only admins can manage single sign-on");
+}
+
+function requireOrg(ctx: RequestContext): string {
+  if (!ctx.effectiveOrgId) throw new MissingOrganizationError();
+  return ctx.effectiveOrgId;
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).trim().toLowerCase();
+}
+
+function redirectUri(platform: SessionPlatform): string {
+  if (platform === SessionPlatform.browser) return frontendLink("SSO_REDIRECT_URL", "/sso/callback", {});
+  const uri = process.env.SSO_MOBILE_REDIRECT_URL;
+  if (!uri) throw new ValidationError("Single sign-on is not available in the app");
+  return uri;
+}
+
+// Each domain with the TXT record to publish on it, in place of the raw token.
+function presentConfig(config: NonNullable<Awaited<ReturnType<typeof ssoRepo.getConfig>>>) {
+  return {
+    ...config,
+    domains: config.domains.map(({ domain, verification_token, verified_at }) => ({
+      domain,
+      verified_at,
+      txt_record: `${DOMAIN_TXT_PREFIX}=${verification_token}`,
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration (API) — org admins only
+// ---------------------------------------------------------------------------
+
+export async function getSsoConfig(ctx: RequestContext) {
+  requireAdminRole(ctx);
+  const config = await ssoRepo.getConfig(requireOrg(ctx));
+  if (!config) throw new SsoConfigNotFoundError();
+  return presentConfig(config);
+}
+
+// Sets up or replaces the organization's identity provider. The issuer must serve an
+// OpenID Connect discovery document from a public https host. Choosing the provider or
+// making new users admins is left to built-in admins: whoever controls the provider can
+// sign in as any member.
+export async function saveSsoConfig(ctx: RequestContext, input: SaveSsoConfigInput) {
+  requireAdminRole(ctx);
+  const orgId = requireOrg(ctx);
+
+  const existing = await ssoRepo.getConfigWithSecret(orgId);
+  if (!isBuiltInAdmin(ctx) && (existing?.issuer !== input.issuer || input.default_role === UserRole.ADMIN)) {
+    throw new ForbiddenUserOperationError("Only admins can change the identity provider or its default role");
+  }
+  if (!existing && !input.client_secret) throw new ValidationError("client_secret is required");
+  if (input.default_position_id && !(await positionRepo.getPositionById(input.default_position_id, orgId))) {
+    throw new PositionNotFoundError(input.default_position_id);
+  }
+  const domains = [...new Set(input.allowed_domains.map((d) => d.toLowerCase()))];
+  const [taken] = await ssoRepo.getDomainsTakenByOthers(orgId, domains);
+  if (taken) throw new SsoDomainTakenError(taken);
+
+  try {
+    await discoverProvider(input.issuer);
+  } catch (err) {
+    console.error("SSO discovery failed:", { issuer: input.issuer, error: String(err) });
+    throw new SsoProviderError("Could not load the OpenID configuration of the issuer");
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await ssoRepo.upsertConfig(tx, orgId, input);
+    await ssoRepo.replaceDomains(tx, orgId, domains);
+    // Links and domain checks made for the old provider do not carry over to a new one
+    if (existing && existing.issuer !== input.issuer) {
+      await ssoRepo.unlinkSubjects(tx, orgId);
+      await ssoRepo.resetDomainVerification(tx, orgId);
+    }
+  });
+  const config = await ssoRepo.getConfig(orgId);
+  return config && presentConfig(config);
+}
+
+// Marks a domain verified once its DNS has the TXT record from the configuration.
+export async function verifySsoDomain(ctx: RequestContext, rawDomain: string, now: Date = new Date()) {
+  requireAdminRole(ctx);
+  const domain = rawDomain.trim().toLowerCase();
+  const entry = await ssoRepo.getDomain(requireOrg(ctx), domain);
+  if (!entry) throw new SsoDomainNotFoundError(domain);
+  if (entry.verified_at) return { domain, verified_at: entry.verified_at };
+
+  let records: string[];
+  try {
+    records = await resolveTxtRecords(domain);
+  } catch (err) {
+    console.error("SSO domain lookup failed:", { domain, error: String(err) });
+    records = [];
+  }
+  if (!records.includes(`${DOMAIN_TXT_PREFIX}=${entry.verification_token}`)) {
+    throw new SsoDomainVerificationFailedError(domain);
+  }
+  await ssoRepo.markDomainVerified(domain, now);
+  return { domain, verified_at: now };
+}
+
+export async function deleteSsoConfig(ctx: RequestContext): Promise<void> {
+  requireAdminRole(ctx);
+  const orgId = requireOrg(ctx);
+  const deleted = await prisma.$transaction((tx) => ssoRepo.deleteConfig(tx, orgId));
+  if (!deleted) throw new SsoConfigNotFoundError();
+}
+
+// ---------------------------------------------------------------------------
+// Sign-in
+// ---------------------------------------------------------------------------
+
+// Returns the provider URL to send the user to and the secret binding the attempt to this
+// client: the browser binding cookie's value, or the app's code_verifier.
+export async function startSsoLogin(input: StartSsoLoginInput, now: Date = new Date()) {
+  const config = await ssoRepo.getEnabledConfigByDomain(emailDomain(input.email));
+  if (!config) throw new SsoNotConfiguredError();
+
+  let metadata;
+  try {
+    metadata = await discoverProvider(config.issuer);
+  } catch (err) {
+    console.error("SSO discovery failed:", { issuer: config.issuer, error: String(err) });
+    throw new SsoProviderError();
+  }
+
+  const isBrowser = input.platform === SessionPlatform.browser;
+  const nonce = generateOidcSecret();
+  const codeVerifier = generateOidcSecret();
+  const binding = isBrowser ? generateOidcSecret() : codeVerifier;
+  const uri = redirectUri(input.platform);
+  const state = await ssoRepo.createLoginState({
+    organization_id: config.organization_id,
+    binding_hash: hashToken(binding),
+    nonce,
+    code_verifier: isBrowser ? codeVerifier : null,
+    redirect_uri: uri,
+    platform: input.platform,
+    device_name: input.device_name,
+    expires_at: new Date(now.getTime() + STATE_TTL_MS),
+  });
+
+  return {
+    authorization_url: buildAuthorizationUrl(metadata, {
+      client_id: config.client_id,
+      redirect_uri: uri,
+      state,
+      nonce,
+      code_verifier: codeVerifier,
+      login_hint: input.email,
+    }),
+    binding,
+  };
+}
+
+// Checks the provider's callback and returns the user to sign in. The state works once,
+// and only with the binding of the client that started the attempt.
+export async function completeSsoLogin(
+  rawState: string,
+  code: string,
+  client: SsoClientBinding,
+  now: Date = new Date(),
+): Promise<SsoLoginResult> {
+  const state = await ssoRepo.consumeLoginState(rawState, now);
+  if (!state) throw new SsoLoginFailedError("The single sign-on attempt is invalid or has expired");
+  const binding = state.platform === SessionPlatform.browser ? client.browserBinding : client.codeVerifier;
+  if (!binding || hashToken(binding) !== state.binding_hash) {
+    throw new SsoLoginFailedError("The single sign-on attempt was started on another device or browser");
+  }
+  const config = await ssoRepo.getConfigWithSecret(state.organization_id);
+  if (!config?.enabled) throw new SsoNotConfiguredError();
+
+  let claims: IdTokenClaims;
+  try {
+    const metadata = await discoverProvider(config.issuer);
+    const idToken = await exchangeCode(metadata, {
+      client_id: config.client_id,
+      client_secret: config.client_secret,
+      code,
+      redirect_uri: state.redirect_uri,
+      code_verifier: state.code_verifier ?? binding,
+    });
+    claims = await verifyIdToken(metadata, idToken, { client_id: config.client_id, nonce: state.nonce });
+  } catch (err) {
+    console.error("SSO callback failed:", { issuer: config.issuer, error: String(err) });
+    throw new SsoLoginFailedError();
+  }
+
+  const userId = await resolveUser(config, claims);
+  return { user_id: userId, platform: state.platform, device_name: state.device_name };
+}
+
+// Finds or creates the user the provider vouched for.
+async function resolveUser(
+  config: NonNullable<Awaited<ReturnType<typeof ssoRepo.getConfigWithSecret>>>,
+  claims: IdTokenClaims,
+): Promise<string> {
+  const orgId = config.organization_id;
+  const linked = await ssoRepo.getUserBySubject(orgId, claims.sub);
+  if (linked) return linked.user_id;
+
+  // Only an email the provider says it verified may match or create an account
+  const email = claims.email?.trim().toLowerCase();
+  if (!email || !email.includes("@") || claims.email_verified !== true) {
+    throw new SsoLoginFailedError("The identity provider did not send a verified email address");
+  }
+  if (!(await ssoRepo.isDomainAllowed(orgId, emailDomain(email)))) {
+    throw new SsoLoginFailedError("Your email domain is not allowed to sign in to this organization");
+  }
+
+  const existing = await authRepo.getUserByEmail(email);
+  if (existing) {
+    if (existing.organization_id !== orgId || existing.role === UserRole.SUPER_ADMIN) {
+      throw new SsoLoginFailedError("This account cannot sign in with the organization's single sign-on");
+    }
+    if (existing.sso_subject && existing.sso_subject !== claims.sub) {
+      throw new SsoLoginFailedError("This account is linked to another identity at the provider");
+    }
+    await ssoRepo.linkSubject(existing.user_id, claims.sub);
+    return existing.user_id;
+  }
+
+  const user = await ssoRepo.createSsoUser({
+    organization_id: orgId,
+    email,
+    name: claims.name?.trim() || null,
+    role: config.default_role,
+    position_id: config.default_position_id,
+    sso_subject: claims.sub,
+  });
+  return user.user_id;
+}
+
+export async function pruneSsoLoginStates(now: Date = new Date()): Promise<number> {
+  return ssoRepo.deleteStatesExpiredBefore(now);
+}
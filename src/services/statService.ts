@@ -3,87 +3,90 @@ import { ValidationError } from "../errors/domainErrors";
 
 /**
  * Stats service - business logic layer for dashboard statistics
+ *
+ * The aggregate stats take visibleToUserId to count only the projects that user can see;
+ * null counts every project in scope.
  */
 export class StatsService {
   /**
    * Get overview statistics (total, completed today, pending, overdue)
    */
-  async getOverview(orgId: string | null = null) {
-    return await statsRepository.getOverviewStats(orgId);
+  async getOverview(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getOverviewStats(orgId, visibleToUserId);
   }
 
   /**
    * Get completion rate statistics
    */
-  async getCompletionRates(orgId: string | null = null) {
-    return await statsRepository.getCompletionRates(orgId);
+  async getCompletionRates(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getCompletionRates(orgId, visibleToUserId);
   }
 
   /**
    * Get priority breakdown statistics
    */
-  async getPriorityStats(orgId: string | null = null) {
-    return await statsRepository.getPriorityStats(orgId);
+  async getPriorityStats(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getPriorityStats(orgId, visibleToUserId);
   }
 
   /**
    * Get status distribution
    */
-  async getStatusStats(orgId: string | null = null) {
-    return await statsRepository.getStatusStats(orgId);
+  async getStatusStats(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getStatusStats(orgId, visibleToUserId);
   }
 
   /**
    * Get top performing users
    */
-  async getTopPerformers(limit: number = 5, orgId: string | null = null) {
+  async getTopPerformers(limit: number = 5, orgId: string | null = null, visibleToUserId: string | null = null) {
     if (limit < 1 || limit > 20) {
       throw new ValidationError("Limit must be between 1 and 20");
     }
-    return await statsRepository.getTopPerformers(limit, orgId);
+    return await statsRepository.getTopPerformers(limit, orgId, visibleToUserId);
   }
 
   /**
    * Get workload distribution across users
    */
-  async getWorkloadDistribution(orgId: string | null = null) {
-    return await statsRepository.getWorkloadDistribution(orgId);
+  async getWorkloadDistribution(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getWorkloadDistribution(orgId, visibleToUserId);
   }
 
   /**
    * Get recurring template statistics
    */
-  async getRecurringStats(orgId: string | null = null) {
-    return await statsRepository.getRecurringStats(orgId);
+  async getRecurringStats(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getRecurringStats(orgId, visibleToUserId);
   }
 
   /**
    * Get task trends over time
    */
-  async getTaskTrends(days: number = 7, orgId: string | null = null) {
+  async getTaskTrends(days: number = 7, orgId: string | null = null, visibleToUserId: string | null = null) {
     if (days < 1 || days > 90) {
       throw new ValidationError("Days must be between 1 and 90");
     }
-    return await statsRepository.getTaskTrends(days, orgId);
+    return await statsRepository.getTaskTrends(days, orgId, visibleToUserId);
   }
 
   /**
    * Get all dashboard statistics in a single call
    * This is optimized for loading the entire dashboard at once
    */
-  async getAllStats(orgId: string | null = null) {
-    return await statsRepository.getAllStats(orgId);
+  async getAllStats(orgId: string | null = null, visibleToUserId: string | null = null) {
+    return await statsRepository.getAllStats(orgId, visibleToUserId);
   }
 
   /**
    * Get all dashboard statistics for a rolling window of the last N days (1–365).
    * Includes overview, completion rates, trends, project stats, and leaderboard.
    */
-  async getStatsForWindow(days: number = 30, orgId: string | null = null) {
+  async getStatsForWindow(days: number = 30, orgId: string | null = null, visibleToUserId: string | null = null) {
     if (!Number.isFinite(days) || !Number.isInteger(days) || days < 1 || days > 365) {
       throw new ValidationError("Days must be between 1 and 365");
     }
-    return await statsRepository.getStatsForWindow(days, orgId);
+    return await statsRepository.getStatsForWindow(days, orgId, visibleToUserId);
   }
 
   /**
@@ -3,6 +3,7 @@ import { TaskEventType, TaskStatus } from "../generated/prisma/client";
 import * as taskRepo from "../repositories/taskRepository";
 import * as taskEventRepo from "../repositories/taskEventRepository";
 import type { RequestContext } from "../types/requestContext";
+import { eventActor } from "../helper/helpers";
 import { TaskArchivedError, TaskNotFoundError } from "../errors/domainErrors";
 
 export { TaskArchivedError, TaskNotFoundError };
@@ -37,7 +38,7 @@ export async function createSubtask(
       // Event on the parent task to record the new subtask.
       taskEventRepo.createTaskEvent(tx, {
         task: { connect: { task_id: parentTaskId } },
-        actor: { connect: { user_id: ctx.actorUserId } },
+        ...eventActor(ctx),
         type: TaskEventType.SUBTASK_ADDED,
         message: "Subtask created",
         before_json: {},
@@ -46,7 +47,7 @@ export async function createSubtask(
       // Event on the subtask itself.
       taskEventRepo.createTaskEvent(tx, {
         task: { connect: { task_id: created.task_id } },
-        actor: { connect: { user_id: ctx.actorUserId } },
+        ...eventActor(ctx),
         type: TaskEventType.TASK_CREATED,
         message: "Task created",
         before_json: {},
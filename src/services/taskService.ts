@@ -1,19 +1,26 @@
 import {
+  NotificationType,
   TaskEventType,
   TaskPriority,
   TaskStatus,
-  UserRole,
   type TaskUnit,
 } from "../generated/prisma/client";
 import { TaskForbiddenError } from "../errors/domainErrors";
+import * as commentRepo from "../repositories/commentRepository";
 import * as taskEventRepo from "../repositories/taskEventRepository";
 import * as taskRepo from "../repositories/taskRepository";
+import * as projectRepo from "../repositories/projectRepository";
 import * as userRepo from "../repositories/userRepository";
-import { sendPushNotification } from "./notificationService";
-import type { CreateTaskInput, UpdateTaskInput } from "../types/task";
+import { notifyUser } from "./inboxService";
+import type { CreateTaskInput, TaskListQuery, TaskSearchQuery, UpdateTaskInput } from "../types/task";
 import type { RequestContext } from "../types/requestContext";
+import type { DbClient } from "../types/db";
 import { appDateKey } from "../utils/dateUtils";
+import { buildSnippet, containsTerm, searchTerms, toBooleanQuery } from "../utils/searchUtils";
+import { canAccessTask, eventActor } from "../helper/helpers";
 import { prisma } from "../db/prisma";
+import { can, projectVisibilityFor } from "./policyService";
+import { assertCanAddTasks } from "./projectService";
 
 function actorConnect(userId: string) {
   return { connect: { user_id: userId } } as const;
@@ -27,17 +34,142 @@ function emptyObj() {
   return {} as Record<string, never>;
 }
 
-export async function listTasks(ctx: RequestContext) {
-  return taskRepo.getAllTasks(ctx.effectiveOrgId);
+export async function listTasks(ctx: RequestContext, query: TaskListQuery) {
+  return taskRepo.listTasks(ctx.effectiveOrgId, query, projectVisibilityFor(ctx));
+}
+
+// Hits per task fetched before grouping, since one task can match in many comments.
+const SEARCH_HITS_PER_RESULT = 5;
+
+export async function searchTasks(ctx: RequestContext, query: TaskSearchQuery) {
+  const terms = searchTerms(query.q);
+  if (terms.length === 0) return [];
+
+  const canSeeAll = can(ctx, "task.view.any");
+  const hits = await taskRepo.searchTaskHits(
+    ctx.effectiveOrgId,
+    canSeeAll ? null : ctx.actorUserId,
+    projectVisibilityFor(ctx),
+    toBooleanQuery(terms),
+    query.limit * SEARCH_HITS_PER_RESULT,
+  );
+
+  // Hits arrive best-first, so the first hit seen for a task is the one shown. A task's
+  // rank is the sum of its hits so several matching comments lift it above a single one.
+  const grouped = new Map<string, { score: number; best: taskRepo.TaskSearchHit }>();
+  for (const hit of hits) {
+    const entry = grouped.get(hit.task_id);
+    if (entry) entry.score += hit.score;
+    else grouped.set(hit.task_id, { score: hit.score, best: hit });
+  }
+  const ranked = [...grouped.values()].sort((a, b) => b.score - a.score).slice(0, query.limit);
+
+  const [tasks, comments] = await Promise.all([
+    taskRepo.getTasksForSearch(ranked.map((r) => r.best.task_id), ctx.actorUserId),
+    commentRepo.getCommentMessagesByIds(
+      ranked.flatMap((r) => (r.best.comment_id ? [r.best.comment_id] : [])),
+    ),
+  ]);
+  const taskById = new Map(tasks.map((t) => [t.task_id, t]));
+  const commentById = new Map(comments.map((c) => [c.comment_id, c]));
+
+  return ranked.flatMap(({ score, best }) => {
+    const task = taskById.get(best.task_id);
+    if (!task || !canAccessTask(task, ctx)) return [];
+
+    const comment = best.comment_id ? commentById.get(best.comment_id) : undefined;
+    const matchedField = comment
+      ? ("comment" as const)
+      : containsTerm(task.description, terms)
+        ? ("description" as const)
+        : ("title" as const);
+    const source =
+      matchedField === "comment" ? comment!.message : matchedField === "description" ? task.description : task.title;
+
+    return [
+      {
+        task_id: task.task_id,
+        number: task.number,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        deadline: task.deadline,
+        project: { project_id: task.project.project_id, name: task.project.name, color: task.project.color },
+        score,
+        from_comment: matchedField === "comment",
+        matched_field: matchedField,
+        comment_id: comment?.comment_id ?? null,
+        ...buildSnippet(source, terms),
+      },
+    ];
+  });
 }
 
 export async function getTask(ctx: RequestContext, taskId: string) {
-  return taskRepo.getTaskById(taskId, ctx.effectiveOrgId);
+  return taskRepo.getTaskById(taskId, ctx.effectiveOrgId, projectVisibilityFor(ctx));
+}
+
+// Notifications are written in the caller's transaction (see inboxService.notifyUser),
+// so they only go out if the change they describe is committed.
+async function notifyAssigned(db: DbClient, task: { task_id: string; title: string }, userIds: string[]) {
+  const recipients = await userRepo.getRecipientsForUsers(db, userIds);
+  for (const recipient of recipients) {
+    await notifyUser(db, recipient, {
+      type: NotificationType.TASK_ASSIGNED,
+      params: { task: task.title },
+      data: { taskId: task.task_id },
+      task_id: task.task_id,
+    });
+  }
+}
+
+// New assignees, and assignees when an active task becomes high priority. Admins hear
+// about completed tasks in their digest (see digestService).
+async function notifyTaskChanges(
+  db: DbClient,
+  oldTask: NonNullable<Awaited<ReturnType<typeof taskRepo.getTaskById>>>,
+  updatedTask: any,
+  updateData: UpdateTaskInput,
+) {
+  if (updateData.assigned_users !== undefined) {
+    const oldUserIds = new Set(oldTask.assigned_users ?? []);
+    const added = updatedTask.assignments.filter((a: any) => !oldUserIds.has(a.user_id));
+    await notifyAssigned(db, updatedTask, added.map((a: any) => a.user_id));
+  }
+
+  const priorityChangedToHigh =
+    updateData.priority === TaskPriority.HIGH && oldTask.priority !== TaskPriority.HIGH;
+  if (!priorityChangedToHigh || updatedTask.assignments.length === 0) return;
+
+  // start_date is a calendar date; it has started once it is today or earlier where the organization is
+  const timeZone = await projectRepo.getProjectTimeZone(db, updatedTask.project_id);
+  const taskIsActive =
+    updatedTask.start_date !== null &&
+    appDateKey(updatedTask.start_date, "UTC") <= appDateKey(new Date(), timeZone) &&
+    updatedTask.status !== TaskStatus.DONE &&
+    updatedTask.status !== TaskStatus.REJECTED &&
+    updatedTask.status !== TaskStatus.ARCHIVED;
+
+  if (taskIsActive) {
+    const recipients = await userRepo.getRecipientsForUsers(
+      db,
+      updatedTask.assignments.map((a: any) => a.user_id),
+    );
+    for (const recipient of recipients) {
+      await notifyUser(db, recipient, {
+        type: NotificationType.PRIORITY_CHANGED,
+        params: { task: updatedTask.title },
+        data: { taskId: updatedTask.task_id },
+        task_id: updatedTask.task_id,
+      });
+    }
+  }
 }
 
 export async function createTask(ctx: RequestContext, input: CreateTaskInput) {
   // Always attribute the task to the authenticated actor, regardless of what the client sends.
   const normalizedInput: CreateTaskInput = { ...input, created_by: ctx.actorUserId };
+  await assertCanAddTasks(ctx, input.project_id);
 
   const task = await prisma.$transaction(async (tx) => {
     const created = await taskRepo.createTaskWithAssignments(tx, normalizedInput, ctx.effectiveOrgId);
@@ -45,7 +177,7 @@ export async function createTask(ctx: RequestContext, input: CreateTaskInput) {
 
     await taskEventRepo.createTaskEvent(tx, {
       task: taskConnect(created.task_id),
-      actor: actorConnect(ctx.actorUserId),
+      ...eventActor(ctx),
       type: TaskEventType.TASK_CREATED,
       message: "Task created",
       before_json: emptyObj(),
@@ -57,7 +189,7 @@ export async function createTask(ctx: RequestContext, input: CreateTaskInput) {
         created.assignments.map((assignment: any) =>
           taskEventRepo.createTaskEvent(tx, {
             task: taskConnect(created.task_id),
-            actor: actorConnect(ctx.actorUserId),
+            ...eventActor(ctx),
             type: TaskEventType.ASSIGNMENT_CREATED,
             message: "Created assignment",
             assignment: { connect: { assignment_id: assignment.assignment_id } },
@@ -66,39 +198,25 @@ export async function createTask(ctx: RequestContext, input: CreateTaskInput) {
           }),
         ),
       );
+      await notifyAssigned(tx, created, created.assignments.map((a: any) => a.user_id));
     }
     return created;
   });
 
   if (!task) return null;
 
-  // Push notifications fire after the transaction commits so they don't run if the tx rolls back.
-  if (task.assignments && task.assignments.length > 0) {
-    const tokenMap = await userRepo.getPushTokensForUsers(task.assignments.map((a: any) => a.user_id));
-    for (const [userId, pushToken] of tokenMap) {
-      void sendPushNotification(
-        pushToken,
-        "Ny opgave tildelt",
-        `Du er blevet tildelt: ${task.title}`,
-        { taskId: task.task_id },
-        userId,
-      );
-    }
-  }
-
   const { assignments, current_goal, ...taskData } = task;
   return { ...taskData, assigned_users: assignments.map((a: any) => a.user_id), goal: current_goal ?? null };
 }
 
 export async function updateTask(ctx: RequestContext, taskId: string, updateData: UpdateTaskInput) {
-  const actor = actorConnect(ctx.actorUserId);
+  const actor = eventActor(ctx);
 
   // Read old state before transaction for assignment diff / notification logic.
   const oldTask = await taskRepo.getTaskById(taskId, ctx.effectiveOrgId);
   if (!oldTask) return null;
 
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin && oldTask.created_by !== ctx.actorUserId && !oldTask.assigned_users.includes(ctx.actorUserId)) {
+  if (!can(ctx, "task.update.any") && oldTask.created_by !== ctx.actorUserId && !oldTask.assigned_users.includes(ctx.actorUserId)) {
     throw new TaskForbiddenError();
   }
 
@@ -122,7 +240,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
         ...added.map((assignment: any) =>
           taskEventRepo.createTaskEvent(tx, {
             task: tConnect,
-            actor,
+            ...actor,
             type: TaskEventType.ASSIGNMENT_CREATED,
             message: "Created assignment",
             assignment: { connect: { assignment_id: assignment.assignment_id } },
@@ -134,7 +252,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
           const removedUser = (oldTask as any).assignment_users?.find((u: any) => u.user_id === uid);
           return taskEventRepo.createTaskEvent(tx, {
             task: tConnect,
-            actor,
+            ...actor,
             type: TaskEventType.ASSIGNMENT_DELETED,
             message: "Deleted assignment",
             before_json: { user_id: uid, name: removedUser?.name ?? null, email: removedUser?.email ?? null },
@@ -146,7 +264,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.title !== undefined && updateData.title !== oldTask.title) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_TITLE_CHANGED,
         before_json: { title: oldTask.title },
         after_json: { title: updated.title },
@@ -155,7 +273,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.description !== undefined && updateData.description !== oldTask.description) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_DESCRIPTION_CHANGED,
         before_json: { description: oldTask.description },
         after_json: { description: updated.description },
@@ -164,7 +282,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.priority !== undefined && updateData.priority !== oldTask.priority) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_PRIORITY_CHANGED,
         before_json: { priority: oldTask.priority },
         after_json: { priority: updated.priority },
@@ -173,7 +291,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.deadline !== undefined && String(updateData.deadline) !== String(oldTask.deadline)) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_DUE_DATE_CHANGED,
         before_json: { deadline: oldTask.deadline },
         after_json: { deadline: updated.deadline },
@@ -182,7 +300,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.start_date !== undefined && String(updateData.start_date) !== String(oldTask.start_date)) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_START_DATE_CHANGED,
         before_json: { start_date: oldTask.start_date },
         after_json: { start_date: updated.start_date },
@@ -191,7 +309,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
 
     if (updateData.project_id !== undefined && updateData.project_id !== oldTask.project_id) {
       events.push(taskEventRepo.createTaskEvent(tx, {
-        task: tConnect, actor,
+        task: tConnect, ...actor,
         type: TaskEventType.TASK_PROJECT_CHANGED,
         before_json: { project_id: oldTask.project_id, project_name: (oldTask as any).project?.name ?? null },
         after_json: { project_id: updated.project_id, project_name: (updated as any).project?.name ?? null },
@@ -202,7 +320,7 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
       events.push(
         taskEventRepo.createTaskEvent(tx, {
           task: tConnect,
-          actor,
+          ...actor,
           type: TaskEventType.TASK_STATUS_CHANGED,
           message: `Status changed from ${oldTask.status} to ${updated.status}`,
           before_json: { status: oldTask.status },
@@ -212,64 +330,12 @@ export async function updateTask(ctx: RequestContext, taskId: string, updateData
     }
 
     await Promise.all(events);
+    await notifyTaskChanges(tx, oldTask, updated, updateData);
     return updated;
   });
 
   if (!updatedTask) return null;
 
-  // Push notifications fire after transaction commits.
-  if (updateData.assigned_users !== undefined) {
-    const oldUserIds = new Set(oldTask.assigned_users ?? []);
-    const added = updatedTask.assignments.filter((a: any) => !oldUserIds.has(a.user_id));
-    const tokenMap = await userRepo.getPushTokensForUsers(added.map((a: any) => a.user_id));
-    for (const [uid, pushToken] of tokenMap) {
-      void sendPushNotification(
-        pushToken,
-        "Ny opgave tildelt",
-        `Du er blevet tildelt: ${updatedTask.title}`,
-        { taskId: updatedTask.task_id },
-        uid,
-      );
-    }
-  }
-
-  if (updateData.status && oldTask.status !== updatedTask.status && updatedTask.status === TaskStatus.DONE) {
-    const admins = await userRepo.getAdminPushTokens(ctx.effectiveOrgId);
-    for (const { user_id, push_token } of admins) {
-      void sendPushNotification(
-        push_token,
-        "Opgave afsluttet",
-        updatedTask.title,
-        { taskId: updatedTask.task_id },
-        user_id,
-      );
-    }
-  }
-
-  const priorityChangedToHigh =
-    updateData.priority === TaskPriority.HIGH && oldTask.priority !== TaskPriority.HIGH;
-  const taskIsActive =
-    updatedTask.start_date !== null &&
-    appDateKey(updatedTask.start_date) <= appDateKey() &&
-    updatedTask.status !== TaskStatus.DONE &&
-    updatedTask.status !== TaskStatus.REJECTED &&
-    updatedTask.status !== TaskStatus.ARCHIVED;
-
-  if (priorityChangedToHigh && taskIsActive && updatedTask.assignments.length > 0) {
-    const tokenMap = await userRepo.getPushTokensForUsers(
-      updatedTask.assignments.map((a: any) => a.user_id),
-    );
-    for (const [uid, pushToken] of tokenMap) {
-      void sendPushNotification(
-        pushToken,
-        "Prioritet ændret",
-        `${updatedTask.title} – prioritet ændret til høj`,
-        { taskId: updatedTask.task_id },
-        uid,
-      );
-    }
-  }
-
   const { assignments, current_goal, ...taskData } = updatedTask;
   return { ...taskData, assigned_users: assignments.map((a: any) => a.user_id), goal: current_goal ?? null };
 }
@@ -278,8 +344,7 @@ export async function deleteTask(ctx: RequestContext, taskId: string) {
   const task = await taskRepo.getTaskById(taskId, ctx.effectiveOrgId);
   if (!task) return false;
 
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  if (!isAdmin && task.created_by !== ctx.actorUserId && !(task.assigned_users ?? []).includes(ctx.actorUserId)) {
+  if (!can(ctx, "task.delete.any") && task.created_by !== ctx.actorUserId && !(task.assigned_users ?? []).includes(ctx.actorUserId)) {
     throw new TaskForbiddenError();
   }
 
@@ -288,7 +353,7 @@ export async function deleteTask(ctx: RequestContext, taskId: string) {
     const eventWrites = [
       taskEventRepo.createTaskEvent(tx, {
         task: taskConnect(task.task_id),
-        actor: actorConnect(ctx.actorUserId),
+        ...eventActor(ctx),
         type: TaskEventType.TASK_DELETED,
         before_json: task,
         after_json: emptyObj(),
@@ -299,7 +364,7 @@ export async function deleteTask(ctx: RequestContext, taskId: string) {
       eventWrites.push(
         taskEventRepo.createTaskEvent(tx, {
           task: taskConnect((task as any).parent_task_id),
-          actor: actorConnect(ctx.actorUserId),
+          ...eventActor(ctx),
           type: TaskEventType.SUBTASK_REMOVED,
           before_json: { task_id: task.task_id, title: (task as any).title },
           after_json: emptyObj(),
@@ -326,14 +391,17 @@ export async function upsertProgressLog(
   unit?: TaskUnit,
   note?: string,
 ) {
+  const canUpdateAnyTask = can(ctx, "task.update.any");
   const result = await prisma.$transaction(async (tx) => {
     const { progressLog, updatedTask } = ctx.effectiveOrgId
-      ? await taskRepo.upsertProgressLogInOrg(tx, taskId, ctx.effectiveOrgId, ctx.actorUserId, quantityDone, unit, note)
-      : await taskRepo.upsertProgressLogPlatform(tx, taskId, ctx.actorUserId, quantityDone, unit, note);
+      ? await taskRepo.upsertProgressLogInOrg(
+          tx, taskId, ctx.effectiveOrgId, ctx.actorUserId, canUpdateAnyTask, quantityDone, unit, note,
+        )
+      : await taskRepo.upsertProgressLogPlatform(tx, taskId, ctx.actorUserId, canUpdateAnyTask, quantityDone, unit, note);
 
     await taskEventRepo.createTaskEvent(tx, {
       task: taskConnect(taskId),
-      actor: actorConnect(ctx.actorUserId),
+      ...eventActor(ctx),
       type: TaskEventType.PROGRESS_LOGGED,
       message: `Logged progress: ${quantityDone} ${unit || "units"}`,
       progress: { connect: { progress_id: progressLog.progress_id } },
@@ -344,25 +412,6 @@ export async function upsertProgressLog(
     return { progressLog, updatedTask };
   });
 
-  // Notify admins after transaction commits.
-  void (async () => {
-    try {
-      const admins = await userRepo.getAdminPushTokens(ctx.effectiveOrgId);
-      for (const { user_id: adminId, push_token } of admins) {
-        if (adminId === ctx.actorUserId) continue;
-        void sendPushNotification(
-          push_token,
-          "Fremgang logget",
-          result.updatedTask.title,
-          { taskId: result.updatedTask.task_id },
-          adminId,
-        );
-      }
-    } catch (err) {
-      console.error("Failed to notify admins of progress log:", err);
-    }
-  })();
-
   return {
     progressLog: result.progressLog,
     task: {
@@ -412,16 +461,13 @@ export async function getTaskEvents(ctx: RequestContext, taskId: string) {
       task_id: taskId,
       ...(ctx.effectiveOrgId ? { project: { organization_id: ctx.effectiveOrgId } } : {}),
     },
-    include: { assignments: { where: { user_id: ctx.actorUserId } } },
+    include: {
+      assignments: { where: { user_id: ctx.actorUserId } },
+      project: { select: { restricted: true, members: { where: { user_id: ctx.actorUserId } } } },
+    },
   });
 
-  if (!task) return null;
-
-  const isAdmin = ctx.isSuperAdmin || ctx.actorRole === UserRole.ADMIN;
-  const canAccess =
-    isAdmin || task.created_by === ctx.actorUserId || task.assignments.length > 0;
-
-  if (!canAccess) return null;
+  if (!canAccessTask(task, ctx)) return null;
 
   return taskEventRepo.getTaskEventsByTaskId(taskId);
 }
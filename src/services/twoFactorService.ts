@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import * as twoFactorRepo from "../repositories/twoFactorRepository";
+import { SessionPlatform, UserRole } from "../generated/prisma/client";
+import type { SecondFactorInput } from "../types/auth";
+import { hashToken } from "../utils/tokenUtils";
+import { generateTotpSecret, totpUri, verifyTotp } from "../utils/totpUtils";
+import * as loginSecurityService from "./loginSecurityService";
+import {
+  AuthenticationError,
+  ForbiddenUserOperationError,
+  InvalidLoginChallengeError,
+  InvalidTwoFactorCodeError,
+  TwoFactorAlreadyEnabledError,
+  TwoFactorNotEnabledError,
+  UserNotFoundError,
+} from "../errors/domainErrors";
+
+export {
+  InvalidLoginChallengeError,
+  InvalidTwoFactorCodeError,
+  TwoFactorAlreadyEnabledError,
+  TwoFactorNotEnabledError,
+} from "../errors/domainErrors";
+
+// TOTP two-factor authentication. Optional for everyone; required for super-admins, who
+// can act in any organization, and for admins of organizations with require_admin_2fa.
+//
+// A correct password for a user with two-factor enabled, or required to enable it, gives a
+// login challenge instead of a session. The client exchanges the challenge and a TOTP or
+// recovery code for the session; a user who still has to enroll first fetches a secret
+// for the challenge, and the code confirming it enables two-factor and completes sign-in.
+
+const MINUTE_MS = 60 * 1000;
+// Long enough to scan the setup QR code when enrolling during sign-in.
+const CHALLENGE_TTL_MS = 10 * MINUTE_MS;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+type TwoFactorState = NonNullable<Awaited<ReturnType<typeof twoFactorRepo.getTwoFactorState>>>;
+
+function issuer(): string {
+  return process.env.APP_NAME || "AndreassenTask";
+}
+
+export function isTwoFactorRequired(state: Pick<TwoFactorState, "role" | "organization">): boolean {
+  return (
+    state.role === UserRole.SUPER_ADMIN ||
+    (state.role === UserRole.ADMIN && state.organization.require_admin_2fa)
+  );
+}
+
+async function requireState(userId: string): Promise<TwoFactorState> {
+  const state = await twoFactorRepo.getTwoFactorState(userId);
+  if (!state) throw new UserNotFoundError(userId);
+  return state;
+}
+
+// Recovery codes look like "K7MP2-XQ9WD"; case, spaces and dashes are ignored when used.
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.randomBytes(10), (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toUpperCase().replace(/[\s-]/g, ""));
+}
+
+// Checks a TOTP code against the user's secret and uses up its time step.
+async function checkTotp(state: TwoFactorState, code: string, now: Date): Promise<boolean> {
+  if (!state.totp_secret) return false;
+  const step = verifyTotp(state.totp_secret, code, now);
+  if (step === null) return false;
+  return twoFactorRepo.consumeTotpStep(state.user_id, step);
+}
+
+// A TOTP code, or a recovery code when allowed.
+async function checkSecondFactor(
+  state: TwoFactorState,
+  input: SecondFactorInput,
+  now: Date,
+  allowRecoveryCode = true,
+): Promise<boolean> {
+  if (input.code) return checkTotp(state, input.code, now);
+  if (input.recovery_code && allowRecoveryCode) {
+    return twoFactorRepo.consumeRecoveryCode(state.user_id, hashRecoveryCode(input.recovery_code), now);
+  }
+  return false;
+}
+
+// Enables the pending secret when the code matches it. Returns the new recovery codes.
+async function confirmSetup(state: TwoFactorState, code: string, now: Date): Promise<string[]> {
+  if (!state.totp_secret) throw new TwoFactorNotEnabledError("Start two-factor setup first");
+  const step = verifyTotp(state.totp_secret, code, now);
+  if (step === null) throw new InvalidTwoFactorCodeError();
+
+  const codes = generateRecoveryCodes();
+  const enabled = await twoFactorRepo.enableTotp(state.user_id, step, codes.map(hashRecoveryCode), now);
+  if (!enabled) throw new TwoFactorAlreadyEnabledError();
+  return codes;
+}
+
+async function startSetup(state: TwoFactorState) {
+  if (state.totp_enabled_at) throw new TwoFactorAlreadyEnabledError();
+  const secret = generateTotpSecret();
+  if (!(await twoFactorRepo.setPendingSecret(state.user_id, secret))) throw new TwoFactorAlreadyEnabledError();
+  return { secret, otpauth_url: totpUri(secret, state.email, issuer()) };
+}
+
+// ---------------------------------------------------------------------------
+// Sign-in
+// ---------------------------------------------------------------------------
+
+export interface LoginChallenge {
+  mfa_required: true;
+  challenge_token: string;
+  // The user has to set up two-factor (POST /auth/login/enroll) before entering a code.
+  enrollment_required: boolean;
+  expires_at: Date;
+}
+
+// Returns the challenge to answer before a session is created, or null when the password
+// is enough for this user.
+export async function startLoginChallenge(
+  userId: string,
+  platform: SessionPlatform,
+  deviceName?: string,
+  now: Date = new Date(),
+): Promise<LoginChallenge | null> {
+  const state = await requireState(userId);
+  const enrolled = !!state.totp_enabled_at;
+  if (!enrolled && !isTwoFactorRequired(state)) return null;
+
+  const expiresAt = new Date(now.getTime() + CHALLENGE_TTL_MS);
+  const challengeToken = await twoFactorRepo.createLoginChallenge(
+    userId,
+    platform,
+    platform === SessionPlatform.mobile ? deviceName : undefined,
+    expiresAt,
+  );
+  return { mfa_required: true, challenge_token: challengeToken, enrollment_required: !enrolled, expires_at: expiresAt };
+}
+
+async function getOpenChallenge(challengeToken: string, now: Date) {
+  const challenge = await twoFactorRepo.getLoginChallenge(challengeToken);
+  if (!challenge || challenge.consumed_at || challenge.expires_at <= now) throw new InvalidLoginChallengeError();
+  return challenge;
+}
+
+// Starts setup for a user who has to enroll to finish signing in.
+export async function startChallengeEnrollment(challengeToken: string, now: Date = new Date()) {
+  const challenge = await getOpenChallenge(challengeToken, now);
+  return startSetup(await requireState(challenge.user_id));
+}
+
+export interface VerifiedChallenge {
+  user_id: string;
+  platform: SessionPlatform;
+  device_name: string | null;
+  // Only when the challenge completed enrollment; shown to the user once.
+  recovery_codes?: string[];
+}
+
+// Checks the code for a challenge and uses the challenge up. Each challenge allows
+// MAX_CHALLENGE_ATTEMPTS codes; after that the user has to enter their password again.
+// Wrong codes also count towards the account lockout like wrong passwords do, so new
+// challenges do not bring new guesses; while locked every code is refused.
+export async function verifyLoginChallenge(
+  challengeToken: string,
+  input: SecondFactorInput,
+  ip?: string,
+  now: Date = new Date(),
+): Promise<VerifiedChallenge> {
+  const challenge = await getOpenChallenge(challengeToken, now);
+  if (!(await twoFactorRepo.recordChallengeAttempt(challenge.challenge_id, MAX_CHALLENGE_ATTEMPTS, now))) {
+    throw new InvalidLoginChallengeError();
+  }
+
+  const state = await requireState(challenge.user_id);
+  const client = { platform: challenge.platform, ip, device_name: challenge.device_name ?? undefined };
+  if (loginSecurityService.isLocked(state, now)) {
+    await loginSecurityService.recordFailedLogin(state, client, now);
+    throw new InvalidTwoFactorCodeError();
+  }
+  let recoveryCodes: string[] | undefined;
+  if (state.totp_enabled_at) {
+    if (!(await checkSecondFactor(state, input, now))) {
+      await loginSecurityService.recordFailedLogin(state, client, now);
+      throw new InvalidTwoFactorCodeError();
+    }
+  } else {
+    if (!input.code) throw new InvalidTwoFactorCodeError();
+    recoveryCodes = await confirmSetup(state, input.code, now);
+  }
+
+  if (!(await twoFactorRepo.consumeLoginChallenge(challenge.challenge_id, now))) {
+    throw new InvalidLoginChallengeError();
+  }
+  await loginSecurityService.clearFailedLogins(state);
+  return {
+    user_id: challenge.user_id,
+    platform: challenge.platform,
+    device_name: challenge.device_name,
+    recovery_codes: recoveryCodes,
+  };
+}
+
+// Sessions from before two-factor became required for the user stop refreshing, so they
+// sign in again and enroll.
+export async function assertEnrolledIfRequired(userId: string): Promise<void> {
+  const state = await twoFactorRepo.getTwoFactorState(userId);
+  if (state && !state.totp_enabled_at && isTwoFactorRequired(state)) {
+    throw new AuthenticationError("Two-factor authentication is required; sign in again");
+  }
+}
+
+// Deletes login challenges that expired more than a day ago.
+export async function pruneLoginChallenges(now: Date = new Date()): Promise<number> {
+  return twoFactorRepo.deleteChallengesExpiredBefore(new Date(now.getTime() - 24 * 60 * MINUTE_MS));
+}
+
+// ---------------------------------------------------------------------------
+// Managing your own two-factor authentication
+// ---------------------------------------------------------------------------
+
+export async function getStatus(userId: string) {
+  const state = await requireState(userId);
+  return {
+    enabled: !!state.totp_enabled_at,
+    enabled_at: state.totp_enabled_at,
+    required: isTwoFactorRequired(state),
+    recovery_codes_remaining: state.totp_enabled_at ? state._count.recoveryCodes : 0,
+  };
+}
+
+// Returns the secret and otpauth:// URI to show as a QR code; enable confirms it.
+export async function beginSetup(userId: string) {
+  return startSetup(await requireState(userId));
+}
+
+export async function enable(userId: string, code: string, now: Date = new Date()) {
+  const state = await requireState(userId);
+  if (state.totp_enabled_at) throw new TwoFactorAlreadyEnabledError();
+  return { recovery_codes: await confirmSetup(state, code, now) };
+}
+
+// Needs a current TOTP code. Not allowed while two-factor is required for the user.
+export async function disable(userId: string, input: SecondFactorInput, now: Date = new Date()): Promise<void> {
+  const state = await requireState(userId);
+  if (!state.totp_enabled_at) throw new TwoFactorNotEnabledError();
+  if (isTwoFactorRequired(state)) {
+    throw new ForbiddenUserOperationError("Two-factor authentication is required for your role");
+  }
+  if (!(await checkSecondFactor(state, input, now, false))) throw new InvalidTwoFactorCodeError();
+  await twoFactorRepo.disableTotp(userId);
+}
+
+// Replaces all recovery codes, used or not. Needs a current TOTP code.
+export async function regenerateRecoveryCodes(userId: string, input: SecondFactorInput, now: Date = new Date()) {
+  const state = await requireState(userId);
+  if (!state.totp_enabled_at) throw new TwoFactorNotEnabledError();
+  if (!(await checkSecondFactor(state, input, now, false))) throw new InvalidTwoFactorCodeError();
+
+  const codes = generateRecoveryCodes();
+  await twoFactorRepo.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return { recovery_codes: codes };
+}
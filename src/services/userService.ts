@@ -3,6 +3,8 @@ import { MESTERPLAN_ORG_ID } from "../constants";
 import * as userRepo from "../repositories/userRepository";
 import * as positionRepo from "../repositories/positionRepository";
 import { generateUserProfilePictureUploadUrl, ALLOWED_MIME_TYPES } from "./storageService";
+import * as orgRoleService from "./orgRoleService";
+import { can, requirePermission } from "./policyService";
 import type { CreateUserInput, UpdateUserInput } from "../types/user";
 import type { RequestContext } from "../types/requestContext";
 import {
@@ -26,7 +28,11 @@ export {
 
 function resolveCreateUserRole(actorRole: UserRole, requestedRole: unknown): UserRole {
   if (requestedRole === undefined) return UserRole.USER;
-  if (requestedRole === UserRole.USER || requestedRole === UserRole.ADMIN) return requestedRole;
+  if (requestedRole === UserRole.USER) return requestedRole;
+  // Members who manage users through an organization role cannot make admins.
+  if (requestedRole === UserRole.ADMIN && (actorRole === UserRole.ADMIN || actorRole === UserRole.SUPER_ADMIN)) {
+    return requestedRole;
+  }
   if (requestedRole === UserRole.SUPER_ADMIN && actorRole === UserRole.SUPER_ADMIN) {
     return UserRole.SUPER_ADMIN;
   }
@@ -42,6 +48,21 @@ function resolveMutationOrgScope(ctx: RequestContext): string | null {
   throw new ForbiddenUserOperationError();
 }
 
+// Only super-admins manage super-admins, and members who manage users through an
+// organization role cannot change admins or members whose role grants permissions they
+// do not have.
+async function canManageTarget(
+  ctx: RequestContext,
+  target: { user_id: string; role: UserRole; organization_id: string; org_role_id: string | null },
+): Promise<boolean> {
+  if (target.role === UserRole.SUPER_ADMIN) return ctx.actorRole === UserRole.SUPER_ADMIN;
+  if (target.user_id === ctx.actorUserId) return true;
+  if (target.role === UserRole.ADMIN) {
+    return ctx.actorRole === UserRole.ADMIN || ctx.actorRole === UserRole.SUPER_ADMIN;
+  }
+  return orgRoleService.holdsRolePermissions(ctx, target.organization_id, target.org_role_id);
+}
+
 export async function listUsers(ctx: RequestContext) {
   return userRepo.getAllUsers(ctx.effectiveOrgId);
 }
@@ -51,16 +72,15 @@ export async function getUser(ctx: RequestContext, userId: string) {
   return userRepo.getUserById(userId, scopedOrgId);
 }
 
-// Creates a user in the org determined by the actor's role.
+// Resolves the role and org of a user created or invited by the actor.
 // Admins always create within their own org.
 // Super-admins with active org context are scoped to that org.
 // Super-admins without org context must supply organization_id in the body.
 // Role escalation above the actor's own role is rejected.
-export async function createUser(ctx: RequestContext, body: CreateUserInput) {
-  if (ctx.actorRole !== UserRole.ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-    throw new ForbiddenUserOperationError();
-  }
-
+export async function resolveNewUserPlacement(
+  ctx: RequestContext,
+  body: { role?: unknown; organization_id?: unknown; position_id?: string },
+): Promise<{ role: UserRole; organization_id: string }> {
   const role = resolveCreateUserRole(ctx.actorRole, body.role);
   let organization_id: string;
 
@@ -84,38 +104,48 @@ export async function createUser(ctx: RequestContext, body: CreateUserInput) {
     if (!pos) throw new PositionNotFoundError(body.position_id);
   }
 
+  return { role, organization_id };
+}
+
+// Creates a user in the org determined by the actor's role (see resolveNewUserPlacement).
+export async function createUser(ctx: RequestContext, body: CreateUserInput) {
+  requirePermission(ctx, "user.manage");
+
+  const { role, organization_id } = await resolveNewUserPlacement(ctx, body);
+
   return userRepo.createUser({
     name: body.name,
     email: body.email,
     password: body.password,
     position_id: body.position_id,
+    locale: body.locale,
     role,
     organization_id,
   });
 }
 
 export async function updateUser(ctx: RequestContext, targetId: string, body: UpdateUserInput) {
-  if (
-    ctx.actorUserId !== targetId &&
-    ctx.actorRole !== UserRole.ADMIN &&
-    ctx.actorRole !== UserRole.SUPER_ADMIN
-  ) {
+  const canManageUsers = can(ctx, "user.manage");
+  if (ctx.actorUserId !== targetId && !canManageUsers) {
     throw new ForbiddenUserOperationError();
   }
 
-  // Only admins can change a user's role or status; role changes follow the same
+  // Only user managers can change a user's role or status; role changes follow the same
   // escalation rules as user creation (SYSTEM and out-of-bounds roles are rejected).
   if (body.role !== undefined) {
-    if (ctx.actorRole !== UserRole.ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-      throw new ForbiddenUserOperationError();
-    }
+    if (!canManageUsers) throw new ForbiddenUserOperationError();
     body.role = resolveCreateUserRole(ctx.actorRole, body.role);
   }
 
-  if (body.status !== undefined && ctx.actorRole !== UserRole.ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
+  if (body.status !== undefined && !canManageUsers) {
     throw new ForbiddenUserOperationError();
   }
 
+  // An impersonating super-admin cannot change the sign-in credentials of anyone.
+  if (ctx.impersonatorUserId && (body.password !== undefined || body.email !== undefined)) {
+    throw new ForbiddenUserOperationError("Not allowed while impersonating");
+  }
+
   const scopeOrgId = resolveMutationOrgScope(ctx);
 
   // Scoped lookup: out-of-scope users and SUPER_ADMINs in other orgs are both
@@ -123,8 +153,13 @@ export async function updateUser(ctx: RequestContext, targetId: string, body: Up
   // are caught naturally — the org-scoped update that follows will hit 0 rows.
   const targetUser = await userRepo.getUserById(targetId, scopeOrgId);
   if (!targetUser) throw new UserNotFoundError(targetId);
-  if (targetUser.role === UserRole.SUPER_ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-    throw new ForbiddenUserOperationError();
+  if (!(await canManageTarget(ctx, targetUser))) throw new ForbiddenUserOperationError();
+
+  // The organization role must belong to the user's organization; null removes it.
+  if (body.org_role_id) {
+    await orgRoleService.assertAssignableRole(ctx, targetUser.organization_id, body.org_role_id);
+  } else if (body.org_role_id === null) {
+    requirePermission(ctx, "role.manage");
   }
 
   // Resolve the target org before validating the position so a promotion to
@@ -145,9 +180,7 @@ export async function updateUser(ctx: RequestContext, targetId: string, body: Up
 }
 
 export async function deleteUser(ctx: RequestContext, targetId: string) {
-  if (ctx.actorRole !== UserRole.ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-    throw new ForbiddenUserOperationError();
-  }
+  requirePermission(ctx, "user.manage");
 
   // Scoped lookup — same reasoning as updateUser.
   const scopeOrgId = resolveMutationOrgScope(ctx);
@@ -155,9 +188,7 @@ export async function deleteUser(ctx: RequestContext, targetId: string) {
   // Scoped lookup — same reasoning as updateUser.
   const targetUser = await userRepo.getUserById(targetId, scopeOrgId);
   if (!targetUser) throw new UserNotFoundError(targetId);
-  if (targetUser.role === UserRole.SUPER_ADMIN && ctx.actorRole !== UserRole.SUPER_ADMIN) {
-    throw new ForbiddenUserOperationError();
-  }
+  if (!(await canManageTarget(ctx, targetUser))) throw new ForbiddenUserOperationError();
 
   return scopeOrgId
     ? userRepo.deleteUserInOrg(targetId, scopeOrgId)
@@ -171,14 +202,10 @@ export async function registerPushToken(userId: string, pushToken: string | null
 }
 
 // Generates a signed GCS upload URL for the user's profile picture.
-// Only the user themselves or an admin/super-admin may request this.
+// Only the user themselves or a user manager may request this.
 // Admins and scoped super-admins are additionally scoped to their effective org.
 export async function prepareProfilePictureUpload(ctx: RequestContext, userId: string, mimeType: string, fileSize: number) {
-  if (
-    ctx.actorUserId !== userId &&
-    ctx.actorRole !== UserRole.ADMIN &&
-    ctx.actorRole !== UserRole.SUPER_ADMIN
-  ) {
+  if (ctx.actorUserId !== userId && !can(ctx, "user.manage")) {
     throw new ForbiddenUserOperationError();
   }
 
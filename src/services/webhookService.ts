@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import * as webhookRepo from "../repositories/webhookRepository";
+import type { RequestContext } from "../types/requestContext";
+import type { CreateWebhookInput, ListWebhookDeliveriesQuery, UpdateWebhookInput } from "../types/webhook";
+import { retryDelayMs } from "./pushOutboxService";
+import { requirePermission } from "./policyService";
+import { positiveIntFromEnv } from "../utils/envUtils";
+import { assertPublicUrl, postToPublicUrl } from "../utils/netUtils";
+import {
+  MissingOrganizationError,
+  ValidationError,
+  WebhookEndpointDisabledError,
+} from "../errors/domainErrors";
+
+export {
+  WebhookDeliveryNotFoundError,
+  WebhookEndpointNotFoundError,
+  WebhookEndpointDisabledError,
+} from "../errors/domainErrors";
+
+// Outbound webhooks. Every task event is queued for the organization's enabled endpoints
+// subscribed to its type (see webhookRepository.enqueueDeliveriesForEvent) and POSTed as
+// JSON with these headers:
+//   X-Webhook-Id         — the delivery id; a redelivery gets a new one
+//   X-Webhook-Event      — the TaskEventType
+//   X-Webhook-Timestamp  — unix seconds when the request was signed
+//   X-Webhook-Signature  — "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>" keyed by the endpoint secret
+// Receivers should compare the signature in constant time and reject stale timestamps.
+// Endpoint URLs must be https and resolve to public addresses, checked when they are saved
+// and again before every send. Only the response status is kept, never the body.
+
+const MINUTE_MS = 60 * 1000;
+
+// Up to this many deliveries are sent per run; the rest wait for the next run.
+const SEND_BATCH_SIZE = 25;
+// A request that takes longer than this counts as failed.
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A delivery is given up after this many attempts; the backoff is the same as for pushes.
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+function requireAdminRole(ctx: RequestContext) {
+  requirePermission(ctx, "webhook.manage", "Only admins can manage webhooks");
+}
+
+function requireOrg(ctx: RequestContext): string {
+  if (!ctx.effectiveOrgId) throw new MissingOrganizationError();
+  return ctx.effectiveOrgId;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints (API) — org admins only
+// ---------------------------------------------------------------------------
+
+export async function listEndpoints(ctx: RequestContext) {
+  requireAdminRole(ctx);
+  return webhookRepo.getEndpointsByOrg(requireOrg(ctx));
+}
+
+async function requirePublicUrl(url: string): Promise<void> {
+  try {
+    await assertPublicUrl(url);
+  } catch {
+    throw new ValidationError("url must resolve to a public address");
+  }
+}
+
+// The response is the only time the secret is returned.
+export async function createEndpoint(ctx: RequestContext, data: CreateWebhookInput) {
+  requireAdminRole(ctx);
+  await requirePublicUrl(data.url);
+  const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+  return webhookRepo.createEndpoint(requireOrg(ctx), data, secret, ctx.actorUserId);
+}
+
+export async function updateEndpoint(ctx: RequestContext, endpointId: string, data: UpdateWebhookInput) {
+  requireAdminRole(ctx);
+  if (data.url !== undefined) await requirePublicUrl(data.url);
+  return webhookRepo.updateEndpointInOrg(endpointId, requireOrg(ctx), data);
+}
+
+export async function deleteEndpoint(ctx: RequestContext, endpointId: string) {
+  requireAdminRole(ctx);
+  return webhookRepo.deleteEndpointInOrg(endpointId, requireOrg(ctx));
+}
+
+export async function listDeliveries(ctx: RequestContext, endpointId: string, query: ListWebhookDeliveriesQuery) {
+  requireAdminRole(ctx);
+  await webhookRepo.getEndpointInOrg(endpointId, requireOrg(ctx));
+  const deliveries = await webhookRepo.getDeliveriesForEndpoint(endpointId, query);
+  const last = deliveries[deliveries.length - 1];
+  const nextCursor = last && deliveries.length === query.limit ? last.id : null;
+  return { deliveries, nextCursor };
+}
+
+export async function redeliver(ctx: RequestContext, endpointId: string, deliveryId: string) {
+  requireAdminRole(ctx);
+  const endpoint = await webhookRepo.getEndpointInOrg(endpointId, requireOrg(ctx));
+  if (!endpoint.enabled) throw new WebhookEndpointDisabledError();
+  return webhookRepo.redeliver(deliveryId, endpointId);
+}
+
+// ---------------------------------------------------------------------------
+// Delivery (scheduler)
+// ---------------------------------------------------------------------------
+
+export interface WebhookSendSummary {
+  succeeded: number;
+  retried: number;
+  failed: number;
+  disabled: number;
+}
+
+async function post(url: string, secret: string, deliveryId: string, eventType: string, payload: unknown, now: Date) {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return postToPublicUrl(url, {
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": `${process.env.APP_NAME || "AndreassenTask"}-Webhooks`,
+      "X-Webhook-Id": deliveryId,
+      "X-Webhook-Event": eventType,
+      "X-Webhook-Timestamp": String(timestamp),
+      "X-Webhook-Signature": signWebhookPayload(secret, timestamp, body),
+    },
+    body,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  });
+}
+
+// Sends due deliveries one at a time. A 2xx response is a success; anything else,
+// including timeouts, is retried with backoff up to MAX_WEBHOOK_ATTEMPTS. An endpoint
+// is disabled after WEBHOOK_DISABLE_AFTER_FAILURES (default 20) failed attempts in a
+// row, failing its queued deliveries. Called every minute by the scheduler, which
+// makes sure only one replica runs it.
+export async function sendPendingWebhooks(now: Date = new Date()): Promise<WebhookSendSummary> {
+  const summary: WebhookSendSummary = { succeeded: 0, retried: 0, failed: 0, disabled: 0 };
+  const disableAfter = positiveIntFromEnv("WEBHOOK_DISABLE_AFTER_FAILURES", 20);
+  const disabledEndpoints = new Set<string>();
+  const due = await webhookRepo.getDueDeliveries(now, SEND_BATCH_SIZE);
+
+  for (const delivery of due) {
+    if (disabledEndpoints.has(delivery.endpoint_id)) continue;
+
+    const attempts = delivery.attempts + 1;
+    let response: webhookRepo.DeliveryResponse = { status: null };
+    let error: string;
+    try {
+      const result = await post(
+        delivery.endpoint.url,
+        delivery.endpoint.secret,
+        delivery.id,
+        delivery.event_type,
+        delivery.payload,
+        now,
+      );
+      response = { status: result.status };
+      if (result.ok) {
+        await webhookRepo.markSucceeded(delivery.id, attempts, response, now);
+        await webhookRepo.recordEndpointSuccess(delivery.endpoint_id);
+        summary.succeeded++;
+        continue;
+      }
+      error = `HTTP ${result.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      await webhookRepo.markFailed(delivery.id, attempts, response, error);
+      summary.failed++;
+    } else {
+      await webhookRepo.scheduleRetry(delivery.id, attempts, new Date(now.getTime() + retryDelayMs(attempts)), response, error);
+      summary.retried++;
+    }
+
+    const failures = await webhookRepo.recordEndpointFailure(delivery.endpoint_id);
+    if (failures >= disableAfter) {
+      await webhookRepo.disableEndpoint(delivery.endpoint_id, now, `Endpoint disabled after ${failures} failed attempts`);
+      disabledEndpoints.add(delivery.endpoint_id);
+      summary.disabled++;
+      console.warn(`Webhook endpoint ${delivery.endpoint_id} disabled after ${failures} failed attempts`);
+    }
+  }
+  return summary;
+}
+
+// Deletes finished deliveries older than WEBHOOK_DELIVERY_RETENTION_DAYS (default 30).
+export async function pruneWebhookDeliveries(now: Date = new Date()): Promise<number> {
+  const days = positiveIntFromEnv("WEBHOOK_DELIVERY_RETENTION_DAYS", 30);
+  return webhookRepo.deleteFinishedBefore(new Date(now.getTime() - days * 24 * 60 * MINUTE_MS));
+}
@@ -0,0 +1,70 @@
+import type { UserRole } from "../generated/prisma/client";
+
+// API areas a token can be scoped to: the /api/<area> a route is mounted under. /api/auth
+// is not among them; tokens cannot manage sessions or other tokens.
+export const API_TOKEN_AREAS = [
+  "tasks",
+  "users",
+  "assignments",
+  "comments",
+  "task-events",
+  "recurring-templates",
+  "stats",
+  "projects",
+  "organizations",
+  "attachments",
+  "positions",
+  "dashboard",
+  "calendar",
+  "jobs",
+  "notifications",
+  "webhooks",
+  "invitations",
+  "roles",
+] as const;
+
+// "read" allows GET requests and "write" every request, either everywhere or, with an
+// area prefix, in that area only. write includes read.
+export const API_TOKEN_SCOPES = [
+  "read",
+  "write",
+  ...API_TOKEN_AREAS.flatMap((area) => [`${area}:read`, `${area}:write`]),
+];
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: string[];
+  expires_in_days?: number;
+}
+
+export interface CreateServiceTokenInput extends CreateApiTokenInput {
+  role?: UserRole;
+}
+
+// The identity authenticateToken sets as req.user for an API token.
+export interface ApiTokenIdentity {
+  user_id: string;
+  email: string;
+  role: UserRole;
+  name: string | null;
+  organization_id: string;
+  exp?: number;
+  api_token_id: string;
+}
+
+export const apiTokenSelect = {
+  token_id: true,
+  kind: true,
+  name: true,
+  token_prefix: true,
+  scopes: true,
+  user_id: true,
+  organization_id: true,
+  role: true,
+  created_by: true,
+  expires_at: true,
+  last_used_at: true,
+  last_used_ip: true,
+  revoked_at: true,
+  created_at: true,
+};
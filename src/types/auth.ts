@@ -1,3 +1,4 @@
+import type { SessionPlatform } from "../generated/prisma/client";
 import type { SafeUser } from "./user";
 
 export interface LoginRequest {
@@ -5,6 +6,12 @@ export interface LoginRequest {
   password: string;
 }
 
+// The second sign-in step: a code from the authenticator app, or one of the recovery codes.
+export interface SecondFactorInput {
+  code?: string;
+  recovery_code?: string;
+}
+
 export interface LoginResponse {
   success: boolean;
   data?: {
@@ -24,4 +31,21 @@ export interface JWTPayload {
   email: string;
   name: string | null;
   organization_id: string;
+  // Only on impersonation tokens: the super-admin acting as the user, and their session
+  impersonator_id?: string;
+  impersonation_id?: string;
+}
+
+export interface StartImpersonationInput {
+  user_id: string;
+  // Why support is acting as the user; kept on the impersonation record
+  reason: string;
+}
+
+// Where a sign-in comes from, for the login history and new country/device checks.
+export interface LoginClient {
+  platform: SessionPlatform;
+  ip?: string;
+  // The browser and OS for web sign-ins, the name the app sends for mobile ones
+  device_name?: string;
 }
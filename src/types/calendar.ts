@@ -0,0 +1,15 @@
+export interface CreateClosedDayInput {
+  date: Date;
+  name: string;
+}
+
+export interface CalendarRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Working week (0 = Sunday) and closed dates (UTC-midnight timestamps) of one organization.
+export interface OrgCalendar {
+  workingDays: Set<number>;
+  closedDates: Set<number>;
+}
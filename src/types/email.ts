@@ -0,0 +1,11 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// An email to queue in the outbox; user_id links it to a user when there is one.
+export interface NewEmail extends EmailMessage {
+  user_id?: string | null;
+}
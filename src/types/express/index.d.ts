@@ -1,4 +1,5 @@
 import { UserRole } from "../../generated/prisma/client";
+import type { Permission } from "../permission";
 
 declare module "express-serve-static-core" {
   interface Request {
@@ -8,7 +9,12 @@ declare module "express-serve-static-core" {
       role: UserRole;
       name: string | null;
       organization_id: string;
+      exp?: number; // access token expiry, unix seconds
+      impersonator_id?: string; // the super-admin acting as this user
+      impersonation_id?: string;
+      api_token_id?: string; // set when the request authenticated with an API token
     };
     effectiveOrgId: string | null;
+    orgRolePermissions?: Permission[]; // set by requireOrgAccess
   }
 }
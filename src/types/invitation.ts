@@ -0,0 +1,42 @@
+import type { InvitationStatus, UserRole } from "../generated/prisma/client";
+
+export interface CreateInvitationInput {
+  email: string;
+  name?: string;
+  role?: UserRole;
+  position_id?: string;
+  locale?: string | null;
+  organization_id?: string;
+}
+
+export interface ListInvitationsQuery {
+  status?: InvitationStatus;
+}
+
+export interface AcceptInvitationInput {
+  token: string;
+  password: string;
+  name?: string;
+}
+
+export const invitationSelect = {
+  invitation_id: true,
+  organization_id: true,
+  organization: { select: { org_id: true, name: true, default_locale: true } },
+  email: true,
+  name: true,
+  role: true,
+  position_id: true,
+  position: { select: { position_id: true, name: true } },
+  locale: true,
+  status: true,
+  expires_at: true,
+  invited_by: true,
+  inviter: { select: { user_id: true, name: true } },
+  sent_count: true,
+  last_sent_at: true,
+  accepted_at: true,
+  revoked_at: true,
+  created_at: true,
+  updated_at: true,
+};
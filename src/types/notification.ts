@@ -0,0 +1,67 @@
+import type { NotificationType } from "../generated/prisma/client";
+import type { MessageKey, MessageParams } from "../utils/messageCatalog";
+
+// A user to notify. Users without a push token still get the inbox entry.
+export interface NotificationRecipient {
+  user_id: string;
+  push_token: string | null;
+}
+
+// Title and body come from the message catalog in the recipient's locale. message
+// defaults to the type; params fill the catalog's {placeholders}.
+export interface NewNotification {
+  type: NotificationType;
+  message?: MessageKey;
+  params?: MessageParams;
+  data?: Record<string, unknown>;
+  task_id?: string;
+}
+
+// A notification rendered for one recipient, as stored in the inbox and push outbox.
+export interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  task_id?: string;
+}
+
+export interface ListNotificationsQuery {
+  unread?: boolean;
+  cursor?: string;
+  limit: number;
+}
+
+export interface NotificationChannels {
+  push: boolean;
+  in_app: boolean;
+  email: boolean;
+}
+
+// email may be left out by older clients; the stored or default value is kept.
+export interface NotificationPreferenceInput extends Omit<NotificationChannels, "email"> {
+  type: NotificationType;
+  email?: boolean;
+}
+
+// Both times are HH:mm in the organization's timezone.
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface UpdateNotificationPreferencesInput {
+  preferences?: NotificationPreferenceInput[];
+  quiet_hours?: QuietHours | null;
+}
+
+// What notifyUser needs to decide how to deliver one notification to one user.
+export interface DeliverySettings {
+  email: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string | null;
+  // The user's locale, or their organization's default_locale when they have none
+  locale: string;
+  preference: NotificationChannels | null;
+}
@@ -0,0 +1,56 @@
+import { UserRole } from "../generated/prisma/client";
+
+// Permissions checked by the policy evaluator (policyService.can). Members always keep
+// what they own — their tasks, comments, uploads and templates; ".any" permissions extend
+// that to everyone's.
+export const PERMISSIONS = [
+  "task.view.any",
+  "project.view.any",
+  "task.update.any",
+  "task.delete.any",
+  "task.assign",
+  "comment.delete.any",
+  "attachment.delete.any",
+  "template.manage",
+  "stats.view.others",
+  "dashboard.view",
+  "project.manage",
+  "position.manage",
+  "calendar.manage",
+  "user.manage",
+  "role.manage",
+  "invitation.manage",
+  "webhook.manage",
+  "service_token.manage",
+  "sso.manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// What each built-in role grants before any organization role is added. Super-admins
+// are allowed everything.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.SUPER_ADMIN]: PERMISSIONS,
+  [UserRole.ADMIN]: PERMISSIONS,
+  [UserRole.USER]: [],
+  [UserRole.SYSTEM]: [],
+};
+
+export interface CreateOrgRoleInput {
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+}
+
+export type UpdateOrgRoleInput = Partial<CreateOrgRoleInput>;
+
+export const orgRoleSelect = {
+  role_id: true,
+  organization_id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  created_at: true,
+  updated_at: true,
+  _count: { select: { users: true } },
+};
@@ -2,10 +2,12 @@ export interface CreateProjectInput {
   name: string;
   description?: string;
   color?: string;
+  restricted?: boolean;
 }
 
 export interface UpdateProjectInput {
   name?: string;
   description?: string;
   color?: string;
+  restricted?: boolean;
 }
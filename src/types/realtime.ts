@@ -0,0 +1,27 @@
+import type { TaskEventType } from "../generated/prisma/client";
+
+// Narrows a stream to one task (task detail screen) or one project. Without either the
+// caller gets every task event they can see (dashboard).
+export interface StreamFilter {
+  task_id?: string;
+  project_id?: string;
+}
+
+// The data of a task_event message.
+export interface TaskStreamEvent {
+  event_id: string;
+  type: TaskEventType;
+  task_id: string;
+  project_id: string;
+  actor_id: string | null;
+  message: string | null;
+  before: unknown;
+  after: unknown;
+  created_at: string;
+}
+
+// task_event carries one event; reset tells the client it missed events that cannot be
+// replayed (the last seen id is unknown or too far back) and should refetch.
+export type StreamMessage =
+  | { kind: "task_event"; event: TaskStreamEvent }
+  | { kind: "reset" };
@@ -1,5 +1,6 @@
 import { UserRole } from "../generated/prisma/client";
 import type { Request } from "express";
+import type { Permission } from "./permission";
 
 export interface RequestContext {
   actorUserId: string;
@@ -7,6 +8,12 @@ export interface RequestContext {
   actorOrgId: string | null;
   effectiveOrgId: string | null;
   isSuperAdmin: boolean;
+  // Granted by the member's organization role, on top of actorRole's. Loaded by
+  // requireOrgAccess; absent on routes without it.
+  orgRolePermissions?: readonly Permission[];
+  // The super-admin acting as the actor through an impersonation token; recorded on the
+  // task events they write.
+  impersonatorUserId?: string | null;
 }
 
 export function getRequestContext(req: Request): RequestContext | null {
@@ -18,5 +25,7 @@ export function getRequestContext(req: Request): RequestContext | null {
     actorOrgId: req.user.organization_id,
     effectiveOrgId: req.effectiveOrgId,
     isSuperAdmin: req.user.role === UserRole.SUPER_ADMIN,
+    orgRolePermissions: req.orgRolePermissions,
+    impersonatorUserId: req.user.impersonator_id ?? null,
   };
 }
@@ -0,0 +1,32 @@
+import type { SessionPlatform, UserRole } from "../generated/prisma/client";
+
+export interface SaveSsoConfigInput {
+  issuer: string;
+  client_id: string;
+  // Required when single sign-on is first set up; omitted to keep the stored secret
+  client_secret?: string;
+  allowed_domains: string[];
+  default_role?: UserRole;
+  default_position_id?: string | null;
+  enabled?: boolean;
+}
+
+export interface StartSsoLoginInput {
+  email: string;
+  platform: SessionPlatform;
+  device_name?: string;
+}
+
+// What ties a callback to the client that started the attempt: a browser's binding
+// cookie, or the code_verifier the app kept.
+export interface SsoClientBinding {
+  browserBinding?: string;
+  codeVerifier?: string;
+}
+
+// The user a completed single sign-on signs in, and where the session goes.
+export interface SsoLoginResult {
+  user_id: string;
+  platform: SessionPlatform;
+  device_name: string | null;
+}
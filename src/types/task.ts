@@ -38,3 +38,36 @@ export interface CreateGoalInput {
   unit: TaskUnit;
   current_quantity?: number;
 }
+
+export type TaskSortField = "created_at" | "updated_at" | "deadline" | "start_date" | "priority" | "number";
+
+export type SortOrder = "asc" | "desc";
+
+// Filters accepted by GET /api/tasks. All filters are AND-ed together;
+// array filters match any of the supplied values.
+export interface TaskListFilters {
+  project_id?: string;
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
+  assignee?: string;
+  creator?: string;
+  // null restricts the list to top-level tasks (no parent).
+  parent_task_id?: string | null;
+  deadline_from?: Date;
+  deadline_to?: Date;
+  start_date_from?: Date;
+  start_date_to?: Date;
+  has_goal?: boolean;
+}
+
+export interface TaskListQuery extends TaskListFilters {
+  sort: TaskSortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+export interface TaskSearchQuery {
+  q: string;
+  limit: number;
+}
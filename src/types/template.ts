@@ -1,4 +1,10 @@
-import type { TaskPriority, RecurrenceFrequency, TaskUnit } from "../generated/prisma/client";
+import type {
+  ClosedDayPolicy,
+  TaskPriority,
+  RecurrenceFrequency,
+  RecurringExceptionType,
+  TaskUnit,
+} from "../generated/prisma/client";
 
 export interface TemplateGoalInput {
   target_quantity: number;
@@ -14,6 +20,8 @@ export interface CreateTemplateInput {
   interval?: number;
   days_of_week?: number[];
   day_of_month?: number;
+  rrule?: string;
+  closed_day_policy?: ClosedDayPolicy;
   start_date: Date;
   end_date?: Date;
   project_id: string;
@@ -28,11 +36,35 @@ export interface UpdateTemplateInput {
   priority?: TaskPriority;
   frequency?: RecurrenceFrequency;
   interval?: number;
-  days_of_week?: number[];
-  day_of_month?: number;
+  days_of_week?: number[] | null;
+  day_of_month?: number | null;
+  rrule?: string | null;
+  closed_day_policy?: ClosedDayPolicy;
   start_date?: Date;
   end_date?: Date | null;
   project_id?: string;
   assigned_users?: string[];
   goal?: TemplateGoalInput | null;
 }
+
+// How far ahead the nightly job keeps each active template filled out: every
+// occurrence within `days`, and never fewer than `minOccurrences` future instances
+// (so sparse MONTHLY/YEARLY templates still have something scheduled).
+export interface RecurringHorizon {
+  days: number;
+  minOccurrences: number;
+}
+
+export interface RecurringGenerationSummary {
+  run_id: string;
+  templates_checked: number;
+  templates_extended: number;
+  templates_failed: number;
+  instances_created: number;
+}
+
+export interface CreateTemplateExceptionInput {
+  occurrence_date: Date;
+  type: RecurringExceptionType;
+  moved_to?: Date;
+}
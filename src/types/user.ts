@@ -5,6 +5,11 @@ export interface PositionSummary {
   name: string;
 }
 
+export interface OrgRoleSummary {
+  role_id: string;
+  name: string;
+}
+
 export interface OrganizationSummary {
   org_id: string;
   name: string;
@@ -17,8 +22,11 @@ export interface SafeUser {
   position_id: string | null;
   position: PositionSummary | null;
   role: UserRole;
+  org_role_id: string | null;
+  orgRole: OrgRoleSummary | null;
   status: UserStatus;
   profile_picture_url: string | null;
+  locale: string | null;
   organization_id: string;
   organization: OrganizationSummary;
   created_at: Date;
@@ -31,8 +39,10 @@ export interface UpdateUserInput {
   password?: string;
   role?: UserRole;
   status?: UserStatus;
+  org_role_id?: string | null;
   position_id?: string | null;
   profile_picture_url?: string | null;
+  locale?: string | null;
   organization_id?: string;
 }
 
@@ -42,6 +52,7 @@ export interface CreateUserInput {
   password: string;
   role?: UserRole;
   position_id?: string;
+  locale?: string | null;
   organization_id: string;
 }
 
@@ -50,6 +61,13 @@ export const userSelect = {
   name: true,
   email: true,
   role: true,
+  org_role_id: true,
+  orgRole: {
+    select: {
+      role_id: true,
+      name: true,
+    },
+  },
   status: true,
   position_id: true,
   position: {
@@ -59,6 +77,7 @@ export const userSelect = {
     },
   },
   profile_picture_url: true,
+  locale: true,
   organization_id: true,
   organization: {
     select: {
@@ -0,0 +1,36 @@
+import type { TaskEventType, WebhookDeliveryStatus } from "../generated/prisma/client";
+
+export interface CreateWebhookInput {
+  url: string;
+  description?: string | null;
+  event_types: TaskEventType[];
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  description?: string | null;
+  event_types?: TaskEventType[];
+  enabled?: boolean;
+}
+
+export interface ListWebhookDeliveriesQuery {
+  status?: WebhookDeliveryStatus;
+  cursor?: string;
+  limit: number;
+}
+
+// The JSON body POSTed to an endpoint: one task event, with the same before/after
+// snapshots that are stored on the event itself.
+export interface WebhookPayload {
+  id: string;
+  type: TaskEventType;
+  created_at: string;
+  organization_id: string;
+  // Skips and moves of recurring occurrences are about template_id and have no task_id
+  task_id: string | null;
+  template_id: string | null;
+  actor_id: string | null;
+  message: string | null;
+  before: unknown;
+  after: unknown;
+}
@@ -25,12 +25,24 @@ function getUTCOffsetMs(utcDate: Date, tz: string): number {
   return ms;
 }
 
+/**
+ * Returns true if `tz` is an IANA timezone name the runtime knows (e.g. "America/New_York").
+ */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Returns half-open [start, end) UTC bounds for the calendar day that `date`
- * falls on in the app timezone, correctly handling DST transitions.
+ * falls on in the given timezone (default: app timezone), correctly handling DST transitions.
  */
-export function appDayBounds(date: Date): { start: Date; end: Date } {
-  const parts = new Intl.DateTimeFormat("en-CA", { timeZone: APP_TIMEZONE })
+export function appDayBounds(date: Date, timeZone: string = APP_TIMEZONE): { start: Date; end: Date } {
+  const parts = new Intl.DateTimeFormat("en-CA", { timeZone })
     .format(date)
     .split("-")
     .map(Number) as [number, number, number];
@@ -40,16 +52,54 @@ export function appDayBounds(date: Date): { start: Date; end: Date } {
   const nextMidnightUTC = new Date(Date.UTC(year, month - 1, day + 1));
 
   return {
-    start: new Date(midnightUTC.getTime() - getUTCOffsetMs(midnightUTC, APP_TIMEZONE)),
-    end: new Date(nextMidnightUTC.getTime() - getUTCOffsetMs(nextMidnightUTC, APP_TIMEZONE)),
+    start: new Date(midnightUTC.getTime() - getUTCOffsetMs(midnightUTC, timeZone)),
+    end: new Date(nextMidnightUTC.getTime() - getUTCOffsetMs(nextMidnightUTC, timeZone)),
+  };
+}
+
+/**
+ * Returns the date key (YYYY-MM-DD) for a UTC Date as seen in the given timezone (default: app timezone).
+ */
+export function appDateKey(date = new Date(), timeZone: string = APP_TIMEZONE): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(date);
+}
+
+/**
+ * Returns the wall-clock time (HH:mm, 24-hour) for a UTC Date as seen in the given timezone.
+ */
+export function appTimeKey(date = new Date(), timeZone: string = APP_TIMEZONE): string {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${get("hour")}:${get("minute")}`;
+}
+
+/**
+ * Returns the minutes from one wall-clock time (HH:mm) to another on the same day;
+ * negative when `to` is earlier.
+ */
+export function minutesBetweenTimeKeys(from: string, to: string): number {
+  const minutes = (key: string) => {
+    const [hours, mins] = key.split(":").map(Number) as [number, number];
+    return hours * 60 + mins;
   };
+  return minutes(to) - minutes(from);
 }
 
 /**
- * Returns the date key (YYYY-MM-DD) for a UTC Date as seen in the app timezone.
+ * Returns the UTC instant of a wall-clock time (HH:mm) on a YYYY-MM-DD date in the given timezone.
+ * A time skipped by a DST jump resolves to the same offset as just before the jump.
  */
-export function appDateKey(date = new Date()): string {
-  return new Intl.DateTimeFormat("en-CA", { timeZone: APP_TIMEZONE }).format(date);
+export function appTimeToUTC(dateKey: string, timeKey: string, timeZone: string = APP_TIMEZONE): Date {
+  const [y, m, d] = dateKey.split("-").map(Number) as [number, number, number];
+  const [h, min] = timeKey.split(":").map(Number) as [number, number];
+  const wallClock = Date.UTC(y, m - 1, d, h, min);
+  const guess = wallClock - getUTCOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - getUTCOffsetMs(new Date(guess), timeZone));
 }
 
 function dateKeyToLocal(key: string): Date {
@@ -61,44 +111,44 @@ function dateKeyToLocal(key: string): Date {
  * Returns the UTC DateTime bounds for a given YYYY-MM-DD date key.
  * Uses noon UTC to safely handle DST transition days.
  */
-export function dateKeyBounds(key: string): { start: Date; end: Date } {
+export function dateKeyBounds(key: string, timeZone: string = APP_TIMEZONE): { start: Date; end: Date } {
   const [y, m, d] = key.split("-").map(Number) as [number, number, number];
-  return appDayBounds(new Date(Date.UTC(y, m - 1, d, 12)));
+  return appDayBounds(new Date(Date.UTC(y, m - 1, d, 12)), timeZone);
 }
 
 /**
  * Returns the Monday of the current app-timezone week as YYYY-MM-DD.
  */
-export function appWeekStartKey(date = new Date()): string {
-  const today = dateKeyToLocal(appDateKey(date));
+export function appWeekStartKey(date = new Date(), timeZone: string = APP_TIMEZONE): string {
+  const today = dateKeyToLocal(appDateKey(date, timeZone));
   return format(startOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd");
 }
 
 /**
  * Returns the first day of the current app-timezone month as YYYY-MM-DD.
  */
-export function appMonthStartKey(date = new Date()): string {
-  const today = dateKeyToLocal(appDateKey(date));
+export function appMonthStartKey(date = new Date(), timeZone: string = APP_TIMEZONE): string {
+  const today = dateKeyToLocal(appDateKey(date, timeZone));
   return format(startOfMonth(today), "yyyy-MM-dd");
 }
 
 /**
  * Returns UTC DateTime bounds for the current app-timezone week (Mon–Sun).
  */
-export function appWeekBoundsUTC(date = new Date()): { start: Date; end: Date } {
-  const weekStartKey = appWeekStartKey(date);
+export function appWeekBoundsUTC(date = new Date(), timeZone: string = APP_TIMEZONE): { start: Date; end: Date } {
+  const weekStartKey = appWeekStartKey(date, timeZone);
   const weekEndKey = addDaysToKey(weekStartKey, 7);
   return {
-    start: dateKeyBounds(weekStartKey).start,
-    end: dateKeyBounds(weekEndKey).start,
+    start: dateKeyBounds(weekStartKey, timeZone).start,
+    end: dateKeyBounds(weekEndKey, timeZone).start,
   };
 }
 
 /**
  * Returns the UTC DateTime for the start of the current app-timezone month.
  */
-export function appMonthStartUTC(date = new Date()): Date {
-  return dateKeyBounds(appMonthStartKey(date)).start;
+export function appMonthStartUTC(date = new Date(), timeZone: string = APP_TIMEZONE): Date {
+  return dateKeyBounds(appMonthStartKey(date, timeZone), timeZone).start;
 }
 
 /**
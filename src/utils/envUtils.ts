@@ -0,0 +1,18 @@
+/**
+ * Reads a positive integer from the environment, falling back when it is unset or invalid.
+ */
+export function positiveIntFromEnv(key: string, fallback: number): number {
+  const value = Number(process.env[key]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Builds a link to a frontend page: the URL in overrideKey, else defaultPath on the first
+ * FRONTEND_URL, with params added to the query string.
+ */
+export function frontendLink(overrideKey: string, defaultPath: string, params: Record<string, string>): string {
+  const frontend = (process.env.FRONTEND_URL ?? "http://localhost:9000").split(",")[0]!.trim();
+  const url = new URL(process.env[overrideKey] || `${frontend.replace(/\/$/, "")}${defaultPath}`);
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  return url.toString();
+}
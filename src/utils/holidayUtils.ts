@@ -0,0 +1,51 @@
+export type PublicHoliday = { date: Date; name: string };
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher). Returns UTC midnight,
+// matching how @db.Date columns are read back.
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function offsetDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+// Danish public holidays plus the days most workplaces close anyway (Grundlovsdag,
+// Juleaftensdag, Nytårsaftensdag). Store Bededag was abolished from 2024.
+export function danishHolidays(year: number): PublicHoliday[] {
+  const easter = easterSunday(year);
+  const fixed = (month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+  const holidays: PublicHoliday[] = [
+    { date: fixed(1, 1), name: "Nytårsdag" },
+    { date: offsetDays(easter, -3), name: "Skærtorsdag" },
+    { date: offsetDays(easter, -2), name: "Langfredag" },
+    { date: easter, name: "Påskedag" },
+    { date: offsetDays(easter, 1), name: "2. påskedag" },
+    { date: offsetDays(easter, 39), name: "Kristi himmelfartsdag" },
+    { date: offsetDays(easter, 49), name: "Pinsedag" },
+    { date: offsetDays(easter, 50), name: "2. pinsedag" },
+    { date: fixed(6, 5), name: "Grundlovsdag" },
+    { date: fixed(12, 24), name: "Juleaftensdag" },
+    { date: fixed(12, 25), name: "Juledag" },
+    { date: fixed(12, 26), name: "2. juledag" },
+    { date: fixed(12, 31), name: "Nytårsaftensdag" },
+  ];
+  if (year < 2024) holidays.push({ date: offsetDays(easter, 26), name: "Store bededag" });
+
+  return holidays.sort((x, y) => x.date.getTime() - y.date.getTime());
+}
@@ -0,0 +1,219 @@
+import type { NotificationType, TaskUnit } from "../generated/prisma/client";
+
+export const SUPPORTED_LOCALES = ["da", "en", "pl"] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Used when neither the user nor their organization has a locale we support.
+export const DEFAULT_LOCALE: Locale = "da";
+
+// Notification types, plus variants for recipients who get a different wording and
+// account emails that are not notifications.
+export type MessageKey =
+  | NotificationType
+  | "COMMENT_CREATED_ADMIN"
+  | "PASSWORD_RESET"
+  | "INVITATION"
+  | "SUSPICIOUS_LOGIN";
+
+// A param is a value, or a function for values that read differently per locale.
+export type MessageParams = Record<string, string | number | ((locale: Locale) => string)>;
+
+// A plain string, or one string per plural category of the locale, picked by `count`.
+type Template = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+interface MessageTemplate {
+  title: Template;
+  body: Template;
+}
+
+const CATALOG: Record<Locale, Record<MessageKey, MessageTemplate>> = {
+  da: {
+    TASK_ASSIGNED: { title: "Ny opgave tildelt", body: "Du er blevet tildelt: {task}" },
+    COMMENT_CREATED: { title: "Ny kommentar på din opgave", body: "{task}" },
+    COMMENT_CREATED_ADMIN: { title: "Ny kommentar", body: "{task}" },
+    COMMENT_REPLY: { title: "Nyt svar på din kommentar", body: "{task}" },
+    COMMENT_MENTION: { title: "Du blev nævnt i en kommentar", body: "{task}" },
+    PRIORITY_CHANGED: { title: "Prioritet ændret", body: "{task} – prioritet ændret til høj" },
+    DAILY_BRIEFING: {
+      title: { one: "{count} opgave i dag", other: "{count} opgaver i dag" },
+      body: "Tryk for at se dagens program",
+    },
+    NO_ACTIVITY_REMINDER: { title: "Ingen aktivitet i dag", body: "Husk at logge din fremgang" },
+    DAILY_DIGEST: {
+      title: "Dagens overblik",
+      body: "Afsluttet: {completed} · Fremgang: {progress} · Forfaldne: {overdue} · Nye kommentarer: {comments} · Uden tildeling: {unassigned}",
+    },
+    WEEKLY_DIGEST: {
+      title: "Ugens overblik",
+      body: "Afsluttet: {completed} · Fremgang: {progress} · Forfaldne: {overdue} · Nye kommentarer: {comments} · Uden tildeling: {unassigned}",
+    },
+    PASSWORD_RESET: {
+      title: "Nulstil din adgangskode",
+      body: "Vi har modtaget en anmodning om at nulstille din adgangskode til {app}. Åbn linket inden for {minutes} minutter for at vælge en ny:\n\n{url}\n\nHvis det ikke var dig, kan du se bort fra denne e-mail.",
+    },
+    INVITATION: {
+      title: "Du er inviteret til {org}",
+      body: "Du er blevet inviteret til {org} på {app}. Åbn linket inden for {days} dage for at vælge din adgangskode og komme i gang:\n\n{url}",
+    },
+    SUSPICIOUS_LOGIN: {
+      title: "Nyt login på din konto",
+      body: "Der er logget ind på din {app}-konto fra {device} ({location}) den {time}.\n\nHvis det ikke var dig, så åbn dette link inden for {days} dage for at logge enheden ud, og skift derefter din adgangskode:\n\n{url}",
+    },
+  },
+  en: {
+    TASK_ASSIGNED: { title: "New task assigned", body: "You have been assigned: {task}" },
+    COMMENT_CREATED: { title: "New comment on your task", body: "{task}" },
+    COMMENT_CREATED_ADMIN: { title: "New comment", body: "{task}" },
+    COMMENT_REPLY: { title: "New reply to your comment", body: "{task}" },
+    COMMENT_MENTION: { title: "You were mentioned in a comment", body: "{task}" },
+    PRIORITY_CHANGED: { title: "Priority changed", body: "{task} – priority changed to high" },
+    DAILY_BRIEFING: {
+      title: { one: "{count} task today", other: "{count} tasks today" },
+      body: "Tap to see today's schedule",
+    },
+    NO_ACTIVITY_REMINDER: { title: "No activity today", body: "Remember to log your progress" },
+    DAILY_DIGEST: {
+      title: "Today's summary",
+      body: "Completed: {completed} · Progress: {progress} · Overdue: {overdue} · New comments: {comments} · Unassigned: {unassigned}",
+    },
+    WEEKLY_DIGEST: {
+      title: "This week's summary",
+      body: "Completed: {completed} · Progress: {progress} · Overdue: {overdue} · New comments: {comments} · Unassigned: {unassigned}",
+    },
+    PASSWORD_RESET: {
+      title: "Reset your password",
+      body: "We received a request to reset your {app} password. Open this link within {minutes} minutes to choose a new one:\n\n{url}\n\nIf this wasn't you, you can ignore this email.",
+    },
+    INVITATION: {
+      title: "You're invited to {org}",
+      body: "You have been invited to join {org} on {app}. Open this link within {days} days to choose your password and get started:\n\n{url}",
+    },
+    SUSPICIOUS_LOGIN: {
+      title: "New sign-in to your account",
+      body: "Your {app} account was signed in to from {device} ({location}) on {time}.\n\nIf this wasn't you, open this link within {days} days to sign that device out, then change your password:\n\n{url}",
+    },
+  },
+  pl: {
+    TASK_ASSIGNED: { title: "Nowe zadanie", body: "Przydzielono Ci: {task}" },
+    COMMENT_CREATED: { title: "Nowy komentarz do Twojego zadania", body: "{task}" },
+    COMMENT_CREATED_ADMIN: { title: "Nowy komentarz", body: "{task}" },
+    COMMENT_REPLY: { title: "Nowa odpowiedź na Twój komentarz", body: "{task}" },
+    COMMENT_MENTION: { title: "Wspomniano o Tobie w komentarzu", body: "{task}" },
+    PRIORITY_CHANGED: { title: "Zmiana priorytetu", body: "{task} – priorytet zmieniony na wysoki" },
+    DAILY_BRIEFING: {
+      title: {
+        one: "{count} zadanie na dziś",
+        few: "{count} zadania na dziś",
+        many: "{count} zadań na dziś",
+        other: "{count} zadania na dziś",
+      },
+      body: "Dotknij, aby zobaczyć dzisiejszy plan",
+    },
+    NO_ACTIVITY_REMINDER: { title: "Brak aktywności dzisiaj", body: "Pamiętaj, aby zapisać swoje postępy" },
+    DAILY_DIGEST: {
+      title: "Podsumowanie dnia",
+      body: "Ukończone: {completed} · Postęp: {progress} · Zaległe: {overdue} · Nowe komentarze: {comments} · Bez przypisania: {unassigned}",
+    },
+    WEEKLY_DIGEST: {
+      title: "Podsumowanie tygodnia",
+      body: "Ukończone: {completed} · Postęp: {progress} · Zaległe: {overdue} · Nowe komentarze: {comments} · Bez przypisania: {unassigned}",
+    },
+    PASSWORD_RESET: {
+      title: "Zresetuj hasło",
+      body: "Otrzymaliśmy prośbę o zresetowanie hasła do {app}. Otwórz ten link w ciągu {minutes} minut, aby ustawić nowe hasło:\n\n{url}\n\nJeśli to nie Ty, zignoruj tę wiadomość.",
+    },
+    INVITATION: {
+      title: "Zaproszenie do {org}",
+      body: "Zaproszono Cię do {org} w {app}. Otwórz ten link w ciągu {days} dni, aby ustawić hasło i zacząć:\n\n{url}",
+    },
+    SUSPICIOUS_LOGIN: {
+      title: "Nowe logowanie na Twoje konto",
+      body: "Zalogowano się na Twoje konto {app} z {device} ({location}) {time}.\n\nJeśli to nie Ty, otwórz ten link w ciągu {days} dni, aby wylogować to urządzenie, a następnie zmień hasło:\n\n{url}",
+    },
+  },
+};
+
+const UNIT_LABELS: Record<Locale, Record<TaskUnit, string>> = {
+  da: {
+    NONE: "stk.",
+    METERS: "m",
+    M2: "m²",
+    M3: "m³",
+    LOADS: "læs",
+    PLUGS: "propper",
+    HOURS: "timer",
+    TONS: "t",
+    KILOMETERS: "km",
+    LITERS: "l",
+    KILOGRAMS: "kg",
+  },
+  en: {
+    NONE: "pcs",
+    METERS: "m",
+    M2: "m²",
+    M3: "m³",
+    LOADS: "loads",
+    PLUGS: "plugs",
+    HOURS: "h",
+    TONS: "t",
+    KILOMETERS: "km",
+    LITERS: "l",
+    KILOGRAMS: "kg",
+  },
+  pl: {
+    NONE: "szt.",
+    METERS: "m",
+    M2: "m²",
+    M3: "m³",
+    LOADS: "kursy",
+    PLUGS: "korki",
+    HOURS: "godz.",
+    TONS: "t",
+    KILOMETERS: "km",
+    LITERS: "l",
+    KILOGRAMS: "kg",
+  },
+};
+
+export function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+// The user's own locale, else their organization's, else DEFAULT_LOCALE.
+export function resolveLocale(...candidates: (string | null | undefined)[]): Locale {
+  return candidates.find((c): c is Locale => !!c && isSupportedLocale(c)) ?? DEFAULT_LOCALE;
+}
+
+// e.g. "12,5 m²" in Danish.
+export function formatQuantity(quantity: number, unit: TaskUnit, locale: Locale): string {
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(quantity);
+  return `${number} ${UNIT_LABELS[locale][unit]}`;
+}
+
+// Replaces {name} placeholders with params; unknown placeholders are left as they are.
+function interpolate(locale: Locale, template: Template, params: MessageParams): string {
+  let text: string;
+  if (typeof template === "string") {
+    text = template;
+  } else {
+    const category = new Intl.PluralRules(locale).select(Number(params.count ?? 0));
+    text = template[category] ?? template.other;
+  }
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "function" ? value(locale) : String(value);
+  });
+}
+
+export function renderMessage(
+  key: MessageKey,
+  locale: Locale,
+  params: MessageParams = {},
+): { title: string; body: string } {
+  const template = CATALOG[locale][key];
+  return {
+    title: interpolate(locale, template.title, params),
+    body: interpolate(locale, template.body, params),
+  };
+}
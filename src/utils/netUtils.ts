@@ -0,0 +1,121 @@
+import dns from "dns";
+import https from "https";
+import net from "net";
+
+// Outbound requests to URLs that admins configure (webhook endpoints, identity providers)
+// must not reach the server's own network: loopback, private, link-local (cloud metadata),
+// carrier-grade NAT and other special-purpose ranges are refused.
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  if (family === 4) return !blockedAddresses.check(address, "ipv4");
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return !blockedAddresses.check(mapped[1]!, "ipv4");
+  return !blockedAddresses.check(address, "ipv6");
+}
+
+// The addresses the URL's host resolves to, if it is https and every one of them is public.
+async function resolvePublicAddresses(url: URL): Promise<dns.LookupAddress[]> {
+  if (url.protocol !== "https:") throw new Error(`${url.origin} does not use https`);
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.promises.lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some((a) => !isPublicAddress(a.address))) {
+    throw new Error(`${url.hostname} does not resolve to a public address`);
+  }
+  return addresses;
+}
+
+/**
+ * Resolves the URL's host and throws unless it is https and every address it resolves to
+ * is public. Check again right before each request: DNS answers can change.
+ */
+export async function assertPublicUrl(rawUrl: string): Promise<void> {
+  await resolvePublicAddresses(new URL(rawUrl));
+}
+
+export interface PublicPostOptions {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+/**
+ * POSTs to a URL that passes assertPublicUrl, connecting to the address that was checked
+ * rather than looking the host up again, so a host whose DNS answer changes in between
+ * cannot send the request to an internal address. Redirects are not followed and the
+ * response body is discarded.
+ */
+export async function postToPublicUrl(rawUrl: string, options: PublicPostOptions): Promise<{ ok: boolean; status: number }> {
+  const url = new URL(rawUrl);
+  const [pinned] = await resolvePublicAddresses(url);
+  const lookup: net.LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) (callback as (err: null, addresses: dns.LookupAddress[]) => void)(null, [pinned!]);
+    else callback(null, pinned!.address, pinned!.family);
+  };
+  return new Promise((resolve, reject) => {
+    const req = https.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...options.headers, "Content-Length": String(Buffer.byteLength(options.body)) },
+        lookup,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        const status = res.statusCode ?? 0;
+        resolve({ ok: status >= 200 && status < 300, status });
+      },
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+// The host's TXT records, each joined from its chunks. A host without any has none.
+export async function resolveTxtRecords(host: string): Promise<string[]> {
+  try {
+    const records = await dns.promises.resolveTxt(host);
+    return records.map((chunks) => chunks.join(""));
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === dns.NODATA || code === dns.NOTFOUND) return [];
+    throw err;
+  }
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { assertPublicUrl } from "./netUtils";
+
+// The OpenID Connect authorization code flow with PKCE, as a confidential client
+// (client_secret_post): discovery, the authorization URL, the code exchange and ID token
+// verification against the provider's JWKS. The server only calls public https hosts
+// (see netUtils) and does not follow redirects. Failures throw plain Errors; callers
+// decide how they surface.
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Discovery documents and key sets are fetched again after this long; an unknown key id
+// refetches the key set at once, so rotated keys are picked up.
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256", "RS384", "RS512",
+  "PS256", "PS384", "PS512",
+  "ES256", "ES384", "ES512",
+];
+
+const providerMetadataSchema = z.object({
+  issuer: z.string().min(1),
+  authorization_endpoint: z.url(),
+  token_endpoint: z.url(),
+  jwks_uri: z.url(),
+});
+
+const jwksSchema = z.object({
+  keys: z.array(z.looseObject({ kty: z.string(), kid: z.string().optional(), use: z.string().optional() })),
+});
+
+const tokenResponseSchema = z.object({ id_token: z.string().min(1) });
+
+const errorResponseSchema = z.object({
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+const idTokenClaimsSchema = z.looseObject({
+  sub: z.string().min(1),
+  email: z.string().optional(),
+  // Some providers send the flag as a string
+  email_verified: z.union([z.boolean(), z.enum(["true", "false"]).transform((v) => v === "true")]).optional(),
+  name: z.string().optional(),
+  nonce: z.string().optional(),
+});
+
+export type OidcProviderMetadata = z.infer<typeof providerMetadataSchema>;
+export type IdTokenClaims = z.infer<typeof idTokenClaimsSchema>;
+type Jwk = z.infer<typeof jwksSchema>["keys"][number];
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+async function fetchJson<T extends z.ZodType>(url: string, schema: T, init?: RequestInit): Promise<z.infer<T>> {
+  await assertPublicUrl(url);
+  const res = await fetch(url, { ...init, redirect: "error", signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error = errorResponseSchema.safeParse(body);
+    const detail = (error.success && (error.data.error_description ?? error.data.error)) || res.statusText;
+    throw new Error(`${url} responded ${res.status}: ${detail}`);
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) throw new Error(`${url} returned an unexpected response: ${parsed.error.message}`);
+  return parsed.data;
+}
+
+function base64Url(bytes: Buffer): string {
+  return bytes.toString("base64url");
+}
+
+export function generateOidcSecret(): string {
+  return base64Url(crypto.randomBytes(32));
+}
+
+// The S256 code_challenge for a PKCE code_verifier.
+export function codeChallenge(codeVerifier: string): string {
+  return base64Url(crypto.createHash("sha256").update(codeVerifier).digest());
+}
+
+export async function discoverProvider(issuer: string, now: number = Date.now()): Promise<OidcProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) return cached.metadata;
+
+  const metadata = await fetchJson(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    providerMetadataSchema,
+  );
+  if (metadata.issuer.replace(/\/$/, "") !== issuer.replace(/\/$/, "")) {
+    throw new Error(`Discovery document for ${issuer} names a different issuer: ${metadata.issuer}`);
+  }
+  metadataCache.set(issuer, { metadata, fetchedAt: now });
+  return metadata;
+}
+
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    client_id: string;
+    redirect_uri: string;
+    state: string;
+    nonce: string;
+    code_verifier: string;
+    login_hint?: string;
+  },
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("client_id", params.client_id);
+  url.searchParams.set("redirect_uri", params.redirect_uri);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", codeChallenge(params.code_verifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.login_hint) url.searchParams.set("login_hint", params.login_hint);
+  return url.toString();
+}
+
+// Exchanges an authorization code for the ID token.
+export async function exchangeCode(
+  metadata: OidcProviderMetadata,
+  params: { client_id: string; client_secret: string; code: string; redirect_uri: string; code_verifier: string },
+): Promise<string> {
+  const body = await fetchJson(metadata.token_endpoint, tokenResponseSchema, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({ grant_type: "authorization_code", ...params }).toString(),
+  });
+  return body.id_token;
+}
+
+async function getSigningKey(metadata: OidcProviderMetadata, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = (keys: Jwk[]) => keys.find((k) => (kid ? k.kid === kid : true) && (!k.use || k.use === "sig"));
+
+  const cached = jwksCache.get(metadata.jwks_uri);
+  let jwk = cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS ? find(cached.keys) : undefined;
+  if (!jwk) {
+    const { keys } = await fetchJson(metadata.jwks_uri, jwksSchema);
+    jwksCache.set(metadata.jwks_uri, { keys, fetchedAt: Date.now() });
+    jwk = find(keys);
+  }
+  if (!jwk) throw new Error(`No signing key ${kid ?? ""} in ${metadata.jwks_uri}`);
+  return crypto.createPublicKey({ key: jwk as crypto.webcrypto.JsonWebKey, format: "jwk" });
+}
+
+// Checks the ID token's signature, issuer, audience, expiry and nonce and returns its claims.
+export async function verifyIdToken(
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  expected: { client_id: string; nonce: string },
+): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") throw new Error("ID token is not a JWT");
+
+  const key = await getSigningKey(metadata, decoded.header.kid);
+  const payload = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: metadata.issuer,
+    audience: expected.client_id,
+  });
+  const parsed = idTokenClaimsSchema.safeParse(payload);
+  if (!parsed.success) throw new Error(`ID token claims are invalid: ${parsed.error.message}`);
+
+  const claims = parsed.data;
+  if (claims.nonce !== expected.nonce) throw new Error("ID token nonce does not match");
+  return claims;
+}
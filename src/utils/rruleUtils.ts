@@ -0,0 +1,69 @@
+import { Frequency, RRule, type Options } from "rrule";
+import { RecurrenceFrequency } from "../generated/prisma/client";
+import { ValidationError } from "../errors/domainErrors";
+
+const MAX_RRULE_LENGTH = 500;
+
+const FREQUENCY_MAP: Partial<Record<Frequency, RecurrenceFrequency>> = {
+  [Frequency.DAILY]: RecurrenceFrequency.DAILY,
+  [Frequency.WEEKLY]: RecurrenceFrequency.WEEKLY,
+  [Frequency.MONTHLY]: RecurrenceFrequency.MONTHLY,
+  [Frequency.YEARLY]: RecurrenceFrequency.YEARLY,
+};
+
+// Parses the RRULE part of an RFC 5545 rule ("FREQ=MONTHLY;BYDAY=-1FR", with or without
+// the "RRULE:" prefix). Templates are day-based and take DTSTART from start_date, so
+// sub-daily frequencies, time-of-day parts and an embedded DTSTART are rejected.
+export function parseTemplateRRule(value: string): Partial<Options> {
+  const trimmed = value.trim();
+  if (trimmed === "") throw new ValidationError("rrule must be a non-empty string");
+  if (trimmed.length > MAX_RRULE_LENGTH) {
+    throw new ValidationError(`rrule must be at most ${MAX_RRULE_LENGTH} characters`);
+  }
+  if (/(^|\n)\s*DTSTART/i.test(trimmed)) {
+    throw new ValidationError("rrule must not contain DTSTART; start_date is used instead");
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(trimmed);
+  } catch (err) {
+    throw new ValidationError(`rrule is not a valid RRULE: ${(err as Error).message}`);
+  }
+
+  if (options.freq === undefined || FREQUENCY_MAP[options.freq] === undefined) {
+    throw new ValidationError("rrule FREQ must be one of: DAILY, WEEKLY, MONTHLY, YEARLY");
+  }
+  if (options.byhour != null || options.byminute != null || options.bysecond != null) {
+    throw new ValidationError("rrule must not contain BYHOUR, BYMINUTE or BYSECOND");
+  }
+  if (options.interval !== undefined && (!Number.isInteger(options.interval) || options.interval < 1)) {
+    throw new ValidationError("rrule INTERVAL must be a positive integer");
+  }
+  if (options.count != null && options.until != null) {
+    throw new ValidationError("rrule must not contain both COUNT and UNTIL");
+  }
+
+  return options;
+}
+
+// Simple-field equivalents stored alongside the rule so existing readers of
+// frequency/interval keep working.
+export function rruleFrequency(options: Partial<Options>): RecurrenceFrequency {
+  return FREQUENCY_MAP[options.freq!]!;
+}
+
+export function rruleInterval(options: Partial<Options>): number {
+  return options.interval ?? 1;
+}
+
+// Canonical form stored on the template, without the "RRULE:" prefix.
+export function normalizeRRule(options: Partial<Options>): string {
+  return RRule.optionsToString(options).replace(/^RRULE:/, "");
+}
+
+// Builds the rule anchored at a template start_date (@db.Date, UTC midnight).
+// rrule works in "floating" UTC, so every occurrence is also a UTC-midnight date.
+export function buildTemplateRRule(value: string, startDate: Date): RRule {
+  return new RRule({ ...parseTemplateRRule(value), dtstart: startDate });
+}
@@ -0,0 +1,71 @@
+// InnoDB ignores full-text tokens shorter than innodb_ft_min_token_size (3 by default),
+// so shorter words are dropped instead of silently matching nothing.
+const MIN_TERM_LENGTH = 3;
+const MAX_TERMS = 10;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 200;
+
+export type SnippetHighlight = { start: number; end: number };
+
+export function searchTerms(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= MIN_TERM_LENGTH);
+  return [...new Set(words)].slice(0, MAX_TERMS);
+}
+
+// Builds a MySQL BOOLEAN MODE expression: every term is an optional prefix match, and
+// the whole phrase is added so rows containing it verbatim rank above scattered words.
+// Terms only contain letters and digits, so no boolean operators can leak through.
+export function toBooleanQuery(terms: string[]): string {
+  const parts = terms.map((t) => `${t}*`);
+  if (terms.length > 1) parts.push(`"${terms.join(" ")}"`);
+  return parts.join(" ");
+}
+
+function termPattern(terms: string[]): RegExp {
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join("|")})[\\p{L}\\p{N}]*`, "giu");
+}
+
+export function containsTerm(text: string | null | undefined, terms: string[]): boolean {
+  if (!text || terms.length === 0) return false;
+  return termPattern(terms).test(text);
+}
+
+// Cuts a window of text around the first matching word and returns the character ranges
+// of every matching word inside it. Ranges are returned instead of markup so each client
+// can render highlights its own way without having to escape user content.
+export function buildSnippet(
+  text: string,
+  terms: string[],
+): { snippet: string; highlights: SnippetHighlight[] } {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const first = terms.length > 0 ? flat.search(termPattern(terms)) : -1;
+
+  let start = first > SNIPPET_BEFORE ? first - SNIPPET_BEFORE : 0;
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  let end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    if (space > Math.max(start, first)) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? "…" : "");
+
+  const highlights: SnippetHighlight[] = [];
+  if (terms.length > 0) {
+    const body = snippet.slice(prefix.length);
+    for (const match of body.matchAll(termPattern(terms))) {
+      const from = prefix.length + (match.index ?? 0);
+      highlights.push({ start: from, end: from + match[0].length });
+    }
+  }
+
+  return { snippet, highlights };
+}
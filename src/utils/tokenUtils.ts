@@ -2,13 +2,18 @@ import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import type { UserRole } from "../generated/prisma/client";
 
-export function generateAccessToken(user: {
-  user_id: string;
-  role: UserRole;
-  email: string;
-  name: string | null;
-  organization_id: string | null;
-}): string {
+// Impersonation tokens carry the super-admin and their impersonation session, and last
+// until the session expires instead of the usual 15 minutes.
+export function generateAccessToken(
+  user: {
+    user_id: string;
+    role: UserRole;
+    email: string;
+    name: string | null;
+    organization_id: string | null;
+  },
+  impersonation?: { impersonator_id: string; impersonation_id: string; expires_at: Date },
+): string {
   const secret = process.env.JWT_SECRET;
   if (!secret) throw new Error("JWT_SECRET is not configured");
   return jwt.sign(
@@ -18,9 +23,17 @@ export function generateAccessToken(user: {
       email: user.email,
       name: user.name,
       organization_id: user.organization_id,
+      ...(impersonation && {
+        impersonator_id: impersonation.impersonator_id,
+        impersonation_id: impersonation.impersonation_id,
+      }),
     },
     secret,
-    { expiresIn: "15m" },
+    {
+      expiresIn: impersonation
+        ? Math.max(1, Math.floor((impersonation.expires_at.getTime() - Date.now()) / 1000))
+        : "15m",
+    },
   );
 }
 
@@ -28,6 +41,11 @@ export function generateRawRefreshToken(): string {
   return crypto.randomBytes(40).toString("hex");
 }
 
+// One-time tokens for emailed links (password reset, invitations). Only the hash is stored.
+export function generateRawLinkToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
 export function hashToken(raw: string): string {
   return crypto.createHash("sha256").update(raw).digest("hex");
 }
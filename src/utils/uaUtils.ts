@@ -7,6 +7,12 @@ export function parseLocation(ip: string | undefined): string | undefined {
   return [geo.city, geo.country].filter(Boolean).join(", ") || undefined;
 }
 
+// ISO 3166-1 alpha-2 code, e.g. "NO".
+export function parseCountry(ip: string | undefined): string | undefined {
+  if (!ip) return undefined;
+  return geoip.lookup(ip)?.country || undefined;
+}
+
 export function parseBrowserDeviceName(
   ua: string | undefined,
 ): string | undefined {
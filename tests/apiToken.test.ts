@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import type { NextFunction, Request, Response } from "express";
+import { ApiTokenKind, UserRole, UserStatus } from "../src/generated/prisma/client";
+import { authenticateToken } from "../src/middleware/auth";
+import * as apiTokenRepo from "../src/repositories/apiTokenRepository";
+import * as apiTokenService from "../src/services/apiTokenService";
+import { createServiceTokenSchema } from "../src/schemas/authSchemas";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const storedToken = (overrides: Record<string, any> = {}) => ({
+  token_id: "t1",
+  kind: ApiTokenKind.PERSONAL,
+  name: "CI",
+  scopes: ["tasks:write"],
+  organization_id: null,
+  role: null,
+  expires_at: null,
+  revoked_at: null,
+  last_used_at: null,
+  user: {
+    user_id: "u1",
+    email: "u1@example.com",
+    name: "User One",
+    role: UserRole.ADMIN,
+    organization_id: "org1",
+    status: UserStatus.ACTIVE,
+  },
+  ...overrides,
+});
+
+const tasksGet = { baseUrl: "/api/tasks", method: "GET", ip: "10.0.0.1" };
+
+describe("scopesAllow", () => {
+  test("write includes read and area scopes stay in their area", () => {
+    expect(apiTokenService.scopesAllow(["read"], "tasks", "read")).toBe(true);
+    expect(apiTokenService.scopesAllow(["read"], "tasks", "write")).toBe(false);
+    expect(apiTokenService.scopesAllow(["tasks:write"], "tasks", "read")).toBe(true);
+    expect(apiTokenService.scopesAllow(["tasks:write"], "users", "read")).toBe(false);
+    expect(apiTokenService.scopesAllow(["write"], "users", "write")).toBe(true);
+  });
+});
+
+describe("authenticateApiToken", () => {
+  test("acts as the user of a personal token and records the use", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth").mockResolvedValue(storedToken() as never);
+    const touchSpy = spyOn(apiTokenRepo, "touchToken").mockResolvedValue();
+
+    const identity = await apiTokenService.authenticateApiToken("pat_x", tasksGet, now);
+
+    expect(identity).toEqual({
+      user_id: "u1",
+      email: "u1@example.com",
+      name: "User One",
+      role: UserRole.ADMIN,
+      organization_id: "org1",
+      exp: undefined,
+      api_token_id: "t1",
+    });
+    expect(touchSpy).toHaveBeenCalledWith("t1", "10.0.0.1", now);
+  });
+
+  test("acts as the service account with the token's role and organization", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth").mockResolvedValue(
+      storedToken({
+        kind: ApiTokenKind.SERVICE,
+        role: UserRole.USER,
+        organization_id: "org2",
+        user: {
+          user_id: "svc1",
+          email: "service+1@api-tokens.invalid",
+          name: "CI",
+          role: UserRole.SYSTEM,
+          organization_id: "org2",
+          status: UserStatus.ACTIVE,
+        },
+      }) as never,
+    );
+    spyOn(apiTokenRepo, "touchToken").mockResolvedValue();
+
+    const identity = await apiTokenService.authenticateApiToken("sat_x", tasksGet, now);
+
+    expect(identity).toMatchObject({ user_id: "svc1", role: UserRole.USER, organization_id: "org2", name: "CI" });
+  });
+
+  test("rejects revoked and expired tokens", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth")
+      .mockResolvedValueOnce(storedToken({ revoked_at: new Date("2026-05-01T00:00:00Z") }) as never)
+      .mockResolvedValueOnce(storedToken({ expires_at: now }) as never);
+    const touchSpy = spyOn(apiTokenRepo, "touchToken");
+
+    await expect(apiTokenService.authenticateApiToken("pat_x", tasksGet, now)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(apiTokenService.authenticateApiToken("pat_x", tasksGet, now)).rejects.toMatchObject({ statusCode: 401 });
+    expect(touchSpy).not.toHaveBeenCalled();
+  });
+
+  test("rejects a personal token of a terminated user", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth").mockResolvedValue(
+      storedToken({ user: { ...storedToken().user, status: UserStatus.TERMINATED } }) as never,
+    );
+    const touchSpy = spyOn(apiTokenRepo, "touchToken").mockResolvedValue();
+
+    await expect(apiTokenService.authenticateApiToken("pat_x", tasksGet, now)).rejects.toMatchObject({
+      statusCode: 403,
+      message: "User account has been terminated",
+    });
+    expect(touchSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses requests outside the token's scopes and on /api/auth", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth").mockResolvedValue(storedToken({ scopes: ["tasks:read"] }) as never);
+
+    await expect(
+      apiTokenService.authenticateApiToken("pat_x", { baseUrl: "/api/tasks", method: "POST" }, now),
+    ).rejects.toBeInstanceOf(apiTokenService.ApiTokenScopeError);
+    await expect(
+      apiTokenService.authenticateApiToken("pat_x", { baseUrl: "/api/auth", method: "GET" }, now),
+    ).rejects.toBeInstanceOf(apiTokenService.ApiTokenScopeError);
+  });
+});
+
+describe("isApiTokenActive", () => {
+  const validity = (overrides: Record<string, any> = {}) => ({
+    expires_at: null,
+    revoked_at: null,
+    user: { status: UserStatus.ACTIVE },
+    ...overrides,
+  });
+
+  test("stays active until the token is revoked, expires or its user is terminated", async () => {
+    const spy = spyOn(apiTokenRepo, "getTokenValidity").mockResolvedValue(validity() as never);
+    expect(await apiTokenService.isApiTokenActive("t1", now)).toBe(true);
+
+    spy.mockResolvedValue(validity({ revoked_at: now }) as never);
+    expect(await apiTokenService.isApiTokenActive("t1", now)).toBe(false);
+
+    spy.mockResolvedValue(validity({ expires_at: now }) as never);
+    expect(await apiTokenService.isApiTokenActive("t1", now)).toBe(false);
+
+    spy.mockResolvedValue(validity({ user: { status: UserStatus.TERMINATED } }) as never);
+    expect(await apiTokenService.isApiTokenActive("t1", now)).toBe(false);
+  });
+});
+
+describe("authenticateToken with API tokens", () => {
+  test("resolves a personal token into the same request context as a JWT", async () => {
+    spyOn(apiTokenRepo, "getTokenForAuth").mockResolvedValue(storedToken() as never);
+    spyOn(apiTokenRepo, "touchToken").mockResolvedValue();
+    const req = { headers: { authorization: "Bearer pat_x" }, baseUrl: "/api/tasks", method: "GET" } as Request;
+    const res = {} as Response;
+
+    await new Promise<void>((resolve) => authenticateToken(req, res, (() => resolve()) as NextFunction));
+
+    expect(req.user?.user_id).toBe("u1");
+    expect(req.effectiveOrgId).toBe("org1");
+  });
+});
+
+describe("createServiceToken", () => {
+  const tokenManager = {
+    actorUserId: "u2",
+    actorRole: UserRole.USER,
+    actorOrgId: "org1",
+    effectiveOrgId: "org1",
+    isSuperAdmin: false,
+    orgRolePermissions: ["service_token.manage" as const],
+  };
+
+  test("refuses an admin token to a member who manages tokens through an organization role", async () => {
+    const createSpy = spyOn(apiTokenRepo, "createServiceToken");
+
+    await expect(
+      apiTokenService.createServiceToken(tokenManager, { name: "CI", scopes: ["read"], role: UserRole.ADMIN }, now),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("lets that member create a token with the member role", async () => {
+    const createSpy = spyOn(apiTokenRepo, "createServiceToken").mockResolvedValue({
+      token: { token_id: "t2" },
+      raw: "sat_x",
+    } as never);
+
+    const token = await apiTokenService.createServiceToken(tokenManager, { name: "CI", scopes: ["read"] }, now);
+
+    expect(token).toMatchObject({ token_id: "t2", token: "sat_x" });
+    expect(createSpy).toHaveBeenCalledWith("org1", UserRole.USER, expect.objectContaining({ created_by: "u2" }));
+  });
+});
+
+describe("createServiceTokenSchema", () => {
+  test("deduplicates scopes and rejects unknown ones", () => {
+    expect(createServiceTokenSchema.parse({ name: " CI ", scopes: ["read", "read"] })).toEqual({ name: "CI", scopes: ["read"] });
+    expect(createServiceTokenSchema.safeParse({ name: "CI", scopes: ["auth:read"] }).success).toBe(false);
+    expect(createServiceTokenSchema.safeParse({ name: "CI", scopes: ["read"], role: UserRole.SUPER_ADMIN }).success).toBe(false);
+  });
+});
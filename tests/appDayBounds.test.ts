@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { appDayBounds } from "../src/utils/dateUtils";
+import { appDateKey, appDayBounds, appTimeKey, appTimeToUTC, isValidTimeZone } from "../src/utils/dateUtils";
 
 /**
  * Copenhagen is UTC+1 (CET) in winter and UTC+2 (CEST) in summer.
@@ -75,3 +75,36 @@ describe("appDayBounds", () => {
     expect(day1.end.getTime()).toBe(day2.start.getTime());
   });
 });
+
+describe("timezone-aware date helpers", () => {
+  test("appDayBounds uses the given timezone", () => {
+    // 2024-01-15 06:25 UTC is still 2024-01-15 in New York (EST, UTC-5)
+    const { start, end } = appDayBounds(new Date("2024-01-15T06:25:00Z"), "America/New_York");
+
+    expect(start.toISOString()).toBe("2024-01-15T05:00:00.000Z");
+    expect(end.toISOString()).toBe("2024-01-16T05:00:00.000Z");
+  });
+
+  test("appDateKey and appTimeKey read the wall clock in the given timezone", () => {
+    const instant = new Date("2024-07-15T23:30:00Z");
+
+    expect(appDateKey(instant)).toBe("2024-07-16");
+    expect(appTimeKey(instant)).toBe("01:30");
+    expect(appDateKey(instant, "America/Los_Angeles")).toBe("2024-07-15");
+    expect(appTimeKey(instant, "America/Los_Angeles")).toBe("16:30");
+    expect(appTimeKey(new Date("2024-07-15T22:00:00Z"), "Europe/Copenhagen")).toBe("00:00");
+  });
+
+  test("appTimeToUTC converts a local wall-clock time, across DST changes", () => {
+    expect(appTimeToUTC("2024-01-15", "07:00").toISOString()).toBe("2024-01-15T06:00:00.000Z");
+    expect(appTimeToUTC("2024-07-15", "07:00").toISOString()).toBe("2024-07-15T05:00:00.000Z");
+    // Copenhagen switches to CEST at 02:00 on 2024-03-31
+    expect(appTimeToUTC("2024-03-31", "07:00").toISOString()).toBe("2024-03-31T05:00:00.000Z");
+    expect(appTimeToUTC("2024-07-15", "07:00", "America/New_York").toISOString()).toBe("2024-07-15T11:00:00.000Z");
+  });
+
+  test("isValidTimeZone accepts IANA names only", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
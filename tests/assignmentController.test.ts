@@ -64,6 +64,7 @@ function createRequest(overrides: Record<string, any> = {}): Request {
 
 afterEach(() => {
   mock.restore();
+  transactionMock.mockReset();
 });
 
 describe("assignmentController.listAssignments", () => {
@@ -78,13 +79,23 @@ describe("assignmentController.listAssignments", () => {
 
     await callController(assignmentController.listAssignments, req, res);
 
-    expect(repoSpy).toHaveBeenCalledWith("u1", null);
+    expect(repoSpy).toHaveBeenCalledWith("u1", null, null);
     expect(res.body).toEqual({ success: true, data });
   });
+
+  test("limits a plain user to the tasks they can see", async () => {
+    const repoSpy = spyOn(assignmentRepo, "getTaskAssignments").mockResolvedValue([]);
+    const req = createRequest({ user: { user_id: "u2", role: "USER" }, query: { taskId: "t1" } });
+
+    await callController(assignmentController.listAssignments, req, createMockResponse());
+
+    expect(repoSpy).toHaveBeenCalledWith("t1", null, "u2");
+  });
 });
 
 describe("assignmentController.assignTask", () => {
   test("creates assignment and logs ASSIGNMENT_CREATED", async () => {
+    transactionMock.mockImplementation((fn: any) => fn({}));
     const assignment = { assignment_id: "a1", task_id: "t1" };
     spyOn(taskRepo, "getTaskById").mockResolvedValue(
       { task_id: "t1", status: TaskStatus.IN_PROGRESS } as never,
@@ -92,7 +103,7 @@ describe("assignmentController.assignTask", () => {
     const assignSpy = spyOn(assignmentRepo, "assignTaskToUser").mockResolvedValue(
       assignment as never,
     );
-    spyOn(userRepo, "getPushToken").mockResolvedValue(null);
+    spyOn(userRepo, "getRecipient").mockResolvedValue(null);
     const eventSpy = spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue(
       {} as never,
     );
@@ -104,7 +115,7 @@ describe("assignmentController.assignTask", () => {
 
     await callController(assignmentController.assignTask, req, res);
 
-    expect(assignSpy).toHaveBeenCalledWith({ task_id: "t1", user_id: "u2" }, null);
+    expect(assignSpy).toHaveBeenCalledWith({}, { task_id: "t1", user_id: "u2" }, null);
     expect(eventSpy).toHaveBeenCalledTimes(1);
     // createTaskEvent(db, data) — check second arg (index 1) for the event type
     expect(eventSpy.mock.calls[0]?.[1]?.type).toBe(
@@ -131,6 +142,7 @@ describe("assignmentController.assignTask", () => {
   });
 
   test("rejects assigning task to a user from another organization", async () => {
+    transactionMock.mockImplementation((fn: any) => fn({}));
     spyOn(taskRepo, "getTaskById").mockResolvedValue(
       { task_id: "t1", status: TaskStatus.IN_PROGRESS } as never,
     );
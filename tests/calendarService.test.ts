@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { ClosedDayPolicy, UserRole } from "../src/generated/prisma/client";
+import { ForbiddenUserOperationError } from "../src/errors/domainErrors";
+import type { OrgCalendar } from "../src/types/calendar";
+
+const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: transactionMock },
+}));
+
+const calendarRepo = await import("../src/repositories/calendarRepository");
+const calendarService = await import("../src/services/calendarService");
+
+afterEach(() => {
+  mock.restore();
+  transactionMock.mockReset();
+});
+
+const utc = (key: string) => new Date(`${key}T00:00:00.000Z`);
+const day = (d: Date | null) => d?.toISOString().slice(0, 10) ?? null;
+
+// Mon–Fri with Kristi himmelfartsdag (Thursday 2026-05-14) closed.
+const calendar: OrgCalendar = {
+  workingDays: new Set([1, 2, 3, 4, 5]),
+  closedDates: new Set([utc("2026-05-14").getTime()]),
+};
+
+describe("calendarService.applyClosedDayPolicy", () => {
+  test("keeps working days and ignores closed days under IGNORE", () => {
+    expect(day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-13"), ClosedDayPolicy.SKIP))).toBe(
+      "2026-05-13",
+    );
+    expect(day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-14"), ClosedDayPolicy.IGNORE))).toBe(
+      "2026-05-14",
+    );
+  });
+
+  test("skips, or shifts to the nearest working day", () => {
+    expect(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-14"), ClosedDayPolicy.SKIP)).toBeNull();
+    expect(
+      day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-14"), ClosedDayPolicy.NEXT_WORKING_DAY)),
+    ).toBe("2026-05-15");
+    expect(
+      day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-16"), ClosedDayPolicy.NEXT_WORKING_DAY)),
+    ).toBe("2026-05-18");
+    expect(
+      day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-18"), ClosedDayPolicy.PREVIOUS_WORKING_DAY)),
+    ).toBe("2026-05-18");
+    expect(
+      day(calendarService.applyClosedDayPolicy(calendar, utc("2026-05-17"), ClosedDayPolicy.PREVIOUS_WORKING_DAY)),
+    ).toBe("2026-05-15");
+  });
+
+  test("drops the occurrence when there is no working day within reach", () => {
+    const closed: OrgCalendar = { workingDays: new Set(), closedDates: new Set() };
+    expect(
+      calendarService.applyClosedDayPolicy(closed, utc("2026-05-14"), ClosedDayPolicy.NEXT_WORKING_DAY),
+    ).toBeNull();
+  });
+});
+
+describe("calendarService.isOrganizationClosed", () => {
+  test("is closed on non-working weekdays without looking up closed days", async () => {
+    const closedSpy = spyOn(calendarRepo, "hasClosedDay").mockResolvedValue(false);
+
+    expect(await calendarService.isOrganizationClosed("org-1", null, "2026-05-16")).toBe(true);
+    expect(await calendarService.isOrganizationClosed("org-1", [1, 2, 3, 5], "2026-05-14")).toBe(true);
+    expect(closedSpy).not.toHaveBeenCalled();
+  });
+
+  test("is closed on the organization's closed days", async () => {
+    const closedSpy = spyOn(calendarRepo, "hasClosedDay").mockResolvedValue(true);
+
+    expect(await calendarService.isOrganizationClosed("org-1", null, "2026-05-14")).toBe(true);
+    expect(day(closedSpy.mock.calls[0]![1])).toBe("2026-05-14");
+  });
+
+  test("is open on a working day with no closed day", async () => {
+    spyOn(calendarRepo, "hasClosedDay").mockResolvedValue(false);
+
+    expect(await calendarService.isOrganizationClosed("org-1", [0, 6], "2026-05-16")).toBe(false);
+  });
+});
+
+describe("calendarService.ensureHolidaysSeeded", () => {
+  test("seeds only the years an organization has not had yet", async () => {
+    spyOn(calendarRepo, "getOrganizationsWithHolidaysBefore").mockResolvedValue([
+      { org_id: "org-new", holidays_seeded_through: null, timezone: null },
+      { org_id: "org-old", holidays_seeded_through: 2026, timezone: "America/New_York" },
+    ]);
+    const seedSpy = spyOn(calendarRepo, "seedHolidays").mockResolvedValue(13);
+    transactionMock.mockImplementation((fn) => fn({}));
+
+    await calendarService.ensureHolidaysSeeded(new Date("2026-10-19T12:00:00.000Z"));
+
+    const years = (holidays: { date: Date }[]) => [...new Set(holidays.map((h) => h.date.getUTCFullYear()))];
+    expect(seedSpy.mock.calls[0]![1]).toBe("org-new");
+    expect(years(seedSpy.mock.calls[0]![2])).toEqual([2026, 2027]);
+    expect(seedSpy.mock.calls[0]![3]).toBe(2027);
+    expect(seedSpy.mock.calls[1]![1]).toBe("org-old");
+    expect(years(seedSpy.mock.calls[1]![2])).toEqual([2027]);
+  });
+
+  test("starts an organization's new year in its own timezone", async () => {
+    spyOn(calendarRepo, "getOrganizationsWithHolidaysBefore").mockResolvedValue([
+      { org_id: "org-nz", holidays_seeded_through: 2027, timezone: "Pacific/Auckland" },
+      { org_id: "org-ny", holidays_seeded_through: 2027, timezone: "America/New_York" },
+    ]);
+    const seedSpy = spyOn(calendarRepo, "seedHolidays").mockResolvedValue(13);
+    transactionMock.mockImplementation((fn) => fn({}));
+
+    // Already 2027 in Auckland, still 2026 in New York
+    await calendarService.ensureHolidaysSeeded(new Date("2026-12-31T12:00:00.000Z"));
+
+    expect(seedSpy).toHaveBeenCalledTimes(1);
+    expect(seedSpy.mock.calls[0]![1]).toBe("org-nz");
+    expect(seedSpy.mock.calls[0]![3]).toBe(2028);
+  });
+});
+
+describe("calendarService admin operations", () => {
+  test("rejects calendar changes from non-admins", async () => {
+    const ctx = {
+      actorUserId: "u1",
+      actorRole: UserRole.USER,
+      actorOrgId: "org-1",
+      effectiveOrgId: "org-1",
+      isSuperAdmin: false,
+    };
+
+    await expect(calendarService.updateWorkingDays(ctx, [1, 2, 3])).rejects.toBeInstanceOf(
+      ForbiddenUserOperationError,
+    );
+    await expect(
+      calendarService.addClosedDay(ctx, { date: utc("2026-12-23"), name: "Lillejuleaften" }),
+    ).rejects.toBeInstanceOf(ForbiddenUserOperationError);
+  });
+
+  test("stores working days sorted and without duplicates", async () => {
+    const updateSpy = spyOn(calendarRepo, "updateWorkingDays").mockResolvedValue({
+      org_id: "org-1",
+      working_days: [1, 2, 3, 4],
+    } as never);
+    const ctx = {
+      actorUserId: "a1",
+      actorRole: UserRole.ADMIN,
+      actorOrgId: "org-1",
+      effectiveOrgId: "org-1",
+      isSuperAdmin: false,
+    };
+
+    const result = await calendarService.updateWorkingDays(ctx, [4, 1, 3, 2, 1]);
+
+    expect(updateSpy).toHaveBeenCalledWith("org-1", [1, 2, 3, 4]);
+    expect(result).toEqual({ working_days: [1, 2, 3, 4] });
+  });
+});
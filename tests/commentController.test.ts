@@ -1,6 +1,6 @@
-import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
 import type { Request, Response } from "express";
-import { Task, TaskStatus, UserRole } from "../src/generated/prisma/client";
+import { NotificationType, Task, TaskStatus, UserRole, UserStatus } from "../src/generated/prisma/client";
 import { InvalidUploadTokenError } from "../src/errors/domainErrors";
 import { errorMiddleware } from "../src/middleware/errorMiddleware";
 
@@ -19,6 +19,8 @@ import * as commentRepo from "../src/repositories/commentRepository";
 import * as attachmentRepo from "../src/repositories/attachmentRepository";
 import * as taskEventRepo from "../src/repositories/taskEventRepository";
 import * as userRepo from "../src/repositories/userRepository";
+import * as notificationRepo from "../src/repositories/notificationRepository";
+import * as pushOutboxRepo from "../src/repositories/pushOutboxRepository";
 import * as storageService from "../src/services/storageService";
 
 // prisma.task.findFirst is called directly by commentService.
@@ -27,7 +29,6 @@ const findFirstMock = mock<(...args: any[]) => Promise<Task | null>>(() =>
   Promise.resolve({ status: TaskStatus.PENDING } as Task),
 );
 const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
-const sendPushNotificationMock = mock<(...args: any[]) => Promise<void>>();
 
 mock.module("../src/db/prisma", () => ({
   prisma: {
@@ -36,10 +37,6 @@ mock.module("../src/db/prisma", () => ({
   },
 }));
 
-mock.module("../src/services/notificationService", () => ({
-  sendPushNotification: sendPushNotificationMock,
-}));
-
 const commentController = await import("../src/controllers/commentController");
 
 type MockResponse = Response & {
@@ -75,9 +72,17 @@ function createRequest(overrides: Record<string, any> = {}): Request {
   } as Request;
 }
 
+let createNotificationSpy: ReturnType<typeof spyOn>;
+let enqueuePushSpy: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  createNotificationSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+  spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(null);
+  enqueuePushSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+});
+
 afterEach(() => {
   mock.restore();
-  sendPushNotificationMock.mockReset();
   transactionMock.mockReset();
 });
 
@@ -151,8 +156,7 @@ describe("commentController.createComment", () => {
       project: { organization_id: "org1" },
     } as any);
 
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     const createdComment = {
       comment_id: "c1",
@@ -195,8 +199,7 @@ describe("commentController.createComment", () => {
       project: { organization_id: "org1" },
     } as any);
 
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     const createdComment = {
       comment_id: "c1",
@@ -244,8 +247,8 @@ describe("commentController.createComment", () => {
       attachments: [],
       author: { name: "Alice", email: "alice@example.com" },
     } as never);
-    spyOn(userRepo, "getPushTokenInOrg").mockResolvedValue(null);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getRecipientInOrg").mockResolvedValue(null);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
     transactionMock.mockImplementation(async (fn: any) => fn({}));
     const createSpy = spyOn(commentRepo, "createComment").mockResolvedValue({
       comment_id: "reply-1",
@@ -327,8 +330,8 @@ describe("commentController.createComment", () => {
       attachments: [{ attachment_id: "a1" }],
       author: { name: null, email: "alice@example.com" },
     } as never);
-    spyOn(userRepo, "getPushTokenInOrg").mockResolvedValue("ExponentPushToken[reply]");
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getRecipientInOrg").mockResolvedValue({ user_id: "u2", push_token: "ExponentPushToken[reply]" });
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
     transactionMock.mockImplementation(async (fn: any) => fn({}));
     const createSpy = spyOn(commentRepo, "createComment").mockResolvedValue({
       comment_id: "reply-1",
@@ -353,13 +356,12 @@ describe("commentController.createComment", () => {
       reply_author_id: "u2",
       reply_author_name: "alice@example.com",
     });
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "ExponentPushToken[reply]",
-      "Nyt svar på din kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "u2",
+      expect.objectContaining({ title: "Nyt svar på din kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -372,7 +374,7 @@ describe("commentController.createComment", () => {
       project: { organization_id: "org1" },
     } as any);
 
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
     transactionMock.mockImplementation(async (fn: any) => fn({}));
     spyOn(commentRepo, "createComment").mockResolvedValue({
       comment_id: "c1",
@@ -412,7 +414,6 @@ describe("commentController.createComment — notification routing", () => {
       attachments: [],
     } as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    sendPushNotificationMock.mockResolvedValue(undefined);
   }
 
   test("notifies non-commenter, non-admin assignee", async () => {
@@ -427,20 +428,19 @@ describe("commentController.createComment — notification routing", () => {
       ],
       project: { organization_id: "org1" },
     } as any);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     await callController(
       commentController.createComment,
       createRequest({ params: { taskId: "t1", screen: "comments" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "hello" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-u2",
-      "Ny kommentar på din opgave",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "u2",
+      expect.objectContaining({ title: "Ny kommentar på din opgave", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -455,14 +455,14 @@ describe("commentController.createComment — notification routing", () => {
       ],
       project: { organization_id: "org1" },
     } as any);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     await callController(
       commentController.createComment,
       createRequest({ params: { taskId: "t1", screen: "comments" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "hello" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
   test("skips admin-role assignees from the assignee loop (they get a separate admin notification instead)", async () => {
@@ -476,7 +476,7 @@ describe("commentController.createComment — notification routing", () => {
       ],
       project: { organization_id: "org1" },
     } as any);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
       { user_id: "a1", push_token: "token-a1" },
     ]);
 
@@ -485,13 +485,12 @@ describe("commentController.createComment — notification routing", () => {
       createRequest({ params: { taskId: "t1", screen: "comments" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "hello" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a1",
-      "Ny kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "a1",
+      expect.objectContaining({ title: "Ny kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -504,7 +503,7 @@ describe("commentController.createComment — notification routing", () => {
       assignments: [],
       project: { organization_id: "org1" },
     } as any);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
       { user_id: "a1", push_token: "token-a1" },
     ]);
 
@@ -513,13 +512,12 @@ describe("commentController.createComment — notification routing", () => {
       createRequest({ params: { taskId: "t1", screen: "comments" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "hello" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a1",
-      "Ny kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "a1",
+      expect.objectContaining({ title: "Ny kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -540,15 +538,15 @@ describe("commentController.createComment — notification routing", () => {
       attachments: [],
       author: { name: "Former", email: "former@example.com" },
     } as never);
-    spyOn(userRepo, "getPushTokenInOrg").mockResolvedValue("ExponentPushToken[former]");
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getRecipientInOrg").mockResolvedValue({ user_id: "u2", push_token: "ExponentPushToken[former]" });
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     await callController(
       commentController.createComment,
       createRequest({ params: { taskId: "t1" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "Reply", reply_to_comment_id: "parent-1" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
   test("does not send reply notification when reply target has no push token (e.g. terminated)", async () => {
@@ -557,7 +555,7 @@ describe("commentController.createComment — notification routing", () => {
       task_id: "t1",
       title: "Test Task",
       created_by: "u1",
-      assignments: [{ user_id: "u2", user: { user_id: "u2", role: UserRole.USER, push_token: null } }],
+      assignments: [{ user_id: "u2", user: { user_id: "u2", role: UserRole.USER, status: UserStatus.TERMINATED, push_token: null } }],
       project: { organization_id: "org1" },
     } as any);
     spyOn(commentRepo, "getCommentById").mockResolvedValue({
@@ -568,15 +566,44 @@ describe("commentController.createComment — notification routing", () => {
       attachments: [],
       author: { name: "Terminated", email: "terminated@example.com" },
     } as never);
-    spyOn(userRepo, "getPushTokenInOrg").mockResolvedValue(null);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getRecipientInOrg").mockResolvedValue(null);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     await callController(
       commentController.createComment,
       createRequest({ params: { taskId: "t1" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "Reply", reply_to_comment_id: "parent-1" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
+    expect(createNotificationSpy).not.toHaveBeenCalled();
+  });
+
+  test("stores an inbox notification for an assignee without a push token", async () => {
+    stubCommentInfra();
+    findFirstMock.mockResolvedValueOnce({
+      task_id: "t1",
+      title: "Test Task",
+      created_by: "u1",
+      assignments: [{ user_id: "u2", user: { user_id: "u2", role: UserRole.USER, status: UserStatus.ACTIVE, push_token: null } }],
+      project: { organization_id: "org1" },
+    } as any);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
+
+    await callController(
+      commentController.createComment,
+      createRequest({ params: { taskId: "t1" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "Hello" } }),
+      createMockResponse(),
+    );
+
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
+    expect(createNotificationSpy).toHaveBeenCalledTimes(1);
+    expect(createNotificationSpy).toHaveBeenCalledWith(expect.anything(), "u2", {
+      type: NotificationType.COMMENT_CREATED,
+      title: "Ny kommentar på din opgave",
+      body: "Test Task",
+      data: { taskId: "t1", screen: "comments" },
+      task_id: "t1",
+    });
   });
 
   test("sends targeted reply notification to admin who authored the original comment", async () => {
@@ -596,7 +623,7 @@ describe("commentController.createComment — notification routing", () => {
       attachments: [],
       author: { name: "Admin", email: "admin@example.com" },
     } as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
       { user_id: "a1", push_token: "ExponentPushToken[admin]" },
     ]);
 
@@ -605,13 +632,12 @@ describe("commentController.createComment — notification routing", () => {
       createRequest({ params: { taskId: "t1" }, user: { user_id: "u1", role: UserRole.USER }, body: { message: "Reply", reply_to_comment_id: "parent-1" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "ExponentPushToken[admin]",
-      "Nyt svar på din kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "a1",
+      expect.objectContaining({ title: "Nyt svar på din kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -624,7 +650,7 @@ describe("commentController.createComment — notification routing", () => {
       assignments: [],
       project: { organization_id: "org1" },
     } as any);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
       { user_id: "a1", push_token: "token-a1" },
       { user_id: "a2", push_token: "token-a2" },
     ]);
@@ -634,13 +660,12 @@ describe("commentController.createComment — notification routing", () => {
       createRequest({ params: { taskId: "t1", screen: "comments" }, user: { user_id: "a1", role: UserRole.ADMIN }, body: { message: "hello" } }),
       createMockResponse(),
     );
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a2",
-      "Ny kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "a2",
+      expect.objectContaining({ title: "Ny kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 
@@ -653,7 +678,7 @@ describe("commentController.createComment — notification routing", () => {
       assignments: [],
       project: { organization_id: "org-a" },
     } as any);
-    const getAdminsSpy = spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
+    const getAdminsSpy = spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
       { user_id: "admin-a", push_token: "token-admin-a" },
     ]);
 
@@ -663,13 +688,12 @@ describe("commentController.createComment — notification routing", () => {
       createMockResponse(),
     );
     expect(getAdminsSpy).toHaveBeenCalledWith("org-a");
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-admin-a",
-      "Ny kommentar",
-      "Test Task",
-      { taskId: "t1", screen: "comments" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "admin-a",
+      expect.objectContaining({ title: "Ny kommentar", body: "Test Task", data: { taskId: "t1", screen: "comments" } }),
+      expect.any(Date),
     );
   });
 });
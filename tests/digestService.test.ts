@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NotificationType, TaskUnit } from "../src/generated/prisma/client";
+import * as statRepo from "../src/repositories/statRepository";
+import * as commentRepo from "../src/repositories/commentRepository";
+import * as orgRepo from "../src/repositories/organizationRepository";
+import * as userRepo from "../src/repositories/userRepository";
+import * as calendarService from "../src/services/calendarService";
+import * as inboxService from "../src/services/inboxService";
+import * as digestService from "../src/services/digestService";
+
+afterEach(() => {
+  mock.restore();
+});
+
+// 16:00 in Europe/Copenhagen on Friday 5 June 2026.
+const now = new Date("2026-06-05T14:00:00Z");
+
+function stubStats(overrides: Partial<digestService.Digest> = {}) {
+  const digest: digestService.Digest = {
+    completed: 3,
+    progress: [{ unit: TaskUnit.METERS, quantity: 12.5 }],
+    overdue: 1,
+    comments: 2,
+    unassigned: 4,
+    ...overrides,
+  };
+  spyOn(statRepo, "getCompletionRatesForWindow").mockResolvedValue({ completed_in_period: digest.completed } as never);
+  spyOn(statRepo, "getProgressByUnitForWindow").mockResolvedValue(digest.progress);
+  spyOn(statRepo, "getOverviewStats").mockResolvedValue({ overdue_tasks: digest.overdue } as never);
+  const comments = Array.from({ length: digest.comments }, () => ({}));
+  spyOn(commentRepo, "getTodayCommentsByOrg").mockResolvedValue(comments as never);
+  spyOn(commentRepo, "getRecentCommentsByOrg").mockResolvedValue(comments as never);
+  spyOn(statRepo, "getUnassignedTaskCount").mockResolvedValue(digest.unassigned);
+}
+
+describe("buildDigest", () => {
+  test("uses a one-day window and today's comments for the daily digest", async () => {
+    stubStats();
+
+    const digest = await digestService.buildDigest("org-1", "daily");
+
+    expect(digest).toEqual({
+      completed: 3,
+      progress: [{ unit: TaskUnit.METERS, quantity: 12.5 }],
+      overdue: 1,
+      comments: 2,
+      unassigned: 4,
+    });
+    expect(statRepo.getCompletionRatesForWindow).toHaveBeenCalledWith(1, "org-1", null, expect.anything(), undefined);
+    expect(commentRepo.getTodayCommentsByOrg).toHaveBeenCalledWith("org-1");
+    expect(commentRepo.getRecentCommentsByOrg).not.toHaveBeenCalled();
+  });
+
+  test("uses a seven-day window in the given timezone for the weekly digest", async () => {
+    stubStats();
+
+    await digestService.buildDigest("org-1", "weekly", "America/New_York");
+
+    expect(statRepo.getProgressByUnitForWindow).toHaveBeenCalledWith(
+      7,
+      "org-1",
+      null,
+      expect.anything(),
+      "America/New_York",
+    );
+    expect(commentRepo.getRecentCommentsByOrg).toHaveBeenCalledWith("org-1", 7);
+  });
+});
+
+describe("sendDigest", () => {
+  test("notifies every admin with the summary", async () => {
+    stubStats();
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([
+      { user_id: "a1", push_token: null },
+      { user_id: "a2", push_token: null },
+    ]);
+    const notifySpy = spyOn(inboxService, "notifyUser").mockResolvedValue();
+
+    const sent = await digestService.sendDigest("org-1", "daily", now);
+
+    expect(sent).toBe(2);
+    expect(notifySpy).toHaveBeenCalledTimes(2);
+    const notification = notifySpy.mock.calls[0]?.[2] as any;
+    expect(notification.type).toBe(NotificationType.DAILY_DIGEST);
+    expect(notification.params).toMatchObject({ completed: 3, overdue: 1, comments: 2, unassigned: 4 });
+    expect(notification.params.progress("da")).toBe("12,5 m");
+    expect(notification.data).toMatchObject({ screen: "dashboard", period: "daily" });
+  });
+
+  test("sends nothing when there is nothing to report", async () => {
+    stubStats({ completed: 0, progress: [], overdue: 0, comments: 0, unassigned: 0 });
+    const adminSpy = spyOn(userRepo, "getAdminRecipients");
+    const notifySpy = spyOn(inboxService, "notifyUser").mockResolvedValue();
+
+    expect(await digestService.sendDigest("org-1", "daily", now)).toBe(0);
+    expect(adminSpy).not.toHaveBeenCalled();
+    expect(notifySpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendScheduledDigests", () => {
+  const schedule = (overrides: Record<string, any> = {}) => ({
+    org_id: "org-1",
+    timezone: "Europe/Copenhagen",
+    digest_time: "16:00",
+    weekly_digest_day: 5,
+    working_days: [1, 2, 3, 4, 5],
+    ...overrides,
+  });
+
+  test("sends the daily and weekly digest at the organization's digest time", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([schedule()] as never);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    stubStats();
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([{ user_id: "a1", push_token: null }]);
+    const notifySpy = spyOn(inboxService, "notifyUser").mockResolvedValue();
+
+    await digestService.sendScheduledDigests(now);
+
+    const types = notifySpy.mock.calls.map((call) => (call[2] as any).type);
+    expect(types).toEqual([NotificationType.WEEKLY_DIGEST, NotificationType.DAILY_DIGEST]);
+  });
+
+  test("skips organizations before their digest time and the daily digest on closed days", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([
+      schedule({ org_id: "org-1", weekly_digest_day: 1 }),
+      schedule({ org_id: "org-2", digest_time: "17:00" }),
+    ] as never);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(true);
+    const buildSpy = spyOn(statRepo, "getCompletionRatesForWindow");
+
+    await digestService.sendScheduledDigests(now);
+
+    expect(buildSpy).not.toHaveBeenCalled();
+  });
+
+  test("keeps going when one organization fails", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([
+      schedule({ org_id: "org-1" }),
+      schedule({ org_id: "org-2" }),
+    ] as never);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed")
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValue(true);
+    stubStats();
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([{ user_id: "a1", push_token: null }]);
+    const notifySpy = spyOn(inboxService, "notifyUser").mockResolvedValue();
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    await digestService.sendScheduledDigests(now);
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(notifySpy.mock.calls.map((call) => (call[1] as any).user_id)).toEqual(["a1", "a1"]);
+  });
+
+  test("catches up a digest whose minute was missed, in the organization's timezone", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([schedule({ weekly_digest_day: 1 })] as never);
+    const claimSpy = spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    stubStats();
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([{ user_id: "a1", push_token: null }]);
+    const notifySpy = spyOn(inboxService, "notifyUser").mockResolvedValue();
+
+    // 16:45 in Copenhagen
+    await digestService.sendScheduledDigests(new Date("2026-06-05T14:45:00Z"));
+
+    expect(claimSpy).toHaveBeenCalledTimes(1);
+    expect(claimSpy).toHaveBeenCalledWith("org-1", "DAILY_DIGEST", new Date("2026-06-05"));
+    expect(statRepo.getCompletionRatesForWindow).toHaveBeenCalledWith(
+      1,
+      "org-1",
+      null,
+      expect.anything(),
+      "Europe/Copenhagen",
+    );
+    expect(notifySpy.mock.calls.map((call) => (call[2] as any).type)).toEqual([NotificationType.DAILY_DIGEST]);
+  });
+
+  test("does not send a digest hours late", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([schedule()] as never);
+    const claimSpy = spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    const buildSpy = spyOn(statRepo, "getCompletionRatesForWindow");
+
+    // 21:00 in Copenhagen with nothing sent yet today
+    await digestService.sendScheduledDigests(new Date("2026-06-05T19:00:00Z"));
+
+    expect(claimSpy).not.toHaveBeenCalled();
+    expect(buildSpy).not.toHaveBeenCalled();
+  });
+
+  test("does not send again once today's digest went out", async () => {
+    spyOn(orgRepo, "getDigestSchedules").mockResolvedValue([schedule()] as never);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(false);
+    const closedSpy = spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const buildSpy = spyOn(statRepo, "getCompletionRatesForWindow");
+
+    await digestService.sendScheduledDigests(now);
+
+    expect(closedSpy).not.toHaveBeenCalled();
+    expect(buildSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+
+const sendEmailMock = mock<(...args: any[]) => Promise<void>>();
+
+mock.module("../src/services/emailService", () => ({
+  sendEmail: sendEmailMock,
+  isPermanentEmailError: (err: any) => err?.responseCode >= 500,
+}));
+
+const emailOutboxRepo = await import("../src/repositories/emailOutboxRepository");
+const emailOutboxService = await import("../src/services/emailOutboxService");
+
+afterEach(() => {
+  mock.restore();
+  sendEmailMock.mockReset();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const dueEmail = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: "u1",
+  to_address: "u1@example.com",
+  subject: "Ny opgave tildelt",
+  text: "Du er blevet tildelt: Vask op",
+  html: null,
+  attempts: 0,
+  ...overrides,
+});
+
+describe("sendPendingEmails", () => {
+  test("sends due emails and marks them sent", async () => {
+    spyOn(emailOutboxRepo, "getDueEmails").mockResolvedValue([dueEmail("e1")] as never);
+    const sentSpy = spyOn(emailOutboxRepo, "markSent").mockResolvedValue();
+    sendEmailMock.mockResolvedValue();
+
+    const summary = await emailOutboxService.sendPendingEmails(now);
+
+    expect(summary).toEqual({ sent: 1, retried: 0, failed: 0 });
+    expect(sendEmailMock).toHaveBeenCalledWith({
+      to: "u1@example.com",
+      subject: "Ny opgave tildelt",
+      text: "Du er blevet tildelt: Vask op",
+      html: undefined,
+    });
+    expect(sentSpy).toHaveBeenCalledWith("e1", now, 1);
+  });
+
+  test("retries with backoff when the transport fails", async () => {
+    spyOn(emailOutboxRepo, "getDueEmails").mockResolvedValue([dueEmail("e1", { attempts: 1 })] as never);
+    const retrySpy = spyOn(emailOutboxRepo, "scheduleRetry").mockResolvedValue();
+    sendEmailMock.mockRejectedValue(new Error("Connection timeout"));
+
+    const summary = await emailOutboxService.sendPendingEmails(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 1, failed: 0 });
+    expect(retrySpy).toHaveBeenCalledWith("e1", 2, new Date(now.getTime() + 2 * 60_000), "Connection timeout");
+  });
+
+  test("fails the email at once when the server rejects it", async () => {
+    spyOn(emailOutboxRepo, "getDueEmails").mockResolvedValue([dueEmail("e1")] as never);
+    const failSpy = spyOn(emailOutboxRepo, "markFailed").mockResolvedValue();
+    const retrySpy = spyOn(emailOutboxRepo, "scheduleRetry").mockResolvedValue();
+    sendEmailMock.mockRejectedValue(Object.assign(new Error("550 No such user"), { responseCode: 550 }));
+
+    const summary = await emailOutboxService.sendPendingEmails(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 1 });
+    expect(failSpy).toHaveBeenCalledWith("e1", 1, "550 No such user");
+    expect(retrySpy).not.toHaveBeenCalled();
+  });
+
+  test("gives up after the last attempt and keeps sending the rest", async () => {
+    spyOn(emailOutboxRepo, "getDueEmails").mockResolvedValue([
+      dueEmail("e1", { attempts: emailOutboxService.MAX_EMAIL_ATTEMPTS - 1 }),
+      dueEmail("e2"),
+    ] as never);
+    const failSpy = spyOn(emailOutboxRepo, "markFailed").mockResolvedValue();
+    spyOn(emailOutboxRepo, "markSent").mockResolvedValue();
+    sendEmailMock.mockRejectedValueOnce(new Error("Connection timeout")).mockResolvedValueOnce();
+
+    const summary = await emailOutboxService.sendPendingEmails(now);
+
+    expect(summary).toEqual({ sent: 1, retried: 0, failed: 1 });
+    expect(failSpy).toHaveBeenCalledWith("e1", emailOutboxService.MAX_EMAIL_ATTEMPTS, "Connection timeout");
+  });
+});
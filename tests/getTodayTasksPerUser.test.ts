@@ -76,6 +76,17 @@ describe("getTodayTasksPerUser", () => {
     expect(lt.toISOString()).toBe("2026-04-01T22:00:00.000Z");
   });
 
+  test("limits to one organization's users and ends the day on its clock", async () => {
+    findManyMock.mockResolvedValue([]);
+
+    // 06:25 UTC is 02:25 on April 1st in New York (EDT, UTC-4); that day ends at 04:00Z on the 2nd
+    await getTodayTasksPerUser(new Date("2026-04-01T06:25:00Z"), "org-ny", "America/New_York");
+
+    const callArg = findManyMock.mock.calls[0][0] as any;
+    expect(callArg.where.user.organization_id).toBe("org-ny");
+    expect(callArg.where.task.start_date.lt.toISOString()).toBe("2026-04-02T04:00:00.000Z");
+  });
+
   test("groups multiple tasks by user", async () => {
     findManyMock.mockResolvedValue([
       makeAssignment("u1", "token-u1", { task_id: "t1" }),
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { danishHolidays, easterSunday } from "../src/utils/holidayUtils";
+
+const day = (d: Date) => d.toISOString().slice(0, 10);
+
+describe("easterSunday", () => {
+  test("matches known Easter dates", () => {
+    expect(day(easterSunday(2024))).toBe("2024-03-31");
+    expect(day(easterSunday(2026))).toBe("2026-04-05");
+    expect(day(easterSunday(2027))).toBe("2027-03-28");
+  });
+});
+
+describe("danishHolidays", () => {
+  test("derives the movable holidays from Easter", () => {
+    const byName = new Map(danishHolidays(2026).map((h) => [h.name, day(h.date)]));
+
+    expect(byName.get("Skærtorsdag")).toBe("2026-04-02");
+    expect(byName.get("Langfredag")).toBe("2026-04-03");
+    expect(byName.get("2. påskedag")).toBe("2026-04-06");
+    expect(byName.get("Kristi himmelfartsdag")).toBe("2026-05-14");
+    expect(byName.get("2. pinsedag")).toBe("2026-05-25");
+    expect(byName.get("Grundlovsdag")).toBe("2026-06-05");
+  });
+
+  test("only includes Store bededag before 2024", () => {
+    expect(danishHolidays(2023).map((h) => h.name)).toContain("Store bededag");
+    expect(danishHolidays(2024).map((h) => h.name)).not.toContain("Store bededag");
+  });
+
+  test("returns holidays in date order", () => {
+    const dates = danishHolidays(2027).map((h) => h.date.getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import type { NextFunction, Request, Response } from "express";
+import { UserRole, UserStatus } from "../src/generated/prisma/client";
+import * as impersonationRepo from "../src/repositories/impersonationRepository";
+import * as impersonationService from "../src/services/impersonationService";
+import * as authService from "../src/services/authService";
+import * as userService from "../src/services/userService";
+import * as userRepo from "../src/repositories/userRepository";
+import * as tokenUtils from "../src/utils/tokenUtils";
+import { authenticateToken } from "../src/middleware/auth";
+import { eventActor } from "../src/helper/helpers";
+import type { RequestContext } from "../src/types/requestContext";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const now = new Date();
+
+const superAdmin: RequestContext = {
+  actorUserId: "super1",
+  actorRole: UserRole.SUPER_ADMIN,
+  actorOrgId: null,
+  effectiveOrgId: null,
+  isSuperAdmin: true,
+};
+
+const target = (overrides: Record<string, any> = {}) => ({
+  user_id: "u1",
+  email: "worker@example.com",
+  name: "Worker",
+  role: UserRole.USER,
+  status: UserStatus.ACTIVE,
+  organization_id: "org1",
+  ...overrides,
+});
+
+function createMockResponse() {
+  const res = {} as Response & { statusCode?: number; body?: unknown };
+  res.status = mock((code: number) => {
+    res.statusCode = code;
+    return res;
+  }) as unknown as Response["status"];
+  res.json = mock((payload: unknown) => {
+    res.body = payload;
+    return res;
+  }) as unknown as Response["json"];
+  return res;
+}
+
+describe("startImpersonation", () => {
+  test("issues a token for the user that names the super-admin and the session", async () => {
+    spyOn(impersonationRepo, "getTarget").mockResolvedValue(target());
+    const createSpy = spyOn(impersonationRepo, "createSession").mockImplementation(
+      async (data) => ({ impersonation_id: "imp1", ...data }) as never,
+    );
+    const tokenSpy = spyOn(tokenUtils, "generateAccessToken").mockReturnValue("impersonation-token");
+
+    const { token } = await impersonationService.startImpersonation(
+      superAdmin,
+      { user_id: "u1", reason: "Ticket 512: tasks missing" },
+      "10.0.0.1",
+      now,
+    );
+
+    expect(token).toBe("impersonation-token");
+    expect(tokenSpy).toHaveBeenCalledWith(expect.objectContaining({ user_id: "u1" }), {
+      impersonator_id: "super1",
+      impersonation_id: "imp1",
+      expires_at: new Date(now.getTime() + 30 * 60_000),
+    });
+    expect(createSpy.mock.calls[0]?.[0]).toMatchObject({
+      impersonator_id: "super1",
+      target_user_id: "u1",
+      reason: "Ticket 512: tasks missing",
+      started_ip: "10.0.0.1",
+    });
+  });
+
+  test("refuses to impersonate super-admins", async () => {
+    spyOn(impersonationRepo, "getTarget").mockResolvedValue(target({ role: UserRole.SUPER_ADMIN }));
+    const createSpy = spyOn(impersonationRepo, "createSession");
+
+    await expect(
+      impersonationService.startImpersonation(superAdmin, { user_id: "u1", reason: "x" }, undefined, now),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("impersonation tokens", () => {
+  test("stop working once the session is stopped", async () => {
+    spyOn(authService, "verifyToken").mockReturnValue({
+      ...target(),
+      impersonator_id: "super1",
+      impersonation_id: "imp1",
+    } as never);
+    spyOn(impersonationRepo, "getSession").mockResolvedValue({
+      impersonation_id: "imp1",
+      expires_at: new Date(now.getTime() + 60_000),
+      ended_at: now,
+    });
+    const req = { headers: { authorization: "Bearer token" }, params: {} } as Request;
+    const res = createMockResponse();
+    const next = mock(() => undefined) as unknown as NextFunction;
+
+    authenticateToken(req, res, next);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  test("stamp the super-admin on task events", () => {
+    const ctx: RequestContext = {
+      actorUserId: "u1",
+      actorRole: UserRole.USER,
+      actorOrgId: "org1",
+      effectiveOrgId: "org1",
+      isSuperAdmin: false,
+      impersonatorUserId: "super1",
+    };
+
+    expect(eventActor(ctx)).toEqual({
+      actor: { connect: { user_id: "u1" } },
+      impersonator: { connect: { user_id: "super1" } },
+    });
+    expect(eventActor({ ...ctx, impersonatorUserId: null })).toEqual({ actor: { connect: { user_id: "u1" } } });
+  });
+
+  test("cannot change anyone's password or email", async () => {
+    const ctx: RequestContext = {
+      actorUserId: "u1",
+      actorRole: UserRole.ADMIN,
+      actorOrgId: "org1",
+      effectiveOrgId: "org1",
+      isSuperAdmin: false,
+      impersonatorUserId: "super1",
+    };
+    const updateSpy = spyOn(userRepo, "updateUserInOrg");
+
+    await expect(userService.updateUser(ctx, "u1", { password: "new-password" })).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(userService.updateUser(ctx, "u2", { email: "mine@example.com" })).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+});
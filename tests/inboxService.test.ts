@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NotificationType, UserRole } from "../src/generated/prisma/client";
+import { NotificationNotFoundError } from "../src/errors/domainErrors";
+import type { RequestContext } from "../src/types/requestContext";
+import type { DeliverySettings } from "../src/types/notification";
+
+const notificationRepo = await import("../src/repositories/notificationRepository");
+const pushOutboxRepo = await import("../src/repositories/pushOutboxRepository");
+const emailOutboxRepo = await import("../src/repositories/emailOutboxRepository");
+const inboxService = await import("../src/services/inboxService");
+
+afterEach(() => {
+  mock.restore();
+});
+
+const ctx: RequestContext = {
+  actorUserId: "u1",
+  actorRole: UserRole.USER,
+  actorOrgId: "org1",
+  effectiveOrgId: "org1",
+  isSuperAdmin: false,
+};
+
+const notification = {
+  type: NotificationType.TASK_ASSIGNED,
+  params: { task: "Vask op" },
+  data: { taskId: "t1" },
+  task_id: "t1",
+};
+
+const content = {
+  type: NotificationType.TASK_ASSIGNED,
+  title: "Ny opgave tildelt",
+  body: "Du er blevet tildelt: Vask op",
+  data: { taskId: "t1" },
+  task_id: "t1",
+};
+
+const settings = (overrides: Partial<DeliverySettings> = {}): DeliverySettings => ({
+  email: "u2@example.com",
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: null,
+  locale: "da",
+  preference: null,
+  ...overrides,
+});
+
+describe("notifyUser", () => {
+  const db = {} as never;
+  const now = new Date("2026-06-01T10:00:00Z");
+
+  beforeEach(() => {
+    spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+  });
+
+  test("reads the settings, stores the notification and queues it as a push with the caller's db", async () => {
+    const settingsSpy = spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(settings());
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(db, { user_id: "u2", push_token: "tok" }, notification, now);
+
+    expect(settingsSpy).toHaveBeenCalledWith(db, "u2", notification.type);
+    expect(createSpy).toHaveBeenCalledWith(db, "u2", content);
+    expect(enqueueSpy).toHaveBeenCalledWith(db, "u2", content, now);
+  });
+
+  test("renders the message in the user's locale", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(settings({ locale: "en" }));
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(db, { user_id: "u2", push_token: "tok" }, notification, now);
+
+    const english = { ...content, title: "New task assigned", body: "You have been assigned: Vask op" };
+    expect(createSpy).toHaveBeenCalledWith(db, "u2", english);
+    expect(enqueueSpy).toHaveBeenCalledWith(db, "u2", english, now);
+  });
+
+  test("queues an email when the type is emailed, even in quiet hours", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(
+      settings({ quiet_hours_start: "22:00", quiet_hours_end: "07:00" }),
+    );
+    spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+    const emailSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+    const lateEvening = new Date("2026-06-01T21:30:00Z");
+
+    await inboxService.notifyUser(db, { user_id: "u2", push_token: null }, notification, lateEvening);
+
+    expect(emailSpy).toHaveBeenCalledWith(
+      db,
+      { user_id: "u2", to: "u2@example.com", subject: content.title, text: content.body },
+      lateEvening,
+    );
+  });
+
+  test("does not email types the user gets no email for", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(settings());
+    spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const emailSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(
+      db,
+      { user_id: "u2", push_token: null },
+      { ...notification, type: NotificationType.PRIORITY_CHANGED },
+      now,
+    );
+
+    expect(emailSpy).not.toHaveBeenCalled();
+  });
+
+  test("only stores the notification when the user has no push token", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(settings());
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(db, { user_id: "u2", push_token: null }, notification, now);
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(enqueueSpy).not.toHaveBeenCalled();
+  });
+
+  test("fails with the write so the caller's transaction rolls back", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(settings());
+    spyOn(notificationRepo, "createNotification").mockRejectedValue(new Error("db down"));
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await expect(
+      inboxService.notifyUser(db, { user_id: "u2", push_token: "tok" }, notification, now),
+    ).rejects.toThrow("db down");
+    expect(enqueueSpy).not.toHaveBeenCalled();
+  });
+
+  test("skips the channels the user has turned off", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(
+      settings({ preference: { push: false, in_app: true } }),
+    );
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(db, { user_id: "u2", push_token: "tok" }, notification, now);
+
+    expect(enqueueSpy).not.toHaveBeenCalled();
+    expect(createSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses the defaults when the settings cannot be loaded", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockRejectedValue(new Error("db down"));
+    spyOn(console, "error").mockImplementation(() => {});
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    await inboxService.notifyUser(
+      db,
+      { user_id: "u2", push_token: "tok" },
+      { ...notification, type: NotificationType.DAILY_BRIEFING },
+      now,
+    );
+
+    expect(enqueueSpy).toHaveBeenCalledTimes(1);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("queues the push to go out when the user's quiet hours end", async () => {
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(
+      settings({ quiet_hours_start: "22:00", quiet_hours_end: "07:00" }),
+    );
+    const createSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    // 23:30 in Copenhagen (CEST)
+    await inboxService.notifyUser(
+      db,
+      { user_id: "u2", push_token: "tok" },
+      notification,
+      new Date("2026-06-01T21:30:00Z"),
+    );
+
+    expect(enqueueSpy).toHaveBeenCalledWith(db, "u2", content, new Date("2026-06-02T05:00:00Z"));
+    expect(createSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("inbox", () => {
+  test("lists the caller's notifications with a cursor when the page is full", async () => {
+    const listSpy = spyOn(notificationRepo, "getNotificationsForUser").mockResolvedValue([
+      { id: "n2" },
+      { id: "n1" },
+    ] as never);
+
+    const result = await inboxService.listNotifications(ctx, { limit: 2, unread: true });
+
+    expect(listSpy).toHaveBeenCalledWith("u1", { limit: 2, unread: true });
+    expect(result.nextCursor).toBe("n1");
+  });
+
+  test("returns no cursor on the last page", async () => {
+    spyOn(notificationRepo, "getNotificationsForUser").mockResolvedValue([{ id: "n1" }] as never);
+
+    const result = await inboxService.listNotifications(ctx, { limit: 2 });
+
+    expect(result.nextCursor).toBeNull();
+  });
+
+  test("marks only the caller's own notification as read", async () => {
+    const markSpy = spyOn(notificationRepo, "markReadForUser").mockRejectedValue(
+      new NotificationNotFoundError("n9"),
+    );
+
+    await expect(inboxService.markRead(ctx, "n9")).rejects.toBeInstanceOf(NotificationNotFoundError);
+    expect(markSpy.mock.calls[0]?.slice(0, 2)).toEqual(["n9", "u1"]);
+  });
+
+  test("marks all of the caller's notifications as read", async () => {
+    const markAllSpy = spyOn(notificationRepo, "markAllReadForUser").mockResolvedValue(3);
+
+    expect(await inboxService.markAllRead(ctx)).toBe(3);
+    expect(markAllSpy.mock.calls[0]?.[0]).toBe("u1");
+  });
+});
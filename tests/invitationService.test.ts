@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { InvitationStatus, UserRole } from "../src/generated/prisma/client";
+
+const invitationUpdateManyMock = mock<(...args: any[]) => Promise<any>>();
+const invitationFindUniqueOrThrowMock = mock<(...args: any[]) => Promise<any>>();
+const userCreateMock = mock<(...args: any[]) => Promise<any>>();
+
+const db = {
+  invitation: { updateMany: invitationUpdateManyMock, findUniqueOrThrow: invitationFindUniqueOrThrowMock },
+  user: { create: userCreateMock },
+};
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { ...db, $transaction: mock(async (fn: any) => fn(db)) },
+}));
+
+const invitationRepo = await import("../src/repositories/invitationRepository");
+const userRepo = await import("../src/repositories/userRepository");
+const positionRepo = await import("../src/repositories/positionRepository");
+const emailOutboxRepo = await import("../src/repositories/emailOutboxRepository");
+const invitationService = await import("../src/services/invitationService");
+
+afterEach(() => {
+  mock.restore();
+  for (const m of [invitationUpdateManyMock, invitationFindUniqueOrThrowMock, userCreateMock]) m.mockReset();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const adminCtx = {
+  actorUserId: "a1",
+  actorRole: UserRole.ADMIN,
+  actorOrgId: "org-1",
+  effectiveOrgId: "org-1",
+  isSuperAdmin: false,
+};
+
+const invitation = (overrides: Record<string, any> = {}) => ({
+  invitation_id: "i1",
+  organization_id: "org-1",
+  organization: { org_id: "org-1", name: "Acme", default_locale: "en" },
+  email: "new@example.com",
+  name: "New Person",
+  role: UserRole.USER,
+  position_id: null,
+  locale: null,
+  status: InvitationStatus.PENDING,
+  expires_at: new Date(now.getTime() + 60_000),
+  ...overrides,
+});
+
+describe("createInvitation", () => {
+  test("creates the invitation in the admin's org and emails the link", async () => {
+    spyOn(userRepo, "emailExists").mockResolvedValue(false);
+    spyOn(invitationRepo, "hasPendingInvitation").mockResolvedValue(false);
+    const createSpy = spyOn(invitationRepo, "createInvitation").mockResolvedValue({
+      invitation: invitation(),
+      raw: "raw-token",
+    } as never);
+    const enqueueSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+
+    await invitationService.createInvitation(adminCtx, { email: "new@example.com", name: "New Person" }, now);
+
+    const [, data, expiresAt] = createSpy.mock.calls[0] as any[];
+    expect(data).toMatchObject({ organization_id: "org-1", email: "new@example.com", role: UserRole.USER, invited_by: "a1" });
+    expect(expiresAt).toEqual(new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000));
+    const [, email] = enqueueSpy.mock.calls[0] as any[];
+    expect(email).toMatchObject({ user_id: null, to: "new@example.com", subject: "You're invited to Acme" });
+    expect(email.text).toContain("accept-invite?token=raw-token");
+  });
+
+  test("rejects emails that already have an account or a pending invitation", async () => {
+    const existsSpy = spyOn(userRepo, "emailExists").mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    spyOn(invitationRepo, "hasPendingInvitation").mockResolvedValue(true);
+    const createSpy = spyOn(invitationRepo, "createInvitation");
+
+    await expect(invitationService.createInvitation(adminCtx, { email: "taken@example.com" }, now)).rejects.toMatchObject({
+      statusCode: 409,
+      name: "EmailAlreadyInUseError",
+    });
+    await expect(invitationService.createInvitation(adminCtx, { email: "new@example.com" }, now)).rejects.toBeInstanceOf(
+      invitationService.InvitationAlreadyPendingError,
+    );
+    expect(existsSpy).toHaveBeenCalledTimes(2);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("rejects non-admins and role escalation", async () => {
+    const createSpy = spyOn(invitationRepo, "createInvitation");
+    spyOn(positionRepo, "getPositionById").mockResolvedValue(null);
+
+    await expect(
+      invitationService.createInvitation({ ...adminCtx, actorRole: UserRole.USER }, { email: "new@example.com" }, now),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      invitationService.createInvitation(adminCtx, { email: "new@example.com", role: UserRole.SUPER_ADMIN }, now),
+    ).rejects.toMatchObject({ name: "InvalidUserRoleError" });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("resendInvitation", () => {
+  test("issues a new link for an expired invitation", async () => {
+    spyOn(invitationRepo, "getInvitationById").mockResolvedValue(invitation({ status: InvitationStatus.EXPIRED }) as never);
+    spyOn(userRepo, "emailExists").mockResolvedValue(false);
+    const reissueSpy = spyOn(invitationRepo, "reissueInvitation").mockResolvedValue({
+      invitation: invitation(),
+      raw: "new-token",
+    } as never);
+    const enqueueSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+
+    await invitationService.resendInvitation(adminCtx, "i1", now);
+
+    expect(reissueSpy.mock.calls[0]?.[1]).toBe("i1");
+    expect((enqueueSpy.mock.calls[0] as any[])[1].text).toContain("token=new-token");
+  });
+
+  test("refuses accepted and revoked invitations", async () => {
+    spyOn(invitationRepo, "getInvitationById").mockResolvedValue(invitation({ status: InvitationStatus.REVOKED }) as never);
+    const reissueSpy = spyOn(invitationRepo, "reissueInvitation");
+
+    await expect(invitationService.resendInvitation(adminCtx, "i1", now)).rejects.toBeInstanceOf(
+      invitationService.InvitationNotPendingError,
+    );
+    expect(reissueSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("revokeInvitation", () => {
+  test("distinguishes unknown invitations from ones that are no longer open", async () => {
+    spyOn(invitationRepo, "revokeInvitation").mockResolvedValue(false);
+    spyOn(invitationRepo, "getInvitationById")
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(invitation({ status: InvitationStatus.ACCEPTED }) as never);
+
+    await expect(invitationService.revokeInvitation(adminCtx, "i1", now)).rejects.toBeInstanceOf(
+      invitationService.InvitationNotFoundError,
+    );
+    await expect(invitationService.revokeInvitation(adminCtx, "i1", now)).rejects.toBeInstanceOf(
+      invitationService.InvitationNotPendingError,
+    );
+  });
+});
+
+describe("acceptInvitation", () => {
+  test("creates the user with the invited role, position and locale", async () => {
+    spyOn(invitationRepo, "getInvitationByToken").mockResolvedValue(invitation() as never);
+    invitationUpdateManyMock.mockResolvedValue({ count: 1 });
+    invitationFindUniqueOrThrowMock.mockResolvedValue({
+      email: "new@example.com",
+      role: UserRole.ADMIN,
+      position_id: "p1",
+      locale: "pl",
+      organization_id: "org-1",
+    });
+    userCreateMock.mockResolvedValue({ user_id: "u9" });
+
+    const user = await invitationService.acceptInvitation({ token: "raw-token", password: "s3cret-pass" }, now);
+
+    expect(user).toEqual({ user_id: "u9" } as never);
+    expect(invitationUpdateManyMock).toHaveBeenCalledWith({
+      where: { invitation_id: "i1", status: InvitationStatus.PENDING, expires_at: { gt: now } },
+      data: { status: InvitationStatus.ACCEPTED, accepted_at: now },
+    });
+    const { data } = (userCreateMock.mock.calls[0] as any[])[0];
+    expect(data).toMatchObject({
+      name: "New Person",
+      email: "new@example.com",
+      role: UserRole.ADMIN,
+      position_id: "p1",
+      locale: "pl",
+      organization_id: "org-1",
+    });
+    expect(data.password).not.toBe("s3cret-pass");
+  });
+
+  test("rejects expired, revoked and already used links", async () => {
+    spyOn(invitationRepo, "getInvitationByToken")
+      .mockResolvedValueOnce(invitation({ expires_at: now }) as never)
+      .mockResolvedValueOnce(invitation({ status: InvitationStatus.REVOKED }) as never)
+      .mockResolvedValueOnce(invitation() as never);
+    invitationUpdateManyMock.mockResolvedValue({ count: 0 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(
+        invitationService.acceptInvitation({ token: "raw-token", password: "s3cret-pass" }, now),
+      ).rejects.toBeInstanceOf(invitationService.InvalidInvitationTokenError);
+    }
+    expect(userCreateMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { JobRunStatus, Prisma } from "../src/generated/prisma/client";
+
+const jobLease = {
+  updateMany: mock<(args: any) => Promise<{ count: number }>>(),
+  create: mock<(args: any) => Promise<any>>(),
+  findUnique: mock<(args: any) => Promise<any>>(),
+};
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { jobLease },
+}));
+
+const jobRepo = await import("../src/repositories/jobRepository");
+const jobService = await import("../src/services/jobService");
+
+afterEach(() => {
+  mock.restore();
+  jobLease.updateMany.mockReset();
+  jobLease.create.mockReset();
+  jobLease.findUnique.mockReset();
+});
+
+const now = new Date("2026-04-01T04:25:03.120Z");
+
+describe("jobRepository.acquireLease", () => {
+  test("takes over a lease whose tick is older and whose holder is done", async () => {
+    jobLease.updateMany.mockResolvedValue({ count: 1 });
+
+    const acquired = await jobRepo.acquireLease("job", "me", jobService.jobTick(now), new Date(now.getTime() + 1000), now);
+
+    expect(acquired).toBe(true);
+    const { where } = jobLease.updateMany.mock.calls[0]![0];
+    expect(where.tick.lt.toISOString()).toBe("2026-04-01T04:25:00.000Z");
+    expect(where.locked_until.lte).toBe(now);
+    expect(jobLease.create).not.toHaveBeenCalled();
+  });
+
+  test("creates the lease the first time a job runs", async () => {
+    jobLease.updateMany.mockResolvedValue({ count: 0 });
+    jobLease.create.mockResolvedValue({});
+
+    expect(await jobRepo.acquireLease("job", "me", now, now, now)).toBe(true);
+  });
+
+  test("loses when another replica already holds the tick", async () => {
+    jobLease.updateMany.mockResolvedValue({ count: 0 });
+    jobLease.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "6" }),
+    );
+
+    expect(await jobRepo.acquireLease("job", "me", now, now, now)).toBe(false);
+  });
+});
+
+describe("jobRepository.claimMissedTick", () => {
+  const tick = jobService.jobTick(now);
+
+  test("moves the holder's claim to a tick missed while it ran", async () => {
+    const missed = new Date("2026-04-01T04:27:00.000Z");
+    jobLease.findUnique.mockResolvedValue({ missed_tick: missed });
+    jobLease.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await jobRepo.claimMissedTick("job", "me", tick, now)).toEqual(missed);
+    expect(jobLease.updateMany.mock.calls[0]![0]).toEqual({
+      where: { job_name: "job", holder: "me", tick },
+      data: { tick: missed, locked_until: now },
+    });
+  });
+
+  test("claims nothing when no later tick was missed", async () => {
+    jobLease.findUnique.mockResolvedValue({ missed_tick: tick });
+
+    expect(await jobRepo.claimMissedTick("job", "me", tick, now)).toBeNull();
+    expect(jobLease.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("jobService.runExclusive", () => {
+  function spyRepo(acquired: boolean) {
+    return {
+      acquire: spyOn(jobRepo, "acquireLease").mockResolvedValue(acquired),
+      create: spyOn(jobRepo, "createRun").mockResolvedValue({ id: "run-1" } as never),
+      finish: spyOn(jobRepo, "finishRun").mockResolvedValue({} as never),
+      release: spyOn(jobRepo, "releaseLease").mockResolvedValue(),
+      recordMissed: spyOn(jobRepo, "recordMissedTick").mockResolvedValue(),
+      claimMissed: spyOn(jobRepo, "claimMissedTick").mockResolvedValue(null),
+    };
+  }
+
+  test("runs the task, records success and releases the lease", async () => {
+    const repo = spyRepo(true);
+    const task = mock(() => Promise.resolve());
+
+    const ran = await jobService.runExclusive("auto-archive", 60_000, task, now);
+
+    expect(ran).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(repo.acquire).toHaveBeenCalledWith(
+      "auto-archive",
+      jobService.JOB_HOLDER_ID,
+      new Date("2026-04-01T04:25:00.000Z"),
+      new Date(now.getTime() + 60_000),
+      now,
+    );
+    expect(repo.finish).toHaveBeenCalledWith("run-1", JobRunStatus.SUCCEEDED);
+    expect(repo.release).toHaveBeenCalledWith("auto-archive", jobService.JOB_HOLDER_ID, expect.any(Date));
+  });
+
+  test("skips the task when another replica has the lease and records the tick as missed", async () => {
+    const repo = spyRepo(false);
+    const task = mock(() => Promise.resolve());
+
+    expect(await jobService.runExclusive("auto-archive", 60_000, task, now)).toBe(false);
+    expect(task).not.toHaveBeenCalled();
+    expect(repo.create).not.toHaveBeenCalled();
+    expect(repo.release).not.toHaveBeenCalled();
+    expect(repo.recordMissed).toHaveBeenCalledWith("auto-archive", new Date("2026-04-01T04:25:00.000Z"));
+  });
+
+  test("runs again for ticks missed while the task ran", async () => {
+    const repo = spyRepo(true);
+    const missed = new Date("2026-04-01T04:27:00.000Z");
+    repo.claimMissed.mockResolvedValueOnce(missed);
+    const task = mock(() => Promise.resolve());
+
+    await jobService.runExclusive("scheduled-pushes", 60_000, task, now);
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(repo.finish).toHaveBeenCalledTimes(2);
+    expect(repo.claimMissed.mock.calls.map((call) => call[2])).toEqual([
+      new Date("2026-04-01T04:25:00.000Z"),
+      missed,
+    ]);
+    expect(repo.release).toHaveBeenCalledTimes(1);
+  });
+
+  test("records a failing task with its error", async () => {
+    const repo = spyRepo(true);
+    spyOn(console, "error").mockImplementation(() => {});
+
+    await jobService.runExclusive("auto-archive", 60_000, () => Promise.reject(new Error("db fail")), now);
+
+    expect(repo.finish).toHaveBeenCalledWith("run-1", JobRunStatus.FAILED, "db fail");
+    expect(repo.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { TaskPriority, TaskStatus } from "../src/generated/prisma/client";
+import { ValidationError } from "../src/errors/domainErrors";
+import type { TaskListQuery } from "../src/types/task";
+
+const findManyMock = mock<(...args: any[]) => Promise<any[]>>();
+
+mock.module("../src/db/prisma", () => ({
+  prisma: {
+    task: {
+      findMany: findManyMock,
+    },
+  },
+}));
+
+const { listTasks } = await import("../src/repositories/taskRepository");
+
+function makeRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    task_id: id,
+    created_at: new Date("2026-01-01T10:00:00.000Z"),
+    priority: TaskPriority.MEDIUM,
+    assignments: [{ user_id: "u1" }],
+    current_goal: null,
+    ...overrides,
+  };
+}
+
+const baseQuery: TaskListQuery = { sort: "created_at", order: "desc", limit: 2 };
+
+afterEach(() => {
+  mock.restore();
+  findManyMock.mockReset();
+});
+
+describe("taskRepository.listTasks", () => {
+  test("ANDs the org scope with every supplied filter", async () => {
+    findManyMock.mockResolvedValue([]);
+    const deadlineTo = new Date("2026-02-01");
+
+    await listTasks("org1", {
+      ...baseQuery,
+      status: [TaskStatus.PENDING],
+      assignee: "u1",
+      parent_task_id: null,
+      deadline_to: deadlineTo,
+      has_goal: false,
+    });
+
+    const arg = findManyMock.mock.calls[0][0] as any;
+    expect(arg.where.AND).toEqual([
+      { project: { organization_id: "org1" } },
+      { status: { in: [TaskStatus.PENDING] } },
+      { assignments: { some: { user_id: "u1" } } },
+      { parent_task_id: null },
+      { deadline: { lte: deadlineTo } },
+      { current_goal_id: null },
+    ]);
+    expect(arg.orderBy).toEqual([{ created_at: "desc" }, { task_id: "desc" }]);
+    expect(arg.take).toBe(3);
+  });
+
+  test("omits the org scope for platform-wide super-admin queries", async () => {
+    findManyMock.mockResolvedValue([]);
+
+    await listTasks(null, baseQuery);
+
+    const arg = findManyMock.mock.calls[0][0] as any;
+    expect(arg.where.AND).toEqual([]);
+  });
+
+  test("returns a cursor only when another page exists", async () => {
+    findManyMock.mockResolvedValue([makeRow("t1"), makeRow("t2"), makeRow("t3")]);
+
+    const page = await listTasks("org1", baseQuery);
+
+    expect(page.tasks.map((t) => t.task_id)).toEqual(["t1", "t2"]);
+    expect(page.tasks[0]!.assigned_users).toEqual(["u1"]);
+    expect(page.nextCursor).not.toBeNull();
+
+    findManyMock.mockResolvedValue([makeRow("t4")]);
+    const last = await listTasks("org1", { ...baseQuery, cursor: page.nextCursor! });
+
+    expect(last.nextCursor).toBeNull();
+    const arg = findManyMock.mock.calls[1][0] as any;
+    const created = new Date("2026-01-01T10:00:00.000Z");
+    expect(arg.where.AND).toContainEqual({
+      OR: [
+        { created_at: { lt: created } },
+        { created_at: created, task_id: { lt: "t2" } },
+      ],
+    });
+  });
+
+  test("expresses a priority cursor as the set of later priorities", async () => {
+    findManyMock.mockResolvedValue([makeRow("t1"), makeRow("t2"), makeRow("t3")]);
+    const query: TaskListQuery = { ...baseQuery, sort: "priority", order: "asc" };
+
+    const page = await listTasks(null, query);
+    await listTasks(null, { ...query, cursor: page.nextCursor! });
+
+    const arg = findManyMock.mock.calls[1][0] as any;
+    expect(arg.where.AND).toContainEqual({
+      OR: [
+        { priority: { in: [TaskPriority.HIGH] } },
+        { priority: TaskPriority.MEDIUM, task_id: { gt: "t2" } },
+      ],
+    });
+  });
+
+  test("rejects a malformed cursor", async () => {
+    await expect(listTasks("org1", { ...baseQuery, cursor: "not-a-cursor" })).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+    expect(findManyMock).not.toHaveBeenCalled();
+  });
+});
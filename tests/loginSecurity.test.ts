@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { SessionPlatform, UserStatus } from "../src/generated/prisma/client";
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: mock(async (fn: any) => fn({})) },
+}));
+
+const authRepo = await import("../src/repositories/authRepository");
+const loginEventRepo = await import("../src/repositories/loginEventRepository");
+const emailOutboxRepo = await import("../src/repositories/emailOutboxRepository");
+const refreshTokenRepo = await import("../src/repositories/refreshTokenRepository");
+const sessionRepo = await import("../src/repositories/sessionRepository");
+const helpers = await import("../src/helper/helpers");
+const authService = await import("../src/services/authService");
+const loginSecurityService = await import("../src/services/loginSecurityService");
+
+afterEach(() => {
+  mock.restore();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const loginUser = (overrides: Record<string, any> = {}) => ({
+  user_id: "u1",
+  email: "u1@example.com",
+  password: "hash",
+  status: UserStatus.ACTIVE,
+  failed_login_count: 0,
+  locked_until: null,
+  ...overrides,
+});
+
+const credentials = { email: "u1@example.com", password: "pw" };
+
+describe("account lockout", () => {
+  test("locks for a minute from the fifth failure, doubling up to an hour", () => {
+    expect(loginSecurityService.lockoutDuration(4)).toBeNull();
+    expect(loginSecurityService.lockoutDuration(5)).toBe(60_000);
+    expect(loginSecurityService.lockoutDuration(7)).toBe(4 * 60_000);
+    expect(loginSecurityService.lockoutDuration(20)).toBe(60 * 60_000);
+  });
+
+  test("counts a wrong password and records the failed attempt", async () => {
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue(loginUser({ failed_login_count: 4 }) as never);
+    spyOn(helpers, "comparePassword").mockResolvedValue(false);
+    spyOn(loginEventRepo, "incrementFailedLogins").mockResolvedValue(5);
+    const lockSpy = spyOn(loginEventRepo, "lockUntil").mockResolvedValue();
+    const eventSpy = spyOn(loginEventRepo, "createLoginEvent").mockResolvedValue();
+
+    await expect(
+      authService.authenticateWebUser(credentials, undefined, undefined, "10.0.0.1"),
+    ).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(lockSpy).toHaveBeenCalledWith("u1", expect.any(Date));
+    expect(eventSpy.mock.calls[0]?.[1]).toMatchObject({
+      user_id: "u1",
+      success: false,
+      platform: SessionPlatform.browser,
+      ip: "10.0.0.1",
+    });
+  });
+
+  test("refuses a locked account even with the right password, without counting", async () => {
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue(
+      loginUser({ failed_login_count: 5, locked_until: new Date(Date.now() + 60_000) }) as never,
+    );
+    spyOn(helpers, "comparePassword").mockResolvedValue(true);
+    const incrementSpy = spyOn(loginEventRepo, "incrementFailedLogins").mockResolvedValue(0);
+    const lockSpy = spyOn(loginEventRepo, "lockUntil");
+    spyOn(loginEventRepo, "createLoginEvent").mockResolvedValue();
+
+    await expect(authService.authenticateUser(credentials)).rejects.toMatchObject({
+      statusCode: 401,
+      message: "Invalid credentials",
+    });
+    expect(incrementSpy).toHaveBeenCalledWith(null);
+    expect(lockSpy).not.toHaveBeenCalled();
+  });
+
+  test("runs the same failed-attempt bookkeeping for an unknown email", async () => {
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue(null);
+    const compareSpy = spyOn(helpers, "comparePassword").mockResolvedValue(false);
+    const incrementSpy = spyOn(loginEventRepo, "incrementFailedLogins").mockResolvedValue(0);
+    const eventSpy = spyOn(loginEventRepo, "createLoginEvent");
+
+    await expect(authService.authenticateUser(credentials)).rejects.toMatchObject({
+      statusCode: 401,
+      message: "Invalid credentials",
+    });
+    expect(compareSpy).toHaveBeenCalled();
+    expect(incrementSpy).toHaveBeenCalledWith(null);
+    expect(eventSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordSignIn", () => {
+  test("emails a report link when the device is new", async () => {
+    spyOn(loginEventRepo, "hasSuccessfulLogin").mockResolvedValue(true);
+    spyOn(loginEventRepo, "getKnownOrigins").mockResolvedValue({ countries: [], devices: ["Chrome on Windows"] });
+    spyOn(loginEventRepo, "getAlertRecipient").mockResolvedValue({
+      user_id: "u1",
+      email: "u1@example.com",
+      locale: null,
+      organization: { default_locale: "en", timezone: "Europe/Copenhagen" },
+    } as never);
+    const reportableSpy = spyOn(loginEventRepo, "createReportableLoginEvent").mockResolvedValue("raw-token");
+    const enqueueSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+
+    await loginSecurityService.recordSignIn(
+      "u1",
+      { platform: SessionPlatform.browser, device_name: "Firefox on Linux" },
+      "sid1",
+      now,
+    );
+
+    expect(reportableSpy.mock.calls[0]?.[1]).toMatchObject({ success: true, session_id: "sid1" });
+    const [, email] = enqueueSpy.mock.calls[0] as any[];
+    expect(email).toMatchObject({ to: "u1@example.com", subject: "New sign-in to your account" });
+    expect(email.text).toContain("Firefox on Linux");
+    expect(email.text).toContain("login-report?token=raw-token");
+  });
+
+  test("does not alert on the first sign-in", async () => {
+    spyOn(loginEventRepo, "hasSuccessfulLogin").mockResolvedValue(false);
+    const eventSpy = spyOn(loginEventRepo, "createLoginEvent").mockResolvedValue();
+    const reportableSpy = spyOn(loginEventRepo, "createReportableLoginEvent");
+
+    await loginSecurityService.recordSignIn(
+      "u1",
+      { platform: SessionPlatform.mobile, device_name: "Pixel 8" },
+      "sid1",
+      now,
+    );
+
+    expect(eventSpy).toHaveBeenCalled();
+    expect(reportableSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("reportLogin", () => {
+  const event = (overrides: Record<string, any> = {}) => ({
+    login_id: "l1",
+    user_id: "u1",
+    session_id: "sid1",
+    reported_at: null,
+    created_at: new Date(now.getTime() - 60_000),
+    ...overrides,
+  });
+
+  test("signs the reported session out", async () => {
+    spyOn(loginEventRepo, "getLoginEventByReportToken").mockResolvedValue(event());
+    spyOn(loginEventRepo, "markReported").mockResolvedValue(true);
+    const sessionSpy = spyOn(sessionRepo, "revokeSessionAccount").mockResolvedValue("sa1");
+    const tokensSpy = spyOn(refreshTokenRepo, "revokeTokensBySessionAccount").mockResolvedValue();
+
+    await loginSecurityService.reportLogin("raw-token", now);
+
+    expect(sessionSpy).toHaveBeenCalledWith("sid1", "u1");
+    expect(tokensSpy).toHaveBeenCalledWith("sa1");
+  });
+
+  test("rejects links that have expired", async () => {
+    spyOn(loginEventRepo, "getLoginEventByReportToken").mockResolvedValue(
+      event({ created_at: new Date(now.getTime() - 8 * 24 * 60 * 60_000) }),
+    );
+    const sessionSpy = spyOn(sessionRepo, "revokeSessionAccount");
+
+    await expect(loginSecurityService.reportLogin("raw-token", now)).rejects.toBeInstanceOf(
+      loginSecurityService.InvalidLoginReportTokenError,
+    );
+    expect(sessionSpy).not.toHaveBeenCalled();
+  });
+});
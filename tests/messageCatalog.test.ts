@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { NotificationType } from "../src/generated/prisma/client";
+import { DEFAULT_LOCALE, renderMessage, resolveLocale } from "../src/utils/messageCatalog";
+
+describe("renderMessage", () => {
+  test("fills in placeholders in the requested locale", () => {
+    expect(renderMessage(NotificationType.PRIORITY_CHANGED, "da", { task: "Vask op" })).toEqual({
+      title: "Prioritet ændret",
+      body: "Vask op – prioritet ændret til høj",
+    });
+    expect(renderMessage(NotificationType.TASK_ASSIGNED, "en", { task: "Vask op" }).body).toBe(
+      "You have been assigned: Vask op",
+    );
+  });
+
+  test("picks the plural form for count", () => {
+    expect(renderMessage(NotificationType.DAILY_BRIEFING, "da", { count: 1 }).title).toBe("1 opgave i dag");
+    expect(renderMessage(NotificationType.DAILY_BRIEFING, "da", { count: 3 }).title).toBe("3 opgaver i dag");
+    expect(renderMessage(NotificationType.DAILY_BRIEFING, "pl", { count: 1 }).title).toBe("1 zadanie na dziś");
+    expect(renderMessage(NotificationType.DAILY_BRIEFING, "pl", { count: 3 }).title).toBe("3 zadania na dziś");
+    expect(renderMessage(NotificationType.DAILY_BRIEFING, "pl", { count: 5 }).title).toBe("5 zadań na dziś");
+  });
+
+  test("leaves placeholders without a param as they are", () => {
+    expect(renderMessage(NotificationType.PRIORITY_CHANGED, "en").body).toBe("{task} – priority changed to high");
+  });
+});
+
+describe("resolveLocale", () => {
+  test("uses the first supported locale", () => {
+    expect(resolveLocale("pl", "da")).toBe("pl");
+    expect(resolveLocale(null, "en")).toBe("en");
+    expect(resolveLocale("fr", "en")).toBe("en");
+  });
+
+  test("falls back to the default locale", () => {
+    expect(resolveLocale(undefined, "xx")).toBe(DEFAULT_LOCALE);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import dns from "dns";
+import { EventEmitter } from "events";
+import https from "https";
+import type net from "net";
+import { assertPublicUrl, isPublicAddress, postToPublicUrl } from "../src/utils/netUtils";
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("isPublicAddress", () => {
+  test("accepts public addresses", () => {
+    expect(isPublicAddress("93.184.215.14")).toBe(true);
+    expect(isPublicAddress("2606:4700::6810:84e5")).toBe(true);
+  });
+
+  test("refuses loopback, private, link-local and mapped private addresses", () => {
+    for (const address of ["127.0.0.1", "10.2.3.4", "172.20.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ["::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test("refuses anything that is not an IP address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  test("refuses plain http", async () => {
+    await expect(assertPublicUrl("http://93.184.215.14/hooks")).rejects.toThrow("does not use https");
+  });
+
+  test("refuses hosts given as private addresses", async () => {
+    await expect(assertPublicUrl("https://[::1]:8443/hooks")).rejects.toThrow("public address");
+    await expect(assertPublicUrl("https://169.254.169.254/latest")).rejects.toThrow("public address");
+  });
+
+  test("accepts a public address", async () => {
+    await expect(assertPublicUrl("https://93.184.215.14/hooks")).resolves.toBeUndefined();
+  });
+});
+
+describe("postToPublicUrl", () => {
+  const options = { headers: { "Content-Type": "application/json" }, body: "{}", timeoutMs: 1000 };
+
+  test("connects to the address that passed the check, whatever the host resolves to later", async () => {
+    const lookupSpy = spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "93.184.215.14", family: 4 }] as never);
+    let lookup: net.LookupFunction | undefined;
+    spyOn(https, "request").mockImplementation(((_url: URL, init: https.RequestOptions, onResponse: (res: unknown) => void) => {
+      lookup = init.lookup;
+      const req = Object.assign(new EventEmitter(), {
+        end: () => onResponse({ statusCode: 204, resume: () => {} }),
+      });
+      return req;
+    }) as never);
+
+    await expect(postToPublicUrl("https://erp.example.com/hooks", options)).resolves.toEqual({ ok: true, status: 204 });
+
+    expect(lookupSpy).toHaveBeenCalledTimes(1);
+    const one = await new Promise((resolve) => lookup!("erp.example.com", {}, (_err, address, family) => resolve([address, family])));
+    expect(one).toEqual(["93.184.215.14", 4]);
+    const all = await new Promise((resolve) => lookup!("erp.example.com", { all: true }, (_err, addresses) => resolve(addresses)));
+    expect(all).toEqual([{ address: "93.184.215.14", family: 4 }]);
+    expect(lookupSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not connect when the host resolves to a private address", async () => {
+    spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "10.0.0.5", family: 4 }] as never);
+    const requestSpy = spyOn(https, "request");
+
+    await expect(postToPublicUrl("https://erp.example.com/hooks", options)).rejects.toThrow("public address");
+    expect(requestSpy).not.toHaveBeenCalled();
+  });
+});
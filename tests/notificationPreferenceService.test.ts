@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NotificationType, UserRole } from "../src/generated/prisma/client";
+import type { DeliverySettings } from "../src/types/notification";
+import type { RequestContext } from "../src/types/requestContext";
+
+const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: transactionMock },
+}));
+
+const notificationRepo = await import("../src/repositories/notificationRepository");
+const preferenceService = await import("../src/services/notificationPreferenceService");
+
+afterEach(() => {
+  mock.restore();
+  transactionMock.mockReset();
+});
+
+const ctx: RequestContext = {
+  actorUserId: "u1",
+  actorRole: UserRole.USER,
+  actorOrgId: "org1",
+  effectiveOrgId: "org1",
+  isSuperAdmin: false,
+};
+
+const quiet = (start: string | null, end: string | null, timezone: string | null = null): DeliverySettings => ({
+  quiet_hours_start: start,
+  quiet_hours_end: end,
+  timezone,
+  preference: null,
+});
+
+describe("quietHoursEnd", () => {
+  test("returns null without quiet hours or outside them", () => {
+    const now = new Date("2026-06-01T10:00:00Z"); // 12:00 in Copenhagen
+    expect(preferenceService.quietHoursEnd(now, quiet(null, null))).toBeNull();
+    expect(preferenceService.quietHoursEnd(now, quiet("22:00", "07:00"))).toBeNull();
+  });
+
+  test("ends the same morning when it is already past midnight", () => {
+    const now = new Date("2026-06-01T01:00:00Z"); // 03:00 in Copenhagen
+    expect(preferenceService.quietHoursEnd(now, quiet("22:00", "07:00"))).toEqual(new Date("2026-06-01T05:00:00Z"));
+  });
+
+  test("ends the next morning when quiet hours wrap midnight", () => {
+    const now = new Date("2026-06-01T21:00:00Z"); // 23:00 in Copenhagen
+    expect(preferenceService.quietHoursEnd(now, quiet("22:00", "07:00"))).toEqual(new Date("2026-06-02T05:00:00Z"));
+  });
+
+  test("uses the organization's timezone", () => {
+    const now = new Date("2026-06-01T13:00:00Z"); // 09:00 in New York
+    const end = preferenceService.quietHoursEnd(now, quiet("08:00", "12:00", "America/New_York"));
+    expect(end).toEqual(new Date("2026-06-01T16:00:00Z"));
+  });
+});
+
+describe("getPreferences", () => {
+  test("fills in defaults for types the user has not changed", async () => {
+    spyOn(notificationRepo, "getPreferenceSettings").mockResolvedValue({
+      quiet_hours_start: "22:00",
+      quiet_hours_end: "06:00",
+      notificationPreferences: [{ type: NotificationType.PRIORITY_CHANGED, push: false, in_app: true, email: true }],
+    } as never);
+
+    const result = await preferenceService.getPreferences(ctx);
+
+    expect(result.quiet_hours).toEqual({ start: "22:00", end: "06:00" });
+    expect(result.preferences).toHaveLength(Object.values(NotificationType).length);
+    expect(result.preferences).toContainEqual({
+      type: NotificationType.PRIORITY_CHANGED,
+      push: false,
+      in_app: true,
+      email: true,
+    });
+    expect(result.preferences).toContainEqual({
+      type: NotificationType.DAILY_BRIEFING,
+      push: true,
+      in_app: false,
+      email: false,
+    });
+    expect(result.preferences).toContainEqual({
+      type: NotificationType.TASK_ASSIGNED,
+      push: true,
+      in_app: true,
+      email: true,
+    });
+  });
+});
+
+describe("updatePreferences", () => {
+  test("saves overrides and clears quiet hours in one transaction", async () => {
+    transactionMock.mockImplementation((fn: any) => fn({}));
+    const upsertSpy = spyOn(notificationRepo, "upsertPreferences").mockResolvedValue();
+    const quietSpy = spyOn(notificationRepo, "updateQuietHours").mockResolvedValue();
+    spyOn(notificationRepo, "getPreferenceSettings").mockResolvedValue({
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+      notificationPreferences: [],
+    } as never);
+
+    const prefs = [{ type: NotificationType.PRIORITY_CHANGED, push: false, in_app: true, email: true }];
+    await preferenceService.updatePreferences(ctx, { preferences: prefs, quiet_hours: null });
+
+    expect(transactionMock).toHaveBeenCalledTimes(1);
+    expect(upsertSpy).toHaveBeenCalledWith({}, "u1", prefs);
+    expect(quietSpy).toHaveBeenCalledWith({}, "u1", null);
+  });
+
+  test("keeps the current email setting when a preference leaves it out", async () => {
+    transactionMock.mockImplementation((fn: any) => fn({}));
+    const upsertSpy = spyOn(notificationRepo, "upsertPreferences").mockResolvedValue();
+    spyOn(notificationRepo, "getPreferenceSettings").mockResolvedValue({
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+      notificationPreferences: [{ type: NotificationType.PRIORITY_CHANGED, push: true, in_app: true, email: true }],
+    } as never);
+
+    await preferenceService.updatePreferences(ctx, {
+      preferences: [
+        { type: NotificationType.PRIORITY_CHANGED, push: false, in_app: true },
+        { type: NotificationType.COMMENT_MENTION, push: false, in_app: false },
+      ],
+    });
+
+    expect(upsertSpy).toHaveBeenCalledWith({}, "u1", [
+      { type: NotificationType.PRIORITY_CHANGED, push: false, in_app: true, email: true },
+      { type: NotificationType.COMMENT_MENTION, push: false, in_app: false, email: true },
+    ]);
+  });
+
+  test("leaves quiet hours alone when they are not in the request", async () => {
+    transactionMock.mockImplementation((fn: any) => fn({}));
+    spyOn(notificationRepo, "upsertPreferences").mockResolvedValue();
+    const quietSpy = spyOn(notificationRepo, "updateQuietHours").mockResolvedValue();
+    spyOn(notificationRepo, "getPreferenceSettings").mockResolvedValue({
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+      notificationPreferences: [],
+    } as never);
+
+    await preferenceService.updatePreferences(ctx, { preferences: [] });
+
+    expect(quietSpy).not.toHaveBeenCalled();
+  });
+});
@@ -79,6 +79,16 @@ describe("requireOrgAccess", () => {
     await expect(run(makeReq())).rejects.toBeInstanceOf(UserTerminatedError);
   });
 
+  test("loads the permissions of the user's organization role", async () => {
+    userFindUniqueMock.mockResolvedValueOnce({
+      status: UserStatus.ACTIVE,
+      orgRole: { organization_id: "org1", permissions: ["template.manage"] },
+    });
+    const req = makeReq({ effectiveOrgId: "org1" });
+    await run(req);
+    expect(req.orgRolePermissions).toEqual(["template.manage"]);
+  });
+
   test("bypasses check when org is not found", async () => {
     findUniqueMock.mockResolvedValueOnce(null);
     const { next } = await run(makeReq());
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { UserRole, UserStatus } from "../src/generated/prisma/client";
+import * as orgRoleRepo from "../src/repositories/orgRoleRepository";
+import * as userRepo from "../src/repositories/userRepository";
+import * as orgRoleService from "../src/services/orgRoleService";
+import * as userService from "../src/services/userService";
+import { can } from "../src/services/policyService";
+import { createOrgRoleSchema } from "../src/schemas/orgRoleSchemas";
+import type { RequestContext } from "../src/types/requestContext";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const ctx = (overrides: Partial<RequestContext> = {}): RequestContext => ({
+  actorUserId: "u1",
+  actorRole: UserRole.USER,
+  actorOrgId: "org1",
+  effectiveOrgId: "org1",
+  isSuperAdmin: false,
+  ...overrides,
+});
+
+const foreman = ctx({ orgRolePermissions: ["template.manage", "task.view.any"] });
+
+describe("can", () => {
+  test("grants admins everything and plain users nothing beyond what they own", () => {
+    expect(can(ctx({ actorRole: UserRole.ADMIN }), "user.manage")).toBe(true);
+    expect(can(ctx({ actorRole: UserRole.SUPER_ADMIN, isSuperAdmin: true }), "role.manage")).toBe(true);
+    expect(can(ctx(), "template.manage")).toBe(false);
+  });
+
+  test("adds the organization role's permissions to the built-in role", () => {
+    expect(can(foreman, "template.manage")).toBe(true);
+    expect(can(foreman, "user.manage")).toBe(false);
+  });
+});
+
+describe("a foreman", () => {
+  test("cannot create users", async () => {
+    const createSpy = spyOn(userRepo, "createUser");
+
+    await expect(
+      userService.createUser(foreman, { name: "N", email: "n@example.com", password: "pw", organization_id: "org1" }),
+    ).rejects.toBeInstanceOf(userService.ForbiddenUserOperationError);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("a member who manages users", () => {
+  const userManager = ctx({ orgRolePermissions: ["user.manage"] });
+  const target = (orgRoleId: string | null) =>
+    ({ user_id: "u2", role: UserRole.USER, organization_id: "org1", org_role_id: orgRoleId }) as never;
+
+  test("cannot change a member whose role grants more than they have", async () => {
+    spyOn(userRepo, "getUserById").mockResolvedValue(target("r-boss"));
+    spyOn(orgRoleRepo, "getRoleById").mockResolvedValue({
+      role_id: "r-boss",
+      permissions: ["user.manage", "role.manage"],
+    } as never);
+    const updateSpy = spyOn(userRepo, "updateUserInOrg");
+
+    await expect(userService.updateUser(userManager, "u2", { password: "new-password" })).rejects.toBeInstanceOf(
+      userService.ForbiddenUserOperationError,
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  test("can change a member whose role grants nothing beyond their own", async () => {
+    spyOn(userRepo, "getUserById").mockResolvedValue(target("r-clerk"));
+    spyOn(orgRoleRepo, "getRoleById").mockResolvedValue({ role_id: "r-clerk", permissions: ["user.manage"] } as never);
+    const updateSpy = spyOn(userRepo, "updateUserInOrg").mockResolvedValue({} as never);
+
+    await userService.updateUser(userManager, "u2", { email: "new@example.com" });
+
+    expect(updateSpy).toHaveBeenCalledWith("u2", "org1", { email: "new@example.com" });
+  });
+});
+
+describe("organization roles", () => {
+  test("cannot grant permissions the actor does not have", async () => {
+    const createSpy = spyOn(orgRoleRepo, "createRole");
+    const roleManager = ctx({ orgRolePermissions: ["role.manage", "template.manage"] });
+
+    await expect(
+      orgRoleService.createRole(roleManager, { name: "Boss", permissions: ["user.manage"] }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("are created in the actor's organization", async () => {
+    const createSpy = spyOn(orgRoleRepo, "createRole").mockResolvedValue({ role_id: "r1" } as never);
+
+    await orgRoleService.createRole(ctx({ actorRole: UserRole.ADMIN }), {
+      name: "Foreman",
+      permissions: ["template.manage"],
+    });
+
+    expect(createSpy).toHaveBeenCalledWith("org1", { name: "Foreman", permissions: ["template.manage"] });
+  });
+
+  test("must belong to the member's organization to be assigned", async () => {
+    spyOn(userRepo, "getUserById").mockResolvedValue({
+      user_id: "u2",
+      role: UserRole.USER,
+      status: UserStatus.ACTIVE,
+      organization_id: "org1",
+    } as never);
+    spyOn(orgRoleRepo, "getRoleById").mockResolvedValue(null);
+    const updateSpy = spyOn(userRepo, "updateUserInOrg");
+
+    await expect(
+      userService.updateUser(ctx({ actorRole: UserRole.ADMIN }), "u2", { org_role_id: "other-org-role" }),
+    ).rejects.toBeInstanceOf(orgRoleService.OrgRoleNotFoundError);
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  test("deduplicate permissions and reject unknown ones", () => {
+    expect(createOrgRoleSchema.parse({ name: "Foreman", permissions: ["template.manage", "template.manage"] })).toEqual({
+      name: "Foreman",
+      permissions: ["template.manage"],
+    });
+    expect(createOrgRoleSchema.safeParse({ name: "Foreman", permissions: ["everything"] }).success).toBe(false);
+  });
+});
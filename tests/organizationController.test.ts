@@ -3,6 +3,7 @@ import type { Request, Response } from "express";
 import * as orgController from "../src/controllers/organizationController";
 import * as orgRepo from "../src/repositories/organizationRepository";
 import * as storageService from "../src/services/storageService";
+import * as calendarService from "../src/services/calendarService";
 import { MESTERPLAN_ORG_ID } from "../src/constants";
 import { errorMiddleware } from "../src/middleware/errorMiddleware";
 
@@ -60,12 +61,14 @@ describe("organizationController.createOrganization", () => {
   test("creates organization with trimmed fields", async () => {
     const organization = { org_id: "org1", name: "Org 1", slug: "org-1" };
     const createSpy = spyOn(orgRepo, "createOrganization").mockResolvedValue(organization as never);
+    const seedSpy = spyOn(calendarService, "seedOrganizationHolidays").mockResolvedValue(26);
     const req = createRequest({ body: { name: " Org 1 ", slug: " org-1 " } });
     const res = createMockResponse();
 
     await callController(orgController.createOrganization, req, res);
 
     expect(createSpy).toHaveBeenCalledWith({ name: "Org 1", slug: "org-1", logo_url: undefined });
+    expect(seedSpy).toHaveBeenCalledWith("org1");
     expect(res.statusCode).toBe(201);
     expect(res.body).toEqual({ success: true, data: organization });
   });
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { UserStatus } from "../src/generated/prisma/client";
+
+const prtFindUniqueMock = mock<(...args: any[]) => Promise<any>>();
+const prtUpdateManyMock = mock<(...args: any[]) => Promise<any>>();
+const userUpdateMock = mock<(...args: any[]) => Promise<any>>();
+
+const db = {
+  passwordResetToken: { findUnique: prtFindUniqueMock, updateMany: prtUpdateManyMock },
+  user: { update: userUpdateMock },
+};
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { ...db, $transaction: mock(async (fn: any) => fn(db)) },
+}));
+
+const authRepo = await import("../src/repositories/authRepository");
+const passwordResetRepo = await import("../src/repositories/passwordResetRepository");
+const emailOutboxRepo = await import("../src/repositories/emailOutboxRepository");
+const refreshTokenRepo = await import("../src/repositories/refreshTokenRepository");
+const sessionRepo = await import("../src/repositories/sessionRepository");
+const authService = await import("../src/services/authService");
+const { InvalidPasswordResetTokenError } = await import("../src/errors/domainErrors");
+const { hashToken } = await import("../src/utils/tokenUtils");
+
+afterEach(() => {
+  mock.restore();
+  for (const m of [prtFindUniqueMock, prtUpdateManyMock, userUpdateMock]) m.mockReset();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const recipient = {
+  user_id: "u1",
+  email: "u1@example.com",
+  status: UserStatus.ACTIVE,
+  locale: null,
+  organization: { default_locale: "en" },
+};
+
+describe("requestPasswordReset", () => {
+  test("emails a link with a new token in the user's locale", async () => {
+    spyOn(authRepo, "getPasswordResetRecipient").mockResolvedValue(recipient as never);
+    const createSpy = spyOn(passwordResetRepo, "createPasswordResetToken").mockResolvedValue("raw-token");
+    const enqueueSpy = spyOn(emailOutboxRepo, "enqueueEmail").mockResolvedValue({} as never);
+
+    await authService.requestPasswordReset("u1@example.com", now);
+
+    expect(createSpy).toHaveBeenCalledWith(expect.anything(), "u1", new Date(now.getTime() + 60 * 60 * 1000));
+    const [, email, sendAfter] = enqueueSpy.mock.calls[0] as any[];
+    expect(email).toMatchObject({ user_id: "u1", to: "u1@example.com", subject: "Reset your password" });
+    expect(email.text).toContain("reset-password?token=raw-token");
+    expect(email.text).toContain("60 minutes");
+    expect(sendAfter).toEqual(now);
+  });
+
+  test("sends nothing for unknown or terminated accounts", async () => {
+    const lookup = spyOn(authRepo, "getPasswordResetRecipient").mockResolvedValueOnce(null);
+    lookup.mockResolvedValueOnce({ ...recipient, status: UserStatus.TERMINATED } as never);
+    const createSpy = spyOn(passwordResetRepo, "createPasswordResetToken");
+    const enqueueSpy = spyOn(emailOutboxRepo, "enqueueEmail");
+
+    await authService.requestPasswordReset("nobody@example.com", now);
+    await authService.requestPasswordReset("u1@example.com", now);
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(enqueueSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("consumePasswordResetToken", () => {
+  test("looks the token up by its hash, sets the new password once and lifts the lockout", async () => {
+    prtFindUniqueMock.mockResolvedValue({ token_id: "prt1", user_id: "u1" });
+    prtUpdateManyMock.mockResolvedValue({ count: 1 });
+    userUpdateMock.mockResolvedValue({});
+
+    const userId = await passwordResetRepo.consumePasswordResetToken("raw-token", "new-hash", now);
+
+    expect(userId).toBe("u1");
+    expect(prtFindUniqueMock.mock.calls[0]?.[0]).toMatchObject({ where: { token_hash: hashToken("raw-token") } });
+    expect(prtUpdateManyMock).toHaveBeenCalledWith({
+      where: { token_id: "prt1", used_at: null, expires_at: { gt: now } },
+      data: { used_at: now },
+    });
+    expect(userUpdateMock).toHaveBeenCalledWith({
+      where: { user_id: "u1" },
+      data: { password: "new-hash", failed_login_count: 0, locked_until: null },
+    });
+  });
+
+  test("rejects used or expired tokens without touching the password", async () => {
+    prtFindUniqueMock.mockResolvedValue({ token_id: "prt1", user_id: "u1" });
+    prtUpdateManyMock.mockResolvedValue({ count: 0 });
+
+    expect(await passwordResetRepo.consumePasswordResetToken("raw-token", "new-hash", now)).toBeNull();
+    expect(userUpdateMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("resetPassword", () => {
+  test("revokes every session after setting the new password", async () => {
+    spyOn(passwordResetRepo, "consumePasswordResetToken").mockResolvedValue("u1");
+    const tokensSpy = spyOn(refreshTokenRepo, "revokeAllTokensForUser").mockResolvedValue();
+    const sessionsSpy = spyOn(sessionRepo, "revokeAllSessionAccountsForUser").mockResolvedValue(undefined as never);
+
+    await authService.resetPassword("raw-token", "n3w-password", now);
+
+    expect(tokensSpy).toHaveBeenCalledWith("u1");
+    expect(sessionsSpy).toHaveBeenCalledWith("u1");
+  });
+
+  test("fails for an invalid token", async () => {
+    spyOn(passwordResetRepo, "consumePasswordResetToken").mockResolvedValue(null);
+    const tokensSpy = spyOn(refreshTokenRepo, "revokeAllTokensForUser");
+
+    await expect(authService.resetPassword("bad", "n3w-password", now)).rejects.toBeInstanceOf(
+      InvalidPasswordResetTokenError,
+    );
+    expect(tokensSpy).not.toHaveBeenCalled();
+  });
+});
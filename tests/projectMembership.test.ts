@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { ProjectMemberRole, UserRole } from "../src/generated/prisma/client";
+import * as projectRepo from "../src/repositories/projectRepository";
+import * as userRepo from "../src/repositories/userRepository";
+import * as projectService from "../src/services/projectService";
+import { projectVisibilityFor } from "../src/services/policyService";
+import { canAccessTask } from "../src/helper/helpers";
+import type { RequestContext } from "../src/types/requestContext";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const ctx = (overrides: Partial<RequestContext> = {}): RequestContext => ({
+  actorUserId: "u1",
+  actorRole: UserRole.USER,
+  actorOrgId: "org1",
+  effectiveOrgId: "org1",
+  isSuperAdmin: false,
+  ...overrides,
+});
+
+const access = (overrides: Record<string, any> = {}) => ({
+  organization_id: "org1",
+  restricted: true,
+  role: null,
+  ...overrides,
+});
+
+describe("project visibility", () => {
+  test("limits members to their projects unless they hold project.view.any", () => {
+    expect(projectVisibilityFor(ctx())).toBe("u1");
+    expect(projectVisibilityFor(ctx({ orgRolePermissions: ["project.view.any"] }))).toBeNull();
+    expect(projectVisibilityFor(ctx({ actorRole: UserRole.ADMIN }))).toBeNull();
+  });
+
+  test("lists only visible projects for a subcontractor crew member", async () => {
+    const listSpy = spyOn(projectRepo, "getAllProjects").mockResolvedValue([]);
+
+    await projectService.listProjects(ctx());
+
+    expect(listSpy).toHaveBeenCalledWith("org1", "u1");
+  });
+
+  test("hides the members of a restricted project from non-members", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access());
+    const membersSpy = spyOn(projectRepo, "getMembers");
+
+    await expect(projectService.listMembers(ctx(), "p1")).rejects.toBeInstanceOf(projectService.ProjectNotFoundError);
+    expect(membersSpy).not.toHaveBeenCalled();
+  });
+
+  test("hides tasks of restricted projects from task.view.any holders who are not members", () => {
+    const foreman = ctx({ orgRolePermissions: ["task.view.any"] });
+    const task = (project: { restricted: boolean; members: { user_id: string }[] }) => ({
+      created_by: "u2",
+      assignments: [],
+      project,
+    });
+
+    expect(canAccessTask(task({ restricted: false, members: [] }), foreman)).toBe(true);
+    expect(canAccessTask(task({ restricted: true, members: [] }), foreman)).toBe(false);
+    expect(canAccessTask(task({ restricted: true, members: [{ user_id: "u1" }] }), foreman)).toBe(true);
+    expect(canAccessTask(task({ restricted: true, members: [] }), ctx({ actorRole: UserRole.ADMIN }))).toBe(true);
+    expect(canAccessTask({ ...task({ restricted: true, members: [] }), created_by: "u1" }, ctx())).toBe(true);
+  });
+});
+
+describe("managing members", () => {
+  test("lets project owners add users of the organization", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.OWNER }));
+    const userSpy = spyOn(userRepo, "getUserById").mockResolvedValue({ user_id: "u2" } as never);
+    spyOn(projectRepo, "getMemberRole").mockResolvedValue(null);
+    const upsertSpy = spyOn(projectRepo, "upsertMember").mockResolvedValue({} as never);
+
+    await projectService.setMember(ctx(), "p1", "u2", ProjectMemberRole.VIEWER);
+
+    expect(userSpy).toHaveBeenCalledWith("u2", "org1");
+    expect(upsertSpy).toHaveBeenCalledWith("p1", "u2", ProjectMemberRole.VIEWER);
+  });
+
+  test("refuses members who are not owners", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.MEMBER }));
+    const upsertSpy = spyOn(projectRepo, "upsertMember");
+
+    await expect(
+      projectService.setMember(ctx(), "p1", "u2", ProjectMemberRole.OWNER),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(upsertSpy).not.toHaveBeenCalled();
+  });
+
+  test("reports removing a user who is not a member", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.OWNER }));
+    spyOn(projectRepo, "getMemberRole").mockResolvedValue(null);
+    spyOn(projectRepo, "removeMember").mockResolvedValue(false);
+
+    await expect(projectService.removeMember(ctx(), "p1", "u2")).rejects.toBeInstanceOf(
+      projectService.ProjectMemberNotFoundError,
+    );
+  });
+
+  test("keeps the last owner from being demoted or removed", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.OWNER }));
+    spyOn(userRepo, "getUserById").mockResolvedValue({ user_id: "u1" } as never);
+    spyOn(projectRepo, "getMemberRole").mockResolvedValue(ProjectMemberRole.OWNER);
+    spyOn(projectRepo, "countOwners").mockResolvedValue(1);
+    const upsertSpy = spyOn(projectRepo, "upsertMember");
+    const removeSpy = spyOn(projectRepo, "removeMember");
+
+    await expect(
+      projectService.setMember(ctx(), "p1", "u1", ProjectMemberRole.MEMBER),
+    ).rejects.toBeInstanceOf(projectService.LastProjectOwnerError);
+    await expect(projectService.removeMember(ctx(), "p1", "u1")).rejects.toBeInstanceOf(
+      projectService.LastProjectOwnerError,
+    );
+    expect(upsertSpy).not.toHaveBeenCalled();
+    expect(removeSpy).not.toHaveBeenCalled();
+  });
+
+  test("lets an owner step down once another owner remains", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.OWNER }));
+    spyOn(projectRepo, "getMemberRole").mockResolvedValue(ProjectMemberRole.OWNER);
+    spyOn(projectRepo, "countOwners").mockResolvedValue(2);
+    const removeSpy = spyOn(projectRepo, "removeMember").mockResolvedValue(true);
+
+    await projectService.removeMember(ctx(), "p1", "u1");
+
+    expect(removeSpy).toHaveBeenCalledWith("p1", "u1");
+  });
+});
+
+describe("adding tasks", () => {
+  test("is refused to viewers", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ role: ProjectMemberRole.VIEWER }));
+
+    await expect(projectService.assertCanAddTasks(ctx(), "p1")).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test("is allowed to anyone in an unrestricted project", async () => {
+    spyOn(projectRepo, "getProjectAccess").mockResolvedValue(access({ restricted: false }));
+
+    await projectService.assertCanAddTasks(ctx(), "p1");
+  });
+});
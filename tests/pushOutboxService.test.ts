@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { UserStatus } from "../src/generated/prisma/client";
+
+const sendPushMessagesMock = mock<(...args: any[]) => Promise<any[]>>();
+const getPushReceiptsMock = mock<(...args: any[]) => Promise<Record<string, any>>>();
+
+mock.module("../src/services/notificationService", () => ({
+  isPushToken: (token: string) => token.startsWith("ExponentPushToken["),
+  redactToken: (token: string) => token,
+  sendPushMessages: sendPushMessagesMock,
+  getPushReceipts: getPushReceiptsMock,
+}));
+
+const pushOutboxRepo = await import("../src/repositories/pushOutboxRepository");
+const userRepo = await import("../src/repositories/userRepository");
+const pushOutboxService = await import("../src/services/pushOutboxService");
+
+afterEach(() => {
+  mock.restore();
+  sendPushMessagesMock.mockReset();
+  getPushReceiptsMock.mockReset();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+const TOKEN = "ExponentPushToken[abc]";
+
+const duePush = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: "u1",
+  title: "Ny opgave tildelt",
+  body: "Du er blevet tildelt: Vask op",
+  data: { taskId: "t1" },
+  attempts: 0,
+  user: { push_token: TOKEN, status: UserStatus.ACTIVE },
+  ...overrides,
+});
+
+const sentPush = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: "u1",
+  push_token: TOKEN,
+  ticket_id: `ticket-${id}`,
+  attempts: 1,
+  ...overrides,
+});
+
+describe("retryDelayMs", () => {
+  test("doubles after each attempt and caps at an hour", () => {
+    expect(pushOutboxService.retryDelayMs(1)).toBe(60_000);
+    expect(pushOutboxService.retryDelayMs(3)).toBe(4 * 60_000);
+    expect(pushOutboxService.retryDelayMs(10)).toBe(60 * 60_000);
+  });
+});
+
+describe("sendPendingPushes", () => {
+  test("sends due pushes to the user's current token and records the ticket", async () => {
+    spyOn(pushOutboxRepo, "getDuePushes").mockResolvedValue([duePush("p1")] as never);
+    const sentSpy = spyOn(pushOutboxRepo, "markSent").mockResolvedValue({} as never);
+    sendPushMessagesMock.mockResolvedValue([{ status: "ok", id: "ticket-1" }]);
+
+    const summary = await pushOutboxService.sendPendingPushes(now);
+
+    expect(summary).toEqual({ sent: 1, retried: 0, failed: 0 });
+    expect(sendPushMessagesMock.mock.calls[0]?.[0]).toEqual([
+      {
+        to: TOKEN,
+        sound: "default",
+        title: "Ny opgave tildelt",
+        body: "Du er blevet tildelt: Vask op",
+        data: { taskId: "t1" },
+      },
+    ]);
+    expect(sentSpy).toHaveBeenCalledWith("p1", TOKEN, "ticket-1", now, 1);
+  });
+
+  test("fails pushes for users without a valid token without calling Expo", async () => {
+    spyOn(pushOutboxRepo, "getDuePushes").mockResolvedValue([
+      duePush("p1", { user: { push_token: null, status: UserStatus.ACTIVE } }),
+      duePush("p2", { user: { push_token: TOKEN, status: UserStatus.TERMINATED } }),
+    ] as never);
+    const failSpy = spyOn(pushOutboxRepo, "markFailed").mockResolvedValue({} as never);
+
+    const summary = await pushOutboxService.sendPendingPushes(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 2 });
+    expect(failSpy).toHaveBeenCalledTimes(2);
+    expect(sendPushMessagesMock).not.toHaveBeenCalled();
+  });
+
+  test("retries with backoff when the Expo request fails", async () => {
+    spyOn(pushOutboxRepo, "getDuePushes").mockResolvedValue([duePush("p1", { attempts: 2 })] as never);
+    const retrySpy = spyOn(pushOutboxRepo, "scheduleRetry").mockResolvedValue({} as never);
+    sendPushMessagesMock.mockResolvedValue([null]);
+
+    const summary = await pushOutboxService.sendPendingPushes(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 1, failed: 0 });
+    expect(retrySpy).toHaveBeenCalledWith(
+      "p1",
+      3,
+      new Date(now.getTime() + 4 * 60_000),
+      "Expo request failed",
+    );
+  });
+
+  test("gives up after the last attempt", async () => {
+    spyOn(pushOutboxRepo, "getDuePushes").mockResolvedValue([
+      duePush("p1", { attempts: pushOutboxService.MAX_PUSH_ATTEMPTS - 1 }),
+    ] as never);
+    const retrySpy = spyOn(pushOutboxRepo, "scheduleRetry").mockResolvedValue({} as never);
+    const failSpy = spyOn(pushOutboxRepo, "markFailed").mockResolvedValue({} as never);
+    sendPushMessagesMock.mockResolvedValue([null]);
+
+    const summary = await pushOutboxService.sendPendingPushes(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 1 });
+    expect(retrySpy).not.toHaveBeenCalled();
+    expect(failSpy).toHaveBeenCalledWith("p1", pushOutboxService.MAX_PUSH_ATTEMPTS, "Expo request failed");
+  });
+
+  test("clears the token and fails the push when the device is no longer registered", async () => {
+    spyOn(pushOutboxRepo, "getDuePushes").mockResolvedValue([duePush("p1")] as never);
+    const failSpy = spyOn(pushOutboxRepo, "markFailed").mockResolvedValue({} as never);
+    const clearSpy = spyOn(userRepo, "clearPushToken").mockResolvedValue();
+    sendPushMessagesMock.mockResolvedValue([
+      { status: "error", message: "gone", details: { error: "DeviceNotRegistered" } },
+    ]);
+
+    const summary = await pushOutboxService.sendPendingPushes(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 1 });
+    expect(clearSpy).toHaveBeenCalledWith("u1", TOKEN);
+    expect(failSpy).toHaveBeenCalledWith("p1", 1, "DeviceNotRegistered: gone");
+  });
+});
+
+describe("pollPushReceipts", () => {
+  test("marks delivered pushes and leaves pushes without a receipt for the next run", async () => {
+    spyOn(pushOutboxRepo, "getPushesAwaitingReceipt").mockResolvedValue([
+      sentPush("p1"),
+      sentPush("p2"),
+    ] as never);
+    const deliveredSpy = spyOn(pushOutboxRepo, "markDelivered").mockResolvedValue();
+    getPushReceiptsMock.mockResolvedValue({ "ticket-p1": { status: "ok" } });
+
+    const summary = await pushOutboxService.pollPushReceipts(now);
+
+    expect(summary).toEqual({ delivered: 1, retried: 0, failed: 0 });
+    expect(getPushReceiptsMock).toHaveBeenCalledWith(["ticket-p1", "ticket-p2"]);
+    expect(deliveredSpy).toHaveBeenCalledWith(["p1"]);
+  });
+
+  test("retries rate-limited pushes and fails the rest", async () => {
+    spyOn(pushOutboxRepo, "getPushesAwaitingReceipt").mockResolvedValue([
+      sentPush("p1"),
+      sentPush("p2"),
+    ] as never);
+    spyOn(pushOutboxRepo, "markDelivered").mockResolvedValue();
+    const retrySpy = spyOn(pushOutboxRepo, "scheduleRetry").mockResolvedValue({} as never);
+    const failSpy = spyOn(pushOutboxRepo, "markFailed").mockResolvedValue({} as never);
+    const clearSpy = spyOn(userRepo, "clearPushToken").mockResolvedValue();
+    getPushReceiptsMock.mockResolvedValue({
+      "ticket-p1": { status: "error", message: "slow down", details: { error: "MessageRateExceeded" } },
+      "ticket-p2": { status: "error", message: "gone", details: { error: "DeviceNotRegistered" } },
+    });
+
+    const summary = await pushOutboxService.pollPushReceipts(now);
+
+    expect(summary).toEqual({ delivered: 0, retried: 1, failed: 1 });
+    expect(retrySpy.mock.calls[0]?.[0]).toBe("p1");
+    expect(failSpy).toHaveBeenCalledWith("p2", 1, "DeviceNotRegistered: gone");
+    expect(clearSpy).toHaveBeenCalledWith("u1", TOKEN);
+  });
+});
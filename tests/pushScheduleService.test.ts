@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+
+const orgRepo = await import("../src/repositories/organizationRepository");
+const taskRepo = await import("../src/repositories/taskRepository");
+const notificationRepo = await import("../src/repositories/notificationRepository");
+const pushOutboxRepo = await import("../src/repositories/pushOutboxRepository");
+const calendarService = await import("../src/services/calendarService");
+const { sendScheduledPushes } = await import("../src/services/pushScheduleService");
+
+afterEach(() => {
+  mock.restore();
+});
+
+const schedule = (org_id: string, timezone: string | null, morning = "06:25", evening = "20:00") => ({
+  org_id,
+  timezone,
+  morning_briefing_time: morning,
+  evening_reminder_time: evening,
+  working_days: null,
+});
+
+describe("sendScheduledPushes", () => {
+  test("sends the morning briefing only to organizations whose local time has reached it", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([
+      schedule("org-cph", null),
+      schedule("org-ny", "America/New_York"),
+      schedule("org-late", null, "07:00"),
+    ]);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([
+      { user_id: "u1", push_token: "tok", tasks: [{}, {}] as never },
+    ]);
+    const eveningSpy = spyOn(taskRepo, "getUsersWithNoActivityToday").mockResolvedValue([]);
+    spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(null);
+    const enqueueSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+
+    // 06:25 in Copenhagen (CEST), 00:25 in New York
+    const now = new Date("2026-04-01T04:25:00Z");
+    await sendScheduledPushes(now);
+
+    expect(morningSpy).toHaveBeenCalledTimes(1);
+    expect(morningSpy).toHaveBeenCalledWith(now, "org-cph", "Europe/Copenhagen");
+    expect(eveningSpy).not.toHaveBeenCalled();
+    expect(enqueueSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      "u1",
+      expect.objectContaining({ title: "2 opgaver i dag", data: { screen: "tasks" } }),
+      now,
+    );
+  });
+
+  test("uses each organization's own timezone and evening time", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([
+      schedule("org-cph", null),
+      schedule("org-ny", "America/New_York", "06:25", "18:30"),
+    ]);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    const closedSpy = spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([]);
+    const eveningSpy = spyOn(taskRepo, "getUsersWithNoActivityToday").mockResolvedValue([]);
+
+    // 18:30 in New York (EDT)
+    const now = new Date("2026-04-01T22:30:00Z");
+    await sendScheduledPushes(now);
+
+    expect(closedSpy).toHaveBeenCalledWith("org-ny", null, "2026-04-01");
+    expect(eveningSpy).toHaveBeenCalledWith(now, "org-ny", "America/New_York");
+  });
+
+  test("stays quiet on closed days", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([schedule("org-cph", null)]);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(true);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([]);
+
+    await sendScheduledPushes(new Date("2026-04-01T04:25:00Z"));
+
+    expect(morningSpy).not.toHaveBeenCalled();
+  });
+
+  test("keeps going when one organization fails", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([schedule("org-a", null), schedule("org-b", null)]);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser")
+      .mockRejectedValueOnce(new Error("db fail"))
+      .mockResolvedValueOnce([]);
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    await sendScheduledPushes(new Date("2026-04-01T04:25:00Z"));
+
+    expect(morningSpy).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalled();
+  });
+
+  test("catches up a push whose minute was missed", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([schedule("org-cph", null)]);
+    const claimSpy = spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([]);
+    const eveningSpy = spyOn(taskRepo, "getUsersWithNoActivityToday").mockResolvedValue([]);
+
+    // 06:40 in Copenhagen, after the 06:25 briefing and before the 20:00 reminder
+    const now = new Date("2026-04-01T04:40:00Z");
+    await sendScheduledPushes(now);
+
+    expect(claimSpy).toHaveBeenCalledTimes(1);
+    expect(claimSpy).toHaveBeenCalledWith("org-cph", "MORNING_BRIEFING", new Date("2026-04-01"));
+    expect(morningSpy).toHaveBeenCalledWith(now, "org-cph", "Europe/Copenhagen");
+    expect(eveningSpy).not.toHaveBeenCalled();
+  });
+
+  test("does not send the morning briefing hours late", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([schedule("org-cph", null)]);
+    const claimSpy = spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(true);
+    spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([]);
+    const eveningSpy = spyOn(taskRepo, "getUsersWithNoActivityToday").mockResolvedValue([]);
+
+    // 21:00 in Copenhagen with nothing sent yet today
+    const now = new Date("2026-04-01T19:00:00Z");
+    await sendScheduledPushes(now);
+
+    expect(claimSpy).toHaveBeenCalledTimes(1);
+    expect(claimSpy).toHaveBeenCalledWith("org-cph", "EVENING_REMINDER", new Date("2026-04-01"));
+    expect(morningSpy).not.toHaveBeenCalled();
+    expect(eveningSpy).toHaveBeenCalledWith(now, "org-cph", "Europe/Copenhagen");
+  });
+
+  test("does not send again once today's push went out", async () => {
+    spyOn(orgRepo, "getPushSchedules").mockResolvedValue([schedule("org-cph", null, "02:30")]);
+    spyOn(orgRepo, "claimScheduledSend").mockResolvedValue(false);
+    const closedSpy = spyOn(calendarService, "isOrganizationClosed").mockResolvedValue(false);
+    const morningSpy = spyOn(taskRepo, "getTodayTasksPerUser").mockResolvedValue([]);
+
+    // 02:30 CET, the second time the clock shows it on the fall-back day
+    await sendScheduledPushes(new Date("2026-10-25T01:30:00Z"));
+
+    expect(closedSpy).not.toHaveBeenCalled();
+    expect(morningSpy).not.toHaveBeenCalled();
+  });
+});
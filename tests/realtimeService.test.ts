@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { TaskEventType, UserRole } from "../src/generated/prisma/client";
+import * as taskEventRepo from "../src/repositories/taskEventRepository";
+import * as realtimeService from "../src/services/realtimeService";
+import type { StreamMessage } from "../src/types/realtime";
+
+// Keep the poll timer from firing during tests; they call pollOnce directly.
+process.env.REALTIME_POLL_INTERVAL_MS = String(60 * 60 * 1000);
+
+const unsubscribers: (() => void)[] = [];
+
+afterEach(() => {
+  for (const unsubscribe of unsubscribers.splice(0)) unsubscribe();
+  mock.restore();
+});
+
+const userCtx = {
+  actorUserId: "u1",
+  actorRole: UserRole.USER,
+  actorOrgId: "org-1",
+  effectiveOrgId: "org-1",
+  isSuperAdmin: false,
+};
+const adminCtx = { ...userCtx, actorUserId: "a1", actorRole: UserRole.ADMIN };
+
+let clock = Date.now();
+
+const streamEvent = (id: string, overrides: Record<string, any> = {}) => ({
+  event_id: id,
+  task_id: "t1",
+  actor_id: "u2",
+  type: TaskEventType.COMMENT_CREATED,
+  message: null,
+  before_json: null,
+  after_json: { comment_id: "c1" },
+  created_at: new Date(++clock),
+  task: {
+    created_by: "u2",
+    project_id: "p1",
+    project: { organization_id: "org-1" },
+    assignments: [{ user_id: "u1" }],
+  },
+  ...overrides,
+});
+
+function listen(ctx = userCtx, filter = {}) {
+  const messages: StreamMessage[] = [];
+  unsubscribers.push(realtimeService.subscribe(ctx, filter, (m) => messages.push(m)));
+  return messages;
+}
+
+const ids = (messages: StreamMessage[]) =>
+  messages.map((m) => (m.kind === "task_event" ? m.event.event_id : m.kind));
+
+describe("pollOnce", () => {
+  test("sends each event once to the subscribers who can see it", async () => {
+    const assignee = listen();
+    const admin = listen(adminCtx);
+    const otherOrg = listen({ ...adminCtx, actorOrgId: "org-2", effectiveOrgId: "org-2" });
+    const first = streamEvent("e1");
+    const hidden = streamEvent("e2", {
+      task: { created_by: "u3", project_id: "p1", project: { organization_id: "org-1" }, assignments: [] },
+    });
+    spyOn(taskEventRepo, "getEventsCreatedSince")
+      .mockResolvedValueOnce([first, hidden] as never)
+      .mockResolvedValueOnce([first, hidden, streamEvent("e3")] as never);
+
+    await realtimeService.pollOnce();
+    await realtimeService.pollOnce();
+
+    expect(ids(assignee)).toEqual(["e1", "e3"]);
+    expect(ids(admin)).toEqual(["e1", "e2", "e3"]);
+    expect(otherOrg).toEqual([]);
+    expect(assignee[0]).toEqual({
+      kind: "task_event",
+      event: {
+        event_id: "e1",
+        type: TaskEventType.COMMENT_CREATED,
+        task_id: "t1",
+        project_id: "p1",
+        actor_id: "u2",
+        message: null,
+        before: null,
+        after: { comment_id: "c1" },
+        created_at: first.created_at.toISOString(),
+      },
+    });
+  });
+
+  test("narrows a stream to one task", async () => {
+    const taskStream = listen(adminCtx, { task_id: "t2" });
+    spyOn(taskEventRepo, "getEventsCreatedSince").mockResolvedValue([
+      streamEvent("e10"),
+      streamEvent("e11", { task_id: "t2" }),
+    ] as never);
+
+    await realtimeService.pollOnce();
+
+    expect(ids(taskStream)).toEqual(["e11"]);
+  });
+
+  test("pages through a window holding more than one batch", async () => {
+    const admin = listen(adminCtx);
+    const batch = Array.from({ length: 500 }, (_, i) => streamEvent(`b${i}`));
+    const next = streamEvent("b500");
+    const readSpy = spyOn(taskEventRepo, "getEventsCreatedSince")
+      .mockResolvedValueOnce(batch as never)
+      .mockResolvedValueOnce([next] as never);
+
+    await realtimeService.pollOnce();
+
+    expect(readSpy).toHaveBeenCalledTimes(2);
+    expect(readSpy.mock.calls[1]![2]).toBe(batch[499] as never);
+    expect(admin).toHaveLength(501);
+  });
+});
+
+describe("openStream", () => {
+  test("replays the events missed since the last event id", async () => {
+    spyOn(taskEventRepo, "getEventPosition").mockResolvedValue({ event_id: "e20", created_at: new Date(clock) });
+    const afterSpy = spyOn(taskEventRepo, "getEventsAfter").mockResolvedValue([
+      streamEvent("e21"),
+      streamEvent("e22"),
+    ] as never);
+    const messages: StreamMessage[] = [];
+
+    unsubscribers.push(await realtimeService.openStream(userCtx, {}, "e20", (m) => messages.push(m)));
+
+    expect(ids(messages)).toEqual(["e21", "e22"]);
+    const taskWhere = afterSpy.mock.calls[0]?.[1] as any;
+    expect(taskWhere.project).toEqual({ organization_id: "org-1" });
+    expect(taskWhere.OR).toEqual([{ created_by: "u1" }, { assignments: { some: { user_id: "u1" } } }]);
+  });
+
+  test("tells the client to refetch when the last event id is unknown", async () => {
+    spyOn(taskEventRepo, "getEventPosition").mockResolvedValue(null);
+    const afterSpy = spyOn(taskEventRepo, "getEventsAfter");
+    const messages: StreamMessage[] = [];
+
+    unsubscribers.push(await realtimeService.openStream(userCtx, {}, "gone", (m) => messages.push(m)));
+
+    expect(messages).toEqual([{ kind: "reset" }]);
+    expect(afterSpy).not.toHaveBeenCalled();
+  });
+
+  test("tells the client to refetch when too far behind", async () => {
+    spyOn(taskEventRepo, "getEventPosition").mockResolvedValue({ event_id: "e30", created_at: new Date(clock) });
+    spyOn(taskEventRepo, "getEventsAfter").mockResolvedValue(
+      Array.from({ length: realtimeService.MAX_REPLAY_EVENTS + 1 }, (_, i) => streamEvent(`r${i}`)) as never,
+    );
+    const messages: StreamMessage[] = [];
+
+    unsubscribers.push(await realtimeService.openStream(userCtx, {}, "e30", (m) => messages.push(m)));
+
+    expect(messages).toEqual([{ kind: "reset" }]);
+  });
+});
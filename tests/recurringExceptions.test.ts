@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+  RecurrenceFrequency,
+  RecurringExceptionType,
+  TaskEventType,
+  TaskPriority,
+  TaskStatus,
+  UserRole,
+} from "../src/generated/prisma/client";
+import {
+  DuplicateTemplateExceptionError,
+  TemplateForbiddenError,
+  TemplateOccurrenceStartedError,
+  ValidationError,
+} from "../src/errors/domainErrors";
+import type { RequestContext } from "../src/types/requestContext";
+
+const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: transactionMock },
+}));
+
+const templateRepository = await import("../src/repositories/templateRepository");
+const taskEventRepository = await import("../src/repositories/taskEventRepository");
+const { RecurringTaskService } = await import("../src/services/recurringTaskService");
+
+afterEach(() => {
+  mock.restore();
+  transactionMock.mockReset();
+});
+
+const adminCtx: RequestContext = {
+  actorUserId: "admin-1",
+  actorRole: UserRole.ADMIN,
+  actorOrgId: "org-1",
+  effectiveOrgId: "org-1",
+  isSuperAdmin: false,
+};
+
+const weeklyTemplate = {
+  id: "template-a",
+  title: "Site inspection",
+  created_by: "user-a",
+  frequency: RecurrenceFrequency.WEEKLY,
+  interval: 1,
+  days_of_week: [1], // Mondays
+  day_of_month: null,
+  rrule: null,
+  start_date: new Date("2027-01-04T00:00:00.000Z"),
+  end_date: null,
+  priority: TaskPriority.MEDIUM,
+  is_active: true,
+};
+
+const monday = new Date("2027-01-11T00:00:00.000Z");
+
+function makeTx(instance: Record<string, any> | null) {
+  return {
+    task: {
+      findFirst: mock(() => Promise.resolve(instance)),
+      delete: mock(() => Promise.resolve({})),
+      update: mock(() => Promise.resolve({})),
+    },
+    recurringTemplateException: {
+      create: mock((args: any) => Promise.resolve({ id: "ex-1", ...args.data })),
+    },
+  };
+}
+
+function setup(instance: Record<string, any> | null) {
+  spyOn(RecurringTaskService.prototype, "getTemplateById").mockResolvedValue(weeklyTemplate as never);
+  spyOn(templateRepository, "getTemplateException").mockResolvedValue(null);
+  spyOn(templateRepository, "getTemplateTimeZone").mockResolvedValue("Europe/Copenhagen");
+  const tx = makeTx(instance);
+  transactionMock.mockImplementation((fn) => fn(tx));
+  const createEvent = spyOn(taskEventRepository, "createTaskEvent").mockResolvedValue({} as never);
+  return { tx, createEvent };
+}
+
+describe("RecurringTaskService.addTemplateException", () => {
+  test("skip deletes the untouched instance and logs on the template", async () => {
+    const { tx, createEvent } = setup({ task_id: "t-11", status: TaskStatus.PENDING });
+
+    const exception = await new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+      occurrence_date: monday,
+      type: RecurringExceptionType.SKIP,
+    });
+
+    expect(exception).toMatchObject({ template_id: "template-a", type: RecurringExceptionType.SKIP });
+    expect(tx.task.delete).toHaveBeenCalledWith({ where: { task_id: "t-11" } });
+    expect(createEvent).toHaveBeenCalledWith(tx, {
+      template: { connect: { id: "template-a" } },
+      actor: { connect: { user_id: "admin-1" } },
+      type: TaskEventType.RECURRING_OCCURRENCE_SKIPPED,
+      message: "Skipped occurrence on 2027-01-11",
+      before_json: { occurrence_date: "2027-01-11" },
+    });
+  });
+
+  test("skip logs on the template even before any occurrence exists", async () => {
+    const { tx, createEvent } = setup(null);
+
+    await new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+      occurrence_date: monday,
+      type: RecurringExceptionType.SKIP,
+    });
+
+    expect(tx.task.delete).not.toHaveBeenCalled();
+    expect(createEvent).toHaveBeenCalledWith(
+      tx,
+      expect.objectContaining({
+        template: { connect: { id: "template-a" } },
+        type: TaskEventType.RECURRING_OCCURRENCE_SKIPPED,
+      }),
+    );
+  });
+
+  test("move reschedules the instance and logs on it and the template", async () => {
+    const { tx, createEvent } = setup({ task_id: "t-11", status: TaskStatus.PENDING });
+    const movedTo = new Date("2027-01-13T00:00:00.000Z");
+
+    await new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+      occurrence_date: monday,
+      type: RecurringExceptionType.MOVE,
+      moved_to: movedTo,
+    });
+
+    expect(tx.task.update).toHaveBeenCalledWith({
+      where: { task_id: "t-11" },
+      data: { deadline: movedTo, start_date: movedTo },
+    });
+    expect(createEvent).toHaveBeenCalledWith(
+      tx,
+      expect.objectContaining({
+        template: { connect: { id: "template-a" } },
+        task: { connect: { task_id: "t-11" } },
+        type: TaskEventType.RECURRING_OCCURRENCE_MOVED,
+        before_json: { occurrence_date: "2027-01-11" },
+        after_json: { occurrence_date: "2027-01-13" },
+      }),
+    );
+  });
+
+  test("rejects an occurrence that has already been started", async () => {
+    setup({ task_id: "t-11", status: TaskStatus.IN_PROGRESS });
+
+    await expect(
+      new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+        occurrence_date: monday,
+        type: RecurringExceptionType.SKIP,
+      }),
+    ).rejects.toBeInstanceOf(TemplateOccurrenceStartedError);
+  });
+
+  test("rejects dates the template does not produce", async () => {
+    setup(null);
+
+    await expect(
+      new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+        occurrence_date: new Date("2027-01-12T00:00:00.000Z"), // a Tuesday
+        type: RecurringExceptionType.SKIP,
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(transactionMock).not.toHaveBeenCalled();
+  });
+
+  test("rejects a second exception for the same occurrence", async () => {
+    setup(null);
+    spyOn(templateRepository, "getTemplateException").mockResolvedValue({ id: "ex-0" } as never);
+
+    await expect(
+      new RecurringTaskService().addTemplateException(adminCtx, "template-a", {
+        occurrence_date: monday,
+        type: RecurringExceptionType.SKIP,
+      }),
+    ).rejects.toBeInstanceOf(DuplicateTemplateExceptionError);
+  });
+
+  test("rejects non-admins who did not create the template", async () => {
+    setup(null);
+
+    await expect(
+      new RecurringTaskService().addTemplateException(
+        { ...adminCtx, actorUserId: "someone", actorRole: UserRole.USER },
+        "template-a",
+        { occurrence_date: monday, type: RecurringExceptionType.SKIP },
+      ),
+    ).rejects.toBeInstanceOf(TemplateForbiddenError);
+  });
+});
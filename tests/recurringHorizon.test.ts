@@ -0,0 +1,301 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+  RecurrenceFrequency,
+  RecurringGenerationStatus,
+  TaskPriority,
+} from "../src/generated/prisma/client";
+
+const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: transactionMock },
+}));
+
+const templateRepository = await import("../src/repositories/templateRepository");
+const generationRepository = await import("../src/repositories/recurringGenerationRepository");
+const { RecurringTaskService } = await import("../src/services/recurringTaskService");
+
+afterEach(() => {
+  mock.restore();
+  transactionMock.mockReset();
+});
+
+const dailyTemplate = {
+  id: "template-a",
+  title: "Daily task",
+  description: "",
+  project_id: "project-a",
+  created_by: "user-a",
+  frequency: RecurrenceFrequency.DAILY,
+  interval: 1,
+  start_date: new Date("2025-01-01T00:00:00.000Z"),
+  end_date: null,
+  days_of_week: null,
+  day_of_month: null,
+  priority: TaskPriority.MEDIUM,
+  is_active: true,
+  goal: null,
+  exceptions: [] as Array<Record<string, any>>,
+};
+
+const today = new Date("2026-03-01T00:00:00.000Z");
+
+function makeTx(template: Record<string, any>, existing: Date[], futureCount: number) {
+  return {
+    recurringTaskTemplate: {
+      findUnique: mock(() => Promise.resolve(template)),
+    },
+    task: {
+      count: mock(() => Promise.resolve(futureCount)),
+      findMany: mock((args: any) => {
+        const created: Date[] | undefined = args.where.occurrence_date?.in;
+        if (created) {
+          return Promise.resolve(
+            created.map((d, i) => ({ task_id: `t${i}`, occurrence_date: d })),
+          );
+        }
+        return Promise.resolve(existing.map((d) => ({ occurrence_date: d })));
+      }),
+      createMany: mock(() => Promise.resolve({ count: 0 })),
+    },
+    recurringTaskTemplateAssignee: { findMany: mock(() => Promise.resolve([])) },
+    taskAssignment: { createMany: mock(() => Promise.resolve({ count: 0 })) },
+    taskEvent: { createMany: mock(() => Promise.resolve({ count: 0 })) },
+    projectTaskCounter: {
+      upsert: mock((args: any) => Promise.resolve({ last_number: args.update.last_number.increment })),
+    },
+  };
+}
+
+function createdDates(tx: ReturnType<typeof makeTx>): string[] {
+  const { data } = (tx.task.createMany as ReturnType<typeof mock>).mock.calls[0]![0] as {
+    data: Array<{ occurrence_date: Date }>;
+  };
+  return data.map((t) => t.occurrence_date.toISOString().slice(0, 10));
+}
+
+describe("RecurringTaskService.extendToHorizon", () => {
+  test("fills a long-running daily template out to the horizon without backfilling", async () => {
+    const existing = [new Date("2026-03-01T00:00:00.000Z"), new Date("2026-03-02T00:00:00.000Z")];
+    const tx = makeTx(dailyTemplate, existing, existing.length);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    const created = await new RecurringTaskService().extendToHorizon(
+      "template-a",
+      { days: 5, minOccurrences: 1 },
+      today,
+    );
+
+    expect(created).toBe(4);
+    expect(createdDates(tx)).toEqual(["2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06"]);
+  });
+
+  test("keeps minOccurrences future instances for sparse templates", async () => {
+    const monthly = {
+      ...dailyTemplate,
+      frequency: RecurrenceFrequency.MONTHLY,
+      day_of_month: 15,
+      start_date: new Date("2026-01-15T00:00:00.000Z"),
+    };
+    const tx = makeTx(monthly, [], 0);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    const created = await new RecurringTaskService().extendToHorizon(
+      "template-a",
+      { days: 10, minOccurrences: 3 },
+      today,
+    );
+
+    expect(created).toBe(3);
+    expect(createdDates(tx)).toEqual(["2026-03-15", "2026-04-15", "2026-05-15"]);
+  });
+
+  test("creates nothing when the template is already filled out", async () => {
+    const existing = [0, 1, 2].map((d) => new Date(Date.UTC(2026, 2, 1 + d)));
+    const tx = makeTx(dailyTemplate, existing, existing.length);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    const created = await new RecurringTaskService().extendToHorizon(
+      "template-a",
+      { days: 2, minOccurrences: 1 },
+      today,
+    );
+
+    expect(created).toBe(0);
+    expect(tx.task.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("RecurringTaskService RRULE expansion", () => {
+  test("expands the last Friday of every month", async () => {
+    const rruleTemplate = {
+      ...dailyTemplate,
+      frequency: RecurrenceFrequency.MONTHLY,
+      rrule: "FREQ=MONTHLY;BYDAY=-1FR",
+      start_date: new Date("2026-01-01T00:00:00.000Z"),
+    };
+    const tx = makeTx(rruleTemplate, [], 0);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    await new RecurringTaskService().generateInstances("template-a", 3);
+
+    expect(createdDates(tx)).toEqual(["2026-01-30", "2026-02-27", "2026-03-27"]);
+  });
+
+  test("respects end_date and skips existing occurrences", async () => {
+    const rruleTemplate = {
+      ...dailyTemplate,
+      frequency: RecurrenceFrequency.MONTHLY,
+      rrule: "FREQ=MONTHLY;BYDAY=2TU",
+      start_date: new Date("2026-01-01T00:00:00.000Z"),
+      end_date: new Date("2026-04-01T00:00:00.000Z"),
+    };
+    const tx = makeTx(rruleTemplate, [new Date("2026-01-13T00:00:00.000Z")], 0);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    const created = await new RecurringTaskService().generateInstances("template-a", 12);
+
+    expect(created).toBe(2);
+    expect(createdDates(tx)).toEqual(["2026-02-10", "2026-03-10"]);
+  });
+});
+
+describe("RecurringTaskService exceptions during generation", () => {
+  test("never generates skipped occurrences and schedules moved ones on their new date", async () => {
+    const template = {
+      ...dailyTemplate,
+      start_date: new Date("2026-03-01T00:00:00.000Z"),
+      exceptions: [
+        { type: "SKIP", occurrence_date: new Date("2026-03-02T00:00:00.000Z"), moved_to: null },
+        {
+          type: "MOVE",
+          occurrence_date: new Date("2026-03-03T00:00:00.000Z"),
+          moved_to: new Date("2026-03-10T00:00:00.000Z"),
+        },
+      ],
+    };
+    const tx = makeTx(template, [], 0);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    await new RecurringTaskService().generateInstances("template-a", 3);
+
+    const { data } = (tx.task.createMany as ReturnType<typeof mock>).mock.calls[0]![0] as {
+      data: Array<{ occurrence_date: Date; deadline: Date; start_date: Date }>;
+    };
+    const day = (d: Date) => d.toISOString().slice(0, 10);
+    expect(data.map((t) => day(t.occurrence_date))).toEqual(["2026-03-01", "2026-03-03", "2026-03-04"]);
+    expect(day(data[1]!.deadline)).toBe("2026-03-10");
+    expect(day(data[1]!.start_date)).toBe("2026-03-10");
+  });
+});
+
+describe("RecurringTaskService closed-day policy during generation", () => {
+  function withCalendar(tx: ReturnType<typeof makeTx>, closedDays: Date[]) {
+    return Object.assign(tx, {
+      project: { findUnique: mock(() => Promise.resolve({ organization_id: "org-a" })) },
+      organization: { findUnique: mock(() => Promise.resolve({ working_days: null })) },
+      organizationClosedDay: { findMany: mock(() => Promise.resolve(closedDays.map((date) => ({ date })))) },
+    });
+  }
+
+  const scheduledDays = (tx: ReturnType<typeof makeTx>) => {
+    const { data } = (tx.task.createMany as ReturnType<typeof mock>).mock.calls[0]![0] as {
+      data: Array<{ occurrence_date: Date; start_date: Date }>;
+    };
+    return data.map((t) => [t.occurrence_date.toISOString().slice(0, 10), t.start_date.toISOString().slice(0, 10)]);
+  };
+
+  // Thursdays, with Kristi himmelfartsdag (2026-05-14) closed.
+  const thursdays = {
+    ...dailyTemplate,
+    frequency: RecurrenceFrequency.WEEKLY,
+    days_of_week: [4],
+    start_date: new Date("2026-05-07T00:00:00.000Z"),
+  };
+  const holiday = new Date("2026-05-14T00:00:00.000Z");
+
+  test("moves occurrences on closed days to the next working day", async () => {
+    const tx = withCalendar(makeTx({ ...thursdays, closed_day_policy: "NEXT_WORKING_DAY" }, [], 0), [holiday]);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    await new RecurringTaskService().generateInstances("template-a", 3);
+
+    expect(scheduledDays(tx)).toEqual([
+      ["2026-05-07", "2026-05-07"],
+      ["2026-05-14", "2026-05-15"],
+      ["2026-05-21", "2026-05-21"],
+    ]);
+  });
+
+  test("leaves out occurrences on closed days under SKIP", async () => {
+    const tx = withCalendar(makeTx({ ...thursdays, closed_day_policy: "SKIP" }, [], 0), [holiday]);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    await new RecurringTaskService().generateInstances("template-a", 3);
+
+    expect(scheduledDays(tx).map(([occurrence]) => occurrence)).toEqual(["2026-05-07", "2026-05-21"]);
+  });
+
+  test("does not load the calendar for templates that ignore closed days", async () => {
+    const tx = withCalendar(makeTx({ ...thursdays, closed_day_policy: "IGNORE" }, [], 0), [holiday]);
+    transactionMock.mockImplementation((fn) => fn(tx));
+
+    await new RecurringTaskService().generateInstances("template-a", 3);
+
+    expect(tx.organizationClosedDay.findMany).not.toHaveBeenCalled();
+    expect(scheduledDays(tx)[1]).toEqual(["2026-05-14", "2026-05-14"]);
+  });
+});
+
+describe("RecurringTaskService.extendAllTemplatesToHorizon", () => {
+  test("records extended and failed templates and keeps going after a failure", async () => {
+    spyOn(generationRepository, "createRun").mockResolvedValue({ id: "run-1" } as never);
+    const recordSpy = spyOn(generationRepository, "recordResult").mockResolvedValue({} as never);
+    const finishSpy = spyOn(generationRepository, "finishRun").mockResolvedValue({} as never);
+    spyOn(templateRepository, "getActiveTemplates").mockResolvedValue([
+      { id: "broken" },
+      { id: "extended" },
+      { id: "full" },
+    ] as never);
+    spyOn(console, "error").mockImplementation(() => {});
+
+    const service = new RecurringTaskService();
+    spyOn(service, "extendToHorizon").mockImplementation(async (id) => {
+      if (id === "broken") throw new Error("boom");
+      return id === "extended" ? 4 : 0;
+    });
+
+    const summary = await service.extendAllTemplatesToHorizon({ days: 30, minOccurrences: 6 });
+
+    expect(summary).toEqual({
+      run_id: "run-1",
+      templates_checked: 3,
+      templates_extended: 1,
+      templates_failed: 1,
+      instances_created: 4,
+    });
+    expect(recordSpy).toHaveBeenCalledTimes(2);
+    expect(recordSpy).toHaveBeenCalledWith("run-1", "broken", RecurringGenerationStatus.FAILED, 0, "boom");
+    expect(recordSpy).toHaveBeenCalledWith("run-1", "extended", RecurringGenerationStatus.EXTENDED, 4);
+    expect(finishSpy).toHaveBeenCalledWith("run-1", {
+      templates_checked: 3,
+      templates_extended: 1,
+      templates_failed: 1,
+      instances_created: 4,
+    });
+  });
+
+  test("finishes the run when recording a failure throws", async () => {
+    spyOn(generationRepository, "createRun").mockResolvedValue({ id: "run-1" } as never);
+    spyOn(generationRepository, "recordResult").mockRejectedValue(new Error("db down"));
+    const finishSpy = spyOn(generationRepository, "finishRun").mockResolvedValue({} as never);
+    spyOn(templateRepository, "getActiveTemplates").mockResolvedValue([{ id: "broken" }] as never);
+    spyOn(console, "error").mockImplementation(() => {});
+
+    const service = new RecurringTaskService();
+    spyOn(service, "extendToHorizon").mockRejectedValue(new Error("boom"));
+
+    await expect(service.extendAllTemplatesToHorizon({ days: 30, minOccurrences: 6 })).rejects.toThrow("db down");
+    expect(finishSpy).toHaveBeenCalledWith("run-1", expect.objectContaining({ templates_failed: 1 }));
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { buildSnippet, containsTerm, searchTerms, toBooleanQuery } from "../src/utils/searchUtils";
+
+describe("searchTerms", () => {
+  test("lowercases, dedupes and drops words InnoDB would ignore", () => {
+    expect(searchTerms("Rør i kælder, RØR ved to")).toEqual(["rør", "kælder", "ved"]);
+  });
+
+  test("strips boolean-mode operators", () => {
+    expect(searchTerms('+gulv -"væg" (loft)*')).toEqual(["gulv", "væg", "loft"]);
+  });
+});
+
+describe("toBooleanQuery", () => {
+  test("prefix-matches each term and boosts the full phrase", () => {
+    expect(toBooleanQuery(["ny", "tagrende"])).toBe('ny* tagrende* "ny tagrende"');
+  });
+
+  test("omits the phrase for a single term", () => {
+    expect(toBooleanQuery(["tagrende"])).toBe("tagrende*");
+  });
+});
+
+describe("containsTerm", () => {
+  test("matches terms as word prefixes only", () => {
+    expect(containsTerm("Skift tagrenderne", ["tagrende"])).toBe(true);
+    expect(containsTerm("Nytagrende", ["tagrende"])).toBe(false);
+    expect(containsTerm(null, ["tagrende"])).toBe(false);
+  });
+});
+
+describe("buildSnippet", () => {
+  test("returns short text whole with highlight ranges", () => {
+    const { snippet, highlights } = buildSnippet("Husk nøglen til kælderen", ["kælder"]);
+
+    expect(snippet).toBe("Husk nøglen til kælderen");
+    expect(highlights).toEqual([{ start: 16, end: 24 }]);
+    expect(snippet.slice(16, 24)).toBe("kælderen");
+  });
+
+  test("centres long text on the first match and marks cut edges", () => {
+    const text = `${"indledning ".repeat(20)}husk nøglen til kælderen ${"afslutning ".repeat(30)}`;
+    const { snippet, highlights } = buildSnippet(text, ["nøglen"]);
+
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(highlights).toHaveLength(1);
+    expect(snippet.slice(highlights[0]!.start, highlights[0]!.end)).toBe("nøglen");
+  });
+
+  test("falls back to the start of the text when nothing matches", () => {
+    const { snippet, highlights } = buildSnippet("Ingen match her", ["tagrende"]);
+
+    expect(snippet).toBe("Ingen match her");
+    expect(highlights).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { UserRole } from "../src/generated/prisma/client";
+
+const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
+
+mock.module("../src/db/prisma", () => ({
+  prisma: { $transaction: transactionMock },
+}));
+
+const ssoRepo = await import("../src/repositories/ssoRepository");
+const oidcUtils = await import("../src/utils/oidcUtils");
+const ssoService = await import("../src/services/ssoService");
+
+afterEach(() => {
+  mock.restore();
+  transactionMock.mockReset();
+});
+
+const ctx = {
+  actorUserId: "a1",
+  actorRole: UserRole.ADMIN,
+  actorOrgId: "org1",
+  effectiveOrgId: "org1",
+  isSuperAdmin: false,
+};
+
+const config = {
+  organization_id: "org1",
+  issuer: "https://idp.contoso.com",
+  client_id: "client-1",
+  client_secret: "secret",
+  default_role: UserRole.USER,
+  default_position_id: null,
+  enabled: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function setup() {
+  const tx = {};
+  transactionMock.mockImplementation((fn) => fn(tx));
+  spyOn(ssoRepo, "getConfigWithSecret").mockResolvedValue(config);
+  spyOn(ssoRepo, "getDomainsTakenByOthers").mockResolvedValue([]);
+  spyOn(ssoRepo, "getConfig").mockResolvedValue(null);
+  spyOn(oidcUtils, "discoverProvider").mockResolvedValue({} as never);
+  spyOn(ssoRepo, "upsertConfig").mockResolvedValue();
+  spyOn(ssoRepo, "replaceDomains").mockResolvedValue();
+  return {
+    tx,
+    unlink: spyOn(ssoRepo, "unlinkSubjects").mockResolvedValue(),
+    reset: spyOn(ssoRepo, "resetDomainVerification").mockResolvedValue(),
+  };
+}
+
+describe("ssoService.saveSsoConfig", () => {
+  test("unlinks every user and unverifies the domains when the issuer changes", async () => {
+    const { tx, unlink, reset } = setup();
+
+    await ssoService.saveSsoConfig(ctx, {
+      issuer: "https://other-idp.example.com",
+      client_id: "client-1",
+      allowed_domains: ["contoso.com"],
+    });
+
+    expect(unlink).toHaveBeenCalledWith(tx, "org1");
+    expect(reset).toHaveBeenCalledWith(tx, "org1");
+  });
+
+  test("keeps links and verified domains when the issuer stays", async () => {
+    const { unlink, reset } = setup();
+
+    await ssoService.saveSsoConfig(ctx, {
+      issuer: config.issuer,
+      client_id: "client-2",
+      allowed_domains: ["contoso.com"],
+    });
+
+    expect(unlink).not.toHaveBeenCalled();
+    expect(reset).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,385 @@
+import { afterAll, afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { SessionPlatform, UserRole, UserStatus } from "../src/generated/prisma/client";
+import * as ssoRepo from "../src/repositories/ssoRepository";
+import * as authRepo from "../src/repositories/authRepository";
+import * as sessionRepo from "../src/repositories/sessionRepository";
+import * as refreshTokenRepo from "../src/repositories/refreshTokenRepository";
+import * as ssoService from "../src/services/ssoService";
+import * as authService from "../src/services/authService";
+import * as loginSecurityService from "../src/services/loginSecurityService";
+import * as twoFactorService from "../src/services/twoFactorService";
+import * as tokenUtils from "../src/utils/tokenUtils";
+import * as netUtils from "../src/utils/netUtils";
+
+afterEach(() => {
+  mock.restore();
+});
+
+// A local identity provider: discovery, JWKS and a token endpoint that checks the PKCE
+// verifier. authorize() stands in for the user signing in at the provider. It runs on
+// localhost, so the tests let the server call it.
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const codes = new Map<string, { challenge: string; claims: Record<string, unknown> }>();
+
+const idp = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const url = new URL(req.url);
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return Response.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (url.pathname === "/jwks") {
+      return Response.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "k1", use: "sig" }] });
+    }
+    if (url.pathname === "/token") {
+      const form = new URLSearchParams(await req.text());
+      const grant = codes.get(form.get("code") ?? "");
+      const challenge = crypto.createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url");
+      if (!grant || grant.challenge !== challenge || form.get("client_secret") !== "secret") {
+        return Response.json({ error: "invalid_grant" }, { status: 400 });
+      }
+      const idToken = jwt.sign(grant.claims, privateKey, {
+        algorithm: "RS256",
+        keyid: "k1",
+        issuer,
+        audience: "client-1",
+        expiresIn: 300,
+      });
+      return Response.json({ access_token: "at", token_type: "Bearer", id_token: idToken });
+    }
+    return new Response("Not Found", { status: 404 });
+  },
+});
+const issuer = `http://localhost:${idp.port}`;
+
+afterAll(() => {
+  idp.stop(true);
+});
+
+function authorize(authorizationUrl: string, claims: Record<string, unknown>) {
+  const params = new URL(authorizationUrl).searchParams;
+  const code = crypto.randomUUID();
+  codes.set(code, {
+    challenge: params.get("code_challenge")!,
+    claims: { nonce: params.get("nonce"), ...claims },
+  });
+  return { code, state: params.get("state")! };
+}
+
+const config = {
+  organization_id: "org1",
+  issuer,
+  client_id: "client-1",
+  client_secret: "secret",
+  default_role: UserRole.USER,
+  default_position_id: "pos1",
+  enabled: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+// Spies the repositories for one sign-in attempt and returns the authorization URL and
+// the client binding.
+async function startLogin(platform: SessionPlatform = SessionPlatform.browser) {
+  let saved: any;
+  spyOn(netUtils, "assertPublicUrl").mockResolvedValue();
+  spyOn(ssoRepo, "getEnabledConfigByDomain").mockResolvedValue(config);
+  spyOn(ssoRepo, "getConfigWithSecret").mockResolvedValue(config);
+  spyOn(ssoRepo, "createLoginState").mockImplementation(async (data) => {
+    saved = { state_id: "s1", ...data, device_name: data.device_name ?? null };
+    return "raw-state";
+  });
+  spyOn(ssoRepo, "consumeLoginState").mockImplementation(async (raw) => (raw === "raw-state" ? saved : null));
+  spyOn(ssoRepo, "isDomainAllowed").mockResolvedValue(true);
+  spyOn(ssoRepo, "getUserBySubject").mockResolvedValue(null);
+
+  const { authorization_url, binding } = await ssoService.startSsoLogin({ email: "ann@contoso.com", platform });
+  return { url: authorization_url, binding };
+}
+
+describe("single sign-on", () => {
+  test("creates unknown users with the default role and position", async () => {
+    const { url, binding } = await startLogin();
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue(null);
+    const createSpy = spyOn(ssoRepo, "createSsoUser").mockResolvedValue({ user_id: "new1" } as never);
+
+    const { code, state } = authorize(url, {
+      sub: "entra-123",
+      email: "Ann@contoso.com",
+      email_verified: true,
+      name: "Ann",
+    });
+    const result = await ssoService.completeSsoLogin(state, code, { browserBinding: binding });
+
+    expect(new URL(url).searchParams.get("login_hint")).toBe("ann@contoso.com");
+    expect(createSpy).toHaveBeenCalledWith({
+      organization_id: "org1",
+      email: "ann@contoso.com",
+      name: "Ann",
+      role: UserRole.USER,
+      position_id: "pos1",
+      sso_subject: "entra-123",
+    });
+    expect(result).toEqual({ user_id: "new1", platform: SessionPlatform.browser, device_name: null });
+  });
+
+  test("links an existing member of the organization by email", async () => {
+    const { url, binding } = await startLogin();
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue({
+      user_id: "u1",
+      organization_id: "org1",
+      role: UserRole.USER,
+      sso_subject: null,
+    } as never);
+    const linkSpy = spyOn(ssoRepo, "linkSubject").mockResolvedValue();
+    const createSpy = spyOn(ssoRepo, "createSsoUser");
+
+    const { code, state } = authorize(url, { sub: "google-9", email: "ann@contoso.com", email_verified: true });
+    const result = await ssoService.completeSsoLogin(state, code, { browserBinding: binding });
+
+    expect(result.user_id).toBe("u1");
+    expect(linkSpy).toHaveBeenCalledWith("u1", "google-9");
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses users of another organization", async () => {
+    const { url, binding } = await startLogin();
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue({
+      user_id: "u2",
+      organization_id: "org2",
+      role: UserRole.USER,
+      sso_subject: null,
+    } as never);
+    const linkSpy = spyOn(ssoRepo, "linkSubject");
+
+    const { code, state } = authorize(url, { sub: "entra-456", email: "ann@contoso.com", email_verified: true });
+
+    await expect(ssoService.completeSsoLogin(state, code, { browserBinding: binding })).rejects.toBeInstanceOf(ssoService.SsoLoginFailedError);
+    expect(linkSpy).not.toHaveBeenCalled();
+  });
+
+  test("does not match accounts by an email the provider has not verified", async () => {
+    const getUserSpy = spyOn(authRepo, "getUserByEmail");
+    const createSpy = spyOn(ssoRepo, "createSsoUser");
+
+    for (const claims of [
+      { sub: "entra-1", email: "ann@contoso.com" },
+      { sub: "entra-2", email: "ann@contoso.com", email_verified: false },
+      { sub: "entra-3", preferred_username: "ann@contoso.com", email_verified: true },
+    ]) {
+      const { url, binding } = await startLogin();
+      const { code, state } = authorize(url, claims);
+      await expect(ssoService.completeSsoLogin(state, code, { browserBinding: binding })).rejects.toBeInstanceOf(ssoService.SsoLoginFailedError);
+    }
+    expect(getUserSpy).not.toHaveBeenCalled();
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("rejects an ID token issued for another sign-in attempt", async () => {
+    const { url, binding } = await startLogin();
+    const createSpy = spyOn(ssoRepo, "createSsoUser");
+
+    const { code, state } = authorize(url, { sub: "entra-123", email: "ann@contoso.com", nonce: "other" });
+
+    await expect(ssoService.completeSsoLogin(state, code, { browserBinding: binding })).rejects.toBeInstanceOf(ssoService.SsoLoginFailedError);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses a callback from a browser without the attempt's binding cookie", async () => {
+    const { url } = await startLogin();
+    const getUserSpy = spyOn(authRepo, "getUserByEmail");
+
+    const { code, state } = authorize(url, { sub: "entra-123", email: "ann@contoso.com", email_verified: true });
+
+    await expect(
+      ssoService.completeSsoLogin(state, code, { browserBinding: "another-browser" }),
+    ).rejects.toMatchObject({ message: "The single sign-on attempt was started on another device or browser" });
+    expect(getUserSpy).not.toHaveBeenCalled();
+  });
+
+  test("completes an app sign-in with the code_verifier the app kept", async () => {
+    process.env.SSO_MOBILE_REDIRECT_URL = "com.example.tasks:/sso";
+    const { url, binding } = await startLogin(SessionPlatform.mobile);
+    delete process.env.SSO_MOBILE_REDIRECT_URL;
+    spyOn(authRepo, "getUserByEmail").mockResolvedValue({
+      user_id: "u1",
+      organization_id: "org1",
+      role: UserRole.USER,
+      sso_subject: "entra-123",
+    } as never);
+    spyOn(ssoRepo, "linkSubject").mockResolvedValue();
+
+    const { code, state } = authorize(url, { sub: "entra-123", email: "ann@contoso.com", email_verified: true });
+    const result = await ssoService.completeSsoLogin(state, code, { codeVerifier: binding });
+
+    expect(result).toEqual({ user_id: "u1", platform: SessionPlatform.mobile, device_name: null });
+  });
+
+  test("starts a mobile session with a refresh token", async () => {
+    spyOn(ssoService, "completeSsoLogin").mockResolvedValue({
+      user_id: "u1",
+      platform: SessionPlatform.mobile,
+      device_name: "Pixel 8",
+    });
+    spyOn(authRepo, "getLoginUserById").mockResolvedValue({ user_id: "u1", status: UserStatus.ACTIVE } as never);
+    spyOn(twoFactorService, "startLoginChallenge").mockResolvedValue(null);
+    const sessionSpy = spyOn(sessionRepo, "createSession").mockResolvedValue("sid1");
+    spyOn(sessionRepo, "upsertSessionAccount").mockResolvedValue("sa1");
+    spyOn(sessionRepo, "setActiveSessionAccount").mockResolvedValue(undefined as never);
+    spyOn(refreshTokenRepo, "createRefreshToken").mockResolvedValue("raw-refresh");
+    spyOn(loginSecurityService, "recordSignIn").mockResolvedValue();
+    spyOn(tokenUtils, "generateAccessToken").mockReturnValue("jwt");
+    spyOn(authRepo, "getUserById").mockResolvedValue({ user_id: "u1" } as never);
+
+    const result = await authService.completeSsoLogin(
+      "raw-state",
+      "code",
+      { codeVerifier: "verifier" },
+      { sessionId: undefined, userAgent: undefined, ip: undefined },
+    );
+
+    expect(sessionSpy).toHaveBeenCalledWith(SessionPlatform.mobile, "Pixel 8", undefined);
+    expect(result).toMatchObject({ platform: SessionPlatform.mobile, token: "jwt", refresh_token: "raw-refresh" });
+  });
+
+  test("asks for the second factor before starting a session", async () => {
+    spyOn(ssoService, "completeSsoLogin").mockResolvedValue({
+      user_id: "u1",
+      platform: SessionPlatform.browser,
+      device_name: null,
+    });
+    spyOn(authRepo, "getLoginUserById").mockResolvedValue({ user_id: "u1", status: UserStatus.ACTIVE } as never);
+    const challenge = {
+      mfa_required: true as const,
+      challenge_token: "ch1",
+      enrollment_required: true,
+      expires_at: new Date(),
+    };
+    const challengeSpy = spyOn(twoFactorService, "startLoginChallenge").mockResolvedValue(challenge);
+    const sessionSpy = spyOn(sessionRepo, "createSession");
+
+    const result = await authService.completeSsoLogin(
+      "raw-state",
+      "code",
+      { browserBinding: "binding" },
+      { sessionId: undefined, userAgent: undefined, ip: undefined },
+    );
+
+    expect(result).toEqual(challenge);
+    expect(challengeSpy).toHaveBeenCalledWith("u1", SessionPlatform.browser, undefined);
+    expect(sessionSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses an issuer on a private address without echoing the error", async () => {
+    spyOn(ssoRepo, "getConfigWithSecret").mockResolvedValue(config);
+    spyOn(ssoRepo, "getDomainsTakenByOthers").mockResolvedValue([]);
+    spyOn(console, "error").mockImplementation(() => {});
+    const upsertSpy = spyOn(ssoRepo, "upsertConfig");
+    const fetchSpy = spyOn(globalThis, "fetch");
+    const ctx = {
+      actorUserId: "a1",
+      actorRole: UserRole.ADMIN,
+      actorOrgId: "org1",
+      effectiveOrgId: "org1",
+      isSuperAdmin: false,
+    };
+
+    await expect(
+      ssoService.saveSsoConfig(ctx, {
+        issuer: "https://169.254.169.254/latest",
+        client_id: "client-1",
+        allowed_domains: ["contoso.com"],
+      }),
+    ).rejects.toMatchObject({ statusCode: 502, message: "Could not load the OpenID configuration of the issuer" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(upsertSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("single sign-on configuration", () => {
+  // Manages single sign-on through an organization role, without being an admin.
+  const ssoManager = {
+    actorUserId: "m1",
+    actorRole: UserRole.USER,
+    actorOrgId: "org1",
+    effectiveOrgId: "org1",
+    isSuperAdmin: false,
+    orgRolePermissions: ["sso.manage" as const],
+  };
+  const input = { issuer, client_id: "client-1", allowed_domains: ["contoso.com"] };
+
+  test("refuses a member who is not an admin an admin default role", async () => {
+    spyOn(ssoRepo, "getConfigWithSecret").mockResolvedValue(config);
+    const upsertSpy = spyOn(ssoRepo, "upsertConfig");
+
+    await expect(
+      ssoService.saveSsoConfig(ssoManager, { ...input, default_role: UserRole.ADMIN }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(upsertSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses a member who is not an admin another issuer", async () => {
+    spyOn(ssoRepo, "getConfigWithSecret").mockResolvedValue(config);
+    const upsertSpy = spyOn(ssoRepo, "upsertConfig");
+
+    await expect(
+      ssoService.saveSsoConfig(ssoManager, { ...input, issuer: "https://idp.example.com" }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(upsertSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("single sign-on domains", () => {
+  const ctx = {
+    actorUserId: "a1",
+    actorRole: UserRole.ADMIN,
+    actorOrgId: "org1",
+    effectiveOrgId: "org1",
+    isSuperAdmin: false,
+  };
+  const entry = { domain: "contoso.com", organization_id: "org1", verification_token: "tok", verified_at: null };
+  const now = new Date("2026-10-19T10:00:00Z");
+
+  test("verifies a domain whose DNS has the TXT record", async () => {
+    spyOn(ssoRepo, "getDomain").mockResolvedValue(entry);
+    spyOn(netUtils, "resolveTxtRecords").mockResolvedValue(["v=spf1 -all", "sso-domain-verification=tok"]);
+    const markSpy = spyOn(ssoRepo, "markDomainVerified").mockResolvedValue();
+
+    const result = await ssoService.verifySsoDomain(ctx, "Contoso.com", now);
+
+    expect(result).toEqual({ domain: "contoso.com", verified_at: now });
+    expect(markSpy).toHaveBeenCalledWith("contoso.com", now);
+  });
+
+  test("leaves the domain unverified without the TXT record", async () => {
+    spyOn(ssoRepo, "getDomain").mockResolvedValue(entry);
+    spyOn(netUtils, "resolveTxtRecords").mockResolvedValue(["sso-domain-verification=other"]);
+    const markSpy = spyOn(ssoRepo, "markDomainVerified");
+
+    await expect(ssoService.verifySsoDomain(ctx, "contoso.com", now)).rejects.toBeInstanceOf(
+      ssoService.SsoDomainVerificationFailedError,
+    );
+    expect(markSpy).not.toHaveBeenCalled();
+  });
+
+  test("lists the TXT record to publish for each domain", async () => {
+    spyOn(ssoRepo, "getConfig").mockResolvedValue({
+      ...config,
+      allowed_domains: ["contoso.com"],
+      domains: [entry],
+    } as never);
+
+    const result = await ssoService.getSsoConfig(ctx);
+
+    expect(result.domains).toEqual([
+      { domain: "contoso.com", verified_at: null, txt_record: "sso-domain-verification=tok" },
+    ]);
+  });
+});
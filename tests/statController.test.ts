@@ -184,7 +184,7 @@ describe("statController.getDashboardStats", () => {
 
     await callController(statController.getDashboardStats, req, res);
 
-    expect(getStatsForWindowSpy).toHaveBeenCalledWith(30, null);
+    expect(getStatsForWindowSpy).toHaveBeenCalledWith(30, null, null);
     expect(res.body).toEqual({ success: true, data: {} });
   });
 
@@ -202,7 +202,7 @@ describe("statController.getDashboardStats", () => {
 
     await callController(statController.getDashboardStats, req, res);
 
-    expect(getStatsForWindowSpy).toHaveBeenCalledWith(30, null);
+    expect(getStatsForWindowSpy).toHaveBeenCalledWith(30, null, null);
     expect(res.body).toEqual({ success: true, data: {} });
   });
 
@@ -1,10 +1,12 @@
-import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
 import type { Request, Response } from "express";
 import {
+  NotificationType,
   TaskEventType,
   TaskPriority,
   TaskStatus,
   TaskUnit,
+  UserRole,
 } from "../src/generated/prisma/client";
 import * as taskController from "../src/controllers/taskController";
 import { errorMiddleware } from "../src/middleware/errorMiddleware";
@@ -20,9 +22,13 @@ async function callController(
     errorMiddleware(err, req, res, () => {});
   }
 }
+import * as commentRepo from "../src/repositories/commentRepository";
 import * as taskEventRepo from "../src/repositories/taskEventRepository";
 import * as taskRepo from "../src/repositories/taskRepository";
 import * as userRepo from "../src/repositories/userRepository";
+import * as notificationRepo from "../src/repositories/notificationRepository";
+import * as pushOutboxRepo from "../src/repositories/pushOutboxRepository";
+import * as projectRepo from "../src/repositories/projectRepository";
 import {
   AssignmentNotFoundError,
   CrossOrganizationReferenceError,
@@ -31,11 +37,6 @@ import {
   TaskNotProgressableError,
 } from "../src/repositories/taskRepository";
 
-const sendPushNotificationMock = mock<(...args: any[]) => Promise<void>>();
-
-mock.module("../src/services/notificationService", () => ({
-  sendPushNotification: sendPushNotificationMock,
-}));
 
 const transactionMock = mock<(fn: (tx: any) => Promise<any>) => Promise<any>>();
 mock.module("../src/db/prisma", () => ({
@@ -69,30 +70,83 @@ function createRequest(overrides: Record<string, any> = {}): Request {
   return {
     params: {},
     body: {},
+    query: {},
     ...overrides,
   } as Request;
 }
 
+let createNotificationSpy: ReturnType<typeof spyOn>;
+let enqueuePushSpy: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  createNotificationSpy = spyOn(notificationRepo, "createNotification").mockResolvedValue({} as never);
+  spyOn(notificationRepo, "getDeliverySettings").mockResolvedValue(null);
+  enqueuePushSpy = spyOn(pushOutboxRepo, "enqueuePush").mockResolvedValue({} as never);
+  spyOn(projectRepo, "getProjectAccess").mockResolvedValue({
+    organization_id: "org1",
+    restricted: false,
+    role: null,
+  });
+});
+
 afterEach(() => {
   mock.restore();
-  sendPushNotificationMock.mockReset();
   transactionMock.mockReset();
 });
 
 describe("taskController.listTasks", () => {
-  test("returns tasks", async () => {
+  test("returns tasks with next cursor", async () => {
     const tasks = [{ task_id: "t1" }];
-    spyOn(taskRepo, "getAllTasks").mockResolvedValue(tasks as never);
+    spyOn(taskRepo, "listTasks").mockResolvedValue({ tasks, nextCursor: "abc" } as never);
     const req = createRequest({ user: { user_id: "u1", role: "USER", organization_id: null } });
     const res = createMockResponse();
 
     await callController(taskController.listTasks, req, res);
 
-    expect(res.body).toEqual({ success: true, data: tasks });
+    expect(res.body).toEqual({ success: true, data: tasks, next_cursor: "abc" });
+  });
+
+  test("passes parsed filters and defaults to the repository", async () => {
+    const repoSpy = spyOn(taskRepo, "listTasks").mockResolvedValue({
+      tasks: [],
+      nextCursor: null,
+    } as never);
+    const req = createRequest({
+      user: { user_id: "u1", role: "USER", organization_id: "org1" },
+      effectiveOrgId: "org1",
+      query: { status: "PENDING,IN_PROGRESS", has_goal: "true", parent_task_id: "null", limit: "20" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.listTasks, req, res);
+
+    expect(repoSpy).toHaveBeenCalledWith("org1", {
+      status: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+      has_goal: true,
+      parent_task_id: null,
+      sort: "created_at",
+      order: "desc",
+      limit: 20,
+    }, "u1");
+    expect(res.body).toEqual({ success: true, data: [], next_cursor: null });
+  });
+
+  test("returns 400 for invalid query params", async () => {
+    const repoSpy = spyOn(taskRepo, "listTasks");
+    const req = createRequest({
+      user: { user_id: "u1", role: "USER", organization_id: null },
+      query: { sort: "title", limit: "0" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.listTasks, req, res);
+
+    expect(repoSpy).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
   });
 
   test("returns 401 when user is missing", async () => {
-    const repoSpy = spyOn(taskRepo, "getAllTasks");
+    const repoSpy = spyOn(taskRepo, "listTasks");
     const req = createRequest({ user: undefined });
     const res = createMockResponse();
 
@@ -104,7 +158,7 @@ describe("taskController.listTasks", () => {
   });
 
   test("returns 500 when repository fails", async () => {
-    spyOn(taskRepo, "getAllTasks").mockRejectedValue(new Error("db fail"));
+    spyOn(taskRepo, "listTasks").mockRejectedValue(new Error("db fail"));
     const req = createRequest({ user: { user_id: "u1", role: "USER", organization_id: null } });
     const res = createMockResponse();
 
@@ -118,6 +172,119 @@ describe("taskController.listTasks", () => {
   });
 });
 
+describe("taskController.searchTasks", () => {
+  const searchTask = {
+    task_id: "t1",
+    number: 7,
+    title: "Tagrender",
+    description: "Skift tagrender på nordsiden",
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.MEDIUM,
+    deadline: new Date("2026-01-10"),
+    created_by: "u2",
+    project: { project_id: "p1", name: "Villa", color: null, restricted: false, members: [] },
+    assignments: [{ user_id: "u1" }],
+  };
+
+  test("returns 400 when q is too short", async () => {
+    const repoSpy = spyOn(taskRepo, "searchTaskHits");
+    const req = createRequest({
+      user: { user_id: "u1", role: "USER", organization_id: "org1" },
+      query: { q: "ab" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.searchTasks, req, res);
+
+    expect(repoSpy).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+  });
+
+  test("restricts non-admins to their own tasks and flags comment hits", async () => {
+    const hitsSpy = spyOn(taskRepo, "searchTaskHits").mockResolvedValue([
+      { task_id: "t1", comment_id: "c1", score: 3 },
+      { task_id: "t1", comment_id: null, score: 1 },
+    ]);
+    spyOn(taskRepo, "getTasksForSearch").mockResolvedValue([searchTask] as never);
+    spyOn(commentRepo, "getCommentMessagesByIds").mockResolvedValue([
+      { comment_id: "c1", task_id: "t1", message: "Stigen står i garagen", created_at: new Date() },
+    ]);
+    const req = createRequest({
+      user: { user_id: "u1", role: "USER", organization_id: "org1" },
+      effectiveOrgId: "org1",
+      query: { q: "stigen garagen" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.searchTasks, req, res);
+
+    expect(hitsSpy).toHaveBeenCalledWith("org1", "u1", "u1", 'stigen* garagen* "stigen garagen"', 100);
+    const body = res.body as any;
+    expect(body.success).toBe(true);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0]).toMatchObject({
+      task_id: "t1",
+      number: 7,
+      score: 4,
+      from_comment: true,
+      matched_field: "comment",
+      comment_id: "c1",
+      snippet: "Stigen står i garagen",
+      highlights: [
+        { start: 0, end: 6 },
+        { start: 14, end: 21 },
+      ],
+    });
+    expect(body.data[0].assignments).toBeUndefined();
+    expect(body.data[0].project).toEqual({ project_id: "p1", name: "Villa", color: null });
+  });
+
+  test("admins search without a visibility filter", async () => {
+    const hitsSpy = spyOn(taskRepo, "searchTaskHits").mockResolvedValue([
+      { task_id: "t1", comment_id: null, score: 2 },
+    ]);
+    spyOn(taskRepo, "getTasksForSearch").mockResolvedValue([
+      { ...searchTask, assignments: [] },
+    ] as never);
+    spyOn(commentRepo, "getCommentMessagesByIds").mockResolvedValue([]);
+    const req = createRequest({
+      user: { user_id: "a1", role: "ADMIN", organization_id: "org1" },
+      effectiveOrgId: "org1",
+      query: { q: "nordsiden", limit: "5" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.searchTasks, req, res);
+
+    expect(hitsSpy).toHaveBeenCalledWith("org1", null, null, "nordsiden*", 25);
+    expect((res.body as any).data[0]).toMatchObject({
+      from_comment: false,
+      matched_field: "description",
+      comment_id: null,
+    });
+  });
+
+  test("drops hits the caller cannot access", async () => {
+    spyOn(taskRepo, "searchTaskHits").mockResolvedValue([
+      { task_id: "t1", comment_id: null, score: 2 },
+    ]);
+    spyOn(taskRepo, "getTasksForSearch").mockResolvedValue([
+      { ...searchTask, assignments: [] },
+    ] as never);
+    spyOn(commentRepo, "getCommentMessagesByIds").mockResolvedValue([]);
+    const req = createRequest({
+      user: { user_id: "u1", role: "USER", organization_id: "org1" },
+      effectiveOrgId: "org1",
+      query: { q: "tagrender" },
+    });
+    const res = createMockResponse();
+
+    await callController(taskController.searchTasks, req, res);
+
+    expect(res.body).toEqual({ success: true, data: [] });
+  });
+});
+
 describe("taskController.getTask", () => {
   test("returns 400 for invalid id", async () => {
     const repoSpy = spyOn(taskRepo, "getTaskById");
@@ -223,7 +390,7 @@ describe("taskController.createTask", () => {
     spyOn(taskRepo, "createTaskWithAssignments").mockResolvedValue(
       task as never,
     );
-    spyOn(userRepo, "getPushTokensForUsers").mockResolvedValue(new Map());
+    spyOn(userRepo, "getRecipientsForUsers").mockResolvedValue([]);
     const eventSpy = spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue(
       {} as never,
     );
@@ -439,7 +606,7 @@ describe("taskController.updateTask", () => {
 
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
-    spyOn(userRepo, "getPushTokensForUsers").mockResolvedValue(new Map());
+    spyOn(userRepo, "getRecipientsForUsers").mockResolvedValue([]);
     const eventSpy = spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
 
     const req = createRequest({
@@ -499,17 +666,14 @@ describe("taskController.updateTask", () => {
     });
   });
 
-  test("notifies admins when status transitions to DONE", async () => {
+  test("leaves completed tasks to the admin digest", async () => {
     transactionMock.mockImplementation((fn: any) => fn({}));
     const oldTask = { task_id: "t1", title: "My Task", status: TaskStatus.IN_PROGRESS, created_by: "u1", assigned_users: [] };
     const updatedTask = { task_id: "t1", title: "My Task", status: TaskStatus.DONE, assignments: [] };
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
-      { user_id: "a1", push_token: "token-a1" },
-    ]);
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    const adminSpy = spyOn(userRepo, "getAdminRecipients");
 
     await callController(
       taskController.updateTask,
@@ -521,14 +685,9 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a1",
-      "Opgave afsluttet",
-      "My Task",
-      { taskId: "t1" },
-      "a1",
-    );
+    expect(adminSpy).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
+    expect(createNotificationSpy).not.toHaveBeenCalled();
   });
 
   test("does not notify admins when status does not change to DONE", async () => {
@@ -538,7 +697,7 @@ describe("taskController.updateTask", () => {
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    const adminSpy = spyOn(userRepo, "getAdminPushTokens");
+    const adminSpy = spyOn(userRepo, "getAdminRecipients");
 
     await callController(
       taskController.updateTask,
@@ -551,7 +710,7 @@ describe("taskController.updateTask", () => {
     );
 
     expect(adminSpy).not.toHaveBeenCalled();
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
   test("notifies assignees when priority changes to HIGH on an active task", async () => {
@@ -570,10 +729,10 @@ describe("taskController.updateTask", () => {
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getPushTokensForUsers").mockResolvedValue(
-      new Map([["u2", "token-u2"]]),
-    );
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    spyOn(userRepo, "getRecipientsForUsers").mockResolvedValue([
+      { user_id: "u2", push_token: "token-u2" },
+    ]);
+    spyOn(projectRepo, "getProjectTimeZone").mockResolvedValue("Europe/Copenhagen");
 
     await callController(
       taskController.updateTask,
@@ -585,13 +744,12 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-u2",
-      "Prioritet ændret",
-      "My Task – prioritet ændret til høj",
-      { taskId: "t1" },
+    expect(enqueuePushSpy).toHaveBeenCalledTimes(1);
+    expect(enqueuePushSpy).toHaveBeenCalledWith(
+      expect.anything(),
       "u2",
+      expect.objectContaining({ title: "Prioritet ændret", body: "My Task – prioritet ændret til høj", data: { taskId: "t1" } }),
+      expect.any(Date),
     );
   });
 
@@ -622,7 +780,7 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
   test("does not notify when priority changes to HIGH but task is in a terminal status", async () => {
@@ -641,7 +799,7 @@ describe("taskController.updateTask", () => {
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     await callController(
       taskController.updateTask,
@@ -653,7 +811,7 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
   test("does not notify when priority was already HIGH", async () => {
@@ -683,10 +841,10 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
-  test("notifies admins when status transitions to DONE with assignment update", async () => {
+  test("sends no admin notification when status transitions to DONE with assignment update", async () => {
     transactionMock.mockImplementation((fn: any) => fn({}));
     const oldTask = { task_id: "t1", title: "My Task", status: TaskStatus.IN_PROGRESS, assigned_users: ["u1"] };
     const updatedTask = {
@@ -698,11 +856,7 @@ describe("taskController.updateTask", () => {
     spyOn(taskRepo, "getTaskById").mockResolvedValue(oldTask as never);
     spyOn(taskRepo, "updateTaskPlatform").mockResolvedValue(updatedTask as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getPushTokensForUsers").mockResolvedValue(new Map());
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
-      { user_id: "a1", push_token: "token-a1" },
-    ]);
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    spyOn(userRepo, "getRecipientsForUsers").mockResolvedValue([]);
 
     await callController(
       taskController.updateTask,
@@ -714,14 +868,7 @@ describe("taskController.updateTask", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a1",
-      "Opgave afsluttet",
-      "My Task",
-      { taskId: "t1" },
-      "a1",
-    );
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 });
 
@@ -882,7 +1029,7 @@ describe("taskController.upsertProgressLog", () => {
       updatedTask,
     } as never);
     const eventSpy = spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([]);
+    spyOn(userRepo, "getAdminRecipients").mockResolvedValue([]);
 
     const req = createRequest({
       user: { user_id: "u1" },
@@ -894,7 +1041,7 @@ describe("taskController.upsertProgressLog", () => {
 
     await callController(taskController.upsertProgressLog, req, res);
 
-    expect(taskRepo.upsertProgressLogPlatform).toHaveBeenCalledWith(expect.anything(), "t1", "u1", 5, TaskUnit.METERS, "good");
+    expect(taskRepo.upsertProgressLogPlatform).toHaveBeenCalledWith(expect.anything(), "t1", "u1", false, 5, TaskUnit.METERS, "good");
     expect(eventSpy).toHaveBeenCalledTimes(1);
     expect(eventSpy.mock.calls[0]?.[1]?.type).toBe(TaskEventType.PROGRESS_LOGGED);
     expect(res.body).toEqual({
@@ -909,17 +1056,14 @@ describe("taskController.upsertProgressLog", () => {
     });
   });
 
-  test("notifies admins when progress is logged", async () => {
+  test("leaves logged progress to the admin digest", async () => {
     transactionMock.mockImplementation((fn: any) => fn({}));
     spyOn(taskRepo, "upsertProgressLogPlatform").mockResolvedValue({
       progressLog: { progress_id: "p1", quantity_done: 5 },
       updatedTask: { task_id: "t1", title: "My Task", goal: null, status: TaskStatus.IN_PROGRESS },
     } as never);
     spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
-      { user_id: "a1", push_token: "token-a1" },
-    ]);
-    sendPushNotificationMock.mockResolvedValue(undefined);
+    const adminSpy = spyOn(userRepo, "getAdminRecipients");
 
     await callController(
       taskController.upsertProgressLog,
@@ -931,38 +1075,29 @@ describe("taskController.upsertProgressLog", () => {
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).toHaveBeenCalledTimes(1);
-    expect(sendPushNotificationMock).toHaveBeenCalledWith(
-      "token-a1",
-      "Fremgang logget",
-      "My Task",
-      { taskId: "t1" },
-      "a1",
-    );
+    expect(adminSpy).not.toHaveBeenCalled();
+    expect(enqueuePushSpy).not.toHaveBeenCalled();
   });
 
-  test("skips admin notification when the logger is the admin", async () => {
+  test("lets members who may update any task log progress without an assignment", async () => {
     transactionMock.mockImplementation((fn: any) => fn({}));
-    spyOn(taskRepo, "upsertProgressLogPlatform").mockResolvedValue({
-      progressLog: { progress_id: "p1", quantity_done: 5 },
-      updatedTask: { task_id: "t1", title: "My Task", goal: null, status: TaskStatus.IN_PROGRESS },
-    } as never);
-    spyOn(taskEventRepo, "createTaskEvent").mockResolvedValue({} as never);
-    spyOn(userRepo, "getAdminPushTokens").mockResolvedValue([
-      { user_id: "a1", push_token: "token-a1" },
-    ]);
+    spyOn(taskRepo, "upsertProgressLogInOrg").mockRejectedValue(new TaskNotFoundError("t1"));
 
     await callController(
       taskController.upsertProgressLog,
       createRequest({
-        user: { user_id: "a1" }, // same as admin
+        user: { user_id: "u1", role: UserRole.USER },
+        orgRolePermissions: ["task.update.any"],
+        effectiveOrgId: "org1",
         params: { id: "t1" } as Request["params"],
-        body: { quantity_done: 5, unit: TaskUnit.METERS },
+        body: { quantity_done: 2, unit: TaskUnit.METERS },
       }),
       createMockResponse(),
     );
 
-    expect(sendPushNotificationMock).not.toHaveBeenCalled();
+    expect(taskRepo.upsertProgressLogInOrg).toHaveBeenCalledWith(
+      expect.anything(), "t1", "org1", "u1", true, 2, TaskUnit.METERS, undefined,
+    );
   });
 
   test("rejects progress on task outside effective org", async () => {
@@ -984,6 +1119,7 @@ describe("taskController.upsertProgressLog", () => {
       "task-org-b",
       "org-a",
       "u-org-a",
+      false,
       1,
       TaskUnit.METERS,
       undefined,
@@ -259,6 +259,7 @@ describe("RecurringTaskService - task numbering", () => {
     day_of_month: null,
     priority: TaskPriority.MEDIUM,
     is_active: true,
+    exceptions: [],
   };
 
   function makeTx(overrides: Record<string, any> = {}) {
@@ -116,6 +116,7 @@ describe("taskRepository organization boundaries", () => {
       "task-b",
       "org-a",
       "user-a",
+      false,
       1,
       undefined,
       undefined,
@@ -129,7 +129,7 @@ describe("recurringTemplateController.listTemplates", () => {
       },
     ];
 
-    spyOn(RecurringTaskService.prototype, "getAllTemplates").mockResolvedValue(
+    const listSpy = spyOn(RecurringTaskService.prototype, "getAllTemplates").mockResolvedValue(
       templates as never,
     );
 
@@ -139,6 +139,8 @@ describe("recurringTemplateController.listTemplates", () => {
     await callController(recurringTemplateController.listTemplates, req, res);
 
     expect(res.body).toEqual({ success: true, data: templates });
+    // Templates of restricted projects the user is not a member of are left out
+    expect(listSpy.mock.calls[0]![1]).toBe("u1");
   });
 
   test("returns 500 when service fails", async () => {
@@ -310,6 +312,35 @@ describe("recurringTemplateController.createTemplate", () => {
     expect(res.statusCode).toBe(201);
     expect(res.body).toEqual({ success: true, data: createdTemplate });
   });
+
+  test("derives frequency and interval from an rrule", async () => {
+    const createSpy = spyOn(RecurringTaskService.prototype, "createTemplate").mockResolvedValue(
+      { id: "template1" } as never,
+    );
+    spyOn(RecurringTaskService.prototype, "getTemplateById").mockResolvedValue(
+      { id: "template1" } as never,
+    );
+
+    const req = createRequest({
+      user: { user_id: "u1", role: UserRole.ADMIN },
+      body: {
+        title: "Payroll",
+        rrule: "RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR",
+        start_date: "2026-02-01",
+        project_id: "p1",
+      },
+    });
+    const res = createMockResponse();
+
+    await callController(recurringTemplateController.createTemplate, req, res);
+
+    expect(res.statusCode).toBe(201);
+    expect(createSpy.mock.calls[0]![1]).toMatchObject({
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 2,
+      rrule: "FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR",
+    });
+  });
 });
 
 describe("recurringTemplateController.updateTemplate", () => {
@@ -7,6 +7,7 @@ import {
   validateInterval,
   validateRecurrenceRequirements,
   validateRecurringTemplateData,
+  validateRRule,
 } from "../src/helper/helpers";
 
 describe("validateDaysOfWeek", () => {
@@ -669,3 +670,84 @@ describe("validateRecurringTemplateData", () => {
     });
   });
 });
+
+describe("validateRRule", () => {
+  test("accepts a last-Friday-of-the-month rule", () => {
+    expect(validateRRule("FREQ=MONTHLY;BYDAY=-1FR").isValid).toBe(true);
+  });
+
+  test("accepts the RRULE: prefix and a matching frequency", () => {
+    const result = validateRRule("RRULE:FREQ=MONTHLY;BYDAY=2TU", {
+      frequency: RecurrenceFrequency.MONTHLY,
+    });
+    expect(result.isValid).toBe(true);
+  });
+
+  test("rejects unparseable rules", () => {
+    const result = validateRRule("FREQ=SOMETIMES");
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("rrule");
+  });
+
+  test("rejects sub-daily frequencies", () => {
+    const result = validateRRule("FREQ=HOURLY;INTERVAL=2");
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("FREQ must be one of");
+  });
+
+  test("rejects an embedded DTSTART", () => {
+    const result = validateRRule("DTSTART:20260101T000000Z\nRRULE:FREQ=DAILY");
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("DTSTART");
+  });
+
+  test("rejects a frequency that contradicts the rule", () => {
+    const result = validateRRule("FREQ=WEEKLY;BYDAY=MO", {
+      frequency: RecurrenceFrequency.DAILY,
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("frequency must match");
+  });
+
+  test("rejects simple fields alongside a rule", () => {
+    const result = validateRRule("FREQ=WEEKLY;BYDAY=MO", { days_of_week: [1] });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("should not be set when rrule is used");
+  });
+
+  test("rejects non-string values", () => {
+    expect(validateRRule(42).isValid).toBe(false);
+  });
+});
+
+describe("validateRecurringTemplateData with rrule", () => {
+  test("does not require frequency when rrule is given", () => {
+    const result = validateRecurringTemplateData({
+      title: "Payroll",
+      rrule: "FREQ=MONTHLY;BYDAY=-1FR",
+      start_date: "2026-02-01",
+    });
+    expect(result.isValid).toBe(true);
+  });
+
+  test("still validates the date range", () => {
+    const result = validateRecurringTemplateData({
+      title: "Payroll",
+      rrule: "FREQ=MONTHLY;BYDAY=-1FR",
+      start_date: "2026-02-01",
+      end_date: "2026-01-01",
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe("end_date must be after start_date");
+  });
+
+  test("surfaces rrule errors", () => {
+    const result = validateRecurringTemplateData({
+      title: "Payroll",
+      rrule: "FREQ=MONTHLY;BYHOUR=9",
+      start_date: "2026-02-01",
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain("BYHOUR");
+  });
+});
@@ -0,0 +1,252 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { SessionPlatform, UserRole } from "../src/generated/prisma/client";
+import * as twoFactorRepo from "../src/repositories/twoFactorRepository";
+import * as loginSecurityService from "../src/services/loginSecurityService";
+import * as twoFactorService from "../src/services/twoFactorService";
+import { base32Encode, totpCode, totpStep, totpUri, verifyTotp } from "../src/utils/totpUtils";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+const secret = base32Encode(Buffer.from("12345678901234567890"));
+
+const state = (overrides: Record<string, any> = {}) => ({
+  user_id: "u1",
+  email: "admin@example.com",
+  role: UserRole.ADMIN,
+  totp_secret: secret,
+  totp_enabled_at: new Date("2026-01-01T00:00:00Z"),
+  totp_last_used_step: null,
+  failed_login_count: 0,
+  locked_until: null,
+  organization: { require_admin_2fa: false },
+  _count: { recoveryCodes: 10 },
+  ...overrides,
+});
+
+const challenge = (overrides: Record<string, any> = {}) => ({
+  challenge_id: "c1",
+  user_id: "u1",
+  platform: SessionPlatform.browser,
+  device_name: null,
+  attempts: 0,
+  expires_at: new Date(now.getTime() + 60_000),
+  consumed_at: null,
+  ...overrides,
+});
+
+describe("totpUtils", () => {
+  test("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(totpCode(secret, totpStep(new Date(59 * 1000)))).toBe("287082");
+    expect(totpCode(secret, totpStep(new Date(1111111109 * 1000)))).toBe("081804");
+  });
+
+  test("accepts codes from the adjacent steps only", () => {
+    const step = totpStep(now);
+    expect(verifyTotp(secret, totpCode(secret, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, totpCode(secret, step + 2), now)).toBeNull();
+    expect(verifyTotp(secret, "12345", now)).toBeNull();
+  });
+
+  test("builds the otpauth URI for authenticator apps", () => {
+    expect(totpUri("ABC", "a@example.com", "Tasks")).toBe(
+      "otpauth://totp/Tasks%3Aa%40example.com?secret=ABC&issuer=Tasks&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
+
+describe("startLoginChallenge", () => {
+  test("lets users without two-factor in with their password", async () => {
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(
+      state({ role: UserRole.USER, totp_secret: null, totp_enabled_at: null }) as never,
+    );
+    const createSpy = spyOn(twoFactorRepo, "createLoginChallenge");
+
+    expect(await twoFactorService.startLoginChallenge("u1", SessionPlatform.browser, undefined, now)).toBeNull();
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("challenges enrolled users", async () => {
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state() as never);
+    spyOn(twoFactorRepo, "createLoginChallenge").mockResolvedValue("raw-challenge");
+
+    expect(await twoFactorService.startLoginChallenge("u1", SessionPlatform.browser, undefined, now)).toEqual({
+      mfa_required: true,
+      challenge_token: "raw-challenge",
+      enrollment_required: false,
+      expires_at: new Date(now.getTime() + 10 * 60_000),
+    });
+  });
+
+  test("makes super-admins and admins of enforcing organizations enroll", async () => {
+    const notEnrolled = { totp_secret: null, totp_enabled_at: null };
+    spyOn(twoFactorRepo, "getTwoFactorState")
+      .mockResolvedValueOnce(state({ ...notEnrolled, role: UserRole.SUPER_ADMIN }) as never)
+      .mockResolvedValueOnce(state({ ...notEnrolled, organization: { require_admin_2fa: true } }) as never)
+      .mockResolvedValueOnce(state(notEnrolled) as never);
+    spyOn(twoFactorRepo, "createLoginChallenge").mockResolvedValue("raw-challenge");
+
+    const superAdmin = await twoFactorService.startLoginChallenge("u1", SessionPlatform.mobile, "iPhone", now);
+    const enforcedAdmin = await twoFactorService.startLoginChallenge("u1", SessionPlatform.mobile, "iPhone", now);
+    const optionalAdmin = await twoFactorService.startLoginChallenge("u1", SessionPlatform.mobile, "iPhone", now);
+
+    expect(superAdmin?.enrollment_required).toBe(true);
+    expect(enforcedAdmin?.enrollment_required).toBe(true);
+    expect(optionalAdmin).toBeNull();
+  });
+});
+
+describe("verifyLoginChallenge", () => {
+  test("accepts a current code once and uses the challenge up", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state() as never);
+    const stepSpy = spyOn(twoFactorRepo, "consumeTotpStep").mockResolvedValue(true);
+    const consumeSpy = spyOn(twoFactorRepo, "consumeLoginChallenge").mockResolvedValue(true);
+
+    const verified = await twoFactorService.verifyLoginChallenge(
+      "raw-challenge",
+      { code: totpCode(secret, totpStep(now)) },
+      undefined,
+      now,
+    );
+
+    expect(verified).toEqual({ user_id: "u1", platform: SessionPlatform.browser, device_name: null, recovery_codes: undefined });
+    expect(stepSpy).toHaveBeenCalledWith("u1", totpStep(now));
+    expect(consumeSpy).toHaveBeenCalledWith("c1", now);
+  });
+
+  test("rejects a code whose step was already used", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state() as never);
+    spyOn(twoFactorRepo, "consumeTotpStep").mockResolvedValue(false);
+    spyOn(loginSecurityService, "recordFailedLogin").mockResolvedValue();
+    const consumeSpy = spyOn(twoFactorRepo, "consumeLoginChallenge");
+
+    await expect(
+      twoFactorService.verifyLoginChallenge("raw-challenge", { code: totpCode(secret, totpStep(now)) }, undefined, now),
+    ).rejects.toBeInstanceOf(twoFactorService.InvalidTwoFactorCodeError);
+    expect(consumeSpy).not.toHaveBeenCalled();
+  });
+
+  test("accepts a recovery code regardless of case and dashes", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state() as never);
+    const recoverySpy = spyOn(twoFactorRepo, "consumeRecoveryCode").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "consumeLoginChallenge").mockResolvedValue(true);
+
+    await twoFactorService.verifyLoginChallenge("raw-challenge", { recovery_code: "k7mp2-xq9wd" }, undefined, now);
+    await twoFactorService.verifyLoginChallenge("raw-challenge", { recovery_code: "K7MP2XQ9WD" }, undefined, now);
+
+    expect(recoverySpy.mock.calls[0]?.[1]).toBe(recoverySpy.mock.calls[1]?.[1]);
+  });
+
+  test("enables two-factor when the challenge completes enrollment", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(
+      state({ role: UserRole.SUPER_ADMIN, totp_enabled_at: null }) as never,
+    );
+    const enableSpy = spyOn(twoFactorRepo, "enableTotp").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "consumeLoginChallenge").mockResolvedValue(true);
+
+    const verified = await twoFactorService.verifyLoginChallenge(
+      "raw-challenge",
+      { code: totpCode(secret, totpStep(now)) },
+      undefined,
+      now,
+    );
+
+    expect(verified.recovery_codes).toHaveLength(10);
+    expect(verified.recovery_codes?.[0]).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/);
+    const [userId, step, hashes] = enableSpy.mock.calls[0] as any[];
+    expect(userId).toBe("u1");
+    expect(step).toBe(totpStep(now));
+    expect(hashes).toHaveLength(10);
+    expect(hashes).not.toContain(verified.recovery_codes?.[0]);
+  });
+
+  test("counts a wrong code towards the account lockout", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state() as never);
+    const failedSpy = spyOn(loginSecurityService, "recordFailedLogin").mockResolvedValue();
+    const consumeSpy = spyOn(twoFactorRepo, "consumeLoginChallenge");
+    const wrongCode = totpCode(secret, totpStep(now) + 10);
+
+    await expect(
+      twoFactorService.verifyLoginChallenge("raw-challenge", { code: wrongCode }, "203.0.113.7", now),
+    ).rejects.toBeInstanceOf(twoFactorService.InvalidTwoFactorCodeError);
+    expect(failedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: "u1" }),
+      { platform: SessionPlatform.browser, ip: "203.0.113.7", device_name: undefined },
+      now,
+    );
+    expect(consumeSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses even a correct code while the account is locked", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(
+      state({ failed_login_count: 5, locked_until: new Date(now.getTime() + 60_000) }) as never,
+    );
+    const failedSpy = spyOn(loginSecurityService, "recordFailedLogin").mockResolvedValue();
+    const stepSpy = spyOn(twoFactorRepo, "consumeTotpStep");
+
+    await expect(
+      twoFactorService.verifyLoginChallenge("raw-challenge", { code: totpCode(secret, totpStep(now)) }, undefined, now),
+    ).rejects.toBeInstanceOf(twoFactorService.InvalidTwoFactorCodeError);
+    expect(stepSpy).not.toHaveBeenCalled();
+    expect(failedSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("clears earlier failures once the code is accepted", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge() as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state({ failed_login_count: 3 }) as never);
+    spyOn(twoFactorRepo, "consumeTotpStep").mockResolvedValue(true);
+    spyOn(twoFactorRepo, "consumeLoginChallenge").mockResolvedValue(true);
+    const clearSpy = spyOn(loginSecurityService, "clearFailedLogins").mockResolvedValue();
+
+    await twoFactorService.verifyLoginChallenge("raw-challenge", { code: totpCode(secret, totpStep(now)) }, undefined, now);
+
+    expect(clearSpy).toHaveBeenCalledWith(expect.objectContaining({ user_id: "u1", failed_login_count: 3 }));
+  });
+
+  test("refuses challenges that are out of attempts", async () => {
+    spyOn(twoFactorRepo, "getLoginChallenge").mockResolvedValue(challenge({ attempts: 5 }) as never);
+    spyOn(twoFactorRepo, "recordChallengeAttempt").mockResolvedValue(false);
+    const stateSpy = spyOn(twoFactorRepo, "getTwoFactorState");
+
+    await expect(
+      twoFactorService.verifyLoginChallenge("raw-challenge", { code: "123456" }, undefined, now),
+    ).rejects.toBeInstanceOf(twoFactorService.InvalidLoginChallengeError);
+    expect(stateSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("managing two-factor", () => {
+  test("cannot be disabled while required for the user", async () => {
+    spyOn(twoFactorRepo, "getTwoFactorState").mockResolvedValue(state({ role: UserRole.SUPER_ADMIN }) as never);
+    const disableSpy = spyOn(twoFactorRepo, "disableTotp");
+
+    await expect(
+      twoFactorService.disable("u1", { code: totpCode(secret, totpStep(now)) }, now),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(disableSpy).not.toHaveBeenCalled();
+  });
+
+  test("stops sessions from refreshing until a required enrollment is done", async () => {
+    spyOn(twoFactorRepo, "getTwoFactorState")
+      .mockResolvedValueOnce(state({ role: UserRole.SUPER_ADMIN, totp_enabled_at: null }) as never)
+      .mockResolvedValueOnce(state({ role: UserRole.SUPER_ADMIN }) as never);
+
+    await expect(twoFactorService.assertEnrolledIfRequired("u1")).rejects.toMatchObject({ statusCode: 401 });
+    await twoFactorService.assertEnrolledIfRequired("u1");
+  });
+});
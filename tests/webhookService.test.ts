@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import crypto from "crypto";
+import https from "https";
+import { TaskEventType, UserRole } from "../src/generated/prisma/client";
+import * as webhookRepo from "../src/repositories/webhookRepository";
+import * as webhookService from "../src/services/webhookService";
+import * as netUtils from "../src/utils/netUtils";
+
+afterEach(() => {
+  mock.restore();
+});
+
+const now = new Date("2026-06-01T10:00:00Z");
+
+const adminCtx = {
+  actorUserId: "a1",
+  actorRole: UserRole.ADMIN,
+  actorOrgId: "org-1",
+  effectiveOrgId: "org-1",
+  isSuperAdmin: false,
+};
+
+const dueDelivery = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  endpoint_id: "w1",
+  event_type: TaskEventType.TASK_STATUS_CHANGED,
+  payload: { id: "e1", type: TaskEventType.TASK_STATUS_CHANGED, after: { status: "DONE" } },
+  attempts: 0,
+  endpoint: { url: "https://erp.example.com/hooks", secret: "whsec_test" },
+  ...overrides,
+});
+
+function allowUrls() {
+  return spyOn(netUtils, "assertPublicUrl").mockResolvedValue();
+}
+
+function stubPost(status: number) {
+  return spyOn(netUtils, "postToPublicUrl").mockResolvedValue({ ok: status >= 200 && status < 300, status });
+}
+
+describe("signWebhookPayload", () => {
+  test("signs timestamp and body with HMAC-SHA256", () => {
+    const expected = crypto.createHmac("sha256", "whsec_test").update('1780308000.{"a":1}').digest("hex");
+    expect(webhookService.signWebhookPayload("whsec_test", 1780308000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("enqueueDeliveriesForEvent", () => {
+  const event = {
+    event_id: "e1",
+    task_id: "t1",
+    actor_id: "u1",
+    type: TaskEventType.TASK_STATUS_CHANGED,
+    message: "Status changed from IN_PROGRESS to DONE",
+    before_json: { status: "IN_PROGRESS" },
+    after_json: { status: "DONE" },
+    created_at: now,
+  };
+
+  test("queues the event for enabled endpoints subscribed to its type", async () => {
+    const createMany = mock(async () => ({ count: 1 }));
+    const db = {
+      task: { findUnique: async () => ({ project: { organization_id: "org-1" } }) },
+      webhookEndpoint: {
+        findMany: async () => [
+          { id: "w1", event_types: [TaskEventType.TASK_STATUS_CHANGED] },
+          { id: "w2", event_types: [TaskEventType.COMMENT_CREATED] },
+        ],
+      },
+      webhookDelivery: { createMany },
+    };
+
+    await webhookRepo.enqueueDeliveriesForEvent(db as never, event as never);
+
+    expect(createMany).toHaveBeenCalledTimes(1);
+    const { data } = (createMany.mock.calls[0] as any[])[0];
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({ endpoint_id: "w1", event_id: "e1", event_type: TaskEventType.TASK_STATUS_CHANGED });
+    expect(data[0].payload).toEqual({
+      id: "e1",
+      type: TaskEventType.TASK_STATUS_CHANGED,
+      created_at: now.toISOString(),
+      organization_id: "org-1",
+      task_id: "t1",
+      actor_id: "u1",
+      message: "Status changed from IN_PROGRESS to DONE",
+      before: { status: "IN_PROGRESS" },
+      after: { status: "DONE" },
+    });
+  });
+
+  test("queues nothing when no endpoint subscribes", async () => {
+    const createMany = mock(async () => ({ count: 0 }));
+    const db = {
+      task: { findUnique: async () => ({ project: { organization_id: "org-1" } }) },
+      webhookEndpoint: { findMany: async () => [] },
+      webhookDelivery: { createMany },
+    };
+
+    await webhookRepo.enqueueDeliveriesForEvent(db as never, event as never);
+
+    expect(createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendPendingWebhooks", () => {
+  test("posts the signed payload and records the response", async () => {
+    spyOn(webhookRepo, "getDueDeliveries").mockResolvedValue([dueDelivery("d1")] as never);
+    const succeededSpy = spyOn(webhookRepo, "markSucceeded").mockResolvedValue();
+    const successSpy = spyOn(webhookRepo, "recordEndpointSuccess").mockResolvedValue();
+    const postSpy = stubPost(200);
+
+    const summary = await webhookService.sendPendingWebhooks(now);
+
+    expect(summary).toEqual({ succeeded: 1, retried: 0, failed: 0, disabled: 0 });
+    const [url, options] = postSpy.mock.calls[0]!;
+    expect(url).toBe("https://erp.example.com/hooks");
+    const { headers } = options;
+    const timestamp = Math.floor(now.getTime() / 1000);
+    expect(headers["X-Webhook-Id"]).toBe("d1");
+    expect(headers["X-Webhook-Event"]).toBe(TaskEventType.TASK_STATUS_CHANGED);
+    expect(headers["X-Webhook-Timestamp"]).toBe(String(timestamp));
+    expect(headers["X-Webhook-Signature"]).toBe(
+      webhookService.signWebhookPayload("whsec_test", timestamp, options.body),
+    );
+    expect(succeededSpy).toHaveBeenCalledWith("d1", 1, { status: 200 }, now);
+    expect(successSpy).toHaveBeenCalledWith("w1");
+  });
+
+  test("retries with backoff when the endpoint does not answer 2xx", async () => {
+    spyOn(webhookRepo, "getDueDeliveries").mockResolvedValue([dueDelivery("d1", { attempts: 1 })] as never);
+    const retrySpy = spyOn(webhookRepo, "scheduleRetry").mockResolvedValue();
+    spyOn(webhookRepo, "recordEndpointFailure").mockResolvedValue(1);
+    stubPost(503);
+
+    const summary = await webhookService.sendPendingWebhooks(now);
+
+    expect(summary).toEqual({ succeeded: 0, retried: 1, failed: 0, disabled: 0 });
+    expect(retrySpy).toHaveBeenCalledWith(
+      "d1",
+      2,
+      new Date(now.getTime() + 2 * 60_000),
+      { status: 503 },
+      "HTTP 503",
+    );
+  });
+
+  test("gives up after the last attempt", async () => {
+    spyOn(webhookRepo, "getDueDeliveries").mockResolvedValue([
+      dueDelivery("d1", { attempts: webhookService.MAX_WEBHOOK_ATTEMPTS - 1 }),
+    ] as never);
+    const failSpy = spyOn(webhookRepo, "markFailed").mockResolvedValue();
+    spyOn(webhookRepo, "recordEndpointFailure").mockResolvedValue(1);
+    spyOn(netUtils, "postToPublicUrl").mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    const summary = await webhookService.sendPendingWebhooks(now);
+
+    expect(summary).toEqual({ succeeded: 0, retried: 0, failed: 1, disabled: 0 });
+    expect(failSpy).toHaveBeenCalledWith(
+      "d1",
+      webhookService.MAX_WEBHOOK_ATTEMPTS,
+      { status: null },
+      "connect ECONNREFUSED",
+    );
+  });
+
+  test("disables the endpoint after too many failures in a row and skips its other deliveries", async () => {
+    spyOn(webhookRepo, "getDueDeliveries").mockResolvedValue([dueDelivery("d1"), dueDelivery("d2")] as never);
+    spyOn(webhookRepo, "scheduleRetry").mockResolvedValue();
+    spyOn(webhookRepo, "recordEndpointFailure").mockResolvedValue(20);
+    const disableSpy = spyOn(webhookRepo, "disableEndpoint").mockResolvedValue();
+    spyOn(console, "warn").mockImplementation(() => {});
+    const postSpy = stubPost(500);
+
+    const summary = await webhookService.sendPendingWebhooks(now);
+
+    expect(summary).toEqual({ succeeded: 0, retried: 1, failed: 0, disabled: 1 });
+    expect(disableSpy).toHaveBeenCalledWith("w1", now, "Endpoint disabled after 20 failed attempts");
+    expect(postSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not send to an endpoint whose host resolves to a private address", async () => {
+    spyOn(webhookRepo, "getDueDeliveries").mockResolvedValue([
+      dueDelivery("d1", { endpoint: { url: "https://169.254.169.254/latest", secret: "whsec_test" } }),
+    ] as never);
+    const retrySpy = spyOn(webhookRepo, "scheduleRetry").mockResolvedValue();
+    spyOn(webhookRepo, "recordEndpointFailure").mockResolvedValue(1);
+    const requestSpy = spyOn(https, "request");
+
+    const summary = await webhookService.sendPendingWebhooks(now);
+
+    expect(summary).toEqual({ succeeded: 0, retried: 1, failed: 0, disabled: 0 });
+    expect(requestSpy).not.toHaveBeenCalled();
+    expect(retrySpy).toHaveBeenCalledWith(
+      "d1",
+      1,
+      expect.any(Date),
+      { status: null },
+      "169.254.169.254 does not resolve to a public address",
+    );
+  });
+});
+
+describe("webhook endpoints", () => {
+  test("rejects non-admins", async () => {
+    const ctx = { ...adminCtx, actorUserId: "u1", actorRole: UserRole.USER };
+    const createSpy = spyOn(webhookRepo, "createEndpoint");
+
+    await expect(
+      webhookService.createEndpoint(ctx, { url: "https://erp.example.com/hooks", event_types: [TaskEventType.TASK_CREATED] }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("creates the endpoint with a generated secret", async () => {
+    allowUrls();
+    const createSpy = spyOn(webhookRepo, "createEndpoint").mockResolvedValue({ id: "w1" } as never);
+    const input = { url: "https://erp.example.com/hooks", event_types: [TaskEventType.TASK_STATUS_CHANGED] };
+
+    await webhookService.createEndpoint(adminCtx, input);
+
+    expect(createSpy).toHaveBeenCalledWith("org-1", input, expect.stringMatching(/^whsec_[0-9a-f]{48}$/), "a1");
+  });
+
+  test("rejects a URL that resolves to a private address", async () => {
+    const createSpy = spyOn(webhookRepo, "createEndpoint");
+
+    await expect(
+      webhookService.createEndpoint(adminCtx, { url: "https://127.0.0.1/hooks", event_types: [TaskEventType.TASK_CREATED] }),
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses to redeliver to a disabled endpoint", async () => {
+    spyOn(webhookRepo, "getEndpointInOrg").mockResolvedValue({ id: "w1", enabled: false } as never);
+    const redeliverSpy = spyOn(webhookRepo, "redeliver");
+
+    await expect(webhookService.redeliver(adminCtx, "w1", "d1")).rejects.toBeInstanceOf(
+      webhookService.WebhookEndpointDisabledError,
+    );
+    expect(redeliverSpy).not.toHaveBeenCalled();
+  });
+});